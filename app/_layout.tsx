@@ -67,6 +67,15 @@ function RootLayoutNav() {
           headerTintColor: BoringAI.colors.text,
         }}
       />
+      <Stack.Screen
+        name="profile/scoring"
+        options={{
+          title: "Scoring Weights",
+          headerLargeTitle: false,
+          headerStyle: { backgroundColor: BoringAI.colors.surface },
+          headerTintColor: BoringAI.colors.text,
+        }}
+      />
       <Stack.Screen
         name="job/analyze"
         options={{
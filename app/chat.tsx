@@ -1,5 +1,8 @@
 import { createRorkTool, useRorkAgent } from "@rork-ai/toolkit-sdk";
+import { appendDomainProvenance, createProvenance } from "../lib/provenance";
+import { ingestSuggested, profileHasItems } from "../lib/resumeIngestion";
 import { parseResumeText, type ResumeData } from "../lib/resumeParser";
+import { computeOverallScore, resolveScoreWeights } from "../lib/scoreWeights";
 import { normalizeText } from "../lib/sourceOfTruth";
 import { extractResumeText } from "../lib/resumeTextExtractor";
 import * as DocumentPicker from "expo-document-picker";
@@ -22,6 +25,8 @@ import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { z } from "zod";
 
 import { useUserProfile } from "../contexts/UserProfileContext";
+import type { UserProfile } from "../types/profile";
+import ResumeImportReview from "../ui/components/ResumeImportReview";
 
 type QuickReply = {
   label: string;
@@ -35,6 +40,7 @@ export default function ChatScreen() {
   const [input, setInput] = useState("");
   const [uploadedFile, setUploadedFile] = useState<string | null>(null);
   const [isParsingResume, setIsParsingResume] = useState(false);
+  const [pendingImport, setPendingImport] = useState<ResumeData | null>(null);
   const flatListRef = useRef<FlatList>(null);
   const insets = useSafeAreaInsets();
 
@@ -65,6 +71,7 @@ export default function ChatScreen() {
                   id: Date.now().toString() + Math.random(),
                   name: skill.name,
                   category: skill.category || "General",
+                  provenance: [createProvenance("chat_tool", { toolName: "storeSkills" })],
                 })),
               ],
             });
@@ -97,6 +104,7 @@ export default function ChatScreen() {
                   id: Date.now().toString() + Math.random(),
                   name: tool.name,
                   category: tool.category || "General",
+                  provenance: [createProvenance("chat_tool", { toolName: "storeTools" })],
                 })),
               ],
             });
@@ -116,11 +124,18 @@ export default function ChatScreen() {
         execute(input: any) {
           console.log("[storeDomainExperience] Storing domains:", input);
           try {
+            const domains: string[] = input.domains || [];
             updateProfile({
-              domainExperience: [
-                ...profile.domainExperience,
-                ...(input.domains || []),
-              ],
+              domainExperience: [...profile.domainExperience, ...domains],
+              domainProvenance: appendDomainProvenance(
+                profile.domainProvenance,
+                Object.fromEntries(
+                  domains.map((domain) => [
+                    normalizeText(domain),
+                    [createProvenance("chat_tool", { toolName: "storeDomainExperience" })],
+                  ])
+                )
+              ),
             });
             return "Domain experience stored successfully";
           } catch (error) {
@@ -147,6 +162,7 @@ export default function ChatScreen() {
                   name: input.name,
                   issuer: input.issuer || "",
                   date: input.date || "",
+                  provenance: [createProvenance("chat_tool", { toolName: "storeCertification" })],
                 },
               ],
             });
@@ -227,15 +243,11 @@ export default function ChatScreen() {
         execute(input: any) {
           console.log("[calculateFitScore] Calculating fit score:", input);
           try {
-            const overall =
-              input.experienceAlignment * 0.3 +
-              input.technicalSkillMatch * 0.25 +
-              input.domainRelevance * 0.2 +
-              input.stageCulturalFit * 0.15 +
-              input.impactPotential * 0.1;
+            const weights = resolveScoreWeights(profile);
+            const overall = computeOverallScore(input, weights);
 
             const result = {
-              overall: Math.round(overall),
+              overall,
               breakdown: {
                 experienceAlignment: input.experienceAlignment,
                 technicalSkillMatch: input.technicalSkillMatch,
@@ -250,6 +262,7 @@ export default function ChatScreen() {
                 stageCulturalFit: input.rationaleCulture,
                 impactPotential: input.rationaleImpact,
               },
+              weights,
             };
 
             return JSON.stringify(result);
@@ -345,6 +358,52 @@ IMPORTANT: ALWAYS end questions with [Options: choice1 | choice2 | ...] format.
     setWaitingForUserInput(true);
   }, [input, uploadedFile, sendMessage, profile]);
 
+  const finishImport = useCallback(async (updates: Partial<UserProfile>) => {
+    const updatedProfile = { ...profile, ...updates };
+    updateProfile(updates);
+    console.log("[handleUpload] Profile updated, sending follow-up message...");
+
+    const added = (key: "experience" | "skills" | "certifications" | "education" | "tools" | "projects") =>
+      updatedProfile[key].length - profile[key].length;
+
+    const systemContext = `<system>
+You are JobMatch, a conversational job-fit and resume-tailoring agent.
+
+RULES:
+1. Ask ONE short question at a time (max 8-12 words)
+2. ALWAYS provide 2-5 clickable options. Format them EXACTLY like this at the END of your message:
+   [Options: Option1 | Option2 | Option3]
+3. NEVER ask the same question twice - check clarifyingAnswers
+4. Always store answers using the tools provided
+5. Keep tone friendly and simple
+
+Current user profile:
+${JSON.stringify(updatedProfile, null, 2)}
+
+IMPORTANT: ALWAYS end questions with [Options: choice1 | choice2 | ...] format.
+</system>
+
+User uploaded resume. Successfully extracted and verified:
+- ${added("experience")} experiences
+- ${added("skills")} skills
+- ${added("certifications")} certifications
+- ${added("education")} education entries
+- ${added("tools")} tools
+- ${added("projects")} projects
+
+Now confirm the upload success briefly and ask ONE simple clarifying question with options to improve the profile. Focus on the most important missing info.`;
+
+    try {
+      await sendMessage({ text: systemContext });
+      console.log("[handleUpload] Follow-up message sent successfully");
+    } catch (msgError) {
+      console.error("[handleUpload] Error sending follow-up message:", msgError);
+    } finally {
+      setIsParsingResume(false);
+      setWaitingForUserInput(true);
+    }
+  }, [profile, sendMessage, updateProfile]);
+
   const handleUpload = useCallback(async () => {
     console.log("[handleUpload] Starting document upload...");
     try {
@@ -428,187 +487,12 @@ IMPORTANT: ALWAYS end questions with [Options: choice1 | choice2 | ...] format.
         toolsCount: parsed.tools.length,
       });
 
-      const newExperiences = (parsed.experience || []).map((exp) => ({
-        ...exp,
-        id: Date.now().toString() + Math.random(),
-      }));
-
-      const existingExpNormalized = profile.experience.map((exp) => ({
-        title: normalizeText(exp.title),
-        company: normalizeText(exp.company),
-      }));
-
-      const deduplicatedExperiences = newExperiences.filter((newExp) => {
-        const normalized = {
-          title: normalizeText(newExp.title),
-          company: normalizeText(newExp.company),
-        };
-        const isDuplicate = existingExpNormalized.some(
-          (existing) =>
-            existing.title === normalized.title &&
-            existing.company === normalized.company
-        );
-        if (isDuplicate) {
-          console.log(
-            `[handleUpload] Skipping duplicate experience: ${newExp.title} at ${newExp.company}`
-          );
-        }
-        return !isDuplicate;
-      });
-
-      const newSkills = (parsed.skills || []).map((skill) => ({
-        ...skill,
-        id: Date.now().toString() + Math.random(),
-        source: 'resume_parse' as const,
-        confirmedAt: new Date().toISOString(),
-      }));
-
-      const existingSkillsNormalized = profile.skills.map((s) =>
-        normalizeText(s.name)
-      );
-
-      const deduplicatedSkills = newSkills.filter((newSkill) => {
-        const normalized = normalizeText(newSkill.name);
-        const isDuplicate = existingSkillsNormalized.includes(normalized);
-        if (isDuplicate) {
-          console.log(`[handleUpload] Skipping duplicate skill: ${newSkill.name}`);
-        }
-        return !isDuplicate;
-      });
-
-      const newCertifications = (parsed.certifications || []).map((cert) => ({
-        ...cert,
-        id: Date.now().toString() + Math.random(),
-      }));
-
-      const existingCertsNormalized = profile.certifications.map((c) =>
-        normalizeText(c.name)
-      );
-
-      const deduplicatedCertifications = newCertifications.filter((newCert) => {
-        const normalized = normalizeText(newCert.name);
-        const isDuplicate = existingCertsNormalized.includes(normalized);
-        if (isDuplicate) {
-          console.log(
-            `[handleUpload] Skipping duplicate certification: ${newCert.name}`
-          );
-        }
-        return !isDuplicate;
-      });
-
-      const newTools = (parsed.tools || []).map((tool) => ({
-        ...tool,
-        id: Date.now().toString() + Math.random(),
-        source: 'resume_parse' as const,
-        confirmedAt: new Date().toISOString(),
-      }));
-
-      const existingToolsNormalized = profile.tools.map((t) =>
-        normalizeText(t.name)
-      );
-
-      const deduplicatedTools = newTools.filter((newTool) => {
-        const normalized = normalizeText(newTool.name);
-        const isDuplicate = existingToolsNormalized.includes(normalized);
-        if (isDuplicate) {
-          console.log(`[handleUpload] Skipping duplicate tool: ${newTool.name}`);
-        }
-        return !isDuplicate;
-      });
-
-      const newProjects = (parsed.projects || []).map((project) => ({
-        ...project,
-        id: Date.now().toString() + Math.random(),
-      }));
-
-      const existingProjectsNormalized = profile.projects.map((p) =>
-        normalizeText(p.title)
-      );
-
-      const deduplicatedProjects = newProjects.filter((newProject) => {
-        const normalized = normalizeText(newProject.title);
-        const isDuplicate = existingProjectsNormalized.includes(normalized);
-        if (isDuplicate) {
-          console.log(
-            `[handleUpload] Skipping duplicate project: ${newProject.title}`
-          );
-        }
-        return !isDuplicate;
-      });
-
-      const newDomains = parsed.domainExperience || [];
-      const existingDomainsNormalized = profile.domainExperience.map((d) =>
-        normalizeText(d)
-      );
-
-      const deduplicatedDomains = newDomains.filter((newDomain) => {
-        const normalized = normalizeText(newDomain);
-        const isDuplicate = existingDomainsNormalized.includes(normalized);
-        if (isDuplicate) {
-          console.log(`[handleUpload] Skipping duplicate domain: ${newDomain}`);
-        }
-        return !isDuplicate;
-      });
-
-      updateProfile({
-        experience: [...profile.experience, ...deduplicatedExperiences],
-        skills: [...profile.skills, ...deduplicatedSkills],
-        certifications: [...profile.certifications, ...deduplicatedCertifications],
-        tools: [...profile.tools, ...deduplicatedTools],
-        projects: [...profile.projects, ...deduplicatedProjects],
-        domainExperience: [
-          ...profile.domainExperience,
-          ...deduplicatedDomains,
-        ],
-      });
-
-      console.log("[handleUpload] Profile updated, sending follow-up message...");
-
-      const updatedProfile = {
-        ...profile,
-        experience: [...profile.experience, ...deduplicatedExperiences],
-        skills: [...profile.skills, ...deduplicatedSkills],
-        certifications: [...profile.certifications, ...deduplicatedCertifications],
-        tools: [...profile.tools, ...deduplicatedTools],
-        projects: [...profile.projects, ...deduplicatedProjects],
-        domainExperience: [...profile.domainExperience, ...deduplicatedDomains],
-      };
-
-      const systemContext = `<system>
-You are JobMatch, a conversational job-fit and resume-tailoring agent.
-
-RULES:
-1. Ask ONE short question at a time (max 8-12 words)
-2. ALWAYS provide 2-5 clickable options. Format them EXACTLY like this at the END of your message:
-   [Options: Option1 | Option2 | Option3]
-3. NEVER ask the same question twice - check clarifyingAnswers
-4. Always store answers using the tools provided
-5. Keep tone friendly and simple
-
-Current user profile:
-${JSON.stringify(updatedProfile, null, 2)}
-
-IMPORTANT: ALWAYS end questions with [Options: choice1 | choice2 | ...] format.
-</system>
-
-User uploaded resume. Successfully extracted and verified:
-- ${deduplicatedExperiences.length} experiences
-- ${deduplicatedSkills.length} skills
-- ${deduplicatedCertifications.length} certifications
-- ${deduplicatedTools.length} tools
-- ${deduplicatedProjects.length} projects
-
-Now confirm the upload success briefly and ask ONE simple clarifying question with options to improve the profile. Focus on the most important missing info.`;
-
-      try {
-        await sendMessage({ text: systemContext });
-        console.log("[handleUpload] Follow-up message sent successfully");
-      } catch (msgError) {
-        console.error("[handleUpload] Error sending follow-up message:", msgError);
-      } finally {
-        setIsParsingResume(false);
-        setWaitingForUserInput(true);
+      if (profileHasItems(profile)) {
+        console.log("[handleUpload] Profile has items, opening import review");
+        setPendingImport(parsed);
+        return;
       }
+      await finishImport(ingestSuggested(profile, parsed));
 
       console.log("[handleUpload] Resume processing completed successfully");
     } catch (err) {
@@ -617,7 +501,7 @@ Now confirm the upload success briefly and ask ONE simple clarifying question wi
       setIsParsingResume(false);
       setWaitingForUserInput(true);
     }
-  }, [profile, sendMessage, updateProfile, setMessages]);
+  }, [profile, setMessages, finishImport]);
 
   const handleQuickReply = useCallback(async (value: string) => {
     console.log("[handleQuickReply] User selected quick reply:", value);
@@ -849,6 +733,19 @@ Now confirm the upload success briefly and ask ONE simple clarifying question wi
           </TouchableOpacity>
         </View>
       </KeyboardAvoidingView>
+
+      <ResumeImportReview
+        parsed={pendingImport}
+        onApply={async (updates) => {
+          setPendingImport(null);
+          await finishImport(updates);
+        }}
+        onCancel={() => {
+          setPendingImport(null);
+          setIsParsingResume(false);
+          setWaitingForUserInput(true);
+        }}
+      />
     </View>
   );
 }
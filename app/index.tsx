@@ -17,133 +17,37 @@ import { SafeAreaView } from "react-native-safe-area-context";
 import { useMutation } from "@tanstack/react-query";
 
 import { useUserProfile } from "../contexts/UserProfileContext";
-import { loadJobRuns } from "../lib/historyStore";
+import { ingestSuggested, profileHasItems } from "../lib/resumeIngestion";
 import { parseResumeText, showParseSuccessAlert, type ResumeData } from "../lib/resumeParser";
+import ResumeImportReview from "../ui/components/ResumeImportReview";
 import { BoringAI } from "../ui/theme/boringAiTheme";
 
 export default function HomeScreen() {
-  const { profile, updateProfile, isProfileComplete, addResumeAsset, activeProfileId } = useUserProfile();
+  const { profile, updateProfile, isProfileComplete, addResumeAsset, jobs } = useUserProfile();
   const [isOnboarding, setIsOnboarding] = useState(false);
+  const [pendingImport, setPendingImport] = useState<ResumeData | null>(null);
 
   const hasProfile = isProfileComplete();
 
-  const [jobRunsCount, setJobRunsCount] = React.useState(0);
-
-  React.useEffect(() => {
-    if (activeProfileId && hasProfile) {
-      loadJobRuns(activeProfileId).then((runs) => setJobRunsCount(runs.length));
-    }
-  }, [activeProfileId, hasProfile]);
-
-  const { mutateAsync: parseResumeAsync, isPending: isParsingResume } = useMutation<ResumeData, Error, string>({
-    mutationFn: async (resumeText: string): Promise<ResumeData> => {
-      return await parseResumeText(resumeText);
+  const { mutateAsync: parseResumeAsync, isPending: isParsingResume } = useMutation<
+    ResumeData,
+    Error,
+    { text: string; assetId: string }
+  >({
+    mutationFn: async ({ text, assetId }): Promise<ResumeData> => {
+      return await parseResumeText(text, { assetId });
     },
-    onSuccess: (parsed) => {
+    onSuccess: async (parsed) => {
       console.log("[onboarding] Resume parsed successfully", parsed);
 
-      const experience = (parsed?.experience || []).map((exp: any) => ({
-        ...exp,
-        id: Date.now().toString() + Math.random(),
-      }));
-
-      const skills = (parsed?.skills || []).map((skill: any) => ({
-        ...skill,
-        id: Date.now().toString() + Math.random(),
-        source: 'resume_parse' as const,
-        confirmedAt: new Date().toISOString(),
-      }));
-
-      const certifications = (parsed?.certifications || []).map((cert: any) => ({
-        ...cert,
-        id: Date.now().toString() + Math.random(),
-      }));
-
-      const tools = (parsed?.tools || []).map((tool: any) => ({
-        ...tool,
-        id: Date.now().toString() + Math.random(),
-        source: 'resume_parse' as const,
-        confirmedAt: new Date().toISOString(),
-      }));
-
-      const projects = (parsed?.projects || []).map((project: any) => ({
-        ...project,
-        id: Date.now().toString() + Math.random(),
-      }));
-
-      const domainExperience = parsed?.domainExperience || [];
-
-      const dedupeSkills = (existing: typeof skills, incoming: typeof skills) => {
-        const existingNames = new Set(
-          existing.map((s) => s.name.trim().toLowerCase())
-        );
-        return incoming.filter(
-          (s) => !existingNames.has(s.name.trim().toLowerCase())
-        );
-      };
-
-      const dedupeTools = (existing: typeof tools, incoming: typeof tools) => {
-        const existingNames = new Set(
-          existing.map((t) => t.name.trim().toLowerCase())
-        );
-        return incoming.filter(
-          (t) => !existingNames.has(t.name.trim().toLowerCase())
-        );
-      };
-
-      const dedupeCerts = (
-        existing: typeof certifications,
-        incoming: typeof certifications
-      ) => {
-        const existingKeys = new Set(
-          existing.map(
-            (c) => `${c.name.trim().toLowerCase()}_${c.issuer.trim().toLowerCase()}`
-          )
-        );
-        return incoming.filter(
-          (c) =>
-            !existingKeys.has(
-              `${c.name.trim().toLowerCase()}_${c.issuer.trim().toLowerCase()}`
-            )
-        );
-      };
-
-      const dedupeExperience = (
-        existing: typeof experience,
-        incoming: typeof experience
-      ) => {
-        const existingKeys = new Set(
-          existing.map(
-            (e) =>
-              `${e.title.trim().toLowerCase()}_${e.company.trim().toLowerCase()}_${e.startDate}`
-          )
-        );
-        return incoming.filter(
-          (e) =>
-            !existingKeys.has(
-              `${e.title.trim().toLowerCase()}_${e.company.trim().toLowerCase()}_${e.startDate}`
-            )
-        );
-      };
-
-      updateProfile({
-        experience: [...profile.experience, ...dedupeExperience(profile.experience, experience)],
-        skills: [...profile.skills, ...dedupeSkills(profile.skills, skills)],
-        certifications: [
-          ...profile.certifications,
-          ...dedupeCerts(profile.certifications, certifications),
-        ],
-        tools: [...profile.tools, ...dedupeTools(profile.tools, tools)],
-        projects: [...profile.projects, ...projects],
-        domainExperience: [
-          ...profile.domainExperience,
-          ...domainExperience,
-        ],
-      });
-
-      showParseSuccessAlert(parsed, () => {
-        router.push("/job/analyze");
-      });
+      if (profileHasItems(profile)) {
+        setPendingImport(parsed);
+      } else {
+        await updateProfile(ingestSuggested(profile, parsed));
+        showParseSuccessAlert(parsed, () => {
+          router.push("/job/analyze");
+        });
+      }
 
       setIsOnboarding(false);
     },
@@ -230,7 +134,7 @@ export default function HomeScreen() {
       console.log("[onboarding] Resume asset saved with ID:", resumeAsset.id);
 
       try {
-        await parseResumeAsync(extracted.text);
+        await parseResumeAsync({ text: extracted.text, assetId: resumeAsset.id });
       } catch (err: any) {
         console.error("[onboarding] parseResumeAsync error:", err?.message ?? err);
         Alert.alert("Error", err?.message ? `Failed to parse resume: ${err.message}` : "Failed to parse resume. Please try again.");
@@ -243,6 +147,22 @@ export default function HomeScreen() {
     }
   };
 
+  const importReview = (
+    <ResumeImportReview
+      parsed={pendingImport}
+      onApply={async (updates) => {
+        await updateProfile(updates);
+        if (pendingImport) {
+          showParseSuccessAlert(pendingImport, () => {
+            router.push("/job/analyze");
+          });
+        }
+        setPendingImport(null);
+      }}
+      onCancel={() => setPendingImport(null)}
+    />
+  );
+
   if (!hasProfile) {
     return (
       <SafeAreaView style={styles.container} edges={["top"]}>
@@ -285,6 +205,7 @@ export default function HomeScreen() {
             </View>
           </View>
         </ScrollView>
+        {importReview}
       </SafeAreaView>
     );
   }
@@ -384,7 +305,7 @@ export default function HomeScreen() {
           </View>
           <View style={styles.jobsStats}>
             <Text style={styles.jobsStatsText}>
-              {jobRunsCount} job{jobRunsCount !== 1 ? 's' : ''} with tailored resumes
+              {jobs.length} saved job{jobs.length !== 1 ? 's' : ''}
             </Text>
           </View>
           <TouchableOpacity
@@ -416,6 +337,7 @@ export default function HomeScreen() {
           </Text>
         </View>
       </ScrollView>
+      {importReview}
     </SafeAreaView>
   );
 }
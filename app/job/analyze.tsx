@@ -14,11 +14,24 @@ import {
   View,
 } from "react-native";
 
+import { z } from "zod";
+
 import { useUserProfile } from "../../contexts/UserProfileContext";
-import { generateText } from "@rork-ai/toolkit-sdk";
+import { generateJson } from "../../lib/llmJson";
 import type { JobPosting } from "../../types/profile";
 import { BoringAI } from "../../ui/theme/boringAiTheme";
 
+const jobAnalysisSchema = z.object({
+  title: z.string().optional().default(""),
+  company: z.string().optional().default(""),
+  description: z.string().optional().default(""),
+  requiredSkills: z.array(z.string()).optional().default([]),
+  preferredSkills: z.array(z.string()).optional().default([]),
+  responsibilities: z.array(z.string()).optional().default([]),
+  seniority: z.string().optional().default(""),
+  domain: z.string().optional().default(""),
+});
+
 export default function AnalyzeJobScreen() {
   const { profile, addJobPosting, getResumeAssets } = useUserProfile();
   const [jobText, setJobText] = useState("");
@@ -51,38 +64,29 @@ export default function AnalyzeJobScreen() {
     setIsAnalyzing(true);
 
     try {
-      const aiResponse = await generateText({
-        messages: [
-          {
-            role: "user",
-            content: `Parse this job posting and extract the key information. Return a JSON object with: title, company, description (brief summary), requiredSkills (array of strings), preferredSkills (array of strings), responsibilities (array of key responsibilities), seniority (entry/mid/senior/lead), domain (e.g., healthcare, fintech, etc.).
+      const parsed = await generateJson(
+        jobAnalysisSchema,
+        `Parse this job posting and extract the key information. Return a JSON object with: title, company, description (brief summary), requiredSkills (array of strings), preferredSkills (array of strings), responsibilities (array of key responsibilities), seniority (entry/mid/senior/lead), domain (e.g., healthcare, fintech, etc.).
 
 Job Posting:
 ${jobText}
 
 Return only valid JSON, no additional text.`,
-          },
-        ],
-      });
-
-      let cleanedResponse = aiResponse.trim();
-      if (cleanedResponse.startsWith('```')) {
-        cleanedResponse = cleanedResponse.replace(/^```(?:json)?\n?/, '').replace(/\n?```$/, '');
-      }
-
-      const parsed = JSON.parse(cleanedResponse);
+        { label: "analyzeJob" }
+      );
 
       const jobPosting: JobPosting = {
         id: Date.now().toString(),
         title: parsed.title || "Untitled Position",
         company: parsed.company || "Unknown Company",
         description: parsed.description || jobText.substring(0, 200),
-        requiredSkills: parsed.requiredSkills || [],
-        preferredSkills: parsed.preferredSkills || [],
-        responsibilities: parsed.responsibilities || [],
+        requiredSkills: parsed.requiredSkills,
+        preferredSkills: parsed.preferredSkills,
+        responsibilities: parsed.responsibilities,
         seniority: parsed.seniority || "mid",
         domain: parsed.domain || "general",
         timestamp: new Date().toISOString(),
+        rawText: jobText,
       };
 
       addJobPosting(jobPosting);
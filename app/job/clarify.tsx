@@ -10,14 +10,34 @@ import {
   View,
 } from "react-native";
 
+import { z } from "zod";
+
 import { useUserProfile } from "../../contexts/UserProfileContext";
-import { generateText } from "@rork-ai/toolkit-sdk";
+import { generateJson } from "../../lib/llmJson";
 import ClarifyingQuestions, { ClarifyingQuestion } from "../../ui/components/ClarifyingQuestions";
 import { BoringAI } from "../../ui/theme/boringAiTheme";
 
 const MAX_QUESTIONS = 5;
 const TARGET_QUESTIONS = 4;
 
+const clarifyingQuestionsSchema = z.object({
+  questions: z
+    .array(
+      z.object({
+        id: z.string().min(1),
+        text: z.string().min(1),
+        topic: z.string().min(1),
+        category: z.enum(["skill", "tool", "domain", "experience"]),
+        topicKey: z.string().min(1),
+        requiresProficiency: z.boolean().optional(),
+        priority: z.number().optional(),
+        why: z.string().optional(),
+      })
+    )
+    .optional()
+    .default([]),
+});
+
 export default function ClarifyScreen() {
   const { jobId } = useLocalSearchParams<{ jobId: string }>();
   const { profile, jobPostings, hasClarificationFor } = useUserProfile();
@@ -46,11 +66,9 @@ export default function ClarifyScreen() {
           })),
         };
 
-        const aiResponse = await generateText({
-          messages: [
-            {
-              role: "user",
-              content: `You are analyzing gaps between a job posting and a candidate's profile.
+        const parsed = await generateJson(
+          clarifyingQuestionsSchema,
+          `You are analyzing gaps between a job posting and a candidate's profile.
 
 Job Posting:
 - Title: ${job.title}
@@ -90,26 +108,13 @@ Return ONLY valid JSON in this format:
     }
   ]
 }`,
-            },
-          ],
-        });
-
-        console.log("[generateQuestions] Raw AI response:", aiResponse?.slice(0, 200));
-
-        let cleanedResponse = typeof aiResponse === "string" ? aiResponse.trim() : String(aiResponse || "").trim();
-        
-        if (cleanedResponse.startsWith("```")) {
-          cleanedResponse = cleanedResponse.replace(/^```(?:json)?\n?/, "").replace(/\n?```$/, "");
-        }
-
-        console.log("[generateQuestions] Cleaned response:", cleanedResponse.slice(0, 200));
-
-        const parsed = JSON.parse(cleanedResponse);
-        const generatedQuestions: ClarifyingQuestion[] = parsed.questions || [];
+          { label: "generateQuestions" }
+        );
+        const generatedQuestions: ClarifyingQuestion[] = parsed.questions;
 
         const filteredQuestions = generatedQuestions
           .filter((q: ClarifyingQuestion) => !hasClarificationFor(q.topicKey))
-          .sort((a: any, b: any) => (a.priority || 5) - (b.priority || 5))
+          .sort((a, b) => (a.priority || 5) - (b.priority || 5))
           .slice(0, MAX_QUESTIONS);
 
         const finalQuestions = filteredQuestions.length > TARGET_QUESTIONS && 
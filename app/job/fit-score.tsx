@@ -1,5 +1,6 @@
 import { router, useLocalSearchParams } from "expo-router";
 import {
+  AlertTriangle,
   Award,
   Briefcase,
   FileText,
@@ -8,7 +9,7 @@ import {
   TrendingUp,
   Users,
 } from "lucide-react-native";
-import React, { useCallback, useEffect, useState } from "react";
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import {
   ActivityIndicator,
   Animated,
@@ -18,22 +19,79 @@ import {
   TouchableOpacity,
   View,
 } from "react-native";
+import { useQueryClient } from "@tanstack/react-query";
+
+import { z } from "zod";
 
 import { useUserProfile } from "../../contexts/UserProfileContext";
-import { generateText } from "@rork-ai/toolkit-sdk";
+import { listGaps, reconcileGaps, type LabeledGap } from "../../lib/fitGaps";
+import { calculateLocalFitScore, scoresDisagree } from "../../lib/fitScoring";
+import { addFitScoreRecord, computeProfileRevision } from "../../lib/historyStore";
+import { getJob, setGapNonFit } from "../../lib/jobRepository";
+import { generateJson } from "../../lib/llmJson";
+import { computeOverallScore, formatScoreWeights, resolveScoreWeights } from "../../lib/scoreWeights";
+import { computeExperienceMonths, computeTotalTenureMonths, formatTenure } from "../../lib/tenure";
 import type { FitScore } from "../../types/profile";
+import ClarifyingQuestions, { type ClarifyingQuestion } from "../../ui/components/ClarifyingQuestions";
 import { BoringAI } from "../../ui/theme/boringAiTheme";
 
+const scoreSchema = z.number().min(0).max(100);
+
+const fitScoreSchema = z.object({
+  experienceAlignment: scoreSchema,
+  technicalSkillMatch: scoreSchema,
+  domainRelevance: scoreSchema,
+  stageCulturalFit: scoreSchema,
+  impactPotential: scoreSchema,
+  rationale: z.object({
+    experienceAlignment: z.string(),
+    technicalSkillMatch: z.string(),
+    domainRelevance: z.string(),
+    stageCulturalFit: z.string(),
+    impactPotential: z.string(),
+  }),
+  gaps: z
+    .object({
+      missingSkills: z.array(z.string()).optional().default([]),
+      missingTools: z.array(z.string()).optional().default([]),
+      missingDomains: z.array(z.string()).optional().default([]),
+    })
+    .optional(),
+});
+
+function gapQuestion(gap: LabeledGap): ClarifyingQuestion {
+  return {
+    id: `gap-${gap.key}`,
+    text: `Do you have experience with ${gap.name}?`,
+    topic: gap.name,
+    category: gap.category,
+    topicKey: gap.key,
+    requiresProficiency: gap.category !== "domain",
+    why: `${gap.requirement === "required" ? "Required" : "Preferred"} for this role.`,
+  };
+}
+
 export default function FitScoreScreen() {
   const { jobId } = useLocalSearchParams<{ jobId: string }>();
-  const { profile, jobPostings } = useUserProfile();
+  const { profile, jobPostings, activeProfileId, hasClarificationFor } = useUserProfile();
+  const queryClient = useQueryClient();
   const [fitScore, setFitScore] = useState<FitScore | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(true);
   const [scoreAnimation] = useState(new Animated.Value(0));
   const [expandedSections, setExpandedSections] = useState<Record<string, boolean>>({});
+  const [answeringGap, setAnsweringGap] = useState<LabeledGap | null>(null);
+  const [nonFitGaps, setNonFitGaps] = useState<string[]>([]);
+  const analyzedJobId = useRef<string | null>(null);
 
   const job = jobPostings.find((j) => j.id === jobId);
 
+  const weights = useMemo(() => resolveScoreWeights(profile), [profile]);
+
+  const localScore = useMemo(
+    () => (job ? calculateLocalFitScore(profile, job, weights) : null),
+    [job, profile, weights]
+  );
+
   const analyzeFit = useCallback(async () => {
     if (!job) return;
 
@@ -45,17 +103,19 @@ export default function FitScoreScreen() {
           title: exp.title,
           company: exp.company,
           duration: `${exp.startDate} - ${exp.current ? "Present" : exp.endDate}`,
+          tenure: formatTenure(computeExperienceMonths(exp)),
           description: exp.description,
         })),
+        totalExperience: formatTenure(computeTotalTenureMonths(profile.experience)),
         skills: profile.skills.map((s) => s.name),
         certifications: profile.certifications.map((c) => c.name),
+        tools: profile.tools.map((t) => t.name),
+        domainExperience: profile.domainExperience,
       };
 
-      const aiResponse = await generateText({
-        messages: [
-          {
-            role: "user",
-            content: `You are an expert career advisor. Analyze the fit between this candidate profile and job posting.
+      const parsed = await generateJson(
+        fitScoreSchema,
+        `You are an expert career advisor. Analyze the fit between this candidate profile and job posting.
 
 Candidate Profile:
 ${JSON.stringify(profileSummary, null, 2)}
@@ -70,17 +130,16 @@ Seniority: ${job.seniority}
 Domain: ${job.domain}
 
 Provide a fit score analysis with:
-1. Overall score (0-100)
-2. Experience Alignment score (0-100)
-3. Technical Skill Match score (0-100)
-4. Domain Relevance score (0-100)
-5. Stage/Cultural Fit score (0-100)
-6. Impact Potential score (0-100)
-7. Detailed rationale for each dimension (2-3 sentences each)
+1. Experience Alignment score (0-100), judging years of experience by totalExperience (overlapping roles counted once)
+2. Technical Skill Match score (0-100)
+3. Domain Relevance score (0-100)
+4. Stage/Cultural Fit score (0-100)
+5. Impact Potential score (0-100)
+6. Detailed rationale for each dimension (2-3 sentences each)
+7. Gaps: required or preferred skills, tools and the domain from the posting that the candidate does not show. Only list items named in the posting.
 
 Return ONLY valid JSON in this exact format:
 {
-  "overall": number,
   "experienceAlignment": number,
   "technicalSkillMatch": number,
   "domainRelevance": number,
@@ -92,62 +151,80 @@ Return ONLY valid JSON in this exact format:
     "domainRelevance": "string",
     "stageCulturalFit": "string",
     "impactPotential": "string"
+  },
+  "gaps": {
+    "missingSkills": ["string"],
+    "missingTools": ["string"],
+    "missingDomains": ["string"]
   }
 }`,
-          },
-        ],
-      });
-
-      console.log("[analyzeFit] Raw AI response:", aiResponse?.slice(0, 200));
-
-      let cleanedResponse = typeof aiResponse === "string" ? aiResponse.trim() : String(aiResponse || "").trim();
-      
-      if (cleanedResponse.startsWith("```")) {
-        cleanedResponse = cleanedResponse.replace(/^```(?:json)?\s*\n?/, "").replace(/\s*\n?```\s*$/g, "").trim();
-      }
-
-      console.log("[analyzeFit] Cleaned response:", cleanedResponse.slice(0, 200));
-
-      let parsed: any = null;
-      try {
-        parsed = JSON.parse(cleanedResponse);
-      } catch {
-        console.error("[analyzeFit] Initial JSON parse failed, attempting to extract JSON...");
-        const jsonMatch = cleanedResponse.match(/\{[\s\S]*\}/m);
-        if (jsonMatch) {
-          try {
-            parsed = JSON.parse(jsonMatch[0]);
-            console.log("[analyzeFit] Successfully extracted and parsed JSON from response");
-          } catch (extractErr) {
-            console.error("[analyzeFit] Failed to parse extracted JSON:", extractErr);
-            throw new Error("Could not extract valid JSON from AI response");
-          }
-        } else {
-          console.error("[analyzeFit] No JSON found in response:", cleanedResponse);
-          throw new Error("AI response does not contain valid JSON");
-        }
-      }
-      setFitScore(parsed);
+        { label: "analyzeFit" }
+      );
+      // The overall is derived locally so every score uses the profile's weights
+      const local = calculateLocalFitScore(profile, job, weights);
+      const scored: FitScore = {
+        ...parsed,
+        overall: computeOverallScore(parsed, weights),
+        gaps: reconcileGaps(parsed.gaps, local.gaps, profile, job),
+        weights,
+      };
+      setFitScore(scored);
 
       Animated.spring(scoreAnimation, {
-        toValue: parsed.overall,
+        toValue: scored.overall,
         useNativeDriver: true,
         tension: 20,
         friction: 7,
       }).start();
+
+      try {
+        await addFitScoreRecord(activeProfileId, {
+          jobId: job.id,
+          aiScore: scored,
+          localScore: local,
+          profileRevision: computeProfileRevision(profile),
+        });
+        await queryClient.invalidateQueries({ queryKey: ["historyIndex", activeProfileId] });
+        await queryClient.invalidateQueries({ queryKey: ["jobWithVersions", activeProfileId, job.id] });
+        await queryClient.invalidateQueries({ queryKey: ["jobs", activeProfileId] });
+      } catch (historyError: any) {
+        console.error("[analyzeFit] Failed to store fit score:", historyError);
+      }
     } catch (error: any) {
       console.error("Error analyzing fit:", error?.message ?? error, error?.stack ?? error);
     } finally {
       setIsAnalyzing(false);
     }
-  }, [job, profile, scoreAnimation]);
+  }, [job, profile, weights, scoreAnimation, activeProfileId, queryClient]);
 
+  // Analyze once per job; answering gaps edits the profile but only "Re-score" reruns the AI
   useEffect(() => {
-    if (job) {
-      analyzeFit();
-    }
+    if (!job || analyzedJobId.current === job.id) return;
+    analyzedJobId.current = job.id;
+    analyzeFit();
   }, [job, analyzeFit]);
 
+  useEffect(() => {
+    if (!activeProfileId || !jobId) return;
+    getJob(activeProfileId, jobId).then((record) => {
+      setNonFitGaps(record?.nonFitGaps || []);
+    });
+  }, [activeProfileId, jobId]);
+
+  const toggleNonFit = async (gap: LabeledGap) => {
+    if (!job) return;
+    const nonFit = !nonFitGaps.includes(gap.key);
+    try {
+      const record = await setGapNonFit(activeProfileId, job.id, gap.key, nonFit);
+      setNonFitGaps(record?.nonFitGaps || []);
+      await queryClient.invalidateQueries({ queryKey: ["historyIndex", activeProfileId] });
+      await queryClient.invalidateQueries({ queryKey: ["jobWithVersions", activeProfileId, job.id] });
+      await queryClient.invalidateQueries({ queryKey: ["jobs", activeProfileId] });
+    } catch (error) {
+      console.error("[FitScore] Failed to update gap:", error);
+    }
+  };
+
   const getScoreColor = (score: number) => {
     if (score >= 90) return BoringAI.colors.success;
     if (score >= 75) return BoringAI.colors.text;
@@ -233,6 +310,24 @@ Return ONLY valid JSON in this exact format:
             {getScoreLabel(fitScore.overall)}
           </Text>
         </View>
+        {localScore && (
+          <View style={styles.localScoreRow}>
+            <Text style={styles.localScoreLabel}>AI {fitScore.overall}</Text>
+            <Text style={styles.localScoreDivider}>·</Text>
+            <Text style={styles.localScoreLabel}>Deterministic {localScore.overall}</Text>
+          </View>
+        )}
+        <TouchableOpacity onPress={() => router.push("/profile/scoring" as any)}>
+          <Text style={styles.weightsText}>{formatScoreWeights(fitScore.weights ?? weights)}</Text>
+        </TouchableOpacity>
+        {localScore && scoresDisagree(fitScore.overall, localScore.overall) && (
+          <View style={styles.disagreementBox}>
+            <AlertTriangle size={16} color={BoringAI.colors.warning} />
+            <Text style={styles.disagreementText}>
+              The AI and deterministic scores differ by {Math.abs(fitScore.overall - localScore.overall)} points. Check the breakdown before relying on either.
+            </Text>
+          </View>
+        )}
       </View>
 
       <View style={styles.section}>
@@ -261,6 +356,8 @@ Return ONLY valid JSON in this exact format:
           title="Experience Alignment"
           score={fitScore.experienceAlignment}
           rationale={fitScore.rationale.experienceAlignment}
+          localScore={localScore?.experienceAlignment}
+          localRationale={localScore?.rationale.experienceAlignment}
           expanded={!!expandedSections.experience}
           onToggle={() => setExpandedSections({ ...expandedSections, experience: !expandedSections.experience })}
         />
@@ -270,6 +367,8 @@ Return ONLY valid JSON in this exact format:
           title="Technical Skill Match"
           score={fitScore.technicalSkillMatch}
           rationale={fitScore.rationale.technicalSkillMatch}
+          localScore={localScore?.technicalSkillMatch}
+          localRationale={localScore?.rationale.technicalSkillMatch}
           expanded={!!expandedSections.technical}
           onToggle={() => setExpandedSections({ ...expandedSections, technical: !expandedSections.technical })}
         />
@@ -279,6 +378,8 @@ Return ONLY valid JSON in this exact format:
           title="Domain Relevance"
           score={fitScore.domainRelevance}
           rationale={fitScore.rationale.domainRelevance}
+          localScore={localScore?.domainRelevance}
+          localRationale={localScore?.rationale.domainRelevance}
           expanded={!!expandedSections.domain}
           onToggle={() => setExpandedSections({ ...expandedSections, domain: !expandedSections.domain })}
         />
@@ -288,6 +389,8 @@ Return ONLY valid JSON in this exact format:
           title="Stage/Cultural Fit"
           score={fitScore.stageCulturalFit}
           rationale={fitScore.rationale.stageCulturalFit}
+          localScore={localScore?.stageCulturalFit}
+          localRationale={localScore?.rationale.stageCulturalFit}
           expanded={!!expandedSections.cultural}
           onToggle={() => setExpandedSections({ ...expandedSections, cultural: !expandedSections.cultural })}
         />
@@ -297,11 +400,34 @@ Return ONLY valid JSON in this exact format:
           title="Impact Potential"
           score={fitScore.impactPotential}
           rationale={fitScore.rationale.impactPotential}
+          localScore={localScore?.impactPotential}
+          localRationale={localScore?.rationale.impactPotential}
           expanded={!!expandedSections.impact}
           onToggle={() => setExpandedSections({ ...expandedSections, impact: !expandedSections.impact })}
         />
       </View>
 
+      <GapAnalysis
+        gaps={listGaps(fitScore.gaps)}
+        nonFitGaps={nonFitGaps}
+        answeringGap={answeringGap}
+        jobId={job.id}
+        isAnswered={hasClarificationFor}
+        onAnswer={setAnsweringGap}
+        onAnswerComplete={() => setAnsweringGap(null)}
+        onAddToProfile={(gap) =>
+          router.push({
+            pathname: "/profile/edit",
+            params: { addSkill: gap.name, skillCategory: gap.category === "tool" ? "Tools" : "Technical" },
+          })
+        }
+        onToggleNonFit={toggleNonFit}
+      />
+
+      <TouchableOpacity style={styles.backButton} onPress={analyzeFit}>
+        <Text style={styles.backButtonText}>Re-score</Text>
+      </TouchableOpacity>
+
       {fitScore.overall >= 50 && (
         <TouchableOpacity
           style={styles.generateButton}
@@ -329,11 +455,103 @@ Return ONLY valid JSON in this exact format:
   );
 }
 
+function GapAnalysis({
+  gaps,
+  nonFitGaps,
+  answeringGap,
+  jobId,
+  isAnswered,
+  onAnswer,
+  onAnswerComplete,
+  onAddToProfile,
+  onToggleNonFit,
+}: {
+  gaps: LabeledGap[];
+  nonFitGaps: string[];
+  answeringGap: LabeledGap | null;
+  jobId: string;
+  isAnswered: (topicKey: string) => boolean;
+  onAnswer: (gap: LabeledGap) => void;
+  onAnswerComplete: () => void;
+  onAddToProfile: (gap: LabeledGap) => void;
+  onToggleNonFit: (gap: LabeledGap) => void;
+}) {
+  if (gaps.length === 0) return null;
+
+  return (
+    <View style={styles.section}>
+      <View style={styles.sectionHeader}>
+        <Text style={styles.sectionTitle}>Gaps</Text>
+        <Text style={styles.gapCount}>
+          {gaps.filter((g) => g.requirement === "required").length} required ·{" "}
+          {gaps.filter((g) => g.requirement === "preferred").length} preferred
+        </Text>
+      </View>
+
+      {answeringGap && (
+        <ClarifyingQuestions
+          key={answeringGap.key}
+          questions={[gapQuestion(answeringGap)]}
+          onComplete={onAnswerComplete}
+          jobId={jobId}
+        />
+      )}
+
+      {gaps.map((gap) => {
+        const nonFit = nonFitGaps.includes(gap.key);
+        return (
+          <View key={gap.key} style={[styles.gapCard, nonFit && styles.gapCardNonFit]}>
+            <View style={styles.gapHeader}>
+              <Text style={styles.gapName}>{gap.name}</Text>
+              <Text
+                style={[
+                  styles.gapBadge,
+                  gap.requirement === "required" ? styles.gapBadgeRequired : styles.gapBadgePreferred,
+                ]}
+              >
+                {gap.requirement === "required" ? "Required" : "Preferred"} {gap.category}
+              </Text>
+            </View>
+            {nonFit ? (
+              <View style={styles.gapActions}>
+                <Text style={styles.gapStatus}>Marked as not a fit</Text>
+                <TouchableOpacity onPress={() => onToggleNonFit(gap)}>
+                  <Text style={styles.gapAction}>Undo</Text>
+                </TouchableOpacity>
+              </View>
+            ) : (
+              <View style={styles.gapActions}>
+                {isAnswered(gap.key) ? (
+                  <Text style={styles.gapStatus}>Answered</Text>
+                ) : (
+                  <TouchableOpacity onPress={() => onAnswer(gap)}>
+                    <Text style={styles.gapAction}>Answer</Text>
+                  </TouchableOpacity>
+                )}
+                {gap.category !== "domain" && (
+                  <TouchableOpacity onPress={() => onAddToProfile(gap)}>
+                    <Text style={styles.gapAction}>Add to profile</Text>
+                  </TouchableOpacity>
+                )}
+                <TouchableOpacity onPress={() => onToggleNonFit(gap)}>
+                  <Text style={styles.gapActionMuted}>Not a fit</Text>
+                </TouchableOpacity>
+              </View>
+            )}
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
 function ScoreDimension({
   icon,
   title,
   score,
   rationale,
+  localScore,
+  localRationale,
   expanded,
   onToggle,
 }: {
@@ -341,6 +559,8 @@ function ScoreDimension({
   title: string;
   score: number;
   rationale: string;
+  localScore?: number;
+  localRationale?: string;
   expanded: boolean;
   onToggle: () => void;
 }) {
@@ -357,9 +577,21 @@ function ScoreDimension({
           <View>{icon}</View>
           <Text style={styles.dimensionTitle}>{title}</Text>
         </View>
-        <Text style={[styles.dimensionScore, { color: getBarColor(score) }]}>
-          {score}
-        </Text>
+        <View style={styles.dimensionScores}>
+          {localScore !== undefined && (
+            <Text
+              style={[
+                styles.dimensionLocalScore,
+                scoresDisagree(score, localScore) && { color: BoringAI.colors.warning },
+              ]}
+            >
+              {localScore}
+            </Text>
+          )}
+          <Text style={[styles.dimensionScore, { color: getBarColor(score) }]}>
+            {score}
+          </Text>
+        </View>
       </View>
       <View style={styles.progressBar}>
         <View
@@ -372,6 +604,9 @@ function ScoreDimension({
       {expanded && (
         <View style={styles.rationaleContainer}>
           <Text style={styles.dimensionRationale}>{rationale}</Text>
+          {localRationale && (
+            <Text style={styles.localRationale}>Deterministic: {localRationale}</Text>
+          )}
         </View>
       )}
       <View style={styles.expandIndicator}>
@@ -493,6 +728,45 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: "600" as const,
   },
+  weightsText: {
+    fontSize: 11,
+    color: BoringAI.colors.textFaint,
+    textAlign: "center",
+    marginTop: BoringAI.spacing.xs,
+    textDecorationLine: "underline",
+  },
+  localScoreRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: BoringAI.spacing.xs,
+    marginTop: BoringAI.spacing.md,
+  },
+  localScoreLabel: {
+    fontSize: 13,
+    fontWeight: "600" as const,
+    color: BoringAI.colors.textMuted,
+  },
+  localScoreDivider: {
+    fontSize: 13,
+    color: BoringAI.colors.textFaint,
+  },
+  disagreementBox: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    gap: BoringAI.spacing.xs,
+    marginTop: BoringAI.spacing.md,
+    padding: BoringAI.spacing.sm,
+    backgroundColor: BoringAI.colors.surfaceAlt,
+    borderRadius: BoringAI.radius.input,
+    borderWidth: BoringAI.border.hairline,
+    borderColor: BoringAI.colors.border,
+  },
+  disagreementText: {
+    flex: 1,
+    fontSize: 13,
+    color: BoringAI.colors.warning,
+    lineHeight: 18,
+  },
   section: {
     padding: BoringAI.spacing.xl,
   },
@@ -538,10 +812,20 @@ const styles = StyleSheet.create({
     fontWeight: "600" as const,
     color: BoringAI.colors.text,
   },
+  dimensionScores: {
+    flexDirection: "row",
+    alignItems: "baseline",
+    gap: BoringAI.spacing.xs,
+  },
   dimensionScore: {
     fontSize: 22,
     fontWeight: "700" as const,
   },
+  dimensionLocalScore: {
+    fontSize: 14,
+    fontWeight: "600" as const,
+    color: BoringAI.colors.textFaint,
+  },
   progressBar: {
     height: 6,
     backgroundColor: BoringAI.colors.surfaceAlt,
@@ -564,6 +848,12 @@ const styles = StyleSheet.create({
     color: BoringAI.colors.textMuted,
     lineHeight: 18,
   },
+  localRationale: {
+    fontSize: 12,
+    color: BoringAI.colors.textFaint,
+    lineHeight: 17,
+    marginTop: BoringAI.spacing.xs,
+  },
   expandIndicator: {
     marginTop: BoringAI.spacing.xs,
     alignItems: "center",
@@ -573,6 +863,64 @@ const styles = StyleSheet.create({
     color: BoringAI.colors.textFaint,
     fontStyle: "italic" as const,
   },
+  gapCount: {
+    fontSize: 13,
+    color: BoringAI.colors.textMuted,
+  },
+  gapCard: {
+    backgroundColor: BoringAI.colors.surface,
+    padding: BoringAI.spacing.md,
+    borderRadius: BoringAI.radius.card,
+    borderWidth: BoringAI.border.hairline,
+    borderColor: BoringAI.colors.border,
+    marginBottom: BoringAI.spacing.sm,
+  },
+  gapCardNonFit: {
+    opacity: 0.6,
+  },
+  gapHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    gap: BoringAI.spacing.sm,
+    marginBottom: BoringAI.spacing.sm,
+  },
+  gapName: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: "600" as const,
+    color: BoringAI.colors.text,
+  },
+  gapBadge: {
+    fontSize: 11,
+    fontWeight: "600" as const,
+    letterSpacing: 0.2,
+  },
+  gapBadgeRequired: {
+    color: BoringAI.colors.danger,
+  },
+  gapBadgePreferred: {
+    color: BoringAI.colors.warning,
+  },
+  gapActions: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: BoringAI.spacing.lg,
+  },
+  gapAction: {
+    fontSize: 13,
+    fontWeight: "600" as const,
+    color: BoringAI.colors.accent,
+  },
+  gapActionMuted: {
+    fontSize: 13,
+    fontWeight: "600" as const,
+    color: BoringAI.colors.textMuted,
+  },
+  gapStatus: {
+    fontSize: 13,
+    color: BoringAI.colors.textFaint,
+  },
   generateButton: {
     marginHorizontal: BoringAI.spacing.xl,
     marginTop: BoringAI.spacing.sm,
@@ -1,5 +1,5 @@
 import { router, useLocalSearchParams } from "expo-router";
-import { ArrowLeft, ChevronDown, ChevronUp, FileText, Plus, X } from "lucide-react-native";
+import { ArrowLeft, ChevronDown, ChevronUp, FileText, Flag, GitCompare, Mail, PenLine, Plus, TrendingUp, X } from "lucide-react-native";
 import React, { useState } from "react";
 import {
   ActivityIndicator,
@@ -11,12 +11,174 @@ import {
   View,
 } from "react-native";
 import { SafeAreaView } from "react-native-safe-area-context";
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
 
 import { useUserProfile } from "../../contexts/UserProfileContext";
-import { getJobWithVersions } from "../../lib/historyStore";
+import { APPLICATION_STAGES, applicationStage, stageLabel } from "../../lib/applicationPipeline";
+import { describeCoverLetterOptions } from "../../lib/coverLetterGenerator";
+import {
+  describeProfileRevisionChange,
+  getJobWithVersions,
+} from "../../lib/historyStore";
+import { jobPostingText, recordStageChange } from "../../lib/jobRepository";
+import type { ApplicationStage, JobRecord, ResumeVersion } from "../../types/history";
 import { BoringAI } from "../../ui/theme/boringAiTheme";
 
+function formatDate(dateString: string) {
+  const date = new Date(dateString);
+  return date.toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+function ApplicationSection({ job, versions }: { job: JobRecord; versions: ResumeVersion[] }) {
+  const { activeProfileId } = useUserProfile();
+  const queryClient = useQueryClient();
+  const [showForm, setShowForm] = useState(false);
+  const [stage, setStage] = useState<ApplicationStage>(applicationStage(job));
+  const [notes, setNotes] = useState("");
+  const [resumeVersionId, setResumeVersionId] = useState<string | undefined>(undefined);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const history = [...(job.stageHistory || [])].reverse();
+  const versionLabel = (id: string) => {
+    const index = versions.findIndex((v) => v.id === id);
+    return index === -1 ? "a deleted version" : `Version ${versions.length - index}`;
+  };
+
+  const closeForm = () => {
+    setShowForm(false);
+    setNotes("");
+    setResumeVersionId(undefined);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await recordStageChange(activeProfileId, job.id, {
+        stage,
+        notes: notes.trim() || undefined,
+        resumeVersionId,
+      });
+      await queryClient.invalidateQueries({ queryKey: ["historyIndex", activeProfileId] });
+      await queryClient.invalidateQueries({ queryKey: ["jobWithVersions", activeProfileId, job.id] });
+      await queryClient.invalidateQueries({ queryKey: ["jobs", activeProfileId] });
+      closeForm();
+    } catch (error) {
+      console.error("[JobDetail] Failed to record stage change:", error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <>
+      <View style={styles.sectionHeader}>
+        <Text style={styles.sectionTitle}>Application</Text>
+        <Text style={styles.sectionSubtitle}>Currently {stageLabel(applicationStage(job)).toLowerCase()}</Text>
+      </View>
+
+      {history.length > 0 && (
+        <View style={styles.versionsList}>
+          {history.map((change, index) => (
+            <View key={`${change.changedAt}-${index}`} style={styles.scoreRow}>
+              <Flag size={18} color={BoringAI.colors.textMuted} strokeWidth={1.5} />
+              <View style={styles.versionContent}>
+                <Text style={styles.versionLabel}>{stageLabel(change.stage)}</Text>
+                <Text style={styles.versionDate}>{formatDate(change.changedAt)}</Text>
+                {change.resumeVersionId && (
+                  <Text style={styles.versionNotes}>Sent {versionLabel(change.resumeVersionId)}</Text>
+                )}
+                {change.notes && <Text style={styles.versionNotes}>{change.notes}</Text>}
+              </View>
+            </View>
+          ))}
+        </View>
+      )}
+
+      {!showForm ? (
+        <TouchableOpacity
+          style={styles.rescoreButton}
+          onPress={() => {
+            setStage(applicationStage(job));
+            setShowForm(true);
+          }}
+        >
+          <Text style={styles.rescoreButtonText}>Update stage</Text>
+        </TouchableOpacity>
+      ) : (
+        <View style={styles.newVersionForm}>
+          <View style={styles.formHeader}>
+            <Text style={styles.formTitle}>Update Stage</Text>
+            <TouchableOpacity style={styles.formCloseButton} onPress={closeForm}>
+              <X size={20} color={BoringAI.colors.textMuted} strokeWidth={1.5} />
+            </TouchableOpacity>
+          </View>
+          <Text style={styles.formLabel}>Stage</Text>
+          <View style={styles.chipRow}>
+            {APPLICATION_STAGES.map((option) => (
+              <TouchableOpacity
+                key={option.stage}
+                style={[styles.chip, stage === option.stage && styles.chipSelected]}
+                onPress={() => setStage(option.stage)}
+              >
+                <Text style={[styles.chipText, stage === option.stage && styles.chipTextSelected]}>
+                  {option.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          {versions.length > 0 && (
+            <>
+              <Text style={styles.formLabel}>Resume sent (optional)</Text>
+              <View style={styles.chipRow}>
+                {versions.map((version) => (
+                  <TouchableOpacity
+                    key={version.id}
+                    style={[styles.chip, resumeVersionId === version.id && styles.chipSelected]}
+                    onPress={() => setResumeVersionId(resumeVersionId === version.id ? undefined : version.id)}
+                  >
+                    <Text style={[styles.chipText, resumeVersionId === version.id && styles.chipTextSelected]}>
+                      {versionLabel(version.id)}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </>
+          )}
+          <Text style={styles.formLabel}>Notes (optional)</Text>
+          <TextInput
+            style={styles.formInput}
+            placeholder="e.g., Applied through referral, recruiter call on Friday..."
+            placeholderTextColor={BoringAI.colors.textFaint}
+            value={notes}
+            onChangeText={setNotes}
+            multiline
+            numberOfLines={4}
+            textAlignVertical="top"
+          />
+          <View style={styles.formActions}>
+            <TouchableOpacity style={styles.formCancelButton} onPress={closeForm}>
+              <Text style={styles.formCancelButtonText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.formGenerateButton} onPress={handleSave} disabled={isSaving}>
+              {isSaving ? (
+                <ActivityIndicator color={BoringAI.colors.background} />
+              ) : (
+                <Text style={styles.formGenerateButtonText}>Save</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      )}
+    </>
+  );
+}
+
 export default function JobDetailScreen() {
   const { jobId } = useLocalSearchParams<{ jobId: string }>();
   const { activeProfileId } = useUserProfile();
@@ -33,40 +195,16 @@ export default function JobDetailScreen() {
 
   const job = data?.job;
   const versions = data?.versions || [];
-
-  const formatDate = (dateString: string) => {
-    const date = new Date(dateString);
-    return date.toLocaleDateString("en-US", {
-      month: "short",
-      day: "numeric",
-      year: "numeric",
-      hour: "numeric",
-      minute: "2-digit",
-    });
-  };
+  const scores = data?.scores || [];
+  const coverLetters = data?.coverLetters || [];
 
   const handleGenerateNewVersion = () => {
     if (!job) return;
 
-    const jobPostingForGeneration = {
-      id: job.jobId,
-      title: job.title,
-      company: job.company || "",
-      description: job.postingText,
-      requiredSkills: [],
-      preferredSkills: [],
-      responsibilities: [],
-      seniority: "",
-      domain: "",
-      location: job.location,
-      timestamp: job.createdAt,
-    };
-
     router.push({
       pathname: "/resume/options" as any,
       params: {
-        jobId: job.jobId,
-        jobData: JSON.stringify(jobPostingForGeneration),
+        jobId: job.id,
         versionNotes: newVersionNotes || undefined,
       },
     });
@@ -107,12 +245,14 @@ export default function JobDetailScreen() {
 
       <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
         <View style={styles.jobInfoCard}>
-          <Text style={styles.jobTitle}>{job.title}</Text>
-          {job.company && <Text style={styles.jobCompany}>{job.company}</Text>}
+          <Text style={styles.jobTitle}>{job.posting.title}</Text>
+          {!!job.posting.company && <Text style={styles.jobCompany}>{job.posting.company}</Text>}
           {job.location && <Text style={styles.jobLocation}>{job.location}</Text>}
           <Text style={styles.jobDate}>Added {formatDate(job.createdAt)}</Text>
         </View>
 
+        <ApplicationSection job={job} versions={versions} />
+
         <TouchableOpacity
           style={styles.postingToggle}
           onPress={() => setPostingExpanded(!postingExpanded)}
@@ -129,16 +269,76 @@ export default function JobDetailScreen() {
         {postingExpanded && (
           <View style={styles.postingCard}>
             <ScrollView style={styles.postingScroll} nestedScrollEnabled>
-              <Text style={styles.postingText}>{job.postingText}</Text>
+              <Text style={styles.postingText}>{jobPostingText(job)}</Text>
             </ScrollView>
           </View>
         )}
 
+        <View style={styles.sectionHeader}>
+          <Text style={styles.sectionTitle}>Fit Score History</Text>
+          <Text style={styles.sectionSubtitle}>
+            {scores.length} {scores.length === 1 ? "analysis" : "analyses"}
+          </Text>
+        </View>
+
+        {scores.length === 0 ? (
+          <View style={styles.emptyVersions}>
+            <TrendingUp size={32} color={BoringAI.colors.textFaint} strokeWidth={1.5} />
+            <Text style={styles.emptyVersionsText}>No fit scores yet</Text>
+          </View>
+        ) : (
+          <View style={styles.versionsList}>
+            {scores
+              .map((record, index) => ({ record, previous: index > 0 ? scores[index - 1] : null }))
+              .reverse()
+              .map(({ record, previous }) => {
+                const delta = previous ? record.aiScore.overall - previous.aiScore.overall : 0;
+                return (
+                  <View key={record.id} style={styles.scoreRow}>
+                    <Text style={styles.scoreValue}>{record.aiScore.overall}</Text>
+                    <View style={styles.versionContent}>
+                      <Text style={styles.versionDate}>{formatDate(record.createdAt)}</Text>
+                      <Text style={styles.versionNotes}>
+                        {previous
+                          ? describeProfileRevisionChange(previous.profileRevision, record.profileRevision)
+                          : "First analysis"}
+                        {record.localScore ? ` · Deterministic ${record.localScore.overall}` : ""}
+                      </Text>
+                    </View>
+                    {previous && delta !== 0 && (
+                      <Text style={[styles.scoreDelta, delta > 0 ? styles.scoreDeltaUp : styles.scoreDeltaDown]}>
+                        {delta > 0 ? "+" : ""}
+                        {delta}
+                      </Text>
+                    )}
+                  </View>
+                );
+              })}
+          </View>
+        )}
+
+        <TouchableOpacity
+          style={styles.rescoreButton}
+          onPress={() => router.push({ pathname: "/job/fit-score", params: { jobId: job.id } })}
+        >
+          <Text style={styles.rescoreButtonText}>Re-run fit score</Text>
+        </TouchableOpacity>
+
         <View style={styles.sectionHeader}>
           <Text style={styles.sectionTitle}>Resume Versions</Text>
           <Text style={styles.sectionSubtitle}>{versions.length} total</Text>
         </View>
 
+        {versions.length >= 2 && (
+          <TouchableOpacity
+            style={[styles.rescoreButton, styles.compareButton]}
+            onPress={() => router.push({ pathname: "/jobs/[jobId]/compare" as any, params: { jobId: job.id } })}
+          >
+            <GitCompare size={18} color={BoringAI.colors.text} strokeWidth={1.5} />
+            <Text style={styles.rescoreButtonText}>Compare versions</Text>
+          </TouchableOpacity>
+        )}
+
         {versions.length === 0 ? (
           <View style={styles.emptyVersions}>
             <FileText size={32} color={BoringAI.colors.textFaint} strokeWidth={1.5} />
@@ -153,7 +353,7 @@ export default function JobDetailScreen() {
                 onPress={() =>
                   router.push({
                     pathname: "/jobs/[jobId]/resume/[resumeVersionId]" as any,
-                    params: { jobId: job.jobId, resumeVersionId: version.id },
+                    params: { jobId: job.id, resumeVersionId: version.id },
                   })
                 }
                 activeOpacity={0.7}
@@ -235,6 +435,59 @@ export default function JobDetailScreen() {
           </View>
         )}
 
+        <View style={styles.sectionHeader}>
+          <Text style={styles.sectionTitle}>Cover Letters</Text>
+          <Text style={styles.sectionSubtitle}>{coverLetters.length} total</Text>
+        </View>
+
+        {coverLetters.length === 0 ? (
+          <View style={styles.emptyVersions}>
+            <Mail size={32} color={BoringAI.colors.textFaint} strokeWidth={1.5} />
+            <Text style={styles.emptyVersionsText}>No cover letters yet</Text>
+          </View>
+        ) : (
+          <View style={styles.versionsList}>
+            {coverLetters.map((letter, index) => (
+              <TouchableOpacity
+                key={letter.id}
+                style={styles.versionCard}
+                onPress={() =>
+                  router.push({
+                    pathname: "/jobs/[jobId]/cover-letter/[coverLetterId]" as any,
+                    params: { jobId: job.id, coverLetterId: letter.id },
+                  })
+                }
+                activeOpacity={0.7}
+              >
+                <View style={styles.versionHeader}>
+                  <View style={styles.versionIconContainer}>
+                    <Mail size={18} color={BoringAI.colors.textMuted} strokeWidth={1.5} />
+                  </View>
+                  <View style={styles.versionContent}>
+                    <Text style={styles.versionLabel}>Letter {coverLetters.length - index}</Text>
+                    <Text style={styles.versionDate}>
+                      {formatDate(letter.createdAt)} · {describeCoverLetterOptions(letter.options)}
+                    </Text>
+                    {letter.notes && (
+                      <Text style={styles.versionNotes} numberOfLines={2}>
+                        {letter.notes}
+                      </Text>
+                    )}
+                  </View>
+                </View>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+
+        <TouchableOpacity
+          style={[styles.rescoreButton, styles.compareButton, styles.coverLetterButton]}
+          onPress={() => router.push({ pathname: "/jobs/[jobId]/cover-letter/new" as any, params: { jobId: job.id } })}
+        >
+          <PenLine size={18} color={BoringAI.colors.text} strokeWidth={1.5} />
+          <Text style={styles.rescoreButtonText}>Write cover letter</Text>
+        </TouchableOpacity>
+
         <View style={styles.bottomPadding} />
       </ScrollView>
     </SafeAreaView>
@@ -446,6 +699,59 @@ const styles = StyleSheet.create({
     color: BoringAI.colors.textMuted,
     lineHeight: 18,
   },
+  scoreRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: BoringAI.colors.surface,
+    borderWidth: BoringAI.border.hairline,
+    borderColor: BoringAI.colors.border,
+    borderRadius: BoringAI.radius.card,
+    padding: BoringAI.spacing.md,
+    marginBottom: BoringAI.spacing.sm,
+    gap: BoringAI.spacing.md,
+  },
+  scoreValue: {
+    width: 44,
+    fontSize: 22,
+    fontWeight: "700" as const,
+    color: BoringAI.colors.text,
+    textAlign: "center",
+  },
+  scoreDelta: {
+    fontSize: 15,
+    fontWeight: "600" as const,
+  },
+  scoreDeltaUp: {
+    color: BoringAI.colors.success,
+  },
+  scoreDeltaDown: {
+    color: BoringAI.colors.danger,
+  },
+  rescoreButton: {
+    marginHorizontal: BoringAI.spacing.xl,
+    marginTop: BoringAI.spacing.xs,
+    paddingVertical: 12,
+    backgroundColor: BoringAI.colors.surface,
+    borderWidth: BoringAI.border.hairline,
+    borderColor: BoringAI.colors.borderStrong,
+    borderRadius: BoringAI.radius.button,
+    alignItems: "center",
+  },
+  compareButton: {
+    flexDirection: "row",
+    justifyContent: "center",
+    gap: BoringAI.spacing.xs,
+    marginTop: 0,
+    marginBottom: BoringAI.spacing.md,
+  },
+  coverLetterButton: {
+    marginTop: BoringAI.spacing.xs,
+  },
+  rescoreButtonText: {
+    fontSize: 16,
+    fontWeight: "600" as const,
+    color: BoringAI.colors.text,
+  },
   generateButton: {
     flexDirection: "row",
     alignItems: "center",
@@ -543,6 +849,32 @@ const styles = StyleSheet.create({
     fontWeight: "600" as const,
     color: BoringAI.colors.background,
   },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: BoringAI.spacing.xs,
+    marginBottom: BoringAI.spacing.md,
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: BoringAI.spacing.sm,
+    backgroundColor: BoringAI.colors.surfaceAlt,
+    borderWidth: BoringAI.border.hairline,
+    borderColor: BoringAI.colors.border,
+    borderRadius: BoringAI.radius.pill,
+  },
+  chipSelected: {
+    backgroundColor: BoringAI.colors.accent,
+    borderColor: BoringAI.colors.accent,
+  },
+  chipText: {
+    fontSize: 13,
+    color: BoringAI.colors.textMuted,
+  },
+  chipTextSelected: {
+    color: BoringAI.colors.background,
+    fontWeight: "600" as const,
+  },
   bottomPadding: {
     height: 40,
   },
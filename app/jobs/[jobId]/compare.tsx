@@ -0,0 +1,519 @@
+import { router, useLocalSearchParams } from "expo-router";
+import { ArrowLeft } from "lucide-react-native";
+import React, { useMemo } from "react";
+import {
+  ActivityIndicator,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { useQuery } from "@tanstack/react-query";
+
+import { useUserProfile } from "../../../contexts/UserProfileContext";
+import { getJobWithVersions } from "../../../lib/historyStore";
+import {
+  describeGenerationOptions,
+  diffResumeVersions,
+  type BulletDiff,
+  type EntryChange,
+  type WordDiffSegment,
+} from "../../../lib/resumeDiff";
+import type { ResumeVersion } from "../../../types/history";
+import { BoringAI } from "../../../ui/theme/boringAiTheme";
+
+const SKILL_LABELS = { core: "Core", tools: "Tools", domains: "Domains" } as const;
+
+function formatDate(dateString: string) {
+  return new Date(dateString).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+function InlineDiff({ segments }: { segments: WordDiffSegment[] }) {
+  return (
+    <Text style={styles.diffText}>
+      {segments.map((segment, index) => (
+        <Text
+          key={index}
+          style={segment.change === "added" ? styles.added : segment.change === "removed" ? styles.removed : undefined}
+        >
+          {segment.text}
+        </Text>
+      ))}
+    </Text>
+  );
+}
+
+function BulletRow({ bullet }: { bullet: BulletDiff }) {
+  if (bullet.kind === "changed") {
+    return (
+      <View style={styles.bulletRow}>
+        <Text style={styles.bulletMarker}>~</Text>
+        <InlineDiff segments={bullet.segments} />
+      </View>
+    );
+  }
+  const marker = bullet.kind === "added" ? "+" : bullet.kind === "removed" ? "−" : "•";
+  return (
+    <View style={styles.bulletRow}>
+      <Text style={styles.bulletMarker}>{marker}</Text>
+      <Text
+        style={[
+          styles.diffText,
+          bullet.kind === "added" && styles.added,
+          bullet.kind === "removed" && styles.removed,
+          bullet.kind === "same" && styles.unchanged,
+        ]}
+      >
+        {bullet.text}
+      </Text>
+    </View>
+  );
+}
+
+function EntryBadge({ kind }: { kind: EntryChange }) {
+  if (kind === "changed") return null;
+  return (
+    <Text style={[styles.entryBadge, kind === "added" && styles.added, kind === "removed" && styles.removed]}>
+      {kind === "same" ? "Unchanged" : kind === "added" ? "Added" : "Removed"}
+    </Text>
+  );
+}
+
+/** "before → after" for a field of a matched entry; nothing when it didn't change */
+function FieldChange({ before, after, empty }: { before?: string; after?: string; empty: string }) {
+  if ((before || "") === (after || "")) return null;
+  return (
+    <Text style={styles.entryDates}>
+      <Text style={styles.removed}>{before || empty}</Text>
+      {" → "}
+      <Text style={styles.added}>{after || empty}</Text>
+    </Text>
+  );
+}
+
+function VersionPicker({
+  label,
+  versions,
+  selectedId,
+  otherId,
+  onSelect,
+}: {
+  label: string;
+  versions: ResumeVersion[];
+  selectedId?: string;
+  otherId?: string;
+  onSelect: (id: string) => void;
+}) {
+  const selected = versions.find((v) => v.id === selectedId);
+  return (
+    <View style={styles.pickerCard}>
+      <Text style={styles.pickerLabel}>{label}</Text>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+        {versions.map((version, index) => {
+          const isSelected = version.id === selectedId;
+          return (
+            <TouchableOpacity
+              key={version.id}
+              style={[styles.chip, isSelected && styles.chipSelected, version.id === otherId && styles.chipDisabled]}
+              onPress={() => onSelect(version.id)}
+              disabled={version.id === otherId}
+            >
+              <Text style={[styles.chipText, isSelected && styles.chipTextSelected]}>
+                Version {versions.length - index}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </ScrollView>
+      {selected && (
+        <>
+          <Text style={styles.pickerMeta}>
+            {formatDate(selected.createdAt)} · {describeGenerationOptions(selected.generationOptions)}
+          </Text>
+          <Text style={styles.pickerNotes}>{selected.notes || "No notes"}</Text>
+        </>
+      )}
+    </View>
+  );
+}
+
+export default function CompareVersionsScreen() {
+  const { jobId, from, to } = useLocalSearchParams<{ jobId: string; from?: string; to?: string }>();
+  const { activeProfileId } = useUserProfile();
+
+  const { data, isLoading } = useQuery({
+    queryKey: ["jobWithVersions", activeProfileId, jobId],
+    queryFn: () => getJobWithVersions(activeProfileId, jobId || ""),
+    enabled: !!activeProfileId && !!jobId,
+  });
+
+  const versions = useMemo(() => data?.versions || [], [data]);
+  // Newest first, so the default compares the latest version with the one before it
+  const toId = to || versions[0]?.id;
+  const fromId = from || versions.find((v) => v.id !== toId)?.id;
+  const before = versions.find((v) => v.id === fromId);
+  const after = versions.find((v) => v.id === toId);
+
+  const diff = useMemo(
+    () => (before && after ? diffResumeVersions(before.resumeJson, after.resumeJson) : null),
+    [before, after]
+  );
+
+  const select = (params: { from?: string; to?: string }) =>
+    router.setParams({ from: fromId, to: toId, ...params });
+
+  if (isLoading) {
+    return (
+      <SafeAreaView style={styles.container} edges={["top"]}>
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={BoringAI.colors.accent} />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container} edges={["top"]}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.headerBackButton} onPress={() => router.back()}>
+          <ArrowLeft size={22} color={BoringAI.colors.text} strokeWidth={1.5} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Compare Versions</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      {versions.length < 2 ? (
+        <View style={styles.loadingContainer}>
+          <Text style={styles.emptyText}>Generate at least two versions to compare them.</Text>
+        </View>
+      ) : (
+        <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
+          <VersionPicker
+            label="From"
+            versions={versions}
+            selectedId={fromId}
+            otherId={toId}
+            onSelect={(id) => select({ from: id })}
+          />
+          <VersionPicker
+            label="To"
+            versions={versions}
+            selectedId={toId}
+            otherId={fromId}
+            onSelect={(id) => select({ to: id })}
+          />
+
+          {diff && !diff.hasChanges && <Text style={styles.emptyText}>These versions have the same content.</Text>}
+
+          {diff?.summary && (
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Summary</Text>
+              <InlineDiff segments={diff.summary.segments} />
+            </View>
+          )}
+
+          {diff && diff.experience.some((entry) => entry.kind !== "same") && (
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Experience</Text>
+              {diff.experience.map((entry, index) => (
+                <View key={`${entry.company}-${entry.title}-${index}`} style={styles.entry}>
+                  <View style={styles.entryHeader}>
+                    <Text style={styles.entryTitle}>
+                      {entry.title} · {entry.company}
+                    </Text>
+                    <EntryBadge kind={entry.kind} />
+                  </View>
+                  {entry.titleBefore && (
+                    <Text style={styles.entryDates}>
+                      Title was <Text style={styles.removed}>{entry.titleBefore}</Text>
+                    </Text>
+                  )}
+                  {entry.kind === "changed" && (
+                    <FieldChange before={entry.datesBefore} after={entry.datesAfter} empty="No dates" />
+                  )}
+                  {entry.kind !== "same" && entry.bullets.map((bullet, bulletIndex) => (
+                    <BulletRow key={bulletIndex} bullet={bullet} />
+                  ))}
+                </View>
+              ))}
+            </View>
+          )}
+
+          {diff && diff.projects.some((entry) => entry.kind !== "same") && (
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Projects</Text>
+              {diff.projects.map((entry, index) => (
+                <View key={`${entry.title}-${index}`} style={styles.entry}>
+                  <View style={styles.entryHeader}>
+                    <Text style={styles.entryTitle}>{entry.title}</Text>
+                    <EntryBadge kind={entry.kind} />
+                  </View>
+                  {entry.kind !== "same" && entry.technologies.added.length > 0 && (
+                    <Text style={[styles.entryDates, styles.added]}>+ {entry.technologies.added.join(", ")}</Text>
+                  )}
+                  {entry.kind !== "same" && entry.technologies.removed.length > 0 && (
+                    <Text style={[styles.entryDates, styles.removed]}>− {entry.technologies.removed.join(", ")}</Text>
+                  )}
+                  {entry.kind === "changed" && (
+                    <FieldChange before={entry.urlBefore} after={entry.urlAfter} empty="No link" />
+                  )}
+                  {entry.kind !== "same" && entry.bullets.map((bullet, bulletIndex) => (
+                    <BulletRow key={bulletIndex} bullet={bullet} />
+                  ))}
+                </View>
+              ))}
+            </View>
+          )}
+
+          {diff && diff.skills.length > 0 && (
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Skills</Text>
+              {diff.skills.map((skill) => (
+                <View key={skill.category} style={styles.skillRow}>
+                  <Text style={styles.skillCategory}>{SKILL_LABELS[skill.category]}</Text>
+                  {skill.added.length > 0 && <Text style={[styles.diffText, styles.added]}>+ {skill.added.join(", ")}</Text>}
+                  {skill.removed.length > 0 && (
+                    <Text style={[styles.diffText, styles.removed]}>− {skill.removed.join(", ")}</Text>
+                  )}
+                </View>
+              ))}
+            </View>
+          )}
+
+          {diff && diff.education.some((entry) => entry.kind !== "same") && (
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Education</Text>
+              {diff.education.map((entry, index) => (
+                <View key={`${entry.school}-${index}`} style={styles.entry}>
+                  <View style={styles.entryHeader}>
+                    <Text style={styles.entryTitle}>{entry.school}</Text>
+                    <EntryBadge kind={entry.kind} />
+                  </View>
+                  {entry.kind === "changed" ? (
+                    <>
+                      <FieldChange before={entry.degreeBefore} after={entry.degreeAfter} empty="No degree" />
+                      <FieldChange before={entry.datesBefore} after={entry.datesAfter} empty="No dates" />
+                    </>
+                  ) : (
+                    <Text style={styles.entryDates}>
+                      {[entry.degreeAfter ?? entry.degreeBefore, entry.datesAfter ?? entry.datesBefore]
+                        .filter(Boolean)
+                        .join(" · ")}
+                    </Text>
+                  )}
+                </View>
+              ))}
+            </View>
+          )}
+
+          {diff && (diff.certifications.added.length > 0 || diff.certifications.removed.length > 0) && (
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Certifications</Text>
+              {diff.certifications.added.map((name) => (
+                <BulletRow key={`+${name}`} bullet={{ kind: "added", text: name }} />
+              ))}
+              {diff.certifications.removed.map((name) => (
+                <BulletRow key={`-${name}`} bullet={{ kind: "removed", text: name }} />
+              ))}
+            </View>
+          )}
+
+          <View style={styles.bottomPadding} />
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: BoringAI.colors.background,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    paddingHorizontal: BoringAI.spacing.xl,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: BoringAI.spacing.lg,
+    paddingVertical: BoringAI.spacing.md,
+    borderBottomWidth: BoringAI.border.hairline,
+    borderBottomColor: BoringAI.colors.border,
+  },
+  headerBackButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: BoringAI.colors.surfaceAlt,
+    borderWidth: BoringAI.border.hairline,
+    borderColor: BoringAI.colors.border,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: "700" as const,
+    color: BoringAI.colors.text,
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: BoringAI.colors.textMuted,
+    textAlign: "center",
+    marginTop: BoringAI.spacing.lg,
+    marginHorizontal: BoringAI.spacing.xl,
+  },
+  pickerCard: {
+    marginHorizontal: BoringAI.spacing.xl,
+    marginTop: BoringAI.spacing.md,
+    padding: BoringAI.spacing.md,
+    backgroundColor: BoringAI.colors.surfaceAlt,
+    borderWidth: BoringAI.border.hairline,
+    borderColor: BoringAI.colors.border,
+    borderRadius: BoringAI.radius.card,
+  },
+  pickerLabel: {
+    fontSize: 11,
+    fontWeight: "600" as const,
+    color: BoringAI.colors.textFaint,
+    letterSpacing: 0.2,
+    textTransform: "uppercase",
+    marginBottom: BoringAI.spacing.xs,
+  },
+  pickerMeta: {
+    fontSize: 12,
+    color: BoringAI.colors.textFaint,
+    marginTop: BoringAI.spacing.sm,
+  },
+  pickerNotes: {
+    fontSize: 13,
+    color: BoringAI.colors.textMuted,
+    lineHeight: 18,
+    marginTop: BoringAI.spacing.xxs,
+  },
+  chipRow: {
+    gap: BoringAI.spacing.xs,
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: BoringAI.spacing.sm,
+    backgroundColor: BoringAI.colors.surface,
+    borderWidth: BoringAI.border.hairline,
+    borderColor: BoringAI.colors.border,
+    borderRadius: BoringAI.radius.pill,
+  },
+  chipSelected: {
+    backgroundColor: BoringAI.colors.accent,
+    borderColor: BoringAI.colors.accent,
+  },
+  chipDisabled: {
+    opacity: 0.4,
+  },
+  chipText: {
+    fontSize: 13,
+    color: BoringAI.colors.textMuted,
+  },
+  chipTextSelected: {
+    color: BoringAI.colors.background,
+    fontWeight: "600" as const,
+  },
+  section: {
+    marginHorizontal: BoringAI.spacing.xl,
+    marginTop: BoringAI.spacing.lg,
+    padding: BoringAI.spacing.lg,
+    backgroundColor: BoringAI.colors.surface,
+    borderWidth: BoringAI.border.hairline,
+    borderColor: BoringAI.colors.border,
+    borderRadius: BoringAI.radius.card,
+    ...BoringAI.shadow.cardShadow,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: "700" as const,
+    color: BoringAI.colors.text,
+    marginBottom: BoringAI.spacing.sm,
+  },
+  entry: {
+    paddingVertical: BoringAI.spacing.sm,
+    borderTopWidth: BoringAI.border.hairline,
+    borderTopColor: BoringAI.colors.border,
+  },
+  entryHeader: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    justifyContent: "space-between",
+    gap: BoringAI.spacing.xs,
+    marginBottom: BoringAI.spacing.xxs,
+  },
+  entryTitle: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: "600" as const,
+    color: BoringAI.colors.text,
+  },
+  entryBadge: {
+    fontSize: 12,
+    color: BoringAI.colors.textFaint,
+  },
+  entryDates: {
+    fontSize: 12,
+    color: BoringAI.colors.textMuted,
+    marginBottom: BoringAI.spacing.xxs,
+  },
+  bulletRow: {
+    flexDirection: "row",
+    gap: BoringAI.spacing.xs,
+    marginTop: BoringAI.spacing.xxs,
+  },
+  bulletMarker: {
+    width: 12,
+    fontSize: 14,
+    color: BoringAI.colors.textFaint,
+  },
+  diffText: {
+    flex: 1,
+    fontSize: 14,
+    color: BoringAI.colors.text,
+    lineHeight: 20,
+  },
+  added: {
+    color: BoringAI.colors.success,
+    fontWeight: "600" as const,
+  },
+  removed: {
+    color: BoringAI.colors.danger,
+    textDecorationLine: "line-through",
+  },
+  unchanged: {
+    color: BoringAI.colors.textFaint,
+  },
+  skillRow: {
+    marginBottom: BoringAI.spacing.sm,
+  },
+  skillCategory: {
+    fontSize: 13,
+    fontWeight: "600" as const,
+    color: BoringAI.colors.text,
+    marginBottom: BoringAI.spacing.xxs,
+  },
+  bottomPadding: {
+    height: 40,
+  },
+});
@@ -0,0 +1,403 @@
+import { router, useLocalSearchParams } from "expo-router";
+import { AlertTriangle, ArrowLeft, Check, Copy, Download, FileText } from "lucide-react-native";
+import React, { useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  Platform,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { useQuery } from "@tanstack/react-query";
+
+import { useUserProfile } from "../../../../contexts/UserProfileContext";
+import { copyTextSafe } from "../../../../lib/clipboard";
+import { describeCoverLetterOptions } from "../../../../lib/coverLetterGenerator";
+import { getCoverLetterById, getJobWithVersions } from "../../../../lib/historyStore";
+import {
+  DOCX_MIME_TYPE,
+  makeCoverLetterFileName,
+  renderCoverLetterDocx,
+  saveAndShareFile,
+  TEXT_MIME_TYPE,
+} from "../../../../lib/resumeExport";
+import { BoringAI } from "../../../../ui/theme/boringAiTheme";
+
+function formatDate(dateString: string) {
+  const date = new Date(dateString);
+  return date.toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+export default function CoverLetterViewerScreen() {
+  const { jobId, coverLetterId } = useLocalSearchParams<{
+    jobId: string;
+    coverLetterId: string;
+  }>();
+  const { activeProfileId } = useUserProfile();
+  const [copied, setCopied] = useState(false);
+  const [isDownloading, setIsDownloading] = useState(false);
+
+  const { data: letter, isLoading } = useQuery({
+    queryKey: ["coverLetter", activeProfileId, coverLetterId],
+    queryFn: () => getCoverLetterById(activeProfileId, coverLetterId || ""),
+    enabled: !!activeProfileId && !!coverLetterId,
+  });
+
+  const { data: jobData } = useQuery({
+    queryKey: ["jobWithVersions", activeProfileId, jobId],
+    queryFn: () => getJobWithVersions(activeProfileId, jobId || ""),
+    enabled: !!activeProfileId && !!jobId,
+  });
+
+  const versions = jobData?.versions || [];
+  const resumeIndex = letter?.resumeVersionId ? versions.findIndex((v) => v.id === letter.resumeVersionId) : -1;
+  const company = jobData?.job?.posting.company || "letter";
+
+  const copyToClipboard = async () => {
+    if (!letter) return;
+    const success = await copyTextSafe(letter.letterText);
+    if (success) {
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    }
+  };
+
+  const downloadDocx = async () => {
+    if (!letter) return;
+
+    setIsDownloading(true);
+    try {
+      const base64 = await renderCoverLetterDocx(letter.letterJson);
+      await saveAndShareFile(base64, makeCoverLetterFileName(`${company}-${letter.id}`, "docx"), {
+        mimeType: DOCX_MIME_TYPE,
+        dialogTitle: "Save Cover Letter",
+        UTI: "com.microsoft.word.doc",
+      });
+    } catch (error: any) {
+      console.error("[CoverLetterViewer] DOCX download error:", error);
+      Alert.alert("Download Error", error.message || "Failed to download DOCX. Please try again.");
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  const downloadText = async () => {
+    if (!letter) return;
+
+    try {
+      await saveAndShareFile(
+        letter.letterText,
+        makeCoverLetterFileName(`${company}-${letter.id}`, "txt"),
+        { mimeType: TEXT_MIME_TYPE, dialogTitle: "Save Cover Letter", UTI: "public.plain-text" },
+        "utf8"
+      );
+    } catch (error: any) {
+      console.error("[CoverLetterViewer] Text download error:", error);
+      Alert.alert("Download Error", error.message || "Failed to save the text file. Please try again.");
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <SafeAreaView style={styles.container} edges={["top"]}>
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={BoringAI.colors.accent} />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  if (!letter) {
+    return (
+      <SafeAreaView style={styles.container} edges={["top"]}>
+        <View style={styles.errorContainer}>
+          <Text style={styles.errorText}>Cover letter not found</Text>
+          <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+            <Text style={styles.backButtonText}>Go Back</Text>
+          </TouchableOpacity>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container} edges={["top"]}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.headerBackButton} onPress={() => router.back()}>
+          <ArrowLeft size={22} color={BoringAI.colors.text} strokeWidth={1.5} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Cover Letter</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
+        <View style={styles.metaCard}>
+          <Text style={styles.metaDate}>Generated {formatDate(letter.createdAt)}</Text>
+          {letter.notes && (
+            <>
+              <Text style={styles.metaLabel}>Version Notes:</Text>
+              <Text style={styles.metaNotes}>{letter.notes}</Text>
+            </>
+          )}
+          <Text style={styles.metaOptions}>
+            {describeCoverLetterOptions(letter.options)}
+            {resumeIndex !== -1 ? ` · Written with resume version ${versions.length - resumeIndex}` : ""}
+          </Text>
+        </View>
+
+        {letter.unsupportedClaims && letter.unsupportedClaims.length > 0 && (
+          <View style={styles.warningCard}>
+            <AlertTriangle size={18} color={BoringAI.colors.danger} strokeWidth={1.5} />
+            <Text style={styles.warningText}>
+              Not found in your sources: {letter.unsupportedClaims.join(", ")}. Check these before sending.
+            </Text>
+          </View>
+        )}
+
+        <TouchableOpacity
+          style={[styles.downloadButton, isDownloading && styles.buttonDisabled]}
+          onPress={downloadDocx}
+          disabled={isDownloading}
+        >
+          {isDownloading ? (
+            <ActivityIndicator size="small" color={BoringAI.colors.background} />
+          ) : (
+            <Download size={20} color={BoringAI.colors.background} strokeWidth={2} />
+          )}
+          <Text style={styles.downloadButtonText}>
+            {isDownloading ? "Generating..." : "Download .docx"}
+          </Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity style={styles.secondaryButton} onPress={downloadText}>
+          <FileText size={20} color={BoringAI.colors.text} strokeWidth={1.5} />
+          <Text style={styles.secondaryButtonText}>Download .txt</Text>
+        </TouchableOpacity>
+
+        <View style={styles.letterCard}>
+          <Text style={styles.letterText}>{letter.letterText}</Text>
+        </View>
+
+        {Platform.OS === "web" && (
+          <TouchableOpacity style={styles.secondaryButton} onPress={copyToClipboard}>
+            {copied ? (
+              <>
+                <Check size={20} color={BoringAI.colors.success} strokeWidth={2} />
+                <Text style={[styles.secondaryButtonText, { color: BoringAI.colors.success }]}>
+                  Copied!
+                </Text>
+              </>
+            ) : (
+              <>
+                <Copy size={20} color={BoringAI.colors.text} strokeWidth={1.5} />
+                <Text style={styles.secondaryButtonText}>Copy Text</Text>
+              </>
+            )}
+          </TouchableOpacity>
+        )}
+
+        <TouchableOpacity
+          style={styles.backToJobButton}
+          onPress={() => router.push({ pathname: "/jobs/[jobId]" as any, params: { jobId } })}
+        >
+          <Text style={styles.backToJobButtonText}>Back to Job</Text>
+        </TouchableOpacity>
+
+        <View style={styles.bottomPadding} />
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: BoringAI.colors.background,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  errorContainer: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    paddingHorizontal: BoringAI.spacing.xl,
+  },
+  errorText: {
+    fontSize: 16,
+    color: BoringAI.colors.textMuted,
+    marginBottom: BoringAI.spacing.lg,
+  },
+  backButton: {
+    backgroundColor: BoringAI.colors.accent,
+    paddingVertical: 12,
+    paddingHorizontal: 24,
+    borderRadius: BoringAI.radius.button,
+  },
+  backButtonText: {
+    fontSize: 16,
+    fontWeight: "600" as const,
+    color: BoringAI.colors.background,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: BoringAI.spacing.lg,
+    paddingVertical: BoringAI.spacing.md,
+    borderBottomWidth: BoringAI.border.hairline,
+    borderBottomColor: BoringAI.colors.border,
+  },
+  headerBackButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: BoringAI.colors.surfaceAlt,
+    borderWidth: BoringAI.border.hairline,
+    borderColor: BoringAI.colors.border,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: "700" as const,
+    color: BoringAI.colors.text,
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  metaCard: {
+    marginHorizontal: BoringAI.spacing.xl,
+    marginTop: BoringAI.spacing.lg,
+    padding: BoringAI.spacing.md,
+    backgroundColor: BoringAI.colors.surfaceAlt,
+    borderWidth: BoringAI.border.hairline,
+    borderColor: BoringAI.colors.border,
+    borderRadius: BoringAI.radius.card,
+  },
+  metaDate: {
+    fontSize: 11,
+    color: BoringAI.colors.textFaint,
+    letterSpacing: 0.2,
+    marginBottom: BoringAI.spacing.xs,
+  },
+  metaLabel: {
+    fontSize: 13,
+    fontWeight: "600" as const,
+    color: BoringAI.colors.text,
+    marginBottom: BoringAI.spacing.xxs,
+  },
+  metaNotes: {
+    fontSize: 13,
+    color: BoringAI.colors.textMuted,
+    lineHeight: 18,
+  },
+  metaOptions: {
+    fontSize: 12,
+    color: BoringAI.colors.textFaint,
+    marginTop: BoringAI.spacing.xs,
+  },
+  warningCard: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    gap: BoringAI.spacing.sm,
+    marginHorizontal: BoringAI.spacing.xl,
+    marginTop: BoringAI.spacing.md,
+    padding: BoringAI.spacing.md,
+    backgroundColor: BoringAI.colors.surface,
+    borderWidth: BoringAI.border.hairline,
+    borderColor: BoringAI.colors.danger,
+    borderRadius: BoringAI.radius.card,
+  },
+  warningText: {
+    flex: 1,
+    fontSize: 13,
+    color: BoringAI.colors.text,
+    lineHeight: 18,
+  },
+  downloadButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    marginHorizontal: BoringAI.spacing.xl,
+    marginTop: BoringAI.spacing.md,
+    paddingVertical: 12,
+    backgroundColor: BoringAI.colors.accent,
+    borderRadius: BoringAI.radius.button,
+    gap: BoringAI.spacing.xs,
+  },
+  downloadButtonText: {
+    fontSize: 16,
+    fontWeight: "600" as const,
+    color: BoringAI.colors.background,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  letterCard: {
+    marginHorizontal: BoringAI.spacing.xl,
+    marginTop: BoringAI.spacing.md,
+    padding: BoringAI.spacing.lg,
+    backgroundColor: BoringAI.colors.surface,
+    borderWidth: BoringAI.border.hairline,
+    borderColor: BoringAI.colors.border,
+    borderRadius: BoringAI.radius.card,
+    ...BoringAI.shadow.cardShadow,
+  },
+  letterText: {
+    fontSize: 15,
+    color: BoringAI.colors.text,
+    lineHeight: 23,
+  },
+  secondaryButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    marginHorizontal: BoringAI.spacing.xl,
+    marginTop: BoringAI.spacing.md,
+    paddingVertical: 12,
+    backgroundColor: BoringAI.colors.surfaceAlt,
+    borderWidth: BoringAI.border.hairline,
+    borderColor: BoringAI.colors.border,
+    borderRadius: BoringAI.radius.button,
+    gap: BoringAI.spacing.xs,
+  },
+  secondaryButtonText: {
+    fontSize: 16,
+    fontWeight: "600" as const,
+    color: BoringAI.colors.text,
+  },
+  backToJobButton: {
+    marginHorizontal: BoringAI.spacing.xl,
+    marginTop: BoringAI.spacing.md,
+    paddingVertical: 12,
+    backgroundColor: BoringAI.colors.surface,
+    borderWidth: BoringAI.border.hairline,
+    borderColor: BoringAI.colors.borderStrong,
+    borderRadius: BoringAI.radius.button,
+    alignItems: "center",
+  },
+  backToJobButtonText: {
+    fontSize: 16,
+    fontWeight: "600" as const,
+    color: BoringAI.colors.text,
+  },
+  bottomPadding: {
+    height: 40,
+  },
+});
@@ -0,0 +1,380 @@
+import { router, useLocalSearchParams } from "expo-router";
+import { ArrowLeft, PenLine } from "lucide-react-native";
+import React, { useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+
+import { useUserProfile } from "../../../../contexts/UserProfileContext";
+import {
+  COVER_LETTER_LENGTHS,
+  COVER_LETTER_TONES,
+  coverLetterToText,
+  DEFAULT_COVER_LETTER_OPTIONS,
+  generateCoverLetter,
+  type CoverLetterLength,
+  type CoverLetterTone,
+} from "../../../../lib/coverLetterGenerator";
+import { addCoverLetterVersion, createProfileSnapshot, getJobWithVersions } from "../../../../lib/historyStore";
+import { hasContactName, MISSING_CONTACT_NAME_MESSAGE } from "../../../../lib/tailoredResumeGenerator";
+import { BoringAI } from "../../../../ui/theme/boringAiTheme";
+
+export default function NewCoverLetterScreen() {
+  const { jobId } = useLocalSearchParams<{ jobId: string }>();
+  const { profile, activeProfileId } = useUserProfile();
+  const queryClient = useQueryClient();
+  const [tone, setTone] = useState<CoverLetterTone>(DEFAULT_COVER_LETTER_OPTIONS.tone);
+  const [length, setLength] = useState<CoverLetterLength>(DEFAULT_COVER_LETTER_OPTIONS.length);
+  // undefined = latest version, null = write without a resume
+  const [resumeVersionId, setResumeVersionId] = useState<string | null | undefined>(undefined);
+  const [notes, setNotes] = useState("");
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ["jobWithVersions", activeProfileId, jobId],
+    queryFn: () => getJobWithVersions(activeProfileId, jobId || ""),
+    enabled: !!activeProfileId && !!jobId,
+  });
+
+  const job = data?.job;
+  const versions = data?.versions || [];
+  const selectedVersion =
+    resumeVersionId === null ? undefined : versions.find((v) => v.id === resumeVersionId) ?? versions[0];
+
+  const handleGenerate = async () => {
+    if (!job) return;
+    if (!hasContactName(profile.contact)) {
+      Alert.alert("Contact Details Needed", MISSING_CONTACT_NAME_MESSAGE, [
+        { text: "Cancel", style: "cancel" },
+        { text: "Edit Profile", onPress: () => router.push("/profile/edit") },
+      ]);
+      return;
+    }
+
+    setIsGenerating(true);
+    try {
+      const options = { tone, length };
+      const { letter, unsupportedClaims } = await generateCoverLetter(
+        profile,
+        job.posting,
+        selectedVersion?.resumeJson ?? null,
+        options
+      );
+      const saved = await addCoverLetterVersion(activeProfileId, {
+        jobId: job.id,
+        notes: notes.trim() || undefined,
+        letterText: coverLetterToText(letter),
+        letterJson: letter,
+        options,
+        resumeVersionId: selectedVersion?.id,
+        unsupportedClaims: unsupportedClaims.length > 0 ? unsupportedClaims : undefined,
+        profileSnapshot: createProfileSnapshot(profile),
+      });
+      await queryClient.invalidateQueries({ queryKey: ["historyIndex", activeProfileId] });
+      await queryClient.invalidateQueries({ queryKey: ["jobWithVersions", activeProfileId, job.id] });
+      await queryClient.invalidateQueries({ queryKey: ["jobs", activeProfileId] });
+
+      router.replace({
+        pathname: "/jobs/[jobId]/cover-letter/[coverLetterId]" as any,
+        params: { jobId: job.id, coverLetterId: saved.id },
+      });
+    } catch (error: any) {
+      console.error("[NewCoverLetter] Generation error:", error);
+      Alert.alert("Generation Error", error.message || "Failed to write the cover letter. Please try again.");
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <SafeAreaView style={styles.container} edges={["top"]}>
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={BoringAI.colors.accent} />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  if (!job) {
+    return (
+      <SafeAreaView style={styles.container} edges={["top"]}>
+        <View style={styles.errorContainer}>
+          <Text style={styles.errorText}>Job not found</Text>
+          <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+            <Text style={styles.backButtonText}>Go Back</Text>
+          </TouchableOpacity>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container} edges={["top"]}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.headerBackButton} onPress={() => router.back()}>
+          <ArrowLeft size={22} color={BoringAI.colors.text} strokeWidth={1.5} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>New Cover Letter</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
+        <View style={styles.jobInfoCard}>
+          <Text style={styles.jobTitle}>{job.posting.title}</Text>
+          {!!job.posting.company && <Text style={styles.jobCompany}>{job.posting.company}</Text>}
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionLabel}>Tone</Text>
+          <View style={styles.chipRow}>
+            {COVER_LETTER_TONES.map((option) => (
+              <TouchableOpacity
+                key={option.tone}
+                style={[styles.chip, tone === option.tone && styles.chipSelected]}
+                onPress={() => setTone(option.tone)}
+              >
+                <Text style={[styles.chipText, tone === option.tone && styles.chipTextSelected]}>{option.label}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionLabel}>Length</Text>
+          <View style={styles.chipRow}>
+            {COVER_LETTER_LENGTHS.map((option) => (
+              <TouchableOpacity
+                key={option.length}
+                style={[styles.chip, length === option.length && styles.chipSelected]}
+                onPress={() => setLength(option.length)}
+              >
+                <Text style={[styles.chipText, length === option.length && styles.chipTextSelected]}>
+                  {option.label} · ~{option.words} words
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionLabel}>Resume to accompany</Text>
+          <Text style={styles.sectionHint}>The letter highlights the same experience and uses its contact details.</Text>
+          <View style={styles.chipRow}>
+            <TouchableOpacity
+              style={[styles.chip, !selectedVersion && styles.chipSelected]}
+              onPress={() => setResumeVersionId(null)}
+            >
+              <Text style={[styles.chipText, !selectedVersion && styles.chipTextSelected]}>None</Text>
+            </TouchableOpacity>
+            {versions.map((version, index) => (
+              <TouchableOpacity
+                key={version.id}
+                style={[styles.chip, selectedVersion?.id === version.id && styles.chipSelected]}
+                onPress={() => setResumeVersionId(version.id)}
+              >
+                <Text style={[styles.chipText, selectedVersion?.id === version.id && styles.chipTextSelected]}>
+                  Version {versions.length - index}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionLabel}>Notes (optional)</Text>
+          <TextInput
+            style={styles.notesInput}
+            placeholder="e.g., Shorter version for the online form..."
+            placeholderTextColor={BoringAI.colors.textFaint}
+            value={notes}
+            onChangeText={setNotes}
+            multiline
+            numberOfLines={3}
+            textAlignVertical="top"
+          />
+        </View>
+
+        <TouchableOpacity
+          style={[styles.generateButton, isGenerating && styles.buttonDisabled]}
+          onPress={handleGenerate}
+          disabled={isGenerating}
+        >
+          {isGenerating ? (
+            <ActivityIndicator size="small" color={BoringAI.colors.background} />
+          ) : (
+            <PenLine size={20} color={BoringAI.colors.background} strokeWidth={2} />
+          )}
+          <Text style={styles.generateButtonText}>{isGenerating ? "Writing..." : "Write cover letter"}</Text>
+        </TouchableOpacity>
+
+        <View style={styles.bottomPadding} />
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: BoringAI.colors.background,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  errorContainer: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    paddingHorizontal: BoringAI.spacing.xl,
+  },
+  errorText: {
+    fontSize: 16,
+    color: BoringAI.colors.textMuted,
+    marginBottom: BoringAI.spacing.lg,
+  },
+  backButton: {
+    backgroundColor: BoringAI.colors.accent,
+    paddingVertical: 12,
+    paddingHorizontal: 24,
+    borderRadius: BoringAI.radius.button,
+  },
+  backButtonText: {
+    fontSize: 16,
+    fontWeight: "600" as const,
+    color: BoringAI.colors.background,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: BoringAI.spacing.lg,
+    paddingVertical: BoringAI.spacing.md,
+    borderBottomWidth: BoringAI.border.hairline,
+    borderBottomColor: BoringAI.colors.border,
+  },
+  headerBackButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: BoringAI.colors.surfaceAlt,
+    borderWidth: BoringAI.border.hairline,
+    borderColor: BoringAI.colors.border,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: "700" as const,
+    color: BoringAI.colors.text,
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  jobInfoCard: {
+    marginHorizontal: BoringAI.spacing.xl,
+    marginTop: BoringAI.spacing.lg,
+    padding: BoringAI.spacing.lg,
+    backgroundColor: BoringAI.colors.surface,
+    borderWidth: BoringAI.border.hairline,
+    borderColor: BoringAI.colors.border,
+    borderRadius: BoringAI.radius.card,
+    ...BoringAI.shadow.cardShadow,
+  },
+  jobTitle: {
+    fontSize: 18,
+    fontWeight: "700" as const,
+    color: BoringAI.colors.text,
+    marginBottom: BoringAI.spacing.xxs,
+  },
+  jobCompany: {
+    fontSize: 14,
+    color: BoringAI.colors.textMuted,
+  },
+  section: {
+    marginHorizontal: BoringAI.spacing.xl,
+    marginTop: BoringAI.spacing.lg,
+  },
+  sectionLabel: {
+    fontSize: 13,
+    fontWeight: "600" as const,
+    color: BoringAI.colors.text,
+    marginBottom: BoringAI.spacing.xs,
+  },
+  sectionHint: {
+    fontSize: 13,
+    color: BoringAI.colors.textMuted,
+    marginBottom: BoringAI.spacing.sm,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: BoringAI.spacing.xs,
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: BoringAI.spacing.sm,
+    borderRadius: BoringAI.radius.pill,
+    borderWidth: BoringAI.border.hairline,
+    borderColor: BoringAI.colors.border,
+    backgroundColor: BoringAI.colors.surfaceAlt,
+  },
+  chipSelected: {
+    backgroundColor: BoringAI.colors.accent,
+    borderColor: BoringAI.colors.accent,
+  },
+  chipText: {
+    fontSize: 13,
+    color: BoringAI.colors.textMuted,
+  },
+  chipTextSelected: {
+    color: BoringAI.colors.background,
+    fontWeight: "600" as const,
+  },
+  notesInput: {
+    backgroundColor: BoringAI.colors.surfaceAlt,
+    borderWidth: BoringAI.border.hairline,
+    borderColor: BoringAI.colors.border,
+    borderRadius: BoringAI.radius.input,
+    padding: BoringAI.spacing.sm,
+    fontSize: 16,
+    color: BoringAI.colors.text,
+    minHeight: 80,
+  },
+  generateButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    marginHorizontal: BoringAI.spacing.xl,
+    marginTop: BoringAI.spacing.xl,
+    paddingVertical: 16,
+    backgroundColor: BoringAI.colors.accent,
+    borderRadius: BoringAI.radius.button,
+    gap: BoringAI.spacing.xs,
+  },
+  generateButtonText: {
+    fontSize: 16,
+    fontWeight: "600" as const,
+    color: BoringAI.colors.background,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  bottomPadding: {
+    height: 40,
+  },
+});
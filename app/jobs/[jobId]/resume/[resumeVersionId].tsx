@@ -1,8 +1,9 @@
 import { router, useLocalSearchParams } from "expo-router";
-import { ArrowLeft, Check, Copy } from "lucide-react-native";
+import { ArrowLeft, Check, Copy, Download, FileDown } from "lucide-react-native";
 import React, { useState } from "react";
 import {
   ActivityIndicator,
+  Alert,
   Platform,
   ScrollView,
   StyleSheet,
@@ -16,6 +17,16 @@ import { useQuery } from "@tanstack/react-query";
 import { useUserProfile } from "../../../../contexts/UserProfileContext";
 import { copyTextSafe } from "../../../../lib/clipboard";
 import { getResumeVersionById } from "../../../../lib/historyStore";
+import { describeGenerationOptions } from "../../../../lib/resumeDiff";
+import {
+  DOCX_MIME_TYPE,
+  makeResumeFileName,
+  PDF_MIME_TYPE,
+  renderResumeDocx,
+  renderResumePdf,
+  saveAndShareFile,
+  TEMPLATE_NOT_APPLIED_MESSAGE,
+} from "../../../../lib/resumeExport";
 import { BoringAI } from "../../../../ui/theme/boringAiTheme";
 
 export default function ResumeViewerScreen() {
@@ -23,8 +34,10 @@ export default function ResumeViewerScreen() {
     jobId: string;
     resumeVersionId: string;
   }>();
-  const { activeProfileId } = useUserProfile();
+  const { activeProfileId, getResumeAssets } = useUserProfile();
   const [copied, setCopied] = useState(false);
+  const [isDownloading, setIsDownloading] = useState(false);
+  const [isDownloadingPdf, setIsDownloadingPdf] = useState(false);
 
   const { data: version, isLoading } = useQuery({
     queryKey: ["resumeVersion", activeProfileId, resumeVersionId],
@@ -52,6 +65,58 @@ export default function ResumeViewerScreen() {
     }
   };
 
+  const downloadDocx = async () => {
+    if (!version) return;
+
+    setIsDownloading(true);
+    try {
+      const options = version.generationOptions || { mode: "standard" as const, enforceOnePage: false };
+      const templateAsset = options.mode === "template" && version.formatResumeId
+        ? getResumeAssets().find((a) => a.id === version.formatResumeId)
+        : undefined;
+
+      const { base64, templateNotApplied } = await renderResumeDocx(
+        version.resumeJson,
+        options,
+        templateAsset?.docxBase64
+      );
+      const company = version.resumeJson.experience[0]?.company || "version";
+
+      await saveAndShareFile(base64, makeResumeFileName(`${company}-${version.id}`, "docx"), {
+        mimeType: DOCX_MIME_TYPE,
+        dialogTitle: "Save Resume",
+        UTI: "com.microsoft.word.doc",
+      });
+      if (templateNotApplied) Alert.alert("Template Not Applied", TEMPLATE_NOT_APPLIED_MESSAGE);
+    } catch (error: any) {
+      console.error("[ResumeViewer] DOCX download error:", error);
+      Alert.alert("Download Error", error.message || "Failed to download DOCX. Please try again.");
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  const downloadPdf = async () => {
+    if (!version) return;
+
+    setIsDownloadingPdf(true);
+    try {
+      const base64 = await renderResumePdf(version.resumeJson, version.generationOptions?.theme);
+      const company = version.resumeJson.experience[0]?.company || "version";
+
+      await saveAndShareFile(base64, makeResumeFileName(`${company}-${version.id}`, "pdf"), {
+        mimeType: PDF_MIME_TYPE,
+        dialogTitle: "Save Resume",
+        UTI: "com.adobe.pdf",
+      });
+    } catch (error: any) {
+      console.error("[ResumeViewer] PDF download error:", error);
+      Alert.alert("Download Error", error.message || "Failed to download PDF. Please try again.");
+    } finally {
+      setIsDownloadingPdf(false);
+    }
+  };
+
   if (isLoading) {
     return (
       <SafeAreaView style={styles.container} edges={["top"]}>
@@ -94,8 +159,42 @@ export default function ResumeViewerScreen() {
               <Text style={styles.metaNotes}>{version.notes}</Text>
             </>
           )}
+          {version.generationOptions && (
+            <Text style={styles.metaOptions}>{describeGenerationOptions(version.generationOptions)}</Text>
+          )}
+          {version.migratedFromText && (
+            <Text style={styles.metaOptions}>Restored from a text-only save</Text>
+          )}
         </View>
 
+        <TouchableOpacity
+          style={[styles.downloadButton, isDownloading && styles.buttonDisabled]}
+          onPress={downloadDocx}
+          disabled={isDownloading}
+        >
+          {isDownloading ? (
+            <ActivityIndicator size="small" color={BoringAI.colors.background} />
+          ) : (
+            <Download size={20} color={BoringAI.colors.background} strokeWidth={2} />
+          )}
+          <Text style={styles.downloadButtonText}>
+            {isDownloading ? "Generating..." : "Download .docx"}
+          </Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          style={[styles.copyButton, isDownloadingPdf && styles.buttonDisabled]}
+          onPress={downloadPdf}
+          disabled={isDownloadingPdf}
+        >
+          {isDownloadingPdf ? (
+            <ActivityIndicator size="small" color={BoringAI.colors.text} />
+          ) : (
+            <FileDown size={20} color={BoringAI.colors.text} strokeWidth={1.5} />
+          )}
+          <Text style={styles.copyButtonText}>{isDownloadingPdf ? "Generating..." : "Download .pdf"}</Text>
+        </TouchableOpacity>
+
         <View style={styles.resumeCard}>
           <Text style={styles.resumeText}>{version.resumeText}</Text>
         </View>
@@ -219,6 +318,30 @@ const styles = StyleSheet.create({
     color: BoringAI.colors.textMuted,
     lineHeight: 18,
   },
+  metaOptions: {
+    fontSize: 12,
+    color: BoringAI.colors.textFaint,
+    marginTop: BoringAI.spacing.xs,
+  },
+  downloadButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    marginHorizontal: BoringAI.spacing.xl,
+    marginTop: BoringAI.spacing.md,
+    paddingVertical: 12,
+    backgroundColor: BoringAI.colors.accent,
+    borderRadius: BoringAI.radius.button,
+    gap: BoringAI.spacing.xs,
+  },
+  downloadButtonText: {
+    fontSize: 16,
+    fontWeight: "600" as const,
+    color: BoringAI.colors.background,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
   resumeCard: {
     marginHorizontal: BoringAI.spacing.xl,
     marginTop: BoringAI.spacing.md,
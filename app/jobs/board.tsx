@@ -0,0 +1,195 @@
+import { router } from "expo-router";
+import { ArrowLeft, Briefcase } from "lucide-react-native";
+import React from "react";
+import {
+  ActivityIndicator,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { useQuery } from "@tanstack/react-query";
+
+import { useUserProfile } from "../../contexts/UserProfileContext";
+import { groupJobsByStage, latestStageChange } from "../../lib/applicationPipeline";
+import { loadJobs } from "../../lib/jobRepository";
+import { BoringAI } from "../../ui/theme/boringAiTheme";
+
+export default function ApplicationBoardScreen() {
+  const { activeProfileId } = useUserProfile();
+
+  const { data: jobs = [], isLoading } = useQuery({
+    queryKey: ["jobs", activeProfileId],
+    queryFn: () => loadJobs(activeProfileId),
+    enabled: !!activeProfileId,
+  });
+
+  const columns = groupJobsByStage(jobs);
+
+  if (isLoading) {
+    return (
+      <SafeAreaView style={styles.container} edges={["top"]}>
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={BoringAI.colors.accent} />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container} edges={["top"]}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.headerBackButton} onPress={() => router.back()}>
+          <ArrowLeft size={22} color={BoringAI.colors.text} strokeWidth={1.5} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Applications</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
+        {columns.map((column) => (
+          <View key={column.stage} style={styles.stageSection}>
+            <View style={styles.stageHeader}>
+              <Text style={styles.stageTitle}>{column.label}</Text>
+              <Text style={styles.stageCount}>{column.jobs.length}</Text>
+            </View>
+
+            {column.jobs.length === 0 ? (
+              <Text style={styles.stageEmpty}>No jobs</Text>
+            ) : (
+              column.jobs.map((job) => {
+                const change = latestStageChange(job);
+                return (
+                  <TouchableOpacity
+                    key={job.id}
+                    style={styles.jobCard}
+                    onPress={() => router.push({ pathname: "/jobs/[jobId]" as any, params: { jobId: job.id } })}
+                    activeOpacity={0.7}
+                  >
+                    <Briefcase size={18} color={BoringAI.colors.textMuted} strokeWidth={1.5} />
+                    <View style={styles.jobCardContent}>
+                      <Text style={styles.jobTitle}>{job.posting.title}</Text>
+                      {!!job.posting.company && <Text style={styles.jobCompany}>{job.posting.company}</Text>}
+                      {change && (
+                        <Text style={styles.jobMeta} numberOfLines={2}>
+                          Since {new Date(change.changedAt).toLocaleDateString()}
+                          {change.notes ? ` · ${change.notes}` : ""}
+                        </Text>
+                      )}
+                    </View>
+                  </TouchableOpacity>
+                );
+              })
+            )}
+          </View>
+        ))}
+
+        <View style={styles.bottomPadding} />
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: BoringAI.colors.background,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: BoringAI.spacing.lg,
+    paddingVertical: BoringAI.spacing.md,
+    borderBottomWidth: BoringAI.border.hairline,
+    borderBottomColor: BoringAI.colors.border,
+  },
+  headerBackButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: BoringAI.colors.surfaceAlt,
+    borderWidth: BoringAI.border.hairline,
+    borderColor: BoringAI.colors.border,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: "700" as const,
+    color: BoringAI.colors.text,
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  stageSection: {
+    marginHorizontal: BoringAI.spacing.xl,
+    marginTop: BoringAI.spacing.lg,
+  },
+  stageHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingBottom: BoringAI.spacing.xs,
+    marginBottom: BoringAI.spacing.sm,
+    borderBottomWidth: BoringAI.border.hairline,
+    borderBottomColor: BoringAI.colors.border,
+  },
+  stageTitle: {
+    fontSize: 16,
+    fontWeight: "700" as const,
+    color: BoringAI.colors.text,
+  },
+  stageCount: {
+    fontSize: 13,
+    color: BoringAI.colors.textMuted,
+  },
+  stageEmpty: {
+    fontSize: 13,
+    color: BoringAI.colors.textFaint,
+  },
+  jobCard: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    gap: BoringAI.spacing.sm,
+    backgroundColor: BoringAI.colors.surface,
+    borderWidth: BoringAI.border.hairline,
+    borderColor: BoringAI.colors.border,
+    borderRadius: BoringAI.radius.card,
+    padding: BoringAI.spacing.md,
+    marginBottom: BoringAI.spacing.sm,
+    ...BoringAI.shadow.cardShadow,
+  },
+  jobCardContent: {
+    flex: 1,
+  },
+  jobTitle: {
+    fontSize: 16,
+    fontWeight: "600" as const,
+    color: BoringAI.colors.text,
+    marginBottom: 2,
+  },
+  jobCompany: {
+    fontSize: 13,
+    color: BoringAI.colors.textMuted,
+  },
+  jobMeta: {
+    fontSize: 11,
+    color: BoringAI.colors.textFaint,
+    marginTop: BoringAI.spacing.xxs,
+    letterSpacing: 0.2,
+  },
+  bottomPadding: {
+    height: 40,
+  },
+});
@@ -1,11 +1,12 @@
 import { router } from "expo-router";
-import { Briefcase, FileText } from "lucide-react-native";
-import React from "react";
+import { Briefcase, FileText, LayoutGrid, Search, SlidersHorizontal } from "lucide-react-native";
+import React, { useMemo, useState } from "react";
 import {
   ActivityIndicator,
   ScrollView,
   StyleSheet,
   Text,
+  TextInput,
   TouchableOpacity,
   View,
 } from "react-native";
@@ -13,31 +14,100 @@ import { SafeAreaView } from "react-native-safe-area-context";
 import { useQuery } from "@tanstack/react-query";
 
 import { useUserProfile } from "../../contexts/UserProfileContext";
-import { loadJobRuns, loadResumeVersions } from "../../lib/historyStore";
+import { applicationStage, stageLabel } from "../../lib/applicationPipeline";
+import {
+  buildTermLookup,
+  DATE_RANGES,
+  EMPTY_HISTORY_FILTERS,
+  facetValues,
+  FIT_SCORE_BANDS,
+  HISTORY_SORTS,
+  queryHistory,
+  type HistoryFilters,
+  type HistorySort,
+} from "../../lib/historyIndex";
+import { loadHistoryIndex } from "../../lib/historyStore";
+import { loadJobs } from "../../lib/jobRepository";
 import { BoringAI } from "../../ui/theme/boringAiTheme";
 
+function ChipRow<T extends string>({
+  label,
+  options,
+  selected,
+  onSelect,
+}: {
+  label: string;
+  options: { value: T; label: string }[];
+  selected?: T;
+  onSelect: (value: T | undefined) => void;
+}) {
+  if (options.length === 0) return null;
+  return (
+    <View style={styles.filterGroup}>
+      <Text style={styles.filterLabel}>{label}</Text>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+        {options.map((option) => {
+          const isSelected = option.value === selected;
+          return (
+            <TouchableOpacity
+              key={option.value}
+              style={[styles.chip, isSelected && styles.chipSelected]}
+              onPress={() => onSelect(isSelected ? undefined : option.value)}
+            >
+              <Text style={[styles.chipText, isSelected && styles.chipTextSelected]}>{option.label}</Text>
+            </TouchableOpacity>
+          );
+        })}
+      </ScrollView>
+    </View>
+  );
+}
+
+const asOptions = (values: string[]) => values.map((value) => ({ value, label: value }));
+
 export default function JobsListScreen() {
   const { activeProfileId } = useUserProfile();
+  const [query, setQuery] = useState("");
+  const [filters, setFilters] = useState<HistoryFilters>(EMPTY_HISTORY_FILTERS);
+  const [sort, setSort] = useState<HistorySort>("updated");
+  const [showFilters, setShowFilters] = useState(false);
 
-  const { data: jobRuns = [], isLoading: isLoadingRuns } = useQuery({
-    queryKey: ["jobRuns", activeProfileId],
-    queryFn: () => loadJobRuns(activeProfileId),
+  const { data: jobs = [], isLoading: isLoadingJobs } = useQuery({
+    queryKey: ["jobs", activeProfileId],
+    queryFn: () => loadJobs(activeProfileId),
     enabled: !!activeProfileId,
   });
 
-  const { data: versions = [], isLoading: isLoadingVersions } = useQuery({
-    queryKey: ["resumeVersions", activeProfileId],
-    queryFn: () => loadResumeVersions(activeProfileId),
+  const { data: index, isLoading: isLoadingIndex } = useQuery({
+    queryKey: ["historyIndex", activeProfileId],
+    queryFn: () => loadHistoryIndex(activeProfileId),
     enabled: !!activeProfileId,
   });
 
-  const sortedJobs = [...jobRuns].sort(
-    (a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()
+  const lookup = useMemo(() => (index ? buildTermLookup(index) : null), [index]);
+
+  const visibleJobs = useMemo(() => {
+    if (!index || !lookup) return [];
+    const jobsById = new Map(jobs.map((job) => [job.id, job]));
+    const updatedAt = Object.fromEntries(jobs.map((job) => [job.id, job.updatedAt]));
+    return queryHistory(index, lookup, { query, filters, sort, updatedAt })
+      .map((id) => jobsById.get(id))
+      .filter((job) => job !== undefined);
+  }, [index, lookup, jobs, query, filters, sort]);
+
+  const facets = useMemo(
+    () => ({
+      company: index ? facetValues(index, "company") : [],
+      domain: index ? facetValues(index, "domain") : [],
+      seniority: index ? facetValues(index, "seniority") : [],
+    }),
+    [index]
   );
 
-  const getVersionCount = (jobId: string) => {
-    return versions.filter((v) => v.jobId === jobId).length;
-  };
+  const activeFilterCount =
+    [filters.company, filters.scoreBand, filters.domain, filters.seniority].filter(Boolean).length +
+    (filters.dateRange !== "any" ? 1 : 0);
+  const updateFilters = (patch: Partial<HistoryFilters>) => setFilters((current) => ({ ...current, ...patch }));
 
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
@@ -53,7 +123,7 @@ export default function JobsListScreen() {
     return date.toLocaleDateString();
   };
 
-  if (isLoadingRuns || isLoadingVersions) {
+  if (isLoadingJobs || isLoadingIndex) {
     return (
       <SafeAreaView style={styles.container} edges={["top"]}>
         <View style={styles.loadingContainer}>
@@ -65,22 +135,107 @@ export default function JobsListScreen() {
 
   return (
     <SafeAreaView style={styles.container} edges={["top"]}>
-      <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
+      <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
         <View style={styles.header}>
           <Text style={styles.title}>Job History</Text>
           <Text style={styles.subtitle}>
-            {sortedJobs.length} job{sortedJobs.length !== 1 ? "s" : ""} with tailored resumes
+            {visibleJobs.length === jobs.length
+              ? `${jobs.length} saved job${jobs.length !== 1 ? "s" : ""}`
+              : `${visibleJobs.length} of ${jobs.length} jobs`}
           </Text>
+          {jobs.length > 0 && (
+            <TouchableOpacity style={styles.boardButton} onPress={() => router.push("/jobs/board" as any)}>
+              <LayoutGrid size={16} color={BoringAI.colors.text} strokeWidth={1.5} />
+              <Text style={styles.boardButtonText}>Application board</Text>
+            </TouchableOpacity>
+          )}
         </View>
 
-        {sortedJobs.length === 0 ? (
+        {jobs.length > 0 && (
+          <View style={styles.searchSection}>
+            <View style={styles.searchRow}>
+              <View style={styles.searchInputContainer}>
+                <Search size={18} color={BoringAI.colors.textFaint} strokeWidth={1.5} />
+                <TextInput
+                  style={styles.searchInput}
+                  placeholder="Search postings and resumes"
+                  placeholderTextColor={BoringAI.colors.textFaint}
+                  value={query}
+                  onChangeText={setQuery}
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  returnKeyType="search"
+                />
+              </View>
+              <TouchableOpacity
+                style={[styles.filterButton, (showFilters || activeFilterCount > 0) && styles.filterButtonActive]}
+                onPress={() => setShowFilters(!showFilters)}
+              >
+                <SlidersHorizontal
+                  size={18}
+                  color={showFilters || activeFilterCount > 0 ? BoringAI.colors.background : BoringAI.colors.text}
+                  strokeWidth={1.5}
+                />
+                {activeFilterCount > 0 && <Text style={styles.filterButtonCount}>{activeFilterCount}</Text>}
+              </TouchableOpacity>
+            </View>
+
+            {showFilters && (
+              <View style={styles.filterPanel}>
+                <ChipRow
+                  label="Sort"
+                  options={HISTORY_SORTS.map((s) => ({ value: s.sort, label: s.label }))}
+                  selected={sort}
+                  onSelect={(value) => setSort(value ?? "updated")}
+                />
+                <ChipRow
+                  label="Added"
+                  options={DATE_RANGES.map((r) => ({ value: r.range, label: r.label }))}
+                  selected={filters.dateRange}
+                  onSelect={(value) => updateFilters({ dateRange: value ?? "any" })}
+                />
+                <ChipRow
+                  label="Fit score"
+                  options={FIT_SCORE_BANDS.map((b) => ({ value: b.band, label: b.label }))}
+                  selected={filters.scoreBand}
+                  onSelect={(value) => updateFilters({ scoreBand: value })}
+                />
+                <ChipRow
+                  label="Company"
+                  options={asOptions(facets.company)}
+                  selected={filters.company}
+                  onSelect={(value) => updateFilters({ company: value })}
+                />
+                <ChipRow
+                  label="Domain"
+                  options={asOptions(facets.domain)}
+                  selected={filters.domain}
+                  onSelect={(value) => updateFilters({ domain: value })}
+                />
+                <ChipRow
+                  label="Seniority"
+                  options={asOptions(facets.seniority)}
+                  selected={filters.seniority}
+                  onSelect={(value) => updateFilters({ seniority: value })}
+                />
+                {activeFilterCount > 0 && (
+                  <TouchableOpacity onPress={() => setFilters(EMPTY_HISTORY_FILTERS)}>
+                    <Text style={styles.clearFilters}>Clear filters</Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+            )}
+          </View>
+        )}
+
+        {jobs.length === 0 ? (
           <View style={styles.emptyContainer}>
             <View style={styles.emptyIconContainer}>
               <Briefcase size={48} color={BoringAI.colors.textFaint} strokeWidth={1.5} />
             </View>
             <Text style={styles.emptyTitle}>No jobs yet</Text>
             <Text style={styles.emptyText}>
-              Generate a tailored resume for a job posting to see it here.
+              Analyze a job posting to see it here.
             </Text>
             <TouchableOpacity
               style={styles.emptyButton}
@@ -89,15 +244,18 @@ export default function JobsListScreen() {
               <Text style={styles.emptyButtonText}>Go to Home</Text>
             </TouchableOpacity>
           </View>
+        ) : visibleJobs.length === 0 ? (
+          <Text style={styles.noResults}>No jobs match your search.</Text>
         ) : (
           <View style={styles.jobsList}>
-            {sortedJobs.map((job) => {
-              const versionCount = getVersionCount(job.jobId);
+            {visibleJobs.map((job) => {
+              const entry = index?.entries[job.id];
+              const versionCount = entry?.versionCount ?? 0;
               return (
                 <TouchableOpacity
                   key={job.id}
                   style={styles.jobCard}
-                  onPress={() => router.push({ pathname: "/jobs/[jobId]" as any, params: { jobId: job.jobId } })}
+                  onPress={() => router.push({ pathname: "/jobs/[jobId]" as any, params: { jobId: job.id } })}
                   activeOpacity={0.7}
                 >
                   <View style={styles.jobCardHeader}>
@@ -105,14 +263,17 @@ export default function JobsListScreen() {
                       <Briefcase size={20} color={BoringAI.colors.textMuted} strokeWidth={1.5} />
                     </View>
                     <View style={styles.jobCardContent}>
-                      <Text style={styles.jobTitle}>{job.title}</Text>
-                      {job.company && (
-                        <Text style={styles.jobCompany}>{job.company}</Text>
+                      <Text style={styles.jobTitle}>{job.posting.title}</Text>
+                      {!!job.posting.company && (
+                        <Text style={styles.jobCompany}>{job.posting.company}</Text>
                       )}
                       {job.location && (
                         <Text style={styles.jobLocation}>{job.location}</Text>
                       )}
                     </View>
+                    {entry?.latestScore !== undefined && (
+                      <Text style={styles.jobScore}>{entry.latestScore}</Text>
+                    )}
                   </View>
                   <View style={styles.jobCardFooter}>
                     <View style={styles.versionBadge}>
@@ -121,7 +282,9 @@ export default function JobsListScreen() {
                         {versionCount} version{versionCount !== 1 ? "s" : ""}
                       </Text>
                     </View>
-                    <Text style={styles.jobDate}>{formatDate(job.updatedAt)}</Text>
+                    <Text style={styles.jobDate}>
+                      {stageLabel(applicationStage(job))} · {formatDate(job.updatedAt)}
+                    </Text>
                   </View>
                 </TouchableOpacity>
               );
@@ -163,6 +326,123 @@ const styles = StyleSheet.create({
     color: BoringAI.colors.textMuted,
     lineHeight: 22,
   },
+  boardButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    alignSelf: "flex-start",
+    gap: BoringAI.spacing.xs,
+    marginTop: BoringAI.spacing.md,
+    paddingVertical: BoringAI.spacing.xs,
+    paddingHorizontal: BoringAI.spacing.sm,
+    borderWidth: BoringAI.border.hairline,
+    borderColor: BoringAI.colors.borderStrong,
+    borderRadius: BoringAI.radius.button,
+  },
+  boardButtonText: {
+    fontSize: 13,
+    fontWeight: "600" as const,
+    color: BoringAI.colors.text,
+  },
+  searchSection: {
+    paddingHorizontal: BoringAI.spacing.xl,
+    paddingTop: BoringAI.spacing.xs,
+  },
+  searchRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: BoringAI.spacing.xs,
+  },
+  searchInputContainer: {
+    flex: 1,
+    flexDirection: "row",
+    alignItems: "center",
+    gap: BoringAI.spacing.xs,
+    paddingHorizontal: BoringAI.spacing.sm,
+    backgroundColor: BoringAI.colors.surfaceAlt,
+    borderWidth: BoringAI.border.hairline,
+    borderColor: BoringAI.colors.border,
+    borderRadius: BoringAI.radius.input,
+  },
+  searchInput: {
+    flex: 1,
+    paddingVertical: 10,
+    fontSize: 16,
+    color: BoringAI.colors.text,
+  },
+  filterButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: BoringAI.spacing.xxs,
+    height: 44,
+    paddingHorizontal: BoringAI.spacing.sm,
+    borderWidth: BoringAI.border.hairline,
+    borderColor: BoringAI.colors.border,
+    borderRadius: BoringAI.radius.input,
+  },
+  filterButtonActive: {
+    backgroundColor: BoringAI.colors.accent,
+    borderColor: BoringAI.colors.accent,
+  },
+  filterButtonCount: {
+    fontSize: 13,
+    fontWeight: "600" as const,
+    color: BoringAI.colors.background,
+  },
+  filterPanel: {
+    marginTop: BoringAI.spacing.sm,
+    padding: BoringAI.spacing.md,
+    backgroundColor: BoringAI.colors.surfaceAlt,
+    borderWidth: BoringAI.border.hairline,
+    borderColor: BoringAI.colors.border,
+    borderRadius: BoringAI.radius.card,
+  },
+  filterGroup: {
+    marginBottom: BoringAI.spacing.sm,
+  },
+  filterLabel: {
+    fontSize: 11,
+    fontWeight: "600" as const,
+    color: BoringAI.colors.textFaint,
+    letterSpacing: 0.2,
+    textTransform: "uppercase",
+    marginBottom: BoringAI.spacing.xxs,
+  },
+  chipRow: {
+    gap: BoringAI.spacing.xs,
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: BoringAI.spacing.sm,
+    backgroundColor: BoringAI.colors.surface,
+    borderWidth: BoringAI.border.hairline,
+    borderColor: BoringAI.colors.border,
+    borderRadius: BoringAI.radius.pill,
+  },
+  chipSelected: {
+    backgroundColor: BoringAI.colors.accent,
+    borderColor: BoringAI.colors.accent,
+  },
+  chipText: {
+    fontSize: 13,
+    color: BoringAI.colors.textMuted,
+  },
+  chipTextSelected: {
+    color: BoringAI.colors.background,
+    fontWeight: "600" as const,
+  },
+  clearFilters: {
+    fontSize: 13,
+    fontWeight: "600" as const,
+    color: BoringAI.colors.text,
+    textDecorationLine: "underline",
+  },
+  noResults: {
+    fontSize: 16,
+    color: BoringAI.colors.textMuted,
+    textAlign: "center",
+    marginTop: BoringAI.spacing.xxl,
+    paddingHorizontal: BoringAI.spacing.xl,
+  },
   emptyContainer: {
     marginTop: 80,
     paddingHorizontal: BoringAI.spacing.xl,
@@ -247,6 +527,12 @@ const styles = StyleSheet.create({
     color: BoringAI.colors.textMuted,
     marginBottom: 2,
   },
+  jobScore: {
+    fontSize: 22,
+    fontWeight: "700" as const,
+    color: BoringAI.colors.text,
+    marginLeft: BoringAI.spacing.sm,
+  },
   jobLocation: {
     fontSize: 13,
     color: BoringAI.colors.textFaint,
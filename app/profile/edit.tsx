@@ -1,6 +1,6 @@
 import * as DocumentPicker from "expo-document-picker";
-import { router } from "expo-router";
-import { Plus, Trash2, Upload, X } from "lucide-react-native";
+import { router, useLocalSearchParams } from "expo-router";
+import { AlertTriangle, Pencil, Plus, Trash2, Upload, X } from "lucide-react-native";
 import React, { useState } from "react";
 import {
   ActivityIndicator,
@@ -15,25 +15,49 @@ import {
   View,
 } from "react-native";
 import { useMutation } from "@tanstack/react-query";
+import { createProvenance, describeEvidence } from "../../lib/provenance";
+import { ingestSuggested, profileHasItems } from "../../lib/resumeIngestion";
 import { parseResumeText, showParseSuccessAlert, type ResumeData } from "../../lib/resumeParser";
-import { normalizeText } from "../../lib/sourceOfTruth";
+import { canonicalSkillName, categoryOfSkill, sameSkill } from "../../lib/skillTaxonomy";
 import { extractResumeText } from "../../lib/resumeTextExtractor";
 import { ensureLocalCacheUri } from "../../lib/fileUtils";
+import {
+  computeExperienceMonths,
+  computeTotalTenureMonths,
+  formatTenure,
+  validateTimeline,
+  withStructuredDates,
+} from "../../lib/tenure";
 
 import { useUserProfile } from "../../contexts/UserProfileContext";
+import ResumeImportReview from "../../ui/components/ResumeImportReview";
 import type {
   Experience,
   Skill,
   Certification,
+  Education,
+  SkillAlias,
+  Provenance,
+  UserProfile,
 } from "../../types/profile";
 
 
 
 export default function EditProfileScreen() {
+  const { addSkill: prefillSkill, skillCategory } = useLocalSearchParams<{
+    addSkill?: string;
+    skillCategory?: string;
+  }>();
   const { profile, updateProfile } = useUserProfile();
   const [showAddExperience, setShowAddExperience] = useState(false);
-  const [showAddSkill, setShowAddSkill] = useState(false);
+  const [showAddSkill, setShowAddSkill] = useState(!!prefillSkill);
   const [showAddCertification, setShowAddCertification] = useState(false);
+  const [showAddEducation, setShowAddEducation] = useState(false);
+  const [showEditContact, setShowEditContact] = useState(false);
+  const [showAddAlias, setShowAddAlias] = useState(false);
+  const [newAlias, setNewAlias] = useState({ alias: "", canonical: "" });
+  const [contactDraft, setContactDraft] = useState({ name: "", location: "", phone: "", email: "", links: "" });
+  const [pendingImport, setPendingImport] = useState<ResumeData | null>(null);
 
   const [newExperience, setNewExperience] = useState({
     title: "",
@@ -44,12 +68,44 @@ export default function EditProfileScreen() {
     description: "",
   });
 
-  const [newSkill, setNewSkill] = useState({ name: "", category: "" });
+  const [newSkill, setNewSkill] = useState({ name: prefillSkill || "", category: skillCategory || "" });
   const [newCertification, setNewCertification] = useState({
     name: "",
     issuer: "",
     date: "",
   });
+  const [newEducation, setNewEducation] = useState({
+    school: "",
+    degree: "",
+    field: "",
+    startDate: "",
+    endDate: "",
+  });
+
+  const timelineIssues = validateTimeline(profile.experience);
+  const totalTenureMonths = computeTotalTenureMonths(profile.experience);
+
+  const contactLine = [profile.contact.location, profile.contact.phone, profile.contact.email]
+    .filter(Boolean)
+    .join(" | ");
+
+  const openContactEditor = () => {
+    setContactDraft({ ...profile.contact, links: profile.contact.links.join("\n") });
+    setShowEditContact(true);
+  };
+
+  const saveContact = () => {
+    updateProfile({
+      contact: {
+        name: contactDraft.name.trim(),
+        location: contactDraft.location.trim(),
+        phone: contactDraft.phone.trim(),
+        email: contactDraft.email.trim(),
+        links: contactDraft.links.split("\n").map((link) => link.trim()).filter(Boolean),
+      },
+    });
+    setShowEditContact(false);
+  };
 
   const addExperience = () => {
     if (!newExperience.title || !newExperience.company) {
@@ -57,11 +113,12 @@ export default function EditProfileScreen() {
       return;
     }
 
-    const experience: Experience = {
+    const experience: Experience = withStructuredDates({
       id: Date.now().toString(),
       ...newExperience,
       achievements: [],
-    };
+      provenance: [createProvenance("manual_entry")],
+    });
 
     updateProfile({
       experience: [...profile.experience, experience],
@@ -78,6 +135,13 @@ export default function EditProfileScreen() {
     setShowAddExperience(false);
   };
 
+  const showEvidence = (title: string, records: Provenance[] | undefined) => {
+    Alert.alert(
+      title,
+      describeEvidence(records, profile) || "No source was recorded for this item. It was added before sources were tracked."
+    );
+  };
+
   const removeExperience = (id: string) => {
     updateProfile({
       experience: profile.experience.filter((exp) => exp.id !== id),
@@ -90,10 +154,18 @@ export default function EditProfileScreen() {
       return;
     }
 
+    const existing = profile.skills.find((s) => sameSkill(s.name, newSkill.name));
+    if (existing) {
+      Alert.alert("Already Added", `${newSkill.name} is already in your profile as ${existing.name}.`);
+      return;
+    }
+
     const skill: Skill = {
       id: Date.now().toString(),
       name: newSkill.name,
-      category: newSkill.category || "General",
+      category: newSkill.category || categoryOfSkill(newSkill.name) || "General",
+      source: "manual_entry",
+      provenance: [createProvenance("manual_entry")],
     };
 
     updateProfile({
@@ -110,6 +182,38 @@ export default function EditProfileScreen() {
     });
   };
 
+  const addAlias = () => {
+    const alias = newAlias.alias.trim();
+    const canonical = newAlias.canonical.trim();
+    if (!alias || !canonical) {
+      Alert.alert("Error", "Please enter both the alias and the skill it stands for");
+      return;
+    }
+    if (sameSkill(alias, canonical)) {
+      Alert.alert("Already Matched", `${alias} is already treated as ${canonicalSkillName(canonical)}.`);
+      return;
+    }
+
+    const skillAlias: SkillAlias = {
+      id: Date.now().toString(),
+      alias,
+      canonical,
+    };
+
+    updateProfile({
+      skillAliases: [...profile.skillAliases, skillAlias],
+    });
+
+    setNewAlias({ alias: "", canonical: "" });
+    setShowAddAlias(false);
+  };
+
+  const removeAlias = (id: string) => {
+    updateProfile({
+      skillAliases: profile.skillAliases.filter((alias) => alias.id !== id),
+    });
+  };
+
   const addCertification = () => {
     if (!newCertification.name) {
       Alert.alert("Error", "Please enter certification name");
@@ -119,6 +223,7 @@ export default function EditProfileScreen() {
     const certification: Certification = {
       id: Date.now().toString(),
       ...newCertification,
+      provenance: [createProvenance("manual_entry")],
     };
 
     updateProfile({
@@ -135,6 +240,48 @@ export default function EditProfileScreen() {
     });
   };
 
+  const addEducation = () => {
+    if (!newEducation.school) {
+      Alert.alert("Error", "Please enter a school name");
+      return;
+    }
+
+    const education: Education = {
+      id: Date.now().toString(),
+      ...newEducation,
+      provenance: [createProvenance("manual_entry")],
+    };
+
+    updateProfile({
+      education: [...profile.education, education],
+    });
+
+    setNewEducation({ school: "", degree: "", field: "", startDate: "", endDate: "" });
+    setShowAddEducation(false);
+  };
+
+  const removeEducation = (id: string) => {
+    updateProfile({
+      education: profile.education.filter((edu) => edu.id !== id),
+    });
+  };
+
+  const saveImport = async (updates: Partial<UserProfile>, parsed: ResumeData) => {
+    try {
+      await updateProfile(updates);
+      console.log("[saveImport] updateProfile completed successfully");
+    } catch (err) {
+      console.error("[saveImport] updateProfile failed:", err);
+      Alert.alert("Error", "Failed to save parsed resume data to profile");
+      return;
+    }
+
+    showParseSuccessAlert(parsed, () => {
+      console.log("[saveImport] User pressed 'Tailor to Job', navigating to /job/analyze");
+      router.push("/job/analyze");
+    });
+  };
+
   const { mutateAsync: parseResumeAsync, isPending: isParsingResume } = useMutation<ResumeData, Error, string>({
     mutationFn: async (resumeText: string): Promise<ResumeData> => {
       console.log("[mutationFn] === START MUTATION FUNCTION ===");
@@ -145,191 +292,13 @@ export default function EditProfileScreen() {
       return result;
     },
     onSuccess: async (parsed) => {
-      console.log("[onSuccess] === START ONSUCCESS CALLBACK ===");
       console.log("[onSuccess] Resume parsed successfully");
-      console.log("[onSuccess] parsed data:", JSON.stringify(parsed, null, 2).slice(0, 500));
-
-      const newExperiences = (parsed?.experience || []).map((exp: any) => ({
-        ...exp,
-        id: Date.now().toString() + Math.random(),
-      }));
-
-      const existingExpNormalized = profile.experience.map((exp) => ({
-        title: normalizeText(exp.title),
-        company: normalizeText(exp.company),
-      }));
-
-      const deduplicatedExperiences = newExperiences.filter((newExp: any) => {
-        const normalized = {
-          title: normalizeText(newExp.title),
-          company: normalizeText(newExp.company),
-        };
-        const isDuplicate = existingExpNormalized.some(
-          (existing) =>
-            existing.title === normalized.title &&
-            existing.company === normalized.company
-        );
-        if (isDuplicate) {
-          console.log(
-            `[onSuccess] Skipping duplicate experience: ${newExp.title} at ${newExp.company}`
-          );
-        }
-        return !isDuplicate;
-      });
-
-      console.log("[onSuccess] Unique experiences to add:", deduplicatedExperiences.length);
-
-      const newSkills = (parsed?.skills || []).map((skill: any) => ({
-        ...skill,
-        id: Date.now().toString() + Math.random(),
-        source: 'resume_parse' as const,
-        confirmedAt: new Date().toISOString(),
-      }));
-
-      const existingSkillsNormalized = profile.skills.map((s) =>
-        normalizeText(s.name)
-      );
-
-      const deduplicatedSkills = newSkills.filter((newSkill: any) => {
-        const normalized = normalizeText(newSkill.name);
-        const isDuplicate = existingSkillsNormalized.includes(normalized);
-        if (isDuplicate) {
-          console.log(`[onSuccess] Skipping duplicate skill: ${newSkill.name}`);
-        }
-        return !isDuplicate;
-      });
-
-      console.log("[onSuccess] Unique skills to add:", deduplicatedSkills.length);
-
-      const newCertifications = (parsed?.certifications || []).map((cert: any) => ({
-        ...cert,
-        id: Date.now().toString() + Math.random(),
-      }));
-
-      const existingCertsNormalized = profile.certifications.map((c) =>
-        normalizeText(c.name)
-      );
-
-      const deduplicatedCertifications = newCertifications.filter(
-        (newCert: any) => {
-          const normalized = normalizeText(newCert.name);
-          const isDuplicate = existingCertsNormalized.includes(normalized);
-          if (isDuplicate) {
-            console.log(
-              `[onSuccess] Skipping duplicate certification: ${newCert.name}`
-            );
-          }
-          return !isDuplicate;
-        }
-      );
-
-      console.log(
-        "[onSuccess] Unique certifications to add:",
-        deduplicatedCertifications.length
-      );
-
-      const newTools = (parsed?.tools || []).map((tool: any) => ({
-        ...tool,
-        id: Date.now().toString() + Math.random(),
-        source: 'resume_parse' as const,
-        confirmedAt: new Date().toISOString(),
-      }));
-
-      const existingToolsNormalized = profile.tools.map((t) =>
-        normalizeText(t.name)
-      );
-
-      const deduplicatedTools = newTools.filter((newTool: any) => {
-        const normalized = normalizeText(newTool.name);
-        const isDuplicate = existingToolsNormalized.includes(normalized);
-        if (isDuplicate) {
-          console.log(`[onSuccess] Skipping duplicate tool: ${newTool.name}`);
-        }
-        return !isDuplicate;
-      });
-
-      console.log("[onSuccess] Unique tools to add:", deduplicatedTools.length);
-
-      const newProjects = (parsed?.projects || []).map((project: any) => ({
-        ...project,
-        id: Date.now().toString() + Math.random(),
-      }));
-
-      const existingProjectsNormalized = profile.projects.map((p) =>
-        normalizeText(p.title)
-      );
-
-      const deduplicatedProjects = newProjects.filter((newProject: any) => {
-        const normalized = normalizeText(newProject.title);
-        const isDuplicate = existingProjectsNormalized.includes(normalized);
-        if (isDuplicate) {
-          console.log(
-            `[onSuccess] Skipping duplicate project: ${newProject.title}`
-          );
-        }
-        return !isDuplicate;
-      });
-
-      console.log("[onSuccess] Unique projects to add:", deduplicatedProjects.length);
-
-      const newDomains = parsed?.domainExperience || [];
-      const existingDomainsNormalized = profile.domainExperience.map((d) =>
-        normalizeText(d)
-      );
-
-      const deduplicatedDomains = newDomains.filter((newDomain: string) => {
-        const normalized = normalizeText(newDomain);
-        const isDuplicate = existingDomainsNormalized.includes(normalized);
-        if (isDuplicate) {
-          console.log(`[onSuccess] Skipping duplicate domain: ${newDomain}`);
-        }
-        return !isDuplicate;
-      });
-
-      console.log("[onSuccess] Unique domains to add:", deduplicatedDomains.length);
-
-      console.log("[onSuccess] Current profile state:");
-      console.log("[onSuccess] - profile.experience.length:", profile.experience.length);
-      console.log("[onSuccess] - profile.skills.length:", profile.skills.length);
-      console.log("[onSuccess] - profile.certifications.length:", profile.certifications.length);
-      console.log("[onSuccess] - profile.tools.length:", profile.tools.length);
-      console.log("[onSuccess] - profile.projects.length:", profile.projects.length);
-      console.log("[onSuccess] - profile.domainExperience.length:", profile.domainExperience.length);
-
-      const updatedProfileData = {
-        experience: [...profile.experience, ...deduplicatedExperiences],
-        skills: [...profile.skills, ...deduplicatedSkills],
-        certifications: [...profile.certifications, ...deduplicatedCertifications],
-        tools: [...profile.tools, ...deduplicatedTools],
-        projects: [...profile.projects, ...deduplicatedProjects],
-        domainExperience: [
-          ...profile.domainExperience,
-          ...deduplicatedDomains,
-        ],
-      };
-
-      console.log("[onSuccess] About to call updateProfile with:");
-      console.log("[onSuccess] - experience.length:", updatedProfileData.experience.length);
-      console.log("[onSuccess] - skills.length:", updatedProfileData.skills.length);
-      console.log("[onSuccess] - certifications.length:", updatedProfileData.certifications.length);
-      console.log("[onSuccess] - tools.length:", updatedProfileData.tools.length);
-      console.log("[onSuccess] - projects.length:", updatedProfileData.projects.length);
-
-      try {
-        await updateProfile(updatedProfileData);
-        console.log("[onSuccess] updateProfile completed successfully");
-      } catch (err) {
-        console.error("[onSuccess] updateProfile failed:", err);
-        Alert.alert("Error", "Failed to save parsed resume data to profile");
+      if (profileHasItems(profile)) {
+        console.log("[onSuccess] Profile has items, opening import review");
+        setPendingImport(parsed);
         return;
       }
-
-      console.log("[onSuccess] updateProfile called, showing success alert");
-      showParseSuccessAlert(parsed, () => {
-        console.log("[onSuccess] User pressed 'Tailor to Job', navigating to /job/analyze");
-        router.push("/job/analyze");
-      });
-      console.log("[onSuccess] === END ONSUCCESS CALLBACK ===");
+      await saveImport(ingestSuggested(profile, parsed), parsed);
     },
     onError: (error) => {
       console.error("[onError] === START ONERROR CALLBACK ===");
@@ -459,6 +428,93 @@ export default function EditProfileScreen() {
             <View style={styles.dividerLine} />
           </View>
         </View>
+        <View style={styles.section}>
+          <View style={styles.sectionHeader}>
+            <Text style={styles.sectionTitle}>Contact</Text>
+            <TouchableOpacity style={styles.addButton} onPress={openContactEditor}>
+              <Pencil size={18} color="#0066FF" />
+              <Text style={styles.addButtonText}>Edit</Text>
+            </TouchableOpacity>
+          </View>
+
+          {showEditContact ? (
+            <View style={styles.addCard}>
+              <View style={styles.addCardHeader}>
+                <Text style={styles.addCardTitle}>Edit Contact</Text>
+                <TouchableOpacity onPress={() => setShowEditContact(false)}>
+                  <X size={24} color="#666666" />
+                </TouchableOpacity>
+              </View>
+
+              <TextInput
+                style={styles.input}
+                placeholder="Full Name"
+                value={contactDraft.name}
+                onChangeText={(text) => setContactDraft({ ...contactDraft, name: text })}
+                placeholderTextColor="#999999"
+              />
+
+              <TextInput
+                style={styles.input}
+                placeholder="Location"
+                value={contactDraft.location}
+                onChangeText={(text) => setContactDraft({ ...contactDraft, location: text })}
+                placeholderTextColor="#999999"
+              />
+
+              <TextInput
+                style={styles.input}
+                placeholder="Phone"
+                value={contactDraft.phone}
+                onChangeText={(text) => setContactDraft({ ...contactDraft, phone: text })}
+                keyboardType="phone-pad"
+                placeholderTextColor="#999999"
+              />
+
+              <TextInput
+                style={styles.input}
+                placeholder="Email"
+                value={contactDraft.email}
+                onChangeText={(text) => setContactDraft({ ...contactDraft, email: text })}
+                keyboardType="email-address"
+                autoCapitalize="none"
+                placeholderTextColor="#999999"
+              />
+
+              <TextInput
+                style={[styles.input, styles.textArea]}
+                placeholder="Links (one per line)"
+                value={contactDraft.links}
+                onChangeText={(text) => setContactDraft({ ...contactDraft, links: text })}
+                autoCapitalize="none"
+                multiline
+                numberOfLines={3}
+                placeholderTextColor="#999999"
+              />
+
+              <TouchableOpacity style={styles.saveButton} onPress={saveContact}>
+                <Text style={styles.saveButtonText}>Save Contact</Text>
+              </TouchableOpacity>
+            </View>
+          ) : profile.contact.name || contactLine || profile.contact.links.length > 0 ? (
+            <View style={styles.itemCard}>
+              <View style={styles.itemContent}>
+                {profile.contact.name ? <Text style={styles.itemTitle}>{profile.contact.name}</Text> : null}
+                {contactLine ? <Text style={styles.itemSubtitle}>{contactLine}</Text> : null}
+                {profile.contact.links.map((link) => (
+                  <Text key={link} style={styles.itemDate}>
+                    {link}
+                  </Text>
+                ))}
+              </View>
+            </View>
+          ) : (
+            <Text style={styles.emptyText}>
+              No contact details yet. They appear at the top of every generated resume.
+            </Text>
+          )}
+        </View>
+
         <View style={styles.section}>
           <View style={styles.sectionHeader}>
             <Text style={styles.sectionTitle}>Experience</Text>
@@ -565,16 +621,34 @@ export default function EditProfileScreen() {
             </View>
           )}
 
+          {profile.experience.length > 0 && (
+            <View style={styles.timelineCard}>
+              <Text style={styles.timelineTotal}>
+                Total experience: {formatTenure(totalTenureMonths)}
+              </Text>
+              {timelineIssues.map((issue) => (
+                <View key={`${issue.kind}:${issue.experienceIds.join(",")}`} style={styles.timelineIssue}>
+                  <AlertTriangle size={14} color="#F57C00" />
+                  <Text style={styles.timelineIssueText}>{issue.message}</Text>
+                </View>
+              ))}
+            </View>
+          )}
+
           {profile.experience.map((exp) => (
             <View key={exp.id} style={styles.itemCard}>
               <View style={styles.itemHeader}>
-                <View style={styles.itemContent}>
+                <TouchableOpacity
+                  style={styles.itemContent}
+                  onPress={() => showEvidence(`${exp.title} at ${exp.company}`, exp.provenance)}
+                >
                   <Text style={styles.itemTitle}>{exp.title}</Text>
                   <Text style={styles.itemSubtitle}>{exp.company}</Text>
                   <Text style={styles.itemDate}>
                     {exp.startDate} - {exp.current ? "Present" : exp.endDate}
+                    {computeExperienceMonths(exp) > 0 ? ` · ${formatTenure(computeExperienceMonths(exp))}` : ""}
                   </Text>
-                </View>
+                </TouchableOpacity>
                 <TouchableOpacity
                   onPress={() => removeExperience(exp.id)}
                   style={styles.deleteButton}
@@ -643,7 +717,9 @@ export default function EditProfileScreen() {
           <View style={styles.skillsGrid}>
             {profile.skills.map((skill) => (
               <View key={skill.id} style={styles.skillChip}>
-                <Text style={styles.skillName}>{skill.name}</Text>
+                <TouchableOpacity onPress={() => showEvidence(skill.name, skill.provenance)}>
+                  <Text style={styles.skillName}>{skill.name}</Text>
+                </TouchableOpacity>
                 <TouchableOpacity onPress={() => removeSkill(skill.id)}>
                   <X size={16} color="#666666" />
                 </TouchableOpacity>
@@ -658,6 +734,70 @@ export default function EditProfileScreen() {
           )}
         </View>
 
+        <View style={styles.section}>
+          <View style={styles.sectionHeader}>
+            <Text style={styles.sectionTitle}>Skill Aliases</Text>
+            <TouchableOpacity
+              style={styles.addButton}
+              onPress={() => setShowAddAlias(true)}
+            >
+              <Plus size={20} color="#0066FF" />
+              <Text style={styles.addButtonText}>Add</Text>
+            </TouchableOpacity>
+          </View>
+
+          {showAddAlias && (
+            <View style={styles.addCard}>
+              <View style={styles.addCardHeader}>
+                <Text style={styles.addCardTitle}>Add Alias</Text>
+                <TouchableOpacity onPress={() => setShowAddAlias(false)}>
+                  <X size={24} color="#666666" />
+                </TouchableOpacity>
+              </View>
+
+              <TextInput
+                style={styles.input}
+                placeholder="Alias (e.g. TF)"
+                value={newAlias.alias}
+                onChangeText={(text) => setNewAlias({ ...newAlias, alias: text })}
+                autoCapitalize="none"
+                placeholderTextColor="#999999"
+              />
+
+              <TextInput
+                style={styles.input}
+                placeholder="Stands for (e.g. Terraform)"
+                value={newAlias.canonical}
+                onChangeText={(text) => setNewAlias({ ...newAlias, canonical: text })}
+                placeholderTextColor="#999999"
+              />
+
+              <TouchableOpacity style={styles.saveButton} onPress={addAlias}>
+                <Text style={styles.saveButtonText}>Save Alias</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+
+          <View style={styles.skillsGrid}>
+            {profile.skillAliases.map((alias) => (
+              <View key={alias.id} style={styles.skillChip}>
+                <Text style={styles.skillName}>
+                  {alias.alias} = {alias.canonical}
+                </Text>
+                <TouchableOpacity onPress={() => removeAlias(alias.id)}>
+                  <X size={16} color="#666666" />
+                </TouchableOpacity>
+              </View>
+            ))}
+          </View>
+
+          {profile.skillAliases.length === 0 && !showAddAlias && (
+            <Text style={styles.emptyText}>
+              Common spellings like JS and JavaScript already match. Add your own for anything else.
+            </Text>
+          )}
+        </View>
+
         <View style={styles.section}>
           <View style={styles.sectionHeader}>
             <Text style={styles.sectionTitle}>Certifications</Text>
@@ -721,7 +861,10 @@ export default function EditProfileScreen() {
           {profile.certifications.map((cert) => (
             <View key={cert.id} style={styles.itemCard}>
               <View style={styles.itemHeader}>
-                <View style={styles.itemContent}>
+                <TouchableOpacity
+                  style={styles.itemContent}
+                  onPress={() => showEvidence(cert.name, cert.provenance)}
+                >
                   <Text style={styles.itemTitle}>{cert.name}</Text>
                   {cert.issuer ? (
                     <Text style={styles.itemSubtitle}>{cert.issuer}</Text>
@@ -729,7 +872,7 @@ export default function EditProfileScreen() {
                   {cert.date ? (
                     <Text style={styles.itemDate}>{cert.date}</Text>
                   ) : null}
-                </View>
+                </TouchableOpacity>
                 <TouchableOpacity
                   onPress={() => removeCertification(cert.id)}
                   style={styles.deleteButton}
@@ -747,6 +890,122 @@ export default function EditProfileScreen() {
           )}
         </View>
 
+        <View style={styles.section}>
+          <View style={styles.sectionHeader}>
+            <Text style={styles.sectionTitle}>Education</Text>
+            <TouchableOpacity
+              style={styles.addButton}
+              onPress={() => setShowAddEducation(true)}
+            >
+              <Plus size={20} color="#0066FF" />
+              <Text style={styles.addButtonText}>Add</Text>
+            </TouchableOpacity>
+          </View>
+
+          {showAddEducation && (
+            <View style={styles.addCard}>
+              <View style={styles.addCardHeader}>
+                <Text style={styles.addCardTitle}>Add Education</Text>
+                <TouchableOpacity onPress={() => setShowAddEducation(false)}>
+                  <X size={24} color="#666666" />
+                </TouchableOpacity>
+              </View>
+
+              <TextInput
+                style={styles.input}
+                placeholder="School"
+                value={newEducation.school}
+                onChangeText={(text) =>
+                  setNewEducation({ ...newEducation, school: text })
+                }
+                placeholderTextColor="#999999"
+              />
+
+              <TextInput
+                style={styles.input}
+                placeholder="Degree"
+                value={newEducation.degree}
+                onChangeText={(text) =>
+                  setNewEducation({ ...newEducation, degree: text })
+                }
+                placeholderTextColor="#999999"
+              />
+
+              <TextInput
+                style={styles.input}
+                placeholder="Field of Study"
+                value={newEducation.field}
+                onChangeText={(text) =>
+                  setNewEducation({ ...newEducation, field: text })
+                }
+                placeholderTextColor="#999999"
+              />
+
+              <TextInput
+                style={styles.input}
+                placeholder="Start Date (YYYY-MM)"
+                value={newEducation.startDate}
+                onChangeText={(text) =>
+                  setNewEducation({ ...newEducation, startDate: text })
+                }
+                placeholderTextColor="#999999"
+              />
+
+              <TextInput
+                style={styles.input}
+                placeholder="End Date (YYYY-MM)"
+                value={newEducation.endDate}
+                onChangeText={(text) =>
+                  setNewEducation({ ...newEducation, endDate: text })
+                }
+                placeholderTextColor="#999999"
+              />
+
+              <TouchableOpacity
+                style={styles.saveButton}
+                onPress={addEducation}
+              >
+                <Text style={styles.saveButtonText}>Save Education</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+
+          {profile.education.map((edu) => (
+            <View key={edu.id} style={styles.itemCard}>
+              <View style={styles.itemHeader}>
+                <TouchableOpacity
+                  style={styles.itemContent}
+                  onPress={() => showEvidence(edu.school, edu.provenance)}
+                >
+                  <Text style={styles.itemTitle}>{edu.school}</Text>
+                  {edu.degree || edu.field ? (
+                    <Text style={styles.itemSubtitle}>
+                      {[edu.degree, edu.field].filter(Boolean).join(", ")}
+                    </Text>
+                  ) : null}
+                  {edu.startDate || edu.endDate ? (
+                    <Text style={styles.itemDate}>
+                      {[edu.startDate, edu.endDate].filter(Boolean).join(" - ")}
+                    </Text>
+                  ) : null}
+                </TouchableOpacity>
+                <TouchableOpacity
+                  onPress={() => removeEducation(edu.id)}
+                  style={styles.deleteButton}
+                >
+                  <Trash2 size={20} color="#FF3B30" />
+                </TouchableOpacity>
+              </View>
+            </View>
+          ))}
+
+          {profile.education.length === 0 && !showAddEducation && (
+            <Text style={styles.emptyText}>
+              No education added yet. Tap Add to get started.
+            </Text>
+          )}
+        </View>
+
         <TouchableOpacity
           style={styles.doneButton}
           onPress={() => router.back()}
@@ -756,6 +1015,15 @@ export default function EditProfileScreen() {
 
         <View style={styles.bottomPadding} />
       </ScrollView>
+
+      <ResumeImportReview
+        parsed={pendingImport}
+        onApply={async (updates) => {
+          if (pendingImport) await saveImport(updates, pendingImport);
+          setPendingImport(null);
+        }}
+        onCancel={() => setPendingImport(null)}
+      />
     </KeyboardAvoidingView>
   );
 }
@@ -879,6 +1147,28 @@ const styles = StyleSheet.create({
     fontWeight: "600" as const,
     color: "#FFFFFF",
   },
+  timelineCard: {
+    backgroundColor: "#F5F9FF",
+    padding: 12,
+    borderRadius: 12,
+    marginBottom: 12,
+    gap: 6,
+  },
+  timelineTotal: {
+    fontSize: 14,
+    fontWeight: "600" as const,
+    color: "#1A1A1A",
+  },
+  timelineIssue: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+  },
+  timelineIssueText: {
+    flex: 1,
+    fontSize: 13,
+    color: "#8A4B00",
+  },
   itemCard: {
     backgroundColor: "#FFFFFF",
     padding: 16,
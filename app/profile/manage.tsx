@@ -1,5 +1,5 @@
 import { router } from "expo-router";
-import { User, Plus, Trash2 } from "lucide-react-native";
+import { ChevronRight, Plus, SlidersHorizontal, Trash2, User } from "lucide-react-native";
 import React, { useState } from "react";
 import {
   ActivityIndicator,
@@ -18,6 +18,7 @@ import { BoringAI } from "../../ui/theme/boringAiTheme";
 
 export default function ManageProfilesScreen() {
   const {
+    profile: { scoreWeights: activeProfileScoreWeights },
     activeProfileId,
     profilesIndex,
     createProfile,
@@ -205,6 +206,22 @@ export default function ManageProfilesScreen() {
             </TouchableOpacity>
           </View>
 
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Settings</Text>
+            <TouchableOpacity style={styles.profileRow} onPress={() => router.push("/profile/scoring" as any)}>
+              <View style={styles.profileRowIcon}>
+                <SlidersHorizontal size={18} color={BoringAI.colors.textMuted} strokeWidth={1.5} />
+              </View>
+              <View style={styles.profileRowInfo}>
+                <Text style={styles.profileRowName}>Scoring Weights</Text>
+                <Text style={styles.profileRowDate}>
+                  {activeProfileScoreWeights ? "Custom weights" : "Default weights"}
+                </Text>
+              </View>
+              <ChevronRight size={18} color={BoringAI.colors.textFaint} strokeWidth={1.5} />
+            </TouchableOpacity>
+          </View>
+
           <View style={styles.section}>
             <Text style={styles.dangerSectionTitle}>Danger Zone</Text>
             <TouchableOpacity
@@ -0,0 +1,237 @@
+import { router } from "expo-router";
+import { Minus, Plus, RotateCcw } from "lucide-react-native";
+import React, { useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+
+import { useUserProfile } from "../../contexts/UserProfileContext";
+import {
+  DEFAULT_SCORE_WEIGHTS,
+  SCORE_DIMENSIONS,
+  normalizeScoreWeights,
+  resolveScoreWeights,
+} from "../../lib/scoreWeights";
+import type { ScoreWeights } from "../../types/profile";
+import { BoringAI } from "../../ui/theme/boringAiTheme";
+
+const STEP = 5;
+
+function toPercents(weights: ScoreWeights): ScoreWeights {
+  return SCORE_DIMENSIONS.reduce(
+    (acc, { key }) => ({ ...acc, [key]: Math.round(weights[key] * 100) }),
+    {} as ScoreWeights
+  );
+}
+
+export default function ScoringWeightsScreen() {
+  const { profile, updateProfile } = useUserProfile();
+  const [percents, setPercents] = useState<ScoreWeights>(() => toPercents(resolveScoreWeights(profile)));
+  const [isSaving, setIsSaving] = useState(false);
+
+  const total = SCORE_DIMENSIONS.reduce((sum, { key }) => sum + percents[key], 0);
+
+  const adjust = (key: keyof ScoreWeights, delta: number) => {
+    setPercents((prev) => ({ ...prev, [key]: Math.max(0, Math.min(100, prev[key] + delta)) }));
+  };
+
+  const handleSave = () => {
+    if (total <= 0) {
+      Alert.alert("Invalid Weights", "At least one dimension needs a weight above zero.");
+      return;
+    }
+
+    setIsSaving(true);
+    updateProfile({ scoreWeights: normalizeScoreWeights(percents) })
+      .then(() => {
+        router.back();
+      })
+      .catch((error) => {
+        Alert.alert("Error", "Failed to save scoring weights");
+        console.error(error);
+      })
+      .finally(() => {
+        setIsSaving(false);
+      });
+  };
+
+  const handleReset = () => {
+    setPercents(toPercents(DEFAULT_SCORE_WEIGHTS));
+    updateProfile({ scoreWeights: undefined }).catch((error) => {
+      Alert.alert("Error", "Failed to reset scoring weights");
+      console.error(error);
+    });
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={["bottom"]}>
+      <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
+        <View style={styles.content}>
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Scoring Weights</Text>
+            <Text style={styles.hint}>
+              How much each dimension counts toward the overall fit score. Weights are scaled to
+              100% when saved and apply to the AI score, the deterministic score and chat.
+            </Text>
+          </View>
+
+          <View style={styles.section}>
+            {SCORE_DIMENSIONS.map(({ key, label }) => (
+              <View key={key} style={styles.weightRow}>
+                <Text style={styles.weightLabel}>{label}</Text>
+                <View style={styles.stepper}>
+                  <TouchableOpacity
+                    style={styles.stepButton}
+                    onPress={() => adjust(key, -STEP)}
+                    disabled={percents[key] <= 0}
+                  >
+                    <Minus size={16} color={BoringAI.colors.text} strokeWidth={1.5} />
+                  </TouchableOpacity>
+                  <Text style={styles.weightValue}>{percents[key]}%</Text>
+                  <TouchableOpacity
+                    style={styles.stepButton}
+                    onPress={() => adjust(key, STEP)}
+                    disabled={percents[key] >= 100}
+                  >
+                    <Plus size={16} color={BoringAI.colors.text} strokeWidth={1.5} />
+                  </TouchableOpacity>
+                </View>
+              </View>
+            ))}
+            <Text style={[styles.totalText, total !== 100 && styles.totalTextWarning]}>
+              Total {total}%{total !== 100 && total > 0 ? " · will be scaled to 100%" : ""}
+            </Text>
+          </View>
+
+          <View style={styles.section}>
+            <TouchableOpacity style={styles.saveButton} onPress={handleSave} disabled={isSaving}>
+              {isSaving && <ActivityIndicator size="small" color={BoringAI.colors.background} />}
+              <Text style={styles.saveButtonText}>{isSaving ? "Saving..." : "Save Weights"}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.resetButton} onPress={handleReset} disabled={isSaving}>
+              <RotateCcw size={18} color={BoringAI.colors.text} strokeWidth={1.5} />
+              <Text style={styles.resetButtonText}>Reset to Defaults</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: BoringAI.colors.background,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  content: {
+    paddingHorizontal: BoringAI.spacing.xl,
+    paddingTop: BoringAI.spacing.lg,
+    paddingBottom: BoringAI.spacing.xxl,
+  },
+  section: {
+    marginBottom: BoringAI.spacing.xl,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: "700" as const,
+    color: BoringAI.colors.text,
+    marginBottom: BoringAI.spacing.sm,
+  },
+  hint: {
+    fontSize: 13,
+    color: BoringAI.colors.textMuted,
+    lineHeight: 18,
+  },
+  weightRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    backgroundColor: BoringAI.colors.surface,
+    borderRadius: BoringAI.radius.card,
+    borderWidth: BoringAI.border.hairline,
+    borderColor: BoringAI.colors.border,
+    padding: BoringAI.spacing.md,
+    marginBottom: BoringAI.spacing.sm,
+  },
+  weightLabel: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: "600" as const,
+    color: BoringAI.colors.text,
+  },
+  stepper: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: BoringAI.spacing.sm,
+  },
+  stepButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: BoringAI.colors.surfaceAlt,
+    borderWidth: BoringAI.border.hairline,
+    borderColor: BoringAI.colors.border,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  weightValue: {
+    width: 48,
+    textAlign: "center",
+    fontSize: 15,
+    fontWeight: "600" as const,
+    color: BoringAI.colors.text,
+  },
+  totalText: {
+    fontSize: 13,
+    color: BoringAI.colors.textMuted,
+    textAlign: "right",
+    marginTop: BoringAI.spacing.xs,
+  },
+  totalTextWarning: {
+    color: BoringAI.colors.warning,
+  },
+  saveButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    backgroundColor: BoringAI.colors.accent,
+    paddingVertical: 16,
+    paddingHorizontal: 18,
+    borderRadius: BoringAI.radius.button,
+    gap: BoringAI.spacing.sm,
+    marginBottom: BoringAI.spacing.md,
+  },
+  saveButtonText: {
+    fontSize: 16,
+    fontWeight: "600" as const,
+    color: BoringAI.colors.background,
+  },
+  resetButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    backgroundColor: BoringAI.colors.surface,
+    borderWidth: BoringAI.border.hairline,
+    borderColor: BoringAI.colors.borderStrong,
+    paddingVertical: 16,
+    paddingHorizontal: 18,
+    borderRadius: BoringAI.radius.button,
+    gap: BoringAI.spacing.sm,
+  },
+  resetButtonText: {
+    fontSize: 16,
+    fontWeight: "600" as const,
+    color: BoringAI.colors.text,
+  },
+});
@@ -1,8 +1,18 @@
-import * as Sharing from "expo-sharing";
-import * as FileSystem from "expo-file-system/legacy";
 import { router, useLocalSearchParams } from "expo-router";
-import { Check, ChevronDown, ChevronUp, Copy, Download, FileText, Sparkles } from "lucide-react-native";
-import React, { useCallback, useEffect, useState } from "react";
+import {
+  Check,
+  ChevronDown,
+  ChevronUp,
+  Copy,
+  Download,
+  FileText,
+  RefreshCw,
+  Ruler,
+  ShieldAlert,
+  ShieldCheck,
+  Sparkles,
+} from "lucide-react-native";
+import React, { useCallback, useEffect, useMemo, useState } from "react";
 import {
   ActivityIndicator,
   Alert,
@@ -13,31 +23,97 @@ import {
   TouchableOpacity,
   View,
 } from "react-native";
+import { useQueryClient } from "@tanstack/react-query";
 
 import { useUserProfile } from "../../contexts/UserProfileContext";
 import { copyTextSafe } from "../../lib/clipboard";
-import { upsertJobRun, addResumeVersion } from "../../lib/historyStore";
-import { generateTailoredResumeJson, type TemplateFingerprint } from "../../lib/tailoredResumeGenerator";
+import { addResumeVersion, computeProfileRevision, createProfileSnapshot, getLatestFitScore } from "../../lib/historyStore";
+import {
+  DOCX_MIME_TYPE,
+  makeResumeFileName,
+  PDF_MIME_TYPE,
+  renderResumeDocx,
+  renderResumePdf,
+  saveAndShareFile,
+  TEMPLATE_NOT_APPLIED_MESSAGE,
+} from "../../lib/resumeExport";
+import { auditTailoredResume, type AuditFinding } from "../../lib/resumeAudit";
+import { estimateResumeLayout, formatLayoutEstimate, pageLayoutFor } from "../../lib/resumeLayout";
+import { getResumeTheme } from "../../lib/resumeThemes";
+import {
+  generateTailoredResumeJson,
+  regenerateFlaggedItems,
+  type GenerateResumeOptions,
+  type TailoredResumeJson,
+  type TemplateFingerprint,
+} from "../../lib/tailoredResumeGenerator";
+import { formatTailoredResumeText } from "../../lib/tailoredResumeText";
 
 export default function GenerateResumeScreen() {
-  const { jobId, mode, templateResumeAssetId, enforceOnePage, versionNotes } = useLocalSearchParams<{
+  const { jobId, mode, templateResumeAssetId, enforceOnePage, theme, versionNotes } = useLocalSearchParams<{
     jobId: string;
     mode?: string;
     templateResumeAssetId?: string;
     enforceOnePage?: string;
+    theme?: string;
     versionNotes?: string;
   }>();
 
   const { profile, jobPostings, getResumeAssets, activeProfileId } = useUserProfile();
+  const queryClient = useQueryClient();
   const [resumeText, setResumeText] = useState("");
+  const [resumeJson, setResumeJson] = useState<TailoredResumeJson | null>(null);
+  const [generationOptions, setGenerationOptions] = useState<GenerateResumeOptions | null>(null);
   const [isGenerating, setIsGenerating] = useState(true);
   const [isDownloading, setIsDownloading] = useState(false);
+  const [isDownloadingPdf, setIsDownloadingPdf] = useState(false);
   const [copied, setCopied] = useState(false);
   const [previewExpanded, setPreviewExpanded] = useState(false);
+  const [regeneratingId, setRegeneratingId] = useState<string | null>(null);
 
   const job = jobPostings.find((j) => j.id === jobId);
   const renderMode = (mode || "standard") as "standard" | "template";
 
+  const layoutEstimate = useMemo(
+    () =>
+      resumeJson && generationOptions
+        ? estimateResumeLayout(resumeJson, pageLayoutFor(generationOptions.templateFingerprint, generationOptions.theme))
+        : null,
+    [resumeJson, generationOptions]
+  );
+
+  const auditReport = useMemo(
+    () => (resumeJson && job ? auditTailoredResume(resumeJson, profile, job) : null),
+    [resumeJson, profile, job]
+  );
+
+  const saveVersion = useCallback(
+    async (generated: TailoredResumeJson, textSummary: string, options: GenerateResumeOptions, notes?: string) => {
+      if (!job) return;
+      try {
+        console.log("[generateResume] Storing resume version in history...");
+        await addResumeVersion(activeProfileId, {
+          jobId: job.id,
+          notes,
+          resumeText: textSummary,
+          resumeJson: generated,
+          generationOptions: options,
+          profileSnapshot: createProfileSnapshot(profile),
+          formatResumeId: templateResumeAssetId,
+          scoreSnapshot: (await getLatestFitScore(activeProfileId, job.id, computeProfileRevision(profile))) ?? undefined,
+        });
+
+        console.log("[generateResume] Resume version stored successfully");
+        await queryClient.invalidateQueries({ queryKey: ["historyIndex", activeProfileId] });
+        await queryClient.invalidateQueries({ queryKey: ["jobWithVersions", activeProfileId, job.id] });
+        await queryClient.invalidateQueries({ queryKey: ["jobs", activeProfileId] });
+      } catch (historyError: any) {
+        console.error("[generateResume] Failed to store history:", historyError);
+      }
+    },
+    [job, activeProfileId, profile, templateResumeAssetId, queryClient]
+  );
+
   const generateResume = useCallback(async () => {
     if (!job) return;
 
@@ -62,7 +138,10 @@ export default function GenerateResumeScreen() {
             const response = await fetch(`${extractorUrl}/resume/fingerprint-template`, {
               method: "POST",
               headers: { "Content-Type": "application/json" },
-              body: JSON.stringify({ templateDocxBase64: templateAsset.docxBase64 }),
+              body: JSON.stringify({
+                templateDocxBase64: templateAsset.docxBase64,
+                knownRoles: profile.experience.map(({ title, company }) => ({ title, company })),
+              }),
             });
 
             if (response.ok) {
@@ -75,85 +154,37 @@ export default function GenerateResumeScreen() {
         }
       }
 
+      const options: GenerateResumeOptions = {
+        mode: renderMode,
+        templateFingerprint: fingerprint,
+        enforceOnePage: enforceOnePage === "true",
+        theme: renderMode === "standard" ? getResumeTheme(theme).id : undefined,
+      };
+
       console.log("[generateResume] Generating tailored resume JSON...");
-      const resumeJson = await generateTailoredResumeJson(
+      const generated = await generateTailoredResumeJson(
         profile,
         job,
         extractedResumeText,
-        {
-          mode: renderMode,
-          templateFingerprint: fingerprint,
-          enforceOnePage: enforceOnePage === "true",
-        }
+        options
       );
 
       console.log("[generateResume] Resume JSON generated");
 
-      const textSummary = `${resumeJson.header.name}
-${resumeJson.header.email || ""}
-
-${resumeJson.summary || ""}
-
-EXPERIENCE
-${resumeJson.experience
-  .map(
-    (exp) =>
-      `${exp.title} | ${exp.company}
-${exp.dates || ""}
-${exp.bullets.map((b) => `• ${b}`).join("\n")}`
-  )
-  .join("\n\n")}
-
-SKILLS
-Core: ${resumeJson.skills.core?.join(", ") || ""}
-Tools: ${resumeJson.skills.tools?.join(", ") || ""}
-Domains: ${resumeJson.skills.domains?.join(", ") || ""}
-
-${
-  resumeJson.education
-    ? `EDUCATION\n${resumeJson.education
-        .map((edu) => `${edu.school} | ${edu.degree || ""}\n${edu.dates || ""}`)
-        .join("\n\n")}`
-    : ""
-}
-
-${
-  resumeJson.certifications
-    ? `CERTIFICATIONS\n${resumeJson.certifications.map((c) => `• ${c}`).join("\n")}`
-    : ""
-}`;
+      const textSummary = formatTailoredResumeText(generated);
 
+      setResumeJson(generated);
+      setGenerationOptions(options);
       setResumeText(textSummary);
 
-      try {
-        console.log("[generateResume] Storing resume version in history...");
-        await upsertJobRun(activeProfileId, {
-          jobId: job.id,
-          title: job.title,
-          company: job.company,
-          location: undefined,
-          postingText: job.description,
-          source: "pasted",
-        });
-
-        await addResumeVersion(activeProfileId, {
-          jobId: job.id,
-          notes: versionNotes,
-          resumeText: textSummary,
-          formatResumeId: templateResumeAssetId,
-        });
-
-        console.log("[generateResume] Resume version stored successfully");
-      } catch (historyError: any) {
-        console.error("[generateResume] Failed to store history:", historyError);
-      }
+      await saveVersion(generated, textSummary, options, versionNotes);
     } catch (error: any) {
       console.error("[generateResume] Error:", error);
       Alert.alert("Generation Error", error.message || "Failed to generate resume. Please try again.");
     } finally {
       setIsGenerating(false);
     }
-  }, [job, profile, renderMode, templateResumeAssetId, enforceOnePage, getResumeAssets, activeProfileId, versionNotes]);
+  }, [job, profile, renderMode, templateResumeAssetId, enforceOnePage, theme, getResumeAssets, versionNotes, saveVersion]);
 
   useEffect(() => {
     if (job) {
@@ -169,101 +200,52 @@ ${
     }
   };
 
+  const regenerate = async (findings: AuditFinding[], id: string) => {
+    if (!job || !resumeJson || !generationOptions) return;
+
+    setRegeneratingId(id);
+    try {
+      const updated = await regenerateFlaggedItems(resumeJson, findings, profile, job);
+      const textSummary = formatTailoredResumeText(updated);
+      setResumeJson(updated);
+      setResumeText(textSummary);
+      await saveVersion(
+        updated,
+        textSummary,
+        generationOptions,
+        `Regenerated ${findings.length} flagged item${findings.length === 1 ? "" : "s"}`
+      );
+    } catch (error: any) {
+      console.error("[regenerate] Error:", error);
+      Alert.alert("Regeneration Error", error.message || "Failed to regenerate flagged items. Please try again.");
+    } finally {
+      setRegeneratingId(null);
+    }
+  };
+
   const downloadDocx = async () => {
-    if (!job) return;
+    if (!job || !resumeJson || !generationOptions) return;
 
     setIsDownloading(true);
     try {
       console.log("[downloadDocx] Starting DOCX generation...");
 
-      const resumeAssets = getResumeAssets();
-      const sourceResumeAsset = resumeAssets.find((a) => a.extractedText);
-      const extractedResumeText = sourceResumeAsset?.extractedText || "";
-
-      let fingerprint: TemplateFingerprint | undefined;
-      let templateDocxBase64: string | undefined;
-
-      if (renderMode === "template" && templateResumeAssetId) {
-        const templateAsset = resumeAssets.find((a) => a.id === templateResumeAssetId);
-        if (templateAsset?.docxBase64) {
-          templateDocxBase64 = templateAsset.docxBase64;
-          console.log("[downloadDocx] Fetching template fingerprint...");
-          const extractorUrl = process.env.EXPO_PUBLIC_RESUME_EXTRACTOR_URL;
-          if (extractorUrl) {
-            const response = await fetch(`${extractorUrl}/resume/fingerprint-template`, {
-              method: "POST",
-              headers: { "Content-Type": "application/json" },
-              body: JSON.stringify({ templateDocxBase64 }),
-            });
-
-            if (response.ok) {
-              fingerprint = await response.json();
-            }
-          }
-        }
-      }
+      const templateAsset = generationOptions.mode === "template" && templateResumeAssetId
+        ? getResumeAssets().find((a) => a.id === templateResumeAssetId)
+        : undefined;
 
-      const resumeJson = await generateTailoredResumeJson(profile, job, extractedResumeText, {
-        mode: renderMode,
-        templateFingerprint: fingerprint,
-        enforceOnePage: enforceOnePage === "true",
-      });
-
-      console.log("[downloadDocx] Calling server to render DOCX...");
-      const extractorUrl = process.env.EXPO_PUBLIC_RESUME_EXTRACTOR_URL;
-      if (!extractorUrl) {
-        throw new Error("DOCX generation requires server URL. Please set EXPO_PUBLIC_RESUME_EXTRACTOR_URL.");
-      }
+      const { base64, templateNotApplied } = await renderResumeDocx(
+        resumeJson,
+        generationOptions,
+        templateAsset?.docxBase64
+      );
 
-      const response = await fetch(`${extractorUrl}/resume/render-docx`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          resumeJson,
-          options: { mode: renderMode, enforceOnePage: enforceOnePage === "true" },
-          templateDocxBase64,
-        }),
+      await saveAndShareFile(base64, makeResumeFileName(job.company, "docx"), {
+        mimeType: DOCX_MIME_TYPE,
+        dialogTitle: "Save Resume",
+        UTI: "com.microsoft.word.doc",
       });
-
-      if (!response.ok) {
-        throw new Error(`Server returned error: ${response.status}`);
-      }
-
-      const blob = await response.blob();
-      console.log("[downloadDocx] DOCX received, size:", blob.size);
-
-      const reader = new FileReader();
-      reader.onloadend = async () => {
-        const base64 = (reader.result as string).split(",")[1];
-        const fileName = `tailored-resume-${job.company.replace(/[^a-z0-9]/gi, "-").toLowerCase()}.docx`;
-        const fileUri = `${FileSystem.documentDirectory}${fileName}`;
-
-        await FileSystem.writeAsStringAsync(fileUri, base64, {
-          encoding: FileSystem.EncodingType.Base64,
-        });
-
-        console.log("[downloadDocx] File saved to:", fileUri);
-
-        if (Platform.OS === "web") {
-          const link = document.createElement("a");
-          link.href = fileUri;
-          link.download = fileName;
-          link.click();
-          Alert.alert("Success", "Resume downloaded!");
-        } else {
-          const isAvailable = await Sharing.isAvailableAsync();
-          if (isAvailable) {
-            await Sharing.shareAsync(fileUri, {
-              mimeType: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
-              dialogTitle: "Save Resume",
-              UTI: "com.microsoft.word.doc",
-            });
-          } else {
-            Alert.alert("Success", `Resume saved to:\n${fileUri}`);
-          }
-        }
-      };
-      reader.readAsDataURL(blob);
+      if (templateNotApplied) Alert.alert("Template Not Applied", TEMPLATE_NOT_APPLIED_MESSAGE);
     } catch (error: any) {
       console.error("[downloadDocx] Error:", error);
       Alert.alert("Download Error", error.message || "Failed to download DOCX. Please try again.");
@@ -272,6 +254,27 @@ ${
     }
   };
 
+  const downloadPdf = async () => {
+    if (!job || !resumeJson) return;
+
+    setIsDownloadingPdf(true);
+    try {
+      console.log("[downloadPdf] Starting PDF generation...");
+      const base64 = await renderResumePdf(resumeJson, generationOptions?.theme);
+
+      await saveAndShareFile(base64, makeResumeFileName(job.company, "pdf"), {
+        mimeType: PDF_MIME_TYPE,
+        dialogTitle: "Save Resume",
+        UTI: "com.adobe.pdf",
+      });
+    } catch (error: any) {
+      console.error("[downloadPdf] Error:", error);
+      Alert.alert("Download Error", error.message || "Failed to download PDF. Please try again.");
+    } finally {
+      setIsDownloadingPdf(false);
+    }
+  };
+
   if (!job) {
     return (
       <View style={styles.errorContainer}>
@@ -337,9 +340,41 @@ ${
             </>
           )}
         </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.downloadButtonSecondary, isDownloadingPdf && styles.buttonDisabled]}
+          onPress={downloadPdf}
+          disabled={isDownloadingPdf}
+        >
+          {isDownloadingPdf ? (
+            <ActivityIndicator size="small" color="#0066FF" />
+          ) : (
+            <Download size={20} color="#0066FF" />
+          )}
+          <Text style={styles.downloadButtonSecondaryText}>
+            {isDownloadingPdf ? "Generating..." : "Download .pdf"}
+          </Text>
+        </TouchableOpacity>
         <Text style={styles.downloadHint}>Ready to submit with your application</Text>
       </View>
 
+      {layoutEstimate && (
+        <View style={[styles.layoutCard, !layoutEstimate.fitsOnePage && styles.layoutCardWarning]}>
+          <Ruler size={18} color={layoutEstimate.fitsOnePage ? "#10B981" : "#F57C00"} />
+          <View style={styles.layoutTextContainer}>
+            <Text style={styles.layoutTitle}>Page Fit Estimate</Text>
+            <Text style={styles.layoutText}>{formatLayoutEstimate(layoutEstimate)}</Text>
+          </View>
+        </View>
+      )}
+
+      {auditReport && (
+        <SourceCheck
+          findings={auditReport.findings}
+          regeneratingId={regeneratingId}
+          onRegenerate={regenerate}
+        />
+      )}
+
       <TouchableOpacity
         style={styles.previewToggle}
         onPress={() => setPreviewExpanded(!previewExpanded)}
@@ -388,6 +423,115 @@ ${
   );
 }
 
+const KIND_LABELS: Record<AuditFinding["kind"], string> = {
+  company: "Company",
+  title: "Title",
+  dates: "Dates",
+  skill: "Skill",
+  tool: "Tool",
+  domain: "Domain",
+  certification: "Certification",
+  project: "Project",
+  education: "Education",
+  bullet: "Bullet",
+};
+
+function SourceCheck({
+  findings,
+  regeneratingId,
+  onRegenerate,
+}: {
+  findings: AuditFinding[];
+  regeneratingId: string | null;
+  onRegenerate: (findings: AuditFinding[], id: string) => void;
+}) {
+  const [showVerified, setShowVerified] = useState(false);
+  const flagged = findings.filter((f) => f.flagged);
+  const verified = findings.filter((f) => !f.flagged);
+  const busy = regeneratingId !== null;
+
+  return (
+    <View style={styles.auditCard}>
+      <View style={styles.auditHeader}>
+        {flagged.length === 0 ? (
+          <ShieldCheck size={18} color="#10B981" />
+        ) : (
+          <ShieldAlert size={18} color="#F57C00" />
+        )}
+        <View style={styles.layoutTextContainer}>
+          <Text style={styles.layoutTitle}>Source Check</Text>
+          <Text style={styles.layoutText}>
+            {flagged.length === 0
+              ? `All ${findings.length} items found in your profile`
+              : `${flagged.length} of ${findings.length} items not found in your profile`}
+          </Text>
+        </View>
+      </View>
+
+      {flagged.map((finding) => (
+        <View key={finding.id} style={styles.auditItem}>
+          <Text style={styles.auditKind}>{KIND_LABELS[finding.kind]}</Text>
+          <Text style={styles.auditValue}>{finding.value}</Text>
+          {finding.reason && <Text style={styles.auditReason}>{finding.reason}</Text>}
+          <TouchableOpacity
+            style={[styles.auditButton, busy && styles.buttonDisabled]}
+            onPress={() => onRegenerate([finding], finding.id)}
+            disabled={busy}
+          >
+            {regeneratingId === finding.id ? (
+              <ActivityIndicator size="small" color="#0066FF" />
+            ) : (
+              <RefreshCw size={14} color="#0066FF" />
+            )}
+            <Text style={styles.auditButtonText}>Regenerate</Text>
+          </TouchableOpacity>
+        </View>
+      ))}
+
+      {flagged.length > 1 && (
+        <TouchableOpacity
+          style={[styles.auditButtonPrimary, busy && styles.buttonDisabled]}
+          onPress={() => onRegenerate(flagged, "all")}
+          disabled={busy}
+        >
+          {regeneratingId === "all" ? (
+            <ActivityIndicator size="small" color="#FFFFFF" />
+          ) : (
+            <RefreshCw size={16} color="#FFFFFF" />
+          )}
+          <Text style={styles.auditButtonPrimaryText}>Regenerate All Flagged</Text>
+        </TouchableOpacity>
+      )}
+
+      {verified.length > 0 && (
+        <TouchableOpacity style={styles.auditToggle} onPress={() => setShowVerified(!showVerified)}>
+          <Text style={styles.auditToggleText}>
+            {showVerified ? "Hide" : "Show"} {verified.length} verified item{verified.length === 1 ? "" : "s"}
+          </Text>
+          {showVerified ? <ChevronUp size={16} color="#666666" /> : <ChevronDown size={16} color="#666666" />}
+        </TouchableOpacity>
+      )}
+
+      {showVerified &&
+        verified.map((finding) => (
+          <View key={finding.id} style={styles.auditVerifiedRow}>
+            <Check size={14} color="#10B981" style={styles.auditVerifiedIcon} />
+            <View style={styles.auditVerifiedBody}>
+              <Text style={styles.auditVerifiedText} numberOfLines={2}>
+                {KIND_LABELS[finding.kind]}: {finding.value}
+              </Text>
+              {finding.citation ? (
+                <Text style={styles.auditCitationText} numberOfLines={3}>
+                  {finding.citation}
+                </Text>
+              ) : null}
+            </View>
+          </View>
+        ))}
+    </View>
+  );
+}
+
 const styles = StyleSheet.create({
   container: {
     flex: 1,
@@ -584,12 +728,161 @@ const styles = StyleSheet.create({
     fontWeight: "700" as const,
     color: "#FFFFFF",
   },
+  downloadButtonSecondary: {
+    flexDirection: "row" as const,
+    alignItems: "center" as const,
+    justifyContent: "center" as const,
+    gap: 8,
+    marginTop: 10,
+    paddingVertical: 14,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: "#0066FF",
+    backgroundColor: "#FFFFFF",
+  },
+  downloadButtonSecondaryText: {
+    fontSize: 16,
+    fontWeight: "600" as const,
+    color: "#0066FF",
+  },
   downloadHint: {
     fontSize: 13,
     color: "#666666",
     textAlign: "center" as const,
     marginTop: 8,
   },
+  layoutCard: {
+    flexDirection: "row" as const,
+    alignItems: "center" as const,
+    gap: 12,
+    marginHorizontal: 20,
+    marginTop: 12,
+    padding: 16,
+    backgroundColor: "#FFFFFF",
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "#E5E5E5",
+  },
+  layoutCardWarning: {
+    backgroundColor: "#FFF3E0",
+    borderColor: "#FFE0B2",
+  },
+  layoutTextContainer: {
+    flex: 1,
+  },
+  layoutTitle: {
+    fontSize: 15,
+    fontWeight: "600" as const,
+    color: "#1A1A1A",
+  },
+  layoutText: {
+    fontSize: 13,
+    color: "#666666",
+    marginTop: 2,
+  },
+  auditCard: {
+    marginHorizontal: 20,
+    marginTop: 12,
+    padding: 16,
+    backgroundColor: "#FFFFFF",
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "#E5E5E5",
+  },
+  auditHeader: {
+    flexDirection: "row" as const,
+    alignItems: "center" as const,
+    gap: 12,
+  },
+  auditItem: {
+    marginTop: 12,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: "#F0F0F0",
+  },
+  auditKind: {
+    fontSize: 12,
+    fontWeight: "600" as const,
+    color: "#F57C00",
+    textTransform: "uppercase" as const,
+  },
+  auditValue: {
+    fontSize: 14,
+    color: "#1A1A1A",
+    marginTop: 4,
+    lineHeight: 20,
+  },
+  auditReason: {
+    fontSize: 13,
+    color: "#666666",
+    marginTop: 4,
+  },
+  auditButton: {
+    flexDirection: "row" as const,
+    alignItems: "center" as const,
+    alignSelf: "flex-start" as const,
+    gap: 6,
+    marginTop: 8,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    backgroundColor: "#EBF3FF",
+    borderRadius: 8,
+  },
+  auditButtonText: {
+    fontSize: 13,
+    fontWeight: "600" as const,
+    color: "#0066FF",
+  },
+  auditButtonPrimary: {
+    flexDirection: "row" as const,
+    alignItems: "center" as const,
+    justifyContent: "center" as const,
+    gap: 8,
+    marginTop: 16,
+    paddingVertical: 12,
+    backgroundColor: "#0066FF",
+    borderRadius: 10,
+  },
+  auditButtonPrimaryText: {
+    fontSize: 14,
+    fontWeight: "600" as const,
+    color: "#FFFFFF",
+  },
+  auditToggle: {
+    flexDirection: "row" as const,
+    alignItems: "center" as const,
+    justifyContent: "space-between" as const,
+    marginTop: 12,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: "#F0F0F0",
+  },
+  auditToggleText: {
+    fontSize: 13,
+    fontWeight: "500" as const,
+    color: "#666666",
+  },
+  auditVerifiedRow: {
+    flexDirection: "row" as const,
+    alignItems: "flex-start" as const,
+    gap: 8,
+    marginTop: 8,
+  },
+  auditVerifiedIcon: {
+    marginTop: 2,
+  },
+  auditVerifiedBody: {
+    flex: 1,
+  },
+  auditVerifiedText: {
+    fontSize: 13,
+    color: "#666666",
+  },
+  auditCitationText: {
+    marginTop: 2,
+    fontSize: 12,
+    color: "#999999",
+  },
   previewToggle: {
     flexDirection: "row" as const,
     alignItems: "center" as const,
@@ -1,7 +1,8 @@
 import { router, useLocalSearchParams } from "expo-router";
-import { Check, FileText } from "lucide-react-native";
+import { Check, FileText, Palette } from "lucide-react-native";
 import React, { useState } from "react";
 import {
+  Alert,
   ScrollView,
   StyleSheet,
   Text,
@@ -11,6 +12,8 @@ import {
 import { SafeAreaView } from "react-native-safe-area-context";
 
 import { useUserProfile } from "../../contexts/UserProfileContext";
+import { DEFAULT_RESUME_THEME, RESUME_THEMES, type ResumeThemeId } from "../../lib/resumeThemes";
+import { hasContactName, MISSING_CONTACT_NAME_MESSAGE } from "../../lib/tailoredResumeGenerator";
 
 export type ResumeRenderMode = "standard" | "template";
 
@@ -18,11 +21,12 @@ export interface ResumeRenderOptions {
   mode: ResumeRenderMode;
   templateResumeAssetId?: string;
   enforceOnePage: boolean;
+  theme?: ResumeThemeId;
 }
 
 export default function ResumeOptionsScreen() {
-  const { jobId } = useLocalSearchParams<{ jobId: string }>();
-  const { getResumeAssets } = useUserProfile();
+  const { jobId, versionNotes } = useLocalSearchParams<{ jobId: string; versionNotes?: string }>();
+  const { profile, getResumeAssets } = useUserProfile();
   
   const resumeAssets = getResumeAssets();
   const docxAssets = resumeAssets.filter((a) => a.type === "docx" && !!a.docxBase64);
@@ -36,12 +40,22 @@ export default function ResumeOptionsScreen() {
   
   const [mode, setMode] = useState<ResumeRenderMode>(defaultMode);
   const [selectedTemplateId, setSelectedTemplateId] = useState<string | undefined>(defaultTemplateId);
+  const [theme, setTheme] = useState<ResumeThemeId>(DEFAULT_RESUME_THEME);
 
   const handleGenerate = () => {
+    if (!hasContactName(profile.contact)) {
+      Alert.alert("Contact Details Needed", MISSING_CONTACT_NAME_MESSAGE, [
+        { text: "Cancel", style: "cancel" },
+        { text: "Edit Profile", onPress: () => router.push("/profile/edit") },
+      ]);
+      return;
+    }
+
     const options: ResumeRenderOptions = {
       mode,
       templateResumeAssetId: mode === "template" ? selectedTemplateId : undefined,
       enforceOnePage: mode === "template",
+      theme: mode === "standard" ? theme : undefined,
     };
 
     router.push({
@@ -51,6 +65,8 @@ export default function ResumeOptionsScreen() {
         mode: options.mode,
         templateResumeAssetId: options.templateResumeAssetId || "",
         enforceOnePage: options.enforceOnePage ? "true" : "false",
+        theme: options.theme || "",
+        versionNotes,
       },
     });
   };
@@ -95,6 +111,40 @@ export default function ResumeOptionsScreen() {
                   </Text>
                 </View>
               </View>
+
+              {mode === "standard" && (
+                <View style={styles.templatePickerContainer}>
+                  <Text style={styles.templatePickerLabel}>Theme:</Text>
+                  <View style={styles.templateList}>
+                    {RESUME_THEMES.map((option) => (
+                      <TouchableOpacity
+                        key={option.id}
+                        style={[
+                          styles.templateListItem,
+                          theme === option.id && styles.templateListItemSelected,
+                        ]}
+                        onPress={() => setTheme(option.id)}
+                      >
+                        <View style={styles.templateListItemContent}>
+                          <Palette size={18} color={theme === option.id ? "#0066FF" : "#666666"} />
+                          <View style={styles.templateListItemText}>
+                            <Text style={[
+                              styles.templateListItemName,
+                              theme === option.id && styles.templateListItemNameSelected,
+                            ]}>
+                              {option.label}
+                            </Text>
+                            <Text style={styles.templateListItemDate}>{option.description}</Text>
+                          </View>
+                        </View>
+                        {theme === option.id && (
+                          <Check size={20} color="#0066FF" />
+                        )}
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                </View>
+              )}
             </TouchableOpacity>
 
             <TouchableOpacity
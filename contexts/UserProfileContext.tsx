@@ -3,11 +3,14 @@ import createContextHook from "@nkzw/create-context-hook";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useCallback, useEffect, useMemo, useState } from "react";
 
+import { jobsStorageKey, loadJobs, upsertJobPosting } from "../lib/jobRepository";
+import { sameSkill, setCustomSkillAliases } from "../lib/skillTaxonomy";
+import type { JobRecord } from "../types/history";
 import type { UserProfile, QAItem, JobPosting, Skill, Tool, ClarifyingAnswer, ResumeAsset } from "../types/profile";
 
 const PROFILE_KEY = "user_profile";
 const QA_HISTORY_KEY = "qa_history";
-const JOBS_KEY = "job_postings";
+const LEGACY_JOBS_KEY = "job_postings";
 const ACTIVE_PROFILE_ID_KEY = "active_profile_id";
 const PROFILE_INDEX_KEY = "profile_index";
 
@@ -25,13 +28,34 @@ function scopedKey(baseKey: string, profileId: string): string {
   return `${baseKey}:${profileId}`;
 }
 
+/**
+ * Merges an incoming skill or tool into the entry it matched, possibly by an
+ * alias: the entry keeps its own name, and its category unless it never had
+ * a real one.
+ */
+function mergeNamedEntry<T extends Skill | Tool>(existing: T, incoming: Omit<T, "id"> & { id?: string }): T {
+  const hasCategory = !!existing.category && existing.category !== "General";
+  return {
+    ...existing,
+    ...incoming,
+    id: existing.id,
+    name: existing.name,
+    category: hasCategory ? existing.category : incoming.category || existing.category,
+    provenance: [...(existing.provenance || []), ...(incoming.provenance || [])],
+  } as T;
+}
+
 const initialProfile: UserProfile = {
+  contact: { name: "", location: "", phone: "", email: "", links: [] },
   experience: [],
   skills: [],
   certifications: [],
+  education: [],
   tools: [],
+  skillAliases: [],
   projects: [],
   domainExperience: [],
+  domainProvenance: {},
   notes: [],
   achievements: [],
   responsibilities: [],
@@ -46,7 +70,7 @@ export const [UserProfileProvider, useUserProfile] = createContextHook(() => {
   const queryClient = useQueryClient();
   const [profile, setProfile] = useState<UserProfile>(initialProfile);
   const [qaHistory, setQaHistory] = useState<QAItem[]>([]);
-  const [jobPostings, setJobPostings] = useState<JobPosting[]>([]);
+  const [jobs, setJobs] = useState<JobRecord[]>([]);
   const [activeProfileId, setActiveProfileId] = useState<string>("");
   const [profilesIndex, setProfilesIndex] = useState<ProfileMeta[]>([]);
   const [isInitialized, setIsInitialized] = useState(false);
@@ -77,7 +101,7 @@ export const [UserProfileProvider, useUserProfile] = createContextHook(() => {
 
           const oldProfile = await AsyncStorage.getItem(PROFILE_KEY);
           const oldQA = await AsyncStorage.getItem(QA_HISTORY_KEY);
-          const oldJobs = await AsyncStorage.getItem(JOBS_KEY);
+          const oldJobs = await AsyncStorage.getItem(LEGACY_JOBS_KEY);
 
           if (oldProfile || oldQA || oldJobs) {
             console.log("[ProfileContext] Migrating legacy data to scoped storage...");
@@ -90,14 +114,15 @@ export const [UserProfileProvider, useUserProfile] = createContextHook(() => {
               await AsyncStorage.removeItem(QA_HISTORY_KEY);
             }
             if (oldJobs) {
-              await AsyncStorage.setItem(scopedKey(JOBS_KEY, currentProfileId), oldJobs);
-              await AsyncStorage.removeItem(JOBS_KEY);
+              // Picked up and merged into the job repository on first load
+              await AsyncStorage.setItem(scopedKey(LEGACY_JOBS_KEY, currentProfileId), oldJobs);
+              await AsyncStorage.removeItem(LEGACY_JOBS_KEY);
             }
             console.log("[ProfileContext] Migration complete.");
           } else {
             await AsyncStorage.setItem(scopedKey(PROFILE_KEY, currentProfileId), JSON.stringify(initialProfile));
             await AsyncStorage.setItem(scopedKey(QA_HISTORY_KEY, currentProfileId), JSON.stringify([]));
-            await AsyncStorage.setItem(scopedKey(JOBS_KEY, currentProfileId), JSON.stringify([]));
+            await AsyncStorage.setItem(jobsStorageKey(currentProfileId), JSON.stringify([]));
           }
         }
 
@@ -125,7 +150,8 @@ export const [UserProfileProvider, useUserProfile] = createContextHook(() => {
       try {
         console.log("[ProfileContext] Loading profile for:", activeProfileId);
         const stored = await AsyncStorage.getItem(scopedKey(PROFILE_KEY, activeProfileId));
-        return stored ? JSON.parse(stored) : initialProfile;
+        // Profiles saved before a field existed pick up its empty default
+        return stored ? { ...initialProfile, ...JSON.parse(stored) } : initialProfile;
       } catch (error) {
         console.error("Error loading profile:", error);
         return initialProfile;
@@ -152,17 +178,8 @@ export const [UserProfileProvider, useUserProfile] = createContextHook(() => {
   });
 
   const jobsQuery = useQuery({
-    queryKey: ["jobPostings", activeProfileId],
-    queryFn: async () => {
-      if (!activeProfileId) return [];
-      try {
-        const stored = await AsyncStorage.getItem(scopedKey(JOBS_KEY, activeProfileId));
-        return stored ? JSON.parse(stored) : [];
-      } catch (error) {
-        console.error("Error loading job postings:", error);
-        return [];
-      }
-    },
+    queryKey: ["jobs", activeProfileId],
+    queryFn: () => loadJobs(activeProfileId),
     staleTime: Infinity,
     enabled: !!activeProfileId && isInitialized,
   });
@@ -187,11 +204,11 @@ export const [UserProfileProvider, useUserProfile] = createContextHook(() => {
     },
   });
 
-  const { mutate: saveJobs, isPending: isSavingJobs } = useMutation({
-    mutationFn: async (newJobs: JobPosting[]) => {
-      if (!activeProfileId) throw new Error("No active profile");
-      await AsyncStorage.setItem(scopedKey(JOBS_KEY, activeProfileId), JSON.stringify(newJobs));
-      return newJobs;
+  const { mutate: saveJobPosting, isPending: isSavingJobs } = useMutation({
+    mutationFn: (job: JobPosting) => upsertJobPosting(activeProfileId, job),
+    onSuccess: (saved) => {
+      queryClient.setQueryData(["jobs", activeProfileId], saved);
+      queryClient.invalidateQueries({ queryKey: ["historyIndex", activeProfileId] });
     },
   });
 
@@ -201,6 +218,10 @@ export const [UserProfileProvider, useUserProfile] = createContextHook(() => {
     }
   }, [profileQuery.data]);
 
+  useEffect(() => {
+    setCustomSkillAliases(profile.skillAliases);
+  }, [profile.skillAliases]);
+
   useEffect(() => {
     if (qaQuery.data) {
       setQaHistory(qaQuery.data);
@@ -209,7 +230,7 @@ export const [UserProfileProvider, useUserProfile] = createContextHook(() => {
 
   useEffect(() => {
     if (jobsQuery.data) {
-      setJobPostings(jobsQuery.data);
+      setJobs(jobsQuery.data);
     }
   }, [jobsQuery.data]);
 
@@ -231,13 +252,18 @@ export const [UserProfileProvider, useUserProfile] = createContextHook(() => {
     [qaHistory, saveQA]
   );
 
+  const jobPostings = useMemo(() => jobs.map((job) => job.posting), [jobs]);
+
   const addJobPosting = useCallback(
     (job: JobPosting) => {
-      const updated = [job, ...jobPostings];
-      setJobPostings(updated);
-      saveJobs(updated);
+      const now = new Date().toISOString();
+      setJobs((current) => [
+        { id: job.id, posting: job, source: "pasted", createdAt: job.timestamp || now, updatedAt: now },
+        ...current.filter((j) => j.id !== job.id),
+      ]);
+      saveJobPosting(job);
     },
-    [jobPostings, saveJobs]
+    [saveJobPosting]
   );
 
   const clearAllData = useCallback(async () => {
@@ -245,11 +271,11 @@ export const [UserProfileProvider, useUserProfile] = createContextHook(() => {
     await AsyncStorage.multiRemove([
       scopedKey(PROFILE_KEY, activeProfileId),
       scopedKey(QA_HISTORY_KEY, activeProfileId),
-      scopedKey(JOBS_KEY, activeProfileId),
+      jobsStorageKey(activeProfileId),
     ]);
     setProfile(initialProfile);
     setQaHistory([]);
-    setJobPostings([]);
+    setJobs([]);
   }, [activeProfileId]);
 
   const createProfile = useCallback(async (name?: string) => {
@@ -266,17 +292,17 @@ export const [UserProfileProvider, useUserProfile] = createContextHook(() => {
       await AsyncStorage.setItem(ACTIVE_PROFILE_ID_KEY, newId);
       await AsyncStorage.setItem(scopedKey(PROFILE_KEY, newId), JSON.stringify(initialProfile));
       await AsyncStorage.setItem(scopedKey(QA_HISTORY_KEY, newId), JSON.stringify([]));
-      await AsyncStorage.setItem(scopedKey(JOBS_KEY, newId), JSON.stringify([]));
+      await AsyncStorage.setItem(jobsStorageKey(newId), JSON.stringify([]));
 
       setProfilesIndex(updatedIndex);
       setActiveProfileId(newId);
       setProfile(initialProfile);
       setQaHistory([]);
-      setJobPostings([]);
+      setJobs([]);
 
       queryClient.invalidateQueries({ queryKey: ["profile"] });
       queryClient.invalidateQueries({ queryKey: ["qaHistory"] });
-      queryClient.invalidateQueries({ queryKey: ["jobPostings"] });
+      queryClient.invalidateQueries({ queryKey: ["jobs"] });
 
       console.log("[ProfileContext] Created new profile:", newId);
     } catch (error) {
@@ -291,11 +317,11 @@ export const [UserProfileProvider, useUserProfile] = createContextHook(() => {
       setActiveProfileId(profileId);
       setProfile(initialProfile);
       setQaHistory([]);
-      setJobPostings([]);
+      setJobs([]);
 
       queryClient.invalidateQueries({ queryKey: ["profile"] });
       queryClient.invalidateQueries({ queryKey: ["qaHistory"] });
-      queryClient.invalidateQueries({ queryKey: ["jobPostings"] });
+      queryClient.invalidateQueries({ queryKey: ["jobs"] });
 
       console.log("[ProfileContext] Switched to profile:", profileId);
     } catch (error) {
@@ -323,19 +349,18 @@ export const [UserProfileProvider, useUserProfile] = createContextHook(() => {
       if (!activeProfileId) return;
       await AsyncStorage.removeItem(scopedKey(PROFILE_KEY, activeProfileId));
       await AsyncStorage.removeItem(scopedKey(QA_HISTORY_KEY, activeProfileId));
-      await AsyncStorage.removeItem(scopedKey(JOBS_KEY, activeProfileId));
 
       await AsyncStorage.setItem(scopedKey(PROFILE_KEY, activeProfileId), JSON.stringify(initialProfile));
       await AsyncStorage.setItem(scopedKey(QA_HISTORY_KEY, activeProfileId), JSON.stringify([]));
-      await AsyncStorage.setItem(scopedKey(JOBS_KEY, activeProfileId), JSON.stringify([]));
+      await AsyncStorage.setItem(jobsStorageKey(activeProfileId), JSON.stringify([]));
 
       setProfile(initialProfile);
       setQaHistory([]);
-      setJobPostings([]);
+      setJobs([]);
 
       queryClient.invalidateQueries({ queryKey: ["profile", activeProfileId] });
       queryClient.invalidateQueries({ queryKey: ["qaHistory", activeProfileId] });
-      queryClient.invalidateQueries({ queryKey: ["jobPostings", activeProfileId] });
+      queryClient.invalidateQueries({ queryKey: ["jobs", activeProfileId] });
 
       console.log("[ProfileContext] Reset profile:", activeProfileId);
     } catch (error) {
@@ -346,14 +371,12 @@ export const [UserProfileProvider, useUserProfile] = createContextHook(() => {
 
   const addOrUpdateSkill = useCallback(
     (skill: Omit<Skill, 'id'> & { id?: string }) => {
-      const existing = profile.skills.find(
-        (s) => s.name.toLowerCase() === skill.name.toLowerCase()
-      );
+      const existing = profile.skills.find((s) => sameSkill(s.name, skill.name));
       
       if (existing) {
         updateProfile({
           skills: profile.skills.map((s) =>
-            s.id === existing.id ? { ...s, ...skill, id: s.id } : s
+            s.id === existing.id ? mergeNamedEntry(s, skill) : s
           ),
         });
       } else {
@@ -375,14 +398,12 @@ export const [UserProfileProvider, useUserProfile] = createContextHook(() => {
 
   const addOrUpdateTool = useCallback(
     (tool: Omit<Tool, 'id'> & { id?: string }) => {
-      const existing = profile.tools.find(
-        (t) => t.name.toLowerCase() === tool.name.toLowerCase()
-      );
+      const existing = profile.tools.find((t) => sameSkill(t.name, tool.name));
       
       if (existing) {
         updateProfile({
           tools: profile.tools.map((t) =>
-            t.id === existing.id ? { ...t, ...tool, id: t.id } : t
+            t.id === existing.id ? mergeNamedEntry(t, tool) : t
           ),
         });
       } else {
@@ -462,6 +483,7 @@ export const [UserProfileProvider, useUserProfile] = createContextHook(() => {
     () => ({
       profile,
       qaHistory,
+      jobs,
       jobPostings,
       activeProfileId,
       profilesIndex,
@@ -489,6 +511,7 @@ export const [UserProfileProvider, useUserProfile] = createContextHook(() => {
     [
       profile,
       qaHistory,
+      jobs,
       jobPostings,
       activeProfileId,
       profilesIndex,
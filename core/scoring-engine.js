@@ -3,6 +3,9 @@
  * Calculates job fit scores based on user profile and job posting
  */
 
+import { SCORE_WEIGHTS } from '../memory/defaults.js';
+import { computeTotalTenureMonths } from '../lib/tenure';
+
 /**
  * Calculate experience alignment score
  * @param {Array} userExperience - User's work experience
@@ -22,7 +25,8 @@ export function calculateExperienceAlignment(userExperience, jobPosting) {
     'lead': 4,
   };
 
-  const userYearsOfExperience = userExperience.length * 1.5; // Rough estimate
+  // Dated tenure with overlapping roles counted once
+  const userYearsOfExperience = computeTotalTenureMonths(userExperience) / 12;
   const jobLevel = jobSeniorityLevels[jobPosting.seniority?.toLowerCase()] || 2;
   const expectedYears = jobLevel * 2;
 
@@ -153,9 +157,10 @@ export function calculateImpactPotential(profile, jobPosting) {
  * Calculate overall fit score
  * @param {Object} profile - User profile
  * @param {Object} jobPosting - Job posting
+ * @param {Object} [weights] - Dimension weights, defaults to SCORE_WEIGHTS
  * @returns {Object} Complete fit score with breakdown
  */
-export function calculateFitScore(profile, jobPosting) {
+export function calculateFitScore(profile, jobPosting, weights = SCORE_WEIGHTS) {
   const experienceAlignment = calculateExperienceAlignment(
     profile.experience, 
     jobPosting
@@ -177,11 +182,11 @@ export function calculateFitScore(profile, jobPosting) {
   const impactPotential = calculateImpactPotential(profile, jobPosting);
 
   const overall = Math.round(
-    (experienceAlignment * 0.25) +
-    (technicalSkillMatch * 0.30) +
-    (domainRelevance * 0.20) +
-    (stageCulturalFit * 0.15) +
-    (impactPotential * 0.10)
+    (experienceAlignment * weights.experienceAlignment) +
+    (technicalSkillMatch * weights.technicalSkillMatch) +
+    (domainRelevance * weights.domainRelevance) +
+    (stageCulturalFit * weights.stageCulturalFit) +
+    (impactPotential * weights.impactPotential)
   );
 
   return {
@@ -198,12 +203,13 @@ export function calculateFitScore(profile, jobPosting) {
       stageCulturalFit: generateCultureRationale(profile, jobPosting, stageCulturalFit),
       impactPotential: generateImpactRationale(profile, jobPosting, impactPotential),
     },
+    weights,
   };
 }
 
 function generateExperienceRationale(profile, jobPosting, score) {
-  const years = profile.experience?.length * 1.5 || 0;
-  return `You have approximately ${years.toFixed(1)} years of experience across ${profile.experience?.length || 0} positions. ${score > 70 ? 'This aligns well with' : 'This may differ from'} the ${jobPosting.seniority || 'mid-level'} requirements.`;
+  const years = computeTotalTenureMonths(profile.experience || []) / 12;
+  return `You have ${years.toFixed(1)} years of experience across ${profile.experience?.length || 0} positions. ${score > 70 ? 'This aligns well with' : 'This may differ from'} the ${jobPosting.seniority || 'mid-level'} requirements.`;
 }
 
 function generateTechnicalRationale(profile, jobPosting, score) {
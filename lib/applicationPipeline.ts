@@ -0,0 +1,45 @@
+import type { ApplicationStage, ApplicationStageChange, JobRecord } from "../types/history";
+
+export const APPLICATION_STAGES: { stage: ApplicationStage; label: string }[] = [
+  { stage: "saved", label: "Saved" },
+  { stage: "applied", label: "Applied" },
+  { stage: "screening", label: "Screening" },
+  { stage: "interviewing", label: "Interviewing" },
+  { stage: "offer", label: "Offer" },
+  { stage: "rejected", label: "Rejected" },
+  { stage: "withdrawn", label: "Withdrawn" },
+];
+
+export function stageLabel(stage: ApplicationStage): string {
+  return APPLICATION_STAGES.find((s) => s.stage === stage)?.label ?? stage;
+}
+
+/** Jobs start out saved until the user records a stage change. */
+export function applicationStage(job: JobRecord): ApplicationStage {
+  const history = job.stageHistory || [];
+  return history.length > 0 ? history[history.length - 1].stage : "saved";
+}
+
+export function latestStageChange(job: JobRecord): ApplicationStageChange | null {
+  const history = job.stageHistory || [];
+  return history.length > 0 ? history[history.length - 1] : null;
+}
+
+/** The resume version most recently recorded as sent for this job. */
+export function submittedResumeVersionId(job: JobRecord): string | undefined {
+  const history = job.stageHistory || [];
+  for (let i = history.length - 1; i >= 0; i--) {
+    if (history[i].resumeVersionId) return history[i].resumeVersionId;
+  }
+  return undefined;
+}
+
+export function groupJobsByStage(jobs: JobRecord[]): { stage: ApplicationStage; label: string; jobs: JobRecord[] }[] {
+  return APPLICATION_STAGES.map(({ stage, label }) => ({
+    stage,
+    label,
+    jobs: jobs
+      .filter((job) => applicationStage(job) === stage)
+      .sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()),
+  }));
+}
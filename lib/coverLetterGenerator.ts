@@ -0,0 +1,209 @@
+import { z } from "zod";
+import type { JobPosting, UserProfile } from "../types/profile";
+import { generateJson } from "./llmJson";
+import { auditParagraphs } from "./resumeAudit";
+import {
+  buildProfileSummary,
+  contactHeader,
+  hasContactName,
+  MISSING_CONTACT_NAME_MESSAGE,
+  type TailoredResumeJson,
+} from "./tailoredResumeGenerator";
+
+export type CoverLetterTone = "professional" | "warm" | "confident" | "enthusiastic";
+export type CoverLetterLength = "short" | "standard" | "detailed";
+
+export interface CoverLetterOptions {
+  tone: CoverLetterTone;
+  length: CoverLetterLength;
+}
+
+export const COVER_LETTER_TONES: { tone: CoverLetterTone; label: string; guidance: string }[] = [
+  { tone: "professional", label: "Professional", guidance: "measured and polished, no slang or exclamation marks" },
+  { tone: "warm", label: "Warm", guidance: "personable and sincere, showing genuine interest in the team" },
+  { tone: "confident", label: "Confident", guidance: "direct and assured, leading with results" },
+  { tone: "enthusiastic", label: "Enthusiastic", guidance: "energetic and eager, without overstating anything" },
+];
+
+export const COVER_LETTER_LENGTHS: { length: CoverLetterLength; label: string; paragraphs: number; words: number }[] = [
+  { length: "short", label: "Short", paragraphs: 3, words: 180 },
+  { length: "standard", label: "Standard", paragraphs: 4, words: 280 },
+  { length: "detailed", label: "Detailed", paragraphs: 5, words: 380 },
+];
+
+export const DEFAULT_COVER_LETTER_OPTIONS: CoverLetterOptions = { tone: "professional", length: "standard" };
+
+export interface CoverLetterJson {
+  /** Contact block, taken from the profile's contact info */
+  header?: TailoredResumeJson["header"];
+  greeting: string;
+  paragraphs: string[];
+  closing: string;
+  signature: string;
+}
+
+export interface CoverLetterResult {
+  letter: CoverLetterJson;
+  /** Metrics or technologies still not found in the profile after revision */
+  unsupportedClaims: string[];
+}
+
+const coverLetterSchema = z.object({
+  greeting: z.string().optional().default("Dear Hiring Manager,"),
+  paragraphs: z.array(z.string().min(1)).min(1, "At least one paragraph is required"),
+  closing: z.string().optional().default("Sincerely,"),
+  signature: z.string().optional().default(""),
+});
+
+const paragraphRevisionSchema = z.object({
+  paragraphs: z.array(z.string()),
+});
+
+export function coverLetterToText(letter: CoverLetterJson): string {
+  const contact = letter.header
+    ? [letter.header.name, [letter.header.location, letter.header.phone, letter.header.email].filter(Boolean).join(" | ")]
+    : [];
+  return [
+    contact.filter(Boolean).join("\n"),
+    letter.greeting,
+    ...letter.paragraphs,
+    [letter.closing, letter.signature].filter(Boolean).join("\n"),
+  ]
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+export function describeCoverLetterOptions(options: CoverLetterOptions): string {
+  const tone = COVER_LETTER_TONES.find((t) => t.tone === options.tone)?.label || options.tone;
+  const length = COVER_LETTER_LENGTHS.find((l) => l.length === options.length)?.label || options.length;
+  return `${tone} · ${length}`;
+}
+
+/**
+ * Writes a cover letter under the same source-of-truth rule as the tailored
+ * resume: only the profile and the posting are sources. Paragraphs that still
+ * cite metrics or technologies the profile doesn't back get one rewrite.
+ */
+export async function generateCoverLetter(
+  profile: UserProfile,
+  job: JobPosting,
+  resume: TailoredResumeJson | null,
+  options: CoverLetterOptions
+): Promise<CoverLetterResult> {
+  console.log("[coverLetterGenerator] Starting generation");
+  console.log("[coverLetterGenerator] Options:", describeCoverLetterOptions(options));
+
+  if (!hasContactName(profile.contact)) throw new Error(MISSING_CONTACT_NAME_MESSAGE);
+
+  const tone = COVER_LETTER_TONES.find((t) => t.tone === options.tone) || COVER_LETTER_TONES[0];
+  const length = COVER_LETTER_LENGTHS.find((l) => l.length === options.length) || COVER_LETTER_LENGTHS[1];
+
+  const jobRequirements = {
+    title: job.title,
+    company: job.company,
+    requiredSkills: job.requiredSkills,
+    preferredSkills: job.preferredSkills,
+    responsibilities: job.responsibilities,
+    seniority: job.seniority,
+    domain: job.domain,
+  };
+
+  const prompt = `You are an expert career writer. Write a cover letter in JSON format for this job posting.
+
+CRITICAL SOURCE-OF-TRUTH RULE:
+- Your ONLY sources are:
+  1. The candidate profile below (verified from resume + user answers)
+  2. The job posting requirements
+- You MUST NOT invent or add ANY experiences, companies, roles, skills, metrics, or results that are not in the candidate profile.
+- Do not claim familiarity with the company beyond what the job posting says.
+
+Candidate Profile:
+${JSON.stringify(buildProfileSummary(profile, job), null, 2)}
+
+Job Posting:
+${JSON.stringify(jobRequirements, null, 2)}
+
+Clarifying Answers:
+${Object.entries(profile.clarifyingAnswers).map(([key, answer]) => `${key}: ${answer.answer}`).join('\n')}
+${resume ? `
+Tailored Resume Sent With This Letter (emphasize the same experience; it adds no new facts):
+${JSON.stringify({ summary: resume.summary, experience: resume.experience }, null, 2)}
+` : ""}
+STYLE:
+- Tone: ${tone.label} - ${tone.guidance}
+- Length: ${length.paragraphs} body paragraphs, about ${length.words} words in total
+- Open with the role and why the candidate fits; close with a brief call to action
+- Connect 2-3 specific profile experiences to the job's most important requirements
+
+OUTPUT FORMAT:
+Return ONLY valid JSON (no markdown, no backticks) with this exact structure:
+
+{
+  "greeting": "Dear Hiring Manager,",
+  "paragraphs": ["paragraph 1", "paragraph 2", ...],
+  "closing": "Sincerely,",
+  "signature": ${JSON.stringify(profile.contact.name)}
+}
+`;
+
+  console.log("[coverLetterGenerator] Calling AI...");
+  const parsed = await generateJson(coverLetterSchema, prompt, { label: "coverLetterGenerator" });
+
+  const letter: CoverLetterJson = {
+    header: contactHeader(profile.contact),
+    greeting: parsed.greeting,
+    paragraphs: parsed.paragraphs,
+    closing: parsed.closing,
+    // The letter is always signed with the profile's name, whatever the model returned
+    signature: profile.contact.name,
+  };
+
+  letter.paragraphs = await reviseUnsupportedParagraphs(letter.paragraphs, profile, job, resume);
+
+  const remaining = auditParagraphs(letter.paragraphs, profile, job, resume ?? undefined);
+  const unsupportedClaims = Array.from(new Set(remaining.flatMap((r) => r.unsupported)));
+  if (unsupportedClaims.length > 0) {
+    console.warn(`[coverLetterGenerator] WARNING: ${unsupportedClaims.length} claims not backed by the profile`);
+  }
+
+  console.log("[coverLetterGenerator] Generation complete, paragraphs:", letter.paragraphs.length);
+  return { letter, unsupportedClaims };
+}
+
+async function reviseUnsupportedParagraphs(
+  paragraphs: string[],
+  profile: UserProfile,
+  job: JobPosting,
+  resume: TailoredResumeJson | null
+): Promise<string[]> {
+  const flagged = auditParagraphs(paragraphs, profile, job, resume ?? undefined);
+  if (flagged.length === 0) return paragraphs;
+
+  console.log("[coverLetterGenerator] Revising", flagged.length, "paragraph(s) with unsupported claims");
+  const prompt = `These cover letter paragraphs mention metrics or technologies that are not in the candidate profile. Rewrite each one without those claims, keeping its tone and length. Do not add any new facts.
+
+Candidate Profile:
+${JSON.stringify(buildProfileSummary(profile, job), null, 2)}
+
+Paragraphs:
+${flagged.map((f, i) => `${i + 1}. ${paragraphs[f.index]}\n   Unsupported: ${f.unsupported.join(", ")}`).join("\n")}
+
+Return ONLY valid JSON: { "paragraphs": ["rewritten paragraph 1", ...] } with exactly ${flagged.length} paragraphs in the same order.
+`;
+
+  try {
+    const revision = await generateJson(paragraphRevisionSchema, prompt, { label: "coverLetterGenerator.revise" });
+    if (revision.paragraphs.length !== flagged.length) {
+      console.warn("[coverLetterGenerator] Revision returned the wrong number of paragraphs; keeping the originals");
+      return paragraphs;
+    }
+    const next = [...paragraphs];
+    flagged.forEach((f, i) => {
+      if (revision.paragraphs[i].trim()) next[f.index] = revision.paragraphs[i].trim();
+    });
+    return next;
+  } catch (error) {
+    console.error("[coverLetterGenerator] Revision failed:", error);
+    return paragraphs;
+  }
+}
@@ -0,0 +1,80 @@
+import type { FitGap, FitGaps, GapCategory, JobPosting, UserProfile } from "../types/profile";
+import { termsMatch } from "./fitScoring";
+import { normalizeText } from "./sourceOfTruth";
+
+export type RawFitGaps = {
+  missingSkills?: string[];
+  missingTools?: string[];
+  missingDomains?: string[];
+};
+
+export type LabeledGap = FitGap & { category: GapCategory; key: string };
+
+export function gapKey(category: GapCategory, name: string): string {
+  return `${category}:${normalizeText(name)}`;
+}
+
+function requirementFor(job: JobPosting, name: string): FitGap["requirement"] | null {
+  if ((job.requiredSkills || []).some((skill) => termsMatch(skill, name))) return "required";
+  if ((job.preferredSkills || []).some((skill) => termsMatch(skill, name))) return "preferred";
+  return null;
+}
+
+function profileHas(profile: UserProfile, name: string): boolean {
+  return [...profile.skills, ...profile.tools].some((item) => termsMatch(item.name, name));
+}
+
+/**
+ * Keeps only gaps the posting actually asks for and the profile really lacks,
+ * labels each as required or preferred from the posting itself, and folds in
+ * the deterministic gaps the model missed.
+ */
+export function reconcileGaps(
+  aiGaps: RawFitGaps | undefined,
+  deterministicGaps: FitGaps | undefined,
+  profile: UserProfile,
+  job: JobPosting
+): FitGaps {
+  const seen = new Set<string>();
+  const result: FitGaps = { missingSkills: [], missingTools: [], missingDomains: [] };
+
+  const addRequirementGap = (name: string, target: FitGap[]) => {
+    const normalized = normalizeText(name);
+    if (!normalized || seen.has(normalized) || profileHas(profile, name)) return;
+    const requirement = requirementFor(job, name);
+    if (!requirement) return;
+    seen.add(normalized);
+    target.push({ name: name.trim(), requirement });
+  };
+
+  (aiGaps?.missingSkills || []).forEach((name) => addRequirementGap(name, result.missingSkills));
+  (aiGaps?.missingTools || []).forEach((name) => addRequirementGap(name, result.missingTools));
+  (deterministicGaps?.missingSkills || []).forEach((gap) => addRequirementGap(gap.name, result.missingSkills));
+  (deterministicGaps?.missingTools || []).forEach((gap) => addRequirementGap(gap.name, result.missingTools));
+
+  const domainMissing =
+    !!job.domain && !profile.domainExperience.some((domain) => termsMatch(domain, job.domain));
+  const domainFlagged =
+    (aiGaps?.missingDomains || []).some((domain) => termsMatch(domain, job.domain)) ||
+    (deterministicGaps?.missingDomains || []).length > 0;
+  if (domainMissing && domainFlagged) {
+    result.missingDomains.push({ name: job.domain, requirement: "required" });
+  }
+
+  return result;
+}
+
+export function listGaps(gaps: FitGaps | undefined): LabeledGap[] {
+  if (!gaps) return [];
+  const label = (category: GapCategory) => (gap: FitGap): LabeledGap => ({
+    ...gap,
+    category,
+    key: gapKey(category, gap.name),
+  });
+
+  return [
+    ...gaps.missingSkills.map(label("skill")),
+    ...gaps.missingTools.map(label("tool")),
+    ...gaps.missingDomains.map(label("domain")),
+  ].sort((a, b) => (a.requirement === b.requirement ? 0 : a.requirement === "required" ? -1 : 1));
+}
@@ -0,0 +1,229 @@
+import type { FitGap, FitScore, JobPosting, ScoreWeights, UserProfile } from "../types/profile";
+import { computeOverallScore, resolveScoreWeights } from "./scoreWeights";
+import { sameSkill, skillVariants } from "./skillTaxonomy";
+import { normalizeText } from "./sourceOfTruth";
+import { computeTotalTenureMonths } from "./tenure";
+
+export const SCORE_DISAGREEMENT_THRESHOLD = 15;
+
+const SENIORITY_EXPECTED_YEARS: Record<string, number> = {
+  entry: 0,
+  junior: 1,
+  mid: 3,
+  senior: 5,
+  lead: 7,
+  staff: 8,
+  principal: 10,
+};
+
+const DEFAULT_PROFICIENCY_CREDIT = 0.8;
+
+const STOP_WORDS = new Set([
+  "and", "the", "for", "with", "of", "to", "in", "on", "a", "an", "or", "our", "your",
+  "work", "team", "teams", "across", "using", "build", "ensure", "drive", "help", "own",
+]);
+
+type ScoredDimension = { score: number; rationale: string };
+
+function clampScore(value: number): number {
+  return Math.max(0, Math.min(100, Math.round(value)));
+}
+
+function keywords(text: string): string[] {
+  return normalizeText(text)
+    .split(" ")
+    .filter((w) => w.length > 2 && !STOP_WORDS.has(w));
+}
+
+function phraseMatch(na: string, nb: string): boolean {
+  const pattern = (needle: string) => new RegExp(`(^| )${needle.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}( |$)`);
+  return pattern(na).test(nb) || pattern(nb).test(na);
+}
+
+/**
+ * True when two names are the same skill (by the taxonomy) or one appears as
+ * whole words in the other, e.g. "React" in "React and Redux".
+ */
+export function termsMatch(a: string, b: string): boolean {
+  const na = normalizeText(a);
+  const nb = normalizeText(b);
+  if (!na || !nb) return false;
+  if (na === nb || sameSkill(a, b)) return true;
+  const variantsA = skillVariants(a).map(normalizeText).filter(Boolean);
+  const variantsB = skillVariants(b).map(normalizeText).filter(Boolean);
+  return variantsA.some((va) => variantsB.some((vb) => phraseMatch(va, vb)));
+}
+
+function expectedYearsFor(seniority: string): number {
+  const key = normalizeText(seniority || "");
+  const match = Object.keys(SENIORITY_EXPECTED_YEARS).find((level) => key.includes(level));
+  return SENIORITY_EXPECTED_YEARS[match ?? "mid"];
+}
+
+function scoreExperienceAlignment(profile: UserProfile, job: JobPosting): ScoredDimension {
+  if (profile.experience.length === 0) {
+    return { score: 0, rationale: "No work experience in your profile yet." };
+  }
+
+  const years = computeTotalTenureMonths(profile.experience) / 12;
+  const expectedYears = expectedYearsFor(job.seniority);
+  const shortfall = Math.max(0, expectedYears - years);
+  const surplus = Math.max(0, years - expectedYears - 5);
+  const tenureScore = 100 - shortfall * 12 - surplus * 3;
+
+  const jobTitleWords = new Set(keywords(job.title));
+  const relevantRoles = profile.experience.filter((exp) =>
+    keywords(exp.title).some((w) => jobTitleWords.has(w))
+  );
+  const titleBonus = relevantRoles.length > 0 ? 10 : -10;
+
+  return {
+    score: clampScore(tenureScore + titleBonus),
+    rationale: `${years.toFixed(1)} years of dated experience across ${profile.experience.length} role${profile.experience.length === 1 ? "" : "s"} against roughly ${expectedYears} expected for a ${job.seniority || "mid"}-level role. ${relevantRoles.length > 0 ? `${relevantRoles.length} of your titles overlap with "${job.title}".` : `None of your titles overlap with "${job.title}".`}`,
+  };
+}
+
+function skillCredit(profile: UserProfile, requirement: string): number {
+  let best = 0;
+  for (const item of [...profile.skills, ...profile.tools]) {
+    if (!termsMatch(item.name, requirement)) continue;
+    const credit = item.proficiency ? 0.5 + 0.5 * (Math.min(5, item.proficiency) / 5) : DEFAULT_PROFICIENCY_CREDIT;
+    best = Math.max(best, credit);
+  }
+  return best;
+}
+
+function scoreTechnicalSkillMatch(
+  profile: UserProfile,
+  job: JobPosting
+): ScoredDimension & { missing: FitGap[] } {
+  const required = job.requiredSkills || [];
+  const preferred = job.preferredSkills || [];
+
+  const requiredCredits = required.map((skill) => skillCredit(profile, skill));
+  const preferredCredits = preferred.map((skill) => skillCredit(profile, skill));
+  const sum = (values: number[]) => values.reduce((total, v) => total + v, 0);
+
+  const requiredScore = required.length > 0 ? (sum(requiredCredits) / required.length) * 70 : 70;
+  const preferredScore = preferred.length > 0 ? (sum(preferredCredits) / preferred.length) * 30 : 30;
+
+  const missing: FitGap[] = [
+    ...required
+      .filter((_, i) => requiredCredits[i] === 0)
+      .map((name) => ({ name, requirement: "required" as const })),
+    ...preferred
+      .filter((_, i) => preferredCredits[i] === 0)
+      .map((name) => ({ name, requirement: "preferred" as const })),
+  ];
+  const matchedRequired = requiredCredits.filter((c) => c > 0).length;
+  const matchedPreferred = preferredCredits.filter((c) => c > 0).length;
+
+  return {
+    score: clampScore(requiredScore + preferredScore),
+    rationale: `Matched ${matchedRequired}/${required.length} required and ${matchedPreferred}/${preferred.length} preferred skills, weighted by your stated proficiency.${missing.length > 0 ? ` Missing: ${missing.slice(0, 5).map((gap) => gap.name).join(", ")}${missing.length > 5 ? "…" : ""}.` : ""}`,
+    missing,
+  };
+}
+
+function scoreDomainRelevance(profile: UserProfile, job: JobPosting): ScoredDimension & { missing: FitGap[] } {
+  if (!job.domain) {
+    return { score: 50, rationale: "The posting does not name a domain.", missing: [] };
+  }
+  if (profile.domainExperience.length === 0) {
+    return { score: 40, rationale: `No domain experience recorded; the role is in ${job.domain}.`, missing: [{ name: job.domain, requirement: "required" }] };
+  }
+
+  const matched = profile.domainExperience.find((domain) => termsMatch(domain, job.domain));
+  return matched
+    ? { score: 90, rationale: `Your ${matched} experience matches the ${job.domain} domain.`, missing: [] }
+    : { score: 40, rationale: `None of your domains (${profile.domainExperience.join(", ")}) match ${job.domain}.`, missing: [{ name: job.domain, requirement: "required" }] };
+}
+
+function scoreStageCulturalFit(profile: UserProfile, job: JobPosting): ScoredDimension {
+  const responsibilities = job.responsibilities || [];
+  if (responsibilities.length === 0) {
+    return { score: 60, rationale: "The posting lists no responsibilities to compare against." };
+  }
+
+  const evidence = new Set(
+    keywords(
+      profile.experience
+        .map((exp) => [exp.title, exp.description, ...exp.achievements].join(" "))
+        .concat(profile.responsibilities, profile.workStyles)
+        .join(" ")
+    )
+  );
+
+  const covered = responsibilities.filter((resp) => {
+    const words = keywords(resp);
+    if (words.length === 0) return false;
+    const hits = words.filter((w) => evidence.has(w)).length;
+    return hits / words.length >= 0.4;
+  });
+
+  return {
+    score: clampScore(40 + (covered.length / responsibilities.length) * 60),
+    rationale: `${covered.length} of ${responsibilities.length} listed responsibilities are reflected in your past roles.`,
+  };
+}
+
+function scoreImpactPotential(profile: UserProfile): ScoredDimension {
+  const achievements = [
+    ...profile.achievements,
+    ...profile.experience.flatMap((exp) => exp.achievements),
+  ];
+  const quantified = achievements.filter((a) => /\d/.test(a)).length;
+
+  const score =
+    40 +
+    Math.min(40, quantified * 8) +
+    (profile.projects.length > 0 ? 10 : 0) +
+    (profile.certifications.length > 0 ? 10 : 0);
+
+  return {
+    score: clampScore(score),
+    rationale: `${quantified} quantified achievement${quantified === 1 ? "" : "s"}, ${profile.projects.length} project${profile.projects.length === 1 ? "" : "s"} and ${profile.certifications.length} certification${profile.certifications.length === 1 ? "" : "s"} on record.`,
+  };
+}
+
+export function calculateLocalFitScore(
+  profile: UserProfile,
+  job: JobPosting,
+  weights: ScoreWeights = resolveScoreWeights(profile)
+): FitScore {
+  const experience = scoreExperienceAlignment(profile, job);
+  const technical = scoreTechnicalSkillMatch(profile, job);
+  const domain = scoreDomainRelevance(profile, job);
+  const stage = scoreStageCulturalFit(profile, job);
+  const impact = scoreImpactPotential(profile);
+
+  const scores = {
+    experienceAlignment: experience.score,
+    technicalSkillMatch: technical.score,
+    domainRelevance: domain.score,
+    stageCulturalFit: stage.score,
+    impactPotential: impact.score,
+  };
+
+  return {
+    overall: computeOverallScore(scores, weights),
+    ...scores,
+    rationale: {
+      experienceAlignment: experience.rationale,
+      technicalSkillMatch: technical.rationale,
+      domainRelevance: domain.rationale,
+      stageCulturalFit: stage.rationale,
+      impactPotential: impact.rationale,
+    },
+    gaps: {
+      missingSkills: technical.missing,
+      missingTools: [],
+      missingDomains: domain.missing,
+    },
+    weights,
+  };
+}
+
+export function scoresDisagree(aiScore: number, localScore: number): boolean {
+  return Math.abs(aiScore - localScore) >= SCORE_DISAGREEMENT_THRESHOLD;
+}
@@ -0,0 +1,242 @@
+import type { FitScoreRecord, JobRecord, ResumeVersion } from "../types/history";
+
+export const HISTORY_INDEX_VERSION = 1;
+
+/**
+ * What the jobs list needs to search, filter and sort one job without loading
+ * its resume versions: the facets plus the distinct terms of the posting and
+ * of every generated resume.
+ */
+export interface JobIndexEntry {
+  jobId: string;
+  title: string;
+  company: string;
+  domain: string;
+  seniority: string;
+  createdAt: string;
+  /** The job's updatedAt when its posting terms were last taken */
+  jobUpdatedAt: string;
+  postingTerms: string[];
+  versionTerms: string[];
+  versionCount: number;
+  latestScore?: number;
+}
+
+export interface HistoryIndex {
+  version: number;
+  entries: Record<string, JobIndexEntry>;
+}
+
+export type FitScoreBand = "strong" | "moderate" | "weak" | "unscored";
+
+export const FIT_SCORE_BANDS: { band: FitScoreBand; label: string }[] = [
+  { band: "strong", label: "75+" },
+  { band: "moderate", label: "50–74" },
+  { band: "weak", label: "Under 50" },
+  { band: "unscored", label: "Not scored" },
+];
+
+export type DateRange = "any" | "week" | "month" | "quarter" | "year";
+
+const DATE_RANGE_DAYS: Record<Exclude<DateRange, "any">, number> = {
+  week: 7,
+  month: 30,
+  quarter: 90,
+  year: 365,
+};
+
+export const DATE_RANGES: { range: DateRange; label: string }[] = [
+  { range: "any", label: "Any time" },
+  { range: "week", label: "Past week" },
+  { range: "month", label: "Past month" },
+  { range: "quarter", label: "Past 3 months" },
+  { range: "year", label: "Past year" },
+];
+
+export type HistorySort = "updated" | "newest" | "oldest" | "score" | "company";
+
+export const HISTORY_SORTS: { sort: HistorySort; label: string }[] = [
+  { sort: "updated", label: "Recently updated" },
+  { sort: "newest", label: "Newest" },
+  { sort: "oldest", label: "Oldest" },
+  { sort: "score", label: "Fit score" },
+  { sort: "company", label: "Company" },
+];
+
+export interface HistoryFilters {
+  company?: string;
+  dateRange: DateRange;
+  scoreBand?: FitScoreBand;
+  domain?: string;
+  seniority?: string;
+}
+
+export const EMPTY_HISTORY_FILTERS: HistoryFilters = { dateRange: "any" };
+
+/** Lowercase word terms; keeps tech spellings like c++, c# and node.js whole. */
+export function tokenize(text: string): string[] {
+  const matches = (text || "").toLowerCase().match(/[a-z0-9][a-z0-9+#.]*/g) || [];
+  const terms = new Set<string>();
+  for (const match of matches) {
+    const term = match.replace(/\.+$/, "");
+    if (term.length >= 2) terms.add(term);
+  }
+  return Array.from(terms);
+}
+
+export function fitScoreBand(score?: number): FitScoreBand {
+  if (score === undefined) return "unscored";
+  if (score >= 75) return "strong";
+  if (score >= 50) return "moderate";
+  return "weak";
+}
+
+export function indexJobPosting(job: JobRecord, previous?: JobIndexEntry): JobIndexEntry {
+  const { posting } = job;
+  return {
+    jobId: job.id,
+    title: posting.title,
+    company: posting.company,
+    domain: posting.domain,
+    seniority: posting.seniority,
+    createdAt: job.createdAt,
+    jobUpdatedAt: job.updatedAt,
+    postingTerms: tokenize(
+      [posting.title, posting.company, posting.rawText || posting.description, ...posting.requiredSkills, ...posting.preferredSkills].join(" ")
+    ),
+    versionTerms: previous?.versionTerms || [],
+    versionCount: previous?.versionCount || 0,
+    latestScore: previous?.latestScore,
+  };
+}
+
+export function indexResumeVersion(entry: JobIndexEntry, version: ResumeVersion): JobIndexEntry {
+  return {
+    ...entry,
+    versionTerms: Array.from(new Set([...entry.versionTerms, ...tokenize(version.resumeText)])),
+    versionCount: entry.versionCount + 1,
+  };
+}
+
+export function indexFitScore(entry: JobIndexEntry, record: FitScoreRecord): JobIndexEntry {
+  return { ...entry, latestScore: record.aiScore.overall };
+}
+
+export function buildHistoryIndex(jobs: JobRecord[], versions: ResumeVersion[], scores: FitScoreRecord[]): HistoryIndex {
+  const entries: Record<string, JobIndexEntry> = {};
+  for (const job of jobs) entries[job.id] = indexJobPosting(job);
+
+  for (const version of versions) {
+    const entry = entries[version.jobId];
+    if (entry) entries[version.jobId] = indexResumeVersion(entry, version);
+  }
+
+  const byDate = [...scores].sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+  for (const record of byDate) {
+    const entry = entries[record.jobId];
+    if (entry) entries[record.jobId] = indexFitScore(entry, record);
+  }
+
+  return { version: HISTORY_INDEX_VERSION, entries };
+}
+
+/** Term → job ids, built once per loaded index so each keystroke is a lookup. */
+export function buildTermLookup(index: HistoryIndex): { terms: string[]; jobsByTerm: Map<string, Set<string>> } {
+  const jobsByTerm = new Map<string, Set<string>>();
+  for (const entry of Object.values(index.entries)) {
+    for (const term of [...entry.postingTerms, ...entry.versionTerms]) {
+      const ids = jobsByTerm.get(term) ?? new Set<string>();
+      ids.add(entry.jobId);
+      jobsByTerm.set(term, ids);
+    }
+  }
+  return { terms: Array.from(jobsByTerm.keys()).sort(), jobsByTerm };
+}
+
+function jobsMatchingPrefix(lookup: ReturnType<typeof buildTermLookup>, prefix: string): Set<string> {
+  const matches = new Set<string>();
+  // Terms are sorted, so every term with this prefix sits in one run
+  let low = 0;
+  let high = lookup.terms.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (lookup.terms[mid] < prefix) low = mid + 1;
+    else high = mid;
+  }
+  for (let i = low; i < lookup.terms.length && lookup.terms[i].startsWith(prefix); i++) {
+    lookup.jobsByTerm.get(lookup.terms[i])?.forEach((id) => matches.add(id));
+  }
+  return matches;
+}
+
+function intersect(current: Set<string> | undefined, matches: Set<string>): Set<string> {
+  if (!current) return matches;
+  const both = new Set<string>();
+  current.forEach((id) => {
+    if (matches.has(id)) both.add(id);
+  });
+  return both;
+}
+
+function withinRange(createdAt: string, range: DateRange, now: number): boolean {
+  if (range === "any") return true;
+  return now - new Date(createdAt).getTime() <= DATE_RANGE_DAYS[range] * 24 * 60 * 60 * 1000;
+}
+
+function compareEntries(sort: HistorySort, updatedAt: (entry: JobIndexEntry) => string) {
+  const time = (value: string) => new Date(value).getTime();
+  return (a: JobIndexEntry, b: JobIndexEntry): number => {
+    switch (sort) {
+      case "newest":
+        return time(b.createdAt) - time(a.createdAt);
+      case "oldest":
+        return time(a.createdAt) - time(b.createdAt);
+      case "score":
+        return (b.latestScore ?? -1) - (a.latestScore ?? -1);
+      case "company":
+        return a.company.localeCompare(b.company) || a.title.localeCompare(b.title);
+      default:
+        return time(updatedAt(b)) - time(updatedAt(a));
+    }
+  };
+}
+
+/**
+ * Job ids matching every word of the query (as a word prefix) and every
+ * filter, in the requested order. Pass the jobs' current updatedAt so stage
+ * changes that do not touch the index still sort correctly.
+ */
+export function queryHistory(
+  index: HistoryIndex,
+  lookup: ReturnType<typeof buildTermLookup>,
+  options: { query: string; filters: HistoryFilters; sort: HistorySort; updatedAt?: Record<string, string> }
+): string[] {
+  const now = Date.now();
+  let candidates: Set<string> | undefined;
+  for (const word of tokenize(options.query)) {
+    candidates = intersect(candidates, jobsMatchingPrefix(lookup, word));
+  }
+
+  const { company, dateRange, scoreBand, domain, seniority } = options.filters;
+  const entries = Object.values(index.entries).filter(
+    (entry) =>
+      (!candidates || candidates.has(entry.jobId)) &&
+      (!company || entry.company === company) &&
+      (!domain || entry.domain === domain) &&
+      (!seniority || entry.seniority === seniority) &&
+      (!scoreBand || fitScoreBand(entry.latestScore) === scoreBand) &&
+      withinRange(entry.createdAt, dateRange, now)
+  );
+
+  const updatedAt = (entry: JobIndexEntry) => options.updatedAt?.[entry.jobId] ?? entry.jobUpdatedAt;
+  return entries.sort(compareEntries(options.sort, updatedAt)).map((entry) => entry.jobId);
+}
+
+/** Distinct non-empty values of one facet, for filter chips. */
+export function facetValues(index: HistoryIndex, facet: "company" | "domain" | "seniority"): string[] {
+  const values = new Set<string>();
+  for (const entry of Object.values(index.entries)) {
+    if (entry[facet]) values.add(entry[facet]);
+  }
+  return Array.from(values).sort((a, b) => a.localeCompare(b));
+}
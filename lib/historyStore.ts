@@ -1,8 +1,22 @@
 import AsyncStorage from "@react-native-async-storage/async-storage";
-import type { JobRun, ResumeVersion } from "../types/history";
+import type { CoverLetterVersion, FitScoreRecord, JobRecord, ProfileRevision, ProfileSnapshot, ResumeVersion } from "../types/history";
+import type { UserProfile } from "../types/profile";
+import {
+  buildHistoryIndex,
+  HISTORY_INDEX_VERSION,
+  indexFitScore,
+  indexJobPosting,
+  indexResumeVersion,
+  type HistoryIndex,
+  type JobIndexEntry,
+} from "./historyIndex";
+import { getJob, loadJobs, touchJob } from "./jobRepository";
+import { parseTailoredResumeText } from "./tailoredResumeText";
 
-const JOB_RUNS_KEY = "job_runs";
 const RESUME_VERSIONS_KEY = "resume_versions";
+const FIT_SCORES_KEY = "fit_scores";
+const COVER_LETTERS_KEY = "cover_letters";
+const HISTORY_INDEX_KEY = "history_index";
 
 function scopedKey(baseKey: string, profileId: string): string {
   return `${baseKey}:${profileId}`;
@@ -12,33 +26,71 @@ export function makeId(prefix: string): string {
   return `${prefix}_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 10)}`;
 }
 
-export async function loadJobRuns(activeProfileId: string): Promise<JobRun[]> {
-  try {
-    if (!activeProfileId) return [];
-    const stored = await AsyncStorage.getItem(scopedKey(JOB_RUNS_KEY, activeProfileId));
-    return stored ? JSON.parse(stored) : [];
-  } catch (error) {
-    console.error("[historyStore] Error loading job runs:", error);
-    return [];
-  }
+export function createProfileSnapshot(profile: UserProfile): ProfileSnapshot {
+  const { resumeAssets: _resumeAssets, ...snapshot } = profile;
+  return JSON.parse(JSON.stringify(snapshot));
 }
 
-export async function saveJobRuns(activeProfileId: string, runs: JobRun[]): Promise<void> {
-  try {
-    if (!activeProfileId) throw new Error("No active profile");
-    console.log("[historyStore] Saving job runs to:", scopedKey(JOB_RUNS_KEY, activeProfileId));
-    await AsyncStorage.setItem(scopedKey(JOB_RUNS_KEY, activeProfileId), JSON.stringify(runs));
-  } catch (error) {
-    console.error("[historyStore] Error saving job runs:", error);
-    throw error;
+function hashString(value: string): string {
+  // FNV-1a; only needs to tell profile revisions apart, not resist collisions
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
   }
+  return (hash >>> 0).toString(16).padStart(8, "0");
+}
+
+export function computeProfileRevision(profile: UserProfile): ProfileRevision {
+  return {
+    id: hashString(JSON.stringify(createProfileSnapshot(profile))),
+    experienceCount: profile.experience.length,
+    skillCount: profile.skills.length,
+    toolCount: profile.tools.length,
+    clarifyingAnswerCount: Object.keys(profile.clarifyingAnswers || {}).length,
+  };
+}
+
+export function describeProfileRevisionChange(previous: ProfileRevision, next: ProfileRevision): string {
+  if (previous.id === next.id) return "Same profile";
+
+  const changes = [
+    [next.clarifyingAnswerCount - previous.clarifyingAnswerCount, "answer"],
+    [next.experienceCount - previous.experienceCount, "role"],
+    [next.skillCount - previous.skillCount, "skill"],
+    [next.toolCount - previous.toolCount, "tool"],
+  ] as const;
+
+  const parts = changes
+    .filter(([delta]) => delta !== 0)
+    .map(([delta, noun]) => `${delta > 0 ? "+" : ""}${delta} ${noun}${Math.abs(delta) === 1 ? "" : "s"}`);
+
+  return parts.length > 0 ? parts.join(", ") : "Profile edited";
+}
+
+function migrateResumeVersion(version: ResumeVersion): ResumeVersion {
+  if (version.resumeJson) return version;
+  console.log("[historyStore] Migrating text-only resume version:", version.id);
+  return {
+    ...version,
+    resumeJson: parseTailoredResumeText(version.resumeText || ""),
+    migratedFromText: true,
+  };
 }
 
 export async function loadResumeVersions(activeProfileId: string): Promise<ResumeVersion[]> {
   try {
     if (!activeProfileId) return [];
     const stored = await AsyncStorage.getItem(scopedKey(RESUME_VERSIONS_KEY, activeProfileId));
-    return stored ? JSON.parse(stored) : [];
+    if (!stored) return [];
+
+    const versions: ResumeVersion[] = JSON.parse(stored);
+    const needsMigration = versions.some((v) => !v.resumeJson);
+    if (!needsMigration) return versions;
+
+    const migrated = versions.map(migrateResumeVersion);
+    await saveResumeVersions(activeProfileId, migrated);
+    return migrated;
   } catch (error) {
     console.error("[historyStore] Error loading resume versions:", error);
     return [];
@@ -56,44 +108,6 @@ export async function saveResumeVersions(activeProfileId: string, versions: Resu
   }
 }
 
-export async function upsertJobRun(
-  activeProfileId: string,
-  runPartial: Omit<JobRun, "id" | "createdAt" | "updatedAt"> & { id?: string; createdAt?: string }
-): Promise<JobRun> {
-  try {
-    const runs = await loadJobRuns(activeProfileId);
-    const now = new Date().toISOString();
-
-    const existingIndex = runs.findIndex((r) => r.jobId === runPartial.jobId);
-
-    if (existingIndex !== -1) {
-      const updated: JobRun = {
-        ...runs[existingIndex],
-        ...runPartial,
-        updatedAt: now,
-      };
-      runs[existingIndex] = updated;
-      await saveJobRuns(activeProfileId, runs);
-      console.log("[historyStore] Updated existing job run:", updated.id);
-      return updated;
-    } else {
-      const newRun: JobRun = {
-        id: runPartial.id || makeId("jr"),
-        createdAt: runPartial.createdAt || now,
-        updatedAt: now,
-        ...runPartial,
-      };
-      runs.push(newRun);
-      await saveJobRuns(activeProfileId, runs);
-      console.log("[historyStore] Created new job run:", newRun.id);
-      return newRun;
-    }
-  } catch (error) {
-    console.error("[historyStore] Error upserting job run:", error);
-    throw error;
-  }
-}
-
 export async function addResumeVersion(activeProfileId: string, version: Omit<ResumeVersion, "id" | "createdAt"> & { id?: string }): Promise<ResumeVersion> {
   try {
     const versions = await loadResumeVersions(activeProfileId);
@@ -109,7 +123,8 @@ export async function addResumeVersion(activeProfileId: string, version: Omit<Re
     await saveResumeVersions(activeProfileId, versions);
     console.log("[historyStore] Added resume version:", newVersion.id);
 
-    await touchJobRun(activeProfileId, version.jobId);
+    const touched = await touchJob(activeProfileId, version.jobId);
+    await updateIndexEntry(activeProfileId, version.jobId, (entry) => indexResumeVersion(entry, newVersion), touched);
 
     return newVersion;
   } catch (error) {
@@ -118,36 +133,157 @@ export async function addResumeVersion(activeProfileId: string, version: Omit<Re
   }
 }
 
-async function touchJobRun(activeProfileId: string, jobId: string): Promise<void> {
+export async function loadFitScores(activeProfileId: string): Promise<FitScoreRecord[]> {
   try {
-    const runs = await loadJobRuns(activeProfileId);
-    const run = runs.find((r) => r.jobId === jobId);
-    if (run) {
-      run.updatedAt = new Date().toISOString();
-      await saveJobRuns(activeProfileId, runs);
-    }
+    if (!activeProfileId) return [];
+    const stored = await AsyncStorage.getItem(scopedKey(FIT_SCORES_KEY, activeProfileId));
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error("[historyStore] Error loading fit scores:", error);
+    return [];
+  }
+}
+
+export async function saveFitScores(activeProfileId: string, records: FitScoreRecord[]): Promise<void> {
+  try {
+    if (!activeProfileId) throw new Error("No active profile");
+    console.log("[historyStore] Saving fit scores to:", scopedKey(FIT_SCORES_KEY, activeProfileId));
+    await AsyncStorage.setItem(scopedKey(FIT_SCORES_KEY, activeProfileId), JSON.stringify(records));
+  } catch (error) {
+    console.error("[historyStore] Error saving fit scores:", error);
+    throw error;
+  }
+}
+
+export async function addFitScoreRecord(
+  activeProfileId: string,
+  record: Omit<FitScoreRecord, "id" | "createdAt"> & { id?: string }
+): Promise<FitScoreRecord> {
+  try {
+    const records = await loadFitScores(activeProfileId);
+
+    const newRecord: FitScoreRecord = {
+      id: record.id || makeId("fs"),
+      createdAt: new Date().toISOString(),
+      ...record,
+    };
+
+    records.push(newRecord);
+    await saveFitScores(activeProfileId, records);
+    console.log("[historyStore] Added fit score record:", newRecord.id);
+
+    const touched = await touchJob(activeProfileId, record.jobId);
+    await updateIndexEntry(activeProfileId, record.jobId, (entry) => indexFitScore(entry, newRecord), touched);
+
+    return newRecord;
+  } catch (error) {
+    console.error("[historyStore] Error adding fit score record:", error);
+    throw error;
+  }
+}
+
+export async function loadCoverLetters(activeProfileId: string): Promise<CoverLetterVersion[]> {
+  try {
+    if (!activeProfileId) return [];
+    const stored = await AsyncStorage.getItem(scopedKey(COVER_LETTERS_KEY, activeProfileId));
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error("[historyStore] Error loading cover letters:", error);
+    return [];
+  }
+}
+
+export async function saveCoverLetters(activeProfileId: string, letters: CoverLetterVersion[]): Promise<void> {
+  try {
+    if (!activeProfileId) throw new Error("No active profile");
+    console.log("[historyStore] Saving cover letters to:", scopedKey(COVER_LETTERS_KEY, activeProfileId));
+    await AsyncStorage.setItem(scopedKey(COVER_LETTERS_KEY, activeProfileId), JSON.stringify(letters));
+  } catch (error) {
+    console.error("[historyStore] Error saving cover letters:", error);
+    throw error;
+  }
+}
+
+export async function addCoverLetterVersion(
+  activeProfileId: string,
+  letter: Omit<CoverLetterVersion, "id" | "createdAt"> & { id?: string }
+): Promise<CoverLetterVersion> {
+  try {
+    const letters = await loadCoverLetters(activeProfileId);
+
+    const newLetter: CoverLetterVersion = {
+      id: letter.id || makeId("cl"),
+      createdAt: new Date().toISOString(),
+      ...letter,
+    };
+
+    letters.push(newLetter);
+    await saveCoverLetters(activeProfileId, letters);
+    console.log("[historyStore] Added cover letter version:", newLetter.id);
+
+    const touched = await touchJob(activeProfileId, letter.jobId);
+    await updateIndexEntry(activeProfileId, letter.jobId, (entry) => entry, touched);
+
+    return newLetter;
   } catch (error) {
-    console.error("[historyStore] Error touching job run:", error);
+    console.error("[historyStore] Error adding cover letter version:", error);
+    throw error;
+  }
+}
+
+export async function getCoverLetterById(
+  activeProfileId: string,
+  letterId: string
+): Promise<CoverLetterVersion | null> {
+  try {
+    const letters = await loadCoverLetters(activeProfileId);
+    return letters.find((l) => l.id === letterId) || null;
+  } catch (error) {
+    console.error("[historyStore] Error getting cover letter by id:", error);
+    return null;
   }
 }
 
+/**
+ * The job's most recent fit score. With a profile revision, only a score
+ * computed against that same revision counts; one from before a profile edit
+ * is out of date.
+ */
+export async function getLatestFitScore(
+  activeProfileId: string,
+  jobId: string,
+  profileRevision?: ProfileRevision
+): Promise<FitScoreRecord | null> {
+  const records = await loadFitScores(activeProfileId);
+  const jobRecords = records.filter(
+    (r) => r.jobId === jobId && (!profileRevision || r.profileRevision?.id === profileRevision.id)
+  );
+  return jobRecords.length > 0 ? jobRecords[jobRecords.length - 1] : null;
+}
+
 export async function getJobWithVersions(
   activeProfileId: string,
   jobId: string
-): Promise<{ job: JobRun | null; versions: ResumeVersion[] }> {
+): Promise<{ job: JobRecord | null; versions: ResumeVersion[]; scores: FitScoreRecord[]; coverLetters: CoverLetterVersion[] }> {
   try {
-    const runs = await loadJobRuns(activeProfileId);
+    const jobs = await loadJobs(activeProfileId);
     const versions = await loadResumeVersions(activeProfileId);
+    const scores = await loadFitScores(activeProfileId);
+    const letters = await loadCoverLetters(activeProfileId);
 
-    const job = runs.find((r) => r.jobId === jobId) || null;
+    const job = jobs.find((j) => j.id === jobId) || null;
     const jobVersions = versions.filter((v) => v.jobId === jobId);
+    const jobScores = scores.filter((s) => s.jobId === jobId);
+    const jobLetters = letters.filter((l) => l.jobId === jobId);
 
     jobVersions.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+    jobScores.sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+    jobLetters.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
 
-    return { job, versions: jobVersions };
+    return { job, versions: jobVersions, scores: jobScores, coverLetters: jobLetters };
   } catch (error) {
     console.error("[historyStore] Error getting job with versions:", error);
-    return { job: null, versions: [] };
+    return { job: null, versions: [], scores: [], coverLetters: [] };
   }
 }
 
@@ -163,3 +299,92 @@ export async function getResumeVersionById(
     return null;
   }
 }
+
+export async function saveHistoryIndex(activeProfileId: string, index: HistoryIndex): Promise<void> {
+  try {
+    if (!activeProfileId) throw new Error("No active profile");
+    await AsyncStorage.setItem(scopedKey(HISTORY_INDEX_KEY, activeProfileId), JSON.stringify(index));
+  } catch (error) {
+    console.error("[historyStore] Error saving history index:", error);
+    throw error;
+  }
+}
+
+async function rebuildHistoryIndex(activeProfileId: string, jobs: JobRecord[]): Promise<HistoryIndex> {
+  console.log("[historyStore] Rebuilding history index for:", activeProfileId);
+  const versions = await loadResumeVersions(activeProfileId);
+  const scores = await loadFitScores(activeProfileId);
+  const index = buildHistoryIndex(jobs, versions, scores);
+  await saveHistoryIndex(activeProfileId, index);
+  return index;
+}
+
+/**
+ * Loads the search index for the jobs list. Resume versions and fit scores
+ * update it as they are added; here only posting-level changes are caught up,
+ * which never needs the version blobs. A missing or outdated index is rebuilt
+ * once from the full history.
+ */
+export async function loadHistoryIndex(activeProfileId: string): Promise<HistoryIndex> {
+  try {
+    if (!activeProfileId) return { version: HISTORY_INDEX_VERSION, entries: {} };
+    const jobs = await loadJobs(activeProfileId);
+    const stored = await AsyncStorage.getItem(scopedKey(HISTORY_INDEX_KEY, activeProfileId));
+    const index: HistoryIndex | null = stored ? JSON.parse(stored) : null;
+    if (!index || index.version !== HISTORY_INDEX_VERSION) {
+      return await rebuildHistoryIndex(activeProfileId, jobs);
+    }
+
+    let changed = false;
+    const entries: Record<string, JobIndexEntry> = {};
+    for (const job of jobs) {
+      const previous = index.entries[job.id];
+      if (previous && previous.jobUpdatedAt === job.updatedAt) {
+        entries[job.id] = previous;
+      } else {
+        entries[job.id] = indexJobPosting(job, previous);
+        changed = true;
+      }
+    }
+    changed = changed || Object.keys(index.entries).length !== jobs.length;
+
+    const synced = { ...index, entries };
+    if (changed) await saveHistoryIndex(activeProfileId, synced);
+    return synced;
+  } catch (error) {
+    console.error("[historyStore] Error loading history index:", error);
+    return { version: HISTORY_INDEX_VERSION, entries: {} };
+  }
+}
+
+/**
+ * Applies a change to one job's index entry. Pass the job as touchJob
+ * returned it so the entry records the new updatedAt; otherwise the next load
+ * sees a stale timestamp and re-indexes the posting.
+ */
+async function updateIndexEntry(
+  activeProfileId: string,
+  jobId: string,
+  update: (entry: JobIndexEntry) => JobIndexEntry,
+  touched?: JobRecord | null
+): Promise<void> {
+  try {
+    const stored = await AsyncStorage.getItem(scopedKey(HISTORY_INDEX_KEY, activeProfileId));
+    // Without an index the next load rebuilds it from the full history anyway
+    if (!stored) return;
+    const index: HistoryIndex = JSON.parse(stored);
+    if (index.version !== HISTORY_INDEX_VERSION) return;
+
+    let entry = index.entries[jobId];
+    if (!entry) {
+      const job = touched || (await getJob(activeProfileId, jobId));
+      if (!job) return;
+      entry = indexJobPosting(job);
+    }
+    const updated = update(entry);
+    index.entries[jobId] = touched ? { ...updated, jobUpdatedAt: touched.updatedAt } : updated;
+    await saveHistoryIndex(activeProfileId, index);
+  } catch (error) {
+    console.error("[historyStore] Error updating history index:", error);
+  }
+}
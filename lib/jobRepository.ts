@@ -0,0 +1,235 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import type { ApplicationStageChange, JobRecord } from "../types/history";
+import type { JobPosting } from "../types/profile";
+
+export const JOBS_KEY = "jobs";
+const LEGACY_POSTINGS_KEY = "job_postings";
+const LEGACY_RUNS_KEY = "job_runs";
+
+export function jobsStorageKey(profileId: string): string {
+  return `${JOBS_KEY}:${profileId}`;
+}
+
+function scopedKey(baseKey: string, profileId: string): string {
+  return `${baseKey}:${profileId}`;
+}
+
+/** Shape of the `job_runs` entries written before jobs had a single store */
+interface LegacyJobRun {
+  id: string;
+  jobId: string;
+  title: string;
+  company?: string;
+  location?: string;
+  postingText: string;
+  posting?: JobPosting;
+  createdAt: string;
+  updatedAt: string;
+  source?: JobRecord["source"];
+  nonFitGaps?: string[];
+}
+
+export function jobPostingText(job: JobRecord): string {
+  return job.posting.rawText || job.posting.description;
+}
+
+function postingFromLegacyRun(run: LegacyJobRun): JobPosting {
+  if (run.posting) return run.posting;
+
+  // Runs saved before the structured posting was kept only have summary text
+  return {
+    id: run.jobId,
+    title: run.title,
+    company: run.company || "",
+    description: run.postingText,
+    requiredSkills: [],
+    preferredSkills: [],
+    responsibilities: [],
+    seniority: "",
+    domain: "",
+    timestamp: run.createdAt,
+  };
+}
+
+function earliest(...dates: (string | undefined)[]): string {
+  const known = dates.filter((d): d is string => !!d && !Number.isNaN(new Date(d).getTime()));
+  return known.sort((a, b) => new Date(a).getTime() - new Date(b).getTime())[0] || new Date().toISOString();
+}
+
+/**
+ * Folds the old `job_postings` list and `job_runs` history into one record per
+ * job id. Runs keep their history fields; the posting the analyze flow
+ * extracted wins over the summary a run kept, and duplicate postings for the
+ * same id collapse to the most recently added one.
+ */
+export function reconcileLegacyJobs(postings: JobPosting[], runs: LegacyJobRun[]): JobRecord[] {
+  const byId = new Map<string, JobRecord>();
+
+  for (const posting of postings) {
+    if (!posting?.id || byId.has(posting.id)) continue;
+    const timestamp = earliest(posting.timestamp);
+    byId.set(posting.id, { id: posting.id, posting, createdAt: timestamp, updatedAt: timestamp });
+  }
+
+  for (const run of runs) {
+    if (!run?.jobId) continue;
+    const existing = byId.get(run.jobId);
+    byId.set(run.jobId, {
+      id: run.jobId,
+      posting: existing ? { ...run.posting, ...existing.posting } : postingFromLegacyRun(run),
+      location: run.location,
+      source: run.source,
+      nonFitGaps: run.nonFitGaps,
+      createdAt: earliest(existing?.createdAt, run.createdAt),
+      updatedAt: run.updatedAt || existing?.updatedAt || run.createdAt,
+    });
+  }
+
+  return Array.from(byId.values());
+}
+
+async function readLegacyList<T>(key: string): Promise<T[]> {
+  const stored = await AsyncStorage.getItem(key);
+  if (!stored) return [];
+  const parsed = JSON.parse(stored);
+  return Array.isArray(parsed) ? parsed : [];
+}
+
+// Screens load jobs side by side on first launch; they share one migration
+const pendingMigrations = new Map<string, Promise<JobRecord[]>>();
+
+function migrateLegacyJobs(activeProfileId: string): Promise<JobRecord[]> {
+  let pending = pendingMigrations.get(activeProfileId);
+  if (!pending) {
+    pending = runLegacyMigration(activeProfileId).finally(() => pendingMigrations.delete(activeProfileId));
+    pendingMigrations.set(activeProfileId, pending);
+  }
+  return pending;
+}
+
+async function runLegacyMigration(activeProfileId: string): Promise<JobRecord[]> {
+  const postingsKey = scopedKey(LEGACY_POSTINGS_KEY, activeProfileId);
+  const runsKey = scopedKey(LEGACY_RUNS_KEY, activeProfileId);
+  const postings = await readLegacyList<JobPosting>(postingsKey);
+  const runs = await readLegacyList<LegacyJobRun>(runsKey);
+
+  const jobs = reconcileLegacyJobs(postings, runs);
+  console.log(
+    `[jobRepository] Migrating ${postings.length} posting(s) and ${runs.length} run(s) into ${jobs.length} job(s)`
+  );
+  await saveJobs(activeProfileId, jobs);
+  await AsyncStorage.multiRemove([postingsKey, runsKey]);
+  return jobs;
+}
+
+export async function loadJobs(activeProfileId: string): Promise<JobRecord[]> {
+  try {
+    if (!activeProfileId) return [];
+    const stored = await AsyncStorage.getItem(jobsStorageKey(activeProfileId));
+    if (stored) return JSON.parse(stored);
+    return await migrateLegacyJobs(activeProfileId);
+  } catch (error) {
+    console.error("[jobRepository] Error loading jobs:", error);
+    return [];
+  }
+}
+
+export async function saveJobs(activeProfileId: string, jobs: JobRecord[]): Promise<void> {
+  try {
+    if (!activeProfileId) throw new Error("No active profile");
+    console.log("[jobRepository] Saving jobs to:", jobsStorageKey(activeProfileId));
+    await AsyncStorage.setItem(jobsStorageKey(activeProfileId), JSON.stringify(jobs));
+  } catch (error) {
+    console.error("[jobRepository] Error saving jobs:", error);
+    throw error;
+  }
+}
+
+export async function getJob(activeProfileId: string, jobId: string): Promise<JobRecord | null> {
+  const jobs = await loadJobs(activeProfileId);
+  return jobs.find((j) => j.id === jobId) || null;
+}
+
+/** Adds a job for a newly analyzed posting, or refreshes the posting of an existing one. */
+export async function upsertJobPosting(
+  activeProfileId: string,
+  posting: JobPosting,
+  extra: Pick<JobRecord, "location" | "source"> = { source: "pasted" }
+): Promise<JobRecord[]> {
+  try {
+    const jobs = await loadJobs(activeProfileId);
+    const now = new Date().toISOString();
+    const existing = jobs.find((j) => j.id === posting.id);
+
+    const job: JobRecord = existing
+      ? { ...existing, ...extra, posting, updatedAt: now }
+      : { id: posting.id, posting, ...extra, createdAt: posting.timestamp || now, updatedAt: now };
+
+    const updated = [job, ...jobs.filter((j) => j.id !== posting.id)];
+    await saveJobs(activeProfileId, updated);
+    console.log(`[jobRepository] ${existing ? "Updated" : "Added"} job:`, job.id);
+    return updated;
+  } catch (error) {
+    console.error("[jobRepository] Error upserting job:", error);
+    throw error;
+  }
+}
+
+export async function updateJob(
+  activeProfileId: string,
+  jobId: string,
+  update: (job: JobRecord) => Partial<JobRecord>
+): Promise<JobRecord | null> {
+  try {
+    const jobs = await loadJobs(activeProfileId);
+    const index = jobs.findIndex((j) => j.id === jobId);
+    if (index === -1) return null;
+
+    const job: JobRecord = {
+      ...jobs[index],
+      ...update(jobs[index]),
+      id: jobId,
+      updatedAt: new Date().toISOString(),
+    };
+    jobs[index] = job;
+    await saveJobs(activeProfileId, jobs);
+    return job;
+  } catch (error) {
+    console.error("[jobRepository] Error updating job:", error);
+    throw error;
+  }
+}
+
+/** Bumps the job's updatedAt; returns the touched job, or null when it failed */
+export async function touchJob(activeProfileId: string, jobId: string): Promise<JobRecord | null> {
+  try {
+    return await updateJob(activeProfileId, jobId, () => ({}));
+  } catch (error) {
+    console.error("[jobRepository] Error touching job:", error);
+    return null;
+  }
+}
+
+export async function setGapNonFit(
+  activeProfileId: string,
+  jobId: string,
+  key: string,
+  nonFit: boolean
+): Promise<JobRecord | null> {
+  return updateJob(activeProfileId, jobId, (job) => {
+    const keys = new Set(job.nonFitGaps || []);
+    if (nonFit) keys.add(key);
+    else keys.delete(key);
+    return { nonFitGaps: Array.from(keys) };
+  });
+}
+
+export async function recordStageChange(
+  activeProfileId: string,
+  jobId: string,
+  change: Omit<ApplicationStageChange, "changedAt">
+): Promise<JobRecord | null> {
+  return updateJob(activeProfileId, jobId, (job) => ({
+    stageHistory: [...(job.stageHistory || []), { ...change, changedAt: new Date().toISOString() }],
+  }));
+}
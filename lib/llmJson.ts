@@ -0,0 +1,154 @@
+import { generateText } from "@rork-ai/toolkit-sdk";
+import { z } from "zod";
+
+export type LlmMessage = { role: "user" | "assistant"; content: string };
+
+export class LlmJsonError extends Error {
+  readonly rawText?: string;
+
+  constructor(message: string, rawText?: string) {
+    super(message);
+    this.name = "LlmJsonError";
+    this.rawText = rawText;
+  }
+}
+
+export class LlmRequestError extends LlmJsonError {
+  readonly cause?: unknown;
+
+  constructor(message: string, cause?: unknown) {
+    super(message);
+    this.name = "LlmRequestError";
+    this.cause = cause;
+  }
+}
+
+export class LlmJsonParseError extends LlmJsonError {
+  constructor(message: string, rawText: string) {
+    super(message, rawText);
+    this.name = "LlmJsonParseError";
+  }
+}
+
+export class LlmJsonValidationError extends LlmJsonError {
+  readonly issues: z.core.$ZodIssue[];
+  readonly value: unknown;
+
+  constructor(message: string, rawText: string, value: unknown, issues: z.core.$ZodIssue[]) {
+    super(message, rawText);
+    this.name = "LlmJsonValidationError";
+    this.value = value;
+    this.issues = issues;
+  }
+}
+
+export interface GenerateJsonOptions {
+  label?: string;
+  maxRepairAttempts?: number;
+  maxRequestRetries?: number;
+}
+
+const DEFAULT_MAX_REPAIR_ATTEMPTS = 2;
+const DEFAULT_MAX_REQUEST_RETRIES = 1;
+const MAX_ISSUES_IN_REPAIR_PROMPT = 10;
+
+export function extractJsonText(raw: string): string {
+  let text = raw.trim();
+
+  if (text.startsWith("```")) {
+    text = text.replace(/^```(?:json)?\s*\n?/, "").replace(/\s*\n?```\s*$/g, "").trim();
+  }
+
+  if (text.startsWith("{") || text.startsWith("[")) {
+    return text;
+  }
+
+  const match = text.match(/\{[\s\S]*\}/);
+  return match ? match[0] : text;
+}
+
+export function parseJsonText(raw: string): unknown {
+  const text = extractJsonText(raw);
+  try {
+    return JSON.parse(text);
+  } catch (error: any) {
+    throw new LlmJsonParseError(`Could not parse AI response as JSON: ${error?.message ?? error}`, raw);
+  }
+}
+
+function formatIssues(issues: z.core.$ZodIssue[]): string {
+  return issues
+    .slice(0, MAX_ISSUES_IN_REPAIR_PROMPT)
+    .map((issue) => `- ${issue.path.length > 0 ? issue.path.join(".") : "(root)"}: ${issue.message}`)
+    .join("\n");
+}
+
+async function requestText(messages: LlmMessage[], label: string, maxRetries: number): Promise<string> {
+  let lastError: unknown;
+  for (let attempt = 0; attempt <= maxRetries; attempt++) {
+    try {
+      const response = await generateText({ messages });
+      return typeof response === "string" ? response : (response as any)?.text || "";
+    } catch (error) {
+      lastError = error;
+      console.warn(`[${label}] AI request failed (attempt ${attempt + 1}/${maxRetries + 1}):`, error);
+    }
+  }
+  throw new LlmRequestError("AI request failed. Please try again.", lastError);
+}
+
+export async function generateJson<T extends z.ZodType>(
+  schema: T,
+  prompt: string | LlmMessage[],
+  options: GenerateJsonOptions = {}
+): Promise<z.output<T>> {
+  const label = options.label ?? "llmJson";
+  const maxRepairAttempts = options.maxRepairAttempts ?? DEFAULT_MAX_REPAIR_ATTEMPTS;
+  const maxRequestRetries = options.maxRequestRetries ?? DEFAULT_MAX_REQUEST_RETRIES;
+
+  const messages: LlmMessage[] = typeof prompt === "string" ? [{ role: "user", content: prompt }] : [...prompt];
+  let lastError: LlmJsonError | null = null;
+
+  for (let attempt = 0; attempt <= maxRepairAttempts; attempt++) {
+    const rawText = await requestText(messages, label, maxRequestRetries);
+    console.log(`[${label}] Raw AI response (first 500 chars):`, rawText.slice(0, 500));
+
+    let repairInstruction: string;
+    try {
+      const parsed = parseJsonText(rawText);
+      const result = schema.safeParse(parsed);
+      if (result.success) {
+        if (attempt > 0) {
+          console.log(`[${label}] Response repaired after ${attempt} attempt(s)`);
+        }
+        return result.data;
+      }
+
+      console.warn(`[${label}] Schema validation failed:`, JSON.stringify(result.error.issues, null, 2));
+      lastError = new LlmJsonValidationError(
+        "AI response did not match the expected format",
+        rawText,
+        parsed,
+        result.error.issues
+      );
+      repairInstruction = `Your previous response did not match the required JSON structure. Fix these problems:
+${formatIssues(result.error.issues)}
+
+Return ONLY the corrected JSON object (no markdown, no backticks, no commentary).`;
+    } catch (error) {
+      if (!(error instanceof LlmJsonParseError)) throw error;
+      console.warn(`[${label}] ${error.message}`);
+      lastError = error;
+      repairInstruction = `Your previous response was not valid JSON (${error.message}).
+
+Return ONLY one valid JSON object (no markdown, no backticks, no commentary).`;
+    }
+
+    if (attempt < maxRepairAttempts) {
+      console.log(`[${label}] Requesting repair (${attempt + 1}/${maxRepairAttempts})...`);
+      messages.push({ role: "assistant", content: rawText }, { role: "user", content: repairInstruction });
+    }
+  }
+
+  throw lastError ?? new LlmJsonError("AI returned invalid response");
+}
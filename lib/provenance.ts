@@ -0,0 +1,141 @@
+import type { Provenance, ProvenanceOrigin, UserProfile } from "../types/profile";
+import type { ResumeData } from "./resumeParser";
+import { skillVariants } from "./skillTaxonomy";
+import { normalizeText } from "./sourceOfTruth";
+
+// Long lines (a whole paragraph extracted as one line) are cut to a window
+// around the match
+const MAX_EXCERPT_LENGTH = 160;
+
+export function createProvenance(
+  origin: ProvenanceOrigin,
+  details: Omit<Provenance, "origin" | "recordedAt"> = {}
+): Provenance {
+  return { origin, recordedAt: new Date().toISOString(), ...details };
+}
+
+function isWordChar(char: string | undefined): boolean {
+  return !!char && /[A-Za-z0-9]/.test(char);
+}
+
+/**
+ * Finds a name in the resume text the way verification does: case and the
+ * punctuation or spacing between words don't matter, so "Node.js" is found
+ * as "NodeJS" and "Acme, Inc." as "Acme Inc".
+ */
+export function findEvidenceSpan(text: string, needle: string): { start: number; end: number } | null {
+  const tokens = needle.split(/[^A-Za-z0-9+#]+/).filter(Boolean);
+  if (tokens.length === 0) return null;
+
+  const pattern = new RegExp(
+    tokens.map((token) => token.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")).join("[^A-Za-z0-9]*"),
+    "gi"
+  );
+  for (const match of text.matchAll(pattern)) {
+    const start = match.index;
+    const end = start + match[0].length;
+    if (!isWordChar(text[start - 1]) && !isWordChar(text[end])) return { start, end };
+  }
+  return null;
+}
+
+function excerptAround(text: string, span: { start: number; end: number }): string {
+  const lineStart = text.lastIndexOf("\n", span.start - 1) + 1;
+  const newline = text.indexOf("\n", span.end);
+  const lineEnd = newline === -1 ? text.length : newline;
+  if (lineEnd - lineStart <= MAX_EXCERPT_LENGTH) return text.slice(lineStart, lineEnd).trim();
+
+  const from = Math.max(lineStart, span.start - Math.floor((MAX_EXCERPT_LENGTH - (span.end - span.start)) / 2));
+  const to = Math.min(lineEnd, from + MAX_EXCERPT_LENGTH);
+  return `${from > lineStart ? "…" : ""}${text.slice(from, to).trim()}${to < lineEnd ? "…" : ""}`;
+}
+
+/** A resume_parse record pointing at the first of the needles found in the text */
+export function resumeProvenance(text: string, needles: string[], assetId?: string, recordedAt?: string): Provenance {
+  const span = needles.reduce<{ start: number; end: number } | null>(
+    (found, needle) => found || (needle ? findEvidenceSpan(text, needle) : null),
+    null
+  );
+  return {
+    origin: "resume_parse",
+    recordedAt: recordedAt || new Date().toISOString(),
+    ...(assetId ? { assetId } : {}),
+    ...(span ? { span, excerpt: excerptAround(text, span) } : {}),
+  };
+}
+
+/**
+ * Records where in the resume text each parsed item was found. Runs on
+ * verified data, so every item has already been matched against the text.
+ */
+export function attachResumeProvenance(data: ResumeData, text: string, assetId?: string): ResumeData {
+  const recordedAt = new Date().toISOString();
+  const record = (needles: string[]) => [resumeProvenance(text, needles, assetId, recordedAt)];
+
+  const domainProvenance: Record<string, Provenance[]> = {};
+  for (const domain of data.domainExperience) {
+    domainProvenance[normalizeText(domain)] = record([domain]);
+  }
+
+  return {
+    ...data,
+    experience: data.experience.map((exp) => ({ ...exp, provenance: record([exp.company, exp.title]) })),
+    skills: data.skills.map((skill) => ({ ...skill, provenance: record(skillVariants(skill.name)) })),
+    tools: data.tools.map((tool) => ({ ...tool, provenance: record(skillVariants(tool.name)) })),
+    certifications: data.certifications.map((cert) => ({ ...cert, provenance: record([cert.name]) })),
+    education: data.education.map((edu) => ({ ...edu, provenance: record([edu.school]) })),
+    projects: data.projects.map((project) => ({ ...project, provenance: record([project.title]) })),
+    domainProvenance,
+  };
+}
+
+/** Adds new domain records to the profile's, keeping the ones already there */
+export function appendDomainProvenance(
+  existing: Record<string, Provenance[]> | undefined,
+  additions: Record<string, Provenance[]> | undefined
+): Record<string, Provenance[]> {
+  const merged = { ...(existing || {}) };
+  for (const [key, records] of Object.entries(additions || {})) {
+    merged[key] = [...(merged[key] || []), ...records];
+  }
+  return merged;
+}
+
+export function domainProvenanceFor(profile: UserProfile, domain: string): Provenance[] {
+  return profile.domainProvenance?.[normalizeText(domain)] || [];
+}
+
+function formatRecordedAt(recordedAt: string): string {
+  const date = new Date(recordedAt);
+  return Number.isNaN(date.getTime()) ? "date unknown" : date.toLocaleDateString();
+}
+
+/** One line of evidence a person can read, resolving asset names and answered questions */
+export function describeProvenance(provenance: Provenance, profile: UserProfile): string {
+  const when = formatRecordedAt(provenance.recordedAt);
+  switch (provenance.origin) {
+    case "resume_parse": {
+      const asset = provenance.assetId ? profile.resumeAssets.find((a) => a.id === provenance.assetId) : undefined;
+      const source = asset ? `Resume "${asset.name}"` : "An uploaded resume";
+      return provenance.excerpt ? `${source}, ${when}: "${provenance.excerpt}"` : `${source}, ${when}`;
+    }
+    case "chat_clarification": {
+      const answer = provenance.answerKey ? profile.clarifyingAnswers[provenance.answerKey] : undefined;
+      return answer
+        ? `Your answer to "${answer.question}", ${when}: "${answer.answer}"`
+        : `A clarifying answer, ${when}`;
+    }
+    case "chat_tool":
+      return `Saved from chat${provenance.toolName ? ` (${provenance.toolName})` : ""}, ${when}`;
+    case "manual_entry":
+      return `Added by hand, ${when}`;
+  }
+}
+
+/** All of an item's evidence, newest first; empty when none was recorded */
+export function describeEvidence(records: Provenance[] | undefined, profile: UserProfile): string {
+  return [...(records || [])]
+    .sort((a, b) => b.recordedAt.localeCompare(a.recordedAt))
+    .map((record) => describeProvenance(record, profile))
+    .join("\n\n");
+}
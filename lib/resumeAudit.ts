@@ -0,0 +1,413 @@
+import type { Experience, JobPosting, Provenance, UserProfile } from "../types/profile";
+import { termsMatch } from "./fitScoring";
+import { describeEvidence, domainProvenanceFor } from "./provenance";
+import { skillVariants } from "./skillTaxonomy";
+import { normalizeText } from "./sourceOfTruth";
+import type { TailoredResumeJson } from "./tailoredResumeGenerator";
+import { isPresentDate, parseYearMonth } from "./tenure";
+
+export type AuditItemKind =
+  | "company"
+  | "title"
+  | "dates"
+  | "skill"
+  | "tool"
+  | "domain"
+  | "certification"
+  | "project"
+  | "education"
+  | "bullet";
+
+export type AuditItemPath =
+  | { section: "experience"; entry: number; field: "company" | "title" | "dates" }
+  | { section: "experience"; entry: number; bullet: number }
+  | { section: "projects"; entry: number; field: "title" }
+  | { section: "projects"; entry: number; bullet: number }
+  | { section: "skills"; group: "core" | "tools" | "domains"; index: number }
+  | { section: "certifications"; index: number }
+  | { section: "education"; entry: number; field: "school" };
+
+export interface AuditFinding {
+  id: string;
+  kind: AuditItemKind;
+  path: AuditItemPath;
+  value: string;
+  flagged: boolean;
+  reason?: string;
+  /** Metrics or technologies in a bullet that no source mentions */
+  unsupported?: string[];
+  /** Where the profile item behind a verified claim came from */
+  citation?: string;
+}
+
+export interface ResumeAuditReport {
+  findings: AuditFinding[];
+  flaggedCount: number;
+}
+
+// Acronyms that read like technologies but aren't claims worth flagging
+const NON_TECH_ACRONYMS = new Set(["us", "usa", "uk", "eu", "ceo", "cto", "cfo", "coo", "vp", "hr", "q1", "q2", "q3", "q4"]);
+const METRIC_PATTERN = /[$€£]?\d[\d,]*(?:\.\d+)?\s?(?:%|x\b|[kmb]\b|mm\b|\+)?/gi;
+const TECH_TOKEN_PATTERN = /\b(?:[A-Za-z]+[A-Z][A-Za-z0-9]*|[A-Z]{2,}[0-9]*|[A-Za-z]+[0-9]+[A-Za-z0-9]*|[A-Za-z]+(?:\.js|\+\+|#))(?![A-Za-z])/g;
+
+type SourceIndex = {
+  text: string;
+  numbers: Set<string>;
+  experience: Experience[];
+  names: {
+    skills: string[];
+    tools: string[];
+    domains: string[];
+    certifications: string[];
+    projects: string[];
+    education: string[];
+  };
+};
+
+function extractMetrics(text: string): string[] {
+  const metrics: string[] = [];
+  for (const match of text.matchAll(METRIC_PATTERN)) {
+    // Digits inside a name like "S3" or "EC2" are part of a technology, not a metric
+    if (match.index > 0 && /[A-Za-z]/.test(text[match.index - 1])) continue;
+    metrics.push(match[0].trim());
+  }
+  return metrics;
+}
+
+function metricKey(value: string): string {
+  return value.replace(/[$€£,\s]/g, "").replace(/\.0+$/, "").toLowerCase().replace(/[%xkmb+]+$/, "");
+}
+
+function confirmedAnswers(profile: UserProfile) {
+  return Object.values(profile.clarifyingAnswers || {}).filter((answer) => answer.confirmed === true);
+}
+
+function buildSourceIndex(profile: UserProfile): SourceIndex {
+  const answers = confirmedAnswers(profile);
+  const parts = [
+    ...profile.experience.flatMap((exp) => [exp.title, exp.company, exp.description, ...exp.achievements]),
+    ...profile.skills.map((s) => s.name),
+    ...profile.tools.map((t) => t.name),
+    ...profile.certifications.flatMap((c) => [c.name, c.issuer]),
+    ...profile.projects.flatMap((p) => [p.title, p.description, ...p.technologies]),
+    ...profile.education.flatMap((e) => [e.school, e.degree, e.field]),
+    ...profile.domainExperience,
+    ...profile.achievements,
+    ...profile.responsibilities,
+    ...profile.resumeBullets,
+    ...profile.notes,
+    ...answers.flatMap((a) => [a.topic || "", a.question, a.answer]),
+    ...profile.resumeAssets.map((asset) => asset.extractedText || ""),
+  ];
+  const text = parts.filter(Boolean).join("\n");
+
+  return {
+    text,
+    numbers: new Set(extractMetrics(text).map(metricKey).filter(Boolean)),
+    experience: profile.experience,
+    names: {
+      skills: [...profile.skills.map((s) => s.name), ...answers.filter((a) => a.category === "skill").map((a) => a.topic || "")],
+      tools: [...profile.tools.map((t) => t.name), ...answers.filter((a) => a.category === "tool").map((a) => a.topic || "")],
+      domains: profile.domainExperience,
+      certifications: profile.certifications.map((c) => c.name),
+      projects: profile.projects.map((p) => p.title),
+      education: profile.education.map((e) => e.school),
+    },
+  };
+}
+
+function mentions(text: string, term: string): boolean {
+  const needle = normalizeText(term);
+  if (!needle) return false;
+  return ` ${normalizeText(text)} `.includes(` ${needle} `);
+}
+
+function supported(value: string, names: string[], sources: SourceIndex): boolean {
+  return (
+    names.some((name) => name && termsMatch(name, value)) ||
+    skillVariants(value).some((variant) => mentions(sources.text, variant))
+  );
+}
+
+function sameTitle(a: string, b: string): boolean {
+  return normalizeText(a) === normalizeText(b);
+}
+
+/** The profile role a resume entry's company refers to: an exact match first, then a looser term match */
+export function findRole(company: string, experience: Experience[]): Experience | undefined {
+  const key = normalizeText(company);
+  return (
+    experience.find((exp) => normalizeText(exp.company) === key) ||
+    experience.find((exp) => termsMatch(exp.company, company))
+  );
+}
+
+/** Provenance of the profile item that backs a skill, domain, project, certification or school */
+function evidenceFor(kind: AuditItemKind, value: string, profile: UserProfile): Provenance[] | undefined {
+  const named = <T extends { provenance?: Provenance[] }>(items: T[], name: (item: T) => string) =>
+    items.find((item) => termsMatch(name(item), value))?.provenance;
+
+  switch (kind) {
+    case "skill":
+    case "tool":
+      return named([...profile.skills, ...profile.tools], (s) => s.name);
+    case "domain":
+      return domainProvenanceFor(profile, value);
+    case "certification":
+      return named(profile.certifications, (c) => c.name);
+    case "project":
+      return named(profile.projects, (p) => p.title);
+    case "education":
+      return named(profile.education, (e) => e.school);
+    default:
+      return undefined;
+  }
+}
+
+function splitDateRange(value: string): [string, string | undefined] {
+  const [start, end] = value.split(/\s*(?:–|—|-|\bto\b)\s*/i);
+  return [start.trim(), end?.trim()];
+}
+
+function hasMonth(value: string): boolean {
+  return /[a-z]{3}|\d{1,2}[-/]\d{4}|\d{4}[-/]\d{1,2}/i.test(value);
+}
+
+function sameDate(claimed: string, actual: string | undefined): boolean {
+  const a = parseYearMonth(claimed);
+  const b = parseYearMonth(actual);
+  if (!a || !b) return false;
+  if (a.year !== b.year) return false;
+  return !(hasMonth(claimed) && hasMonth(actual || "")) || a.month === b.month;
+}
+
+export function formatRoleDates(exp: Pick<Experience, "startDate" | "endDate" | "current">): string {
+  const end = exp.current || isPresentDate(exp.endDate) || !exp.endDate ? "Present" : exp.endDate;
+  return `${exp.startDate} – ${end}`;
+}
+
+function checkDates(claimed: string, role: Experience): string | undefined {
+  const [start, end] = splitDateRange(claimed);
+  if (!sameDate(start, role.startDate)) {
+    return `Start date doesn't match ${role.company} (${formatRoleDates(role)})`;
+  }
+  const claimsPresent = !end || isPresentDate(end);
+  const isCurrent = role.current || isPresentDate(role.endDate) || !role.endDate;
+  if (claimsPresent !== isCurrent || (!claimsPresent && !sameDate(end as string, role.endDate))) {
+    return `End date doesn't match ${role.company} (${formatRoleDates(role)})`;
+  }
+  return undefined;
+}
+
+/**
+ * Terms in a bullet that name a technology: anything the job or the resume's
+ * own skills list names, plus tokens shaped like tech names (GraphQL, AWS,
+ * EC2, Node.js, C++).
+ */
+function technologyCandidates(bullet: string, resumeSkills: string[], job?: JobPosting): string[] {
+  const named = [...(job?.requiredSkills || []), ...(job?.preferredSkills || []), ...resumeSkills].filter((skill) => mentions(bullet, skill));
+  const fromTokens = (bullet.match(TECH_TOKEN_PATTERN) || []).filter((token) => !NON_TECH_ACRONYMS.has(token.toLowerCase()));
+  const seen = new Set<string>();
+  return [...named, ...fromTokens].filter((term) => {
+    const key = normalizeText(term);
+    if (!key || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+function checkBullet(bullet: string, resumeSkills: string[], sources: SourceIndex, job?: JobPosting): string[] {
+  const metrics = extractMetrics(bullet).filter((m) => !sources.numbers.has(metricKey(m)));
+  const technologies = technologyCandidates(bullet, resumeSkills, job).filter(
+    (term) => !supported(term, [...sources.names.skills, ...sources.names.tools], sources)
+  );
+  return [...metrics, ...technologies];
+}
+
+/**
+ * Checks every factual claim in a tailored resume against the profile, the
+ * source resume text and confirmed clarifying answers.
+ */
+export function auditTailoredResume(
+  resume: TailoredResumeJson,
+  profile: UserProfile,
+  job?: JobPosting
+): ResumeAuditReport {
+  const sources = buildSourceIndex(profile);
+  const resumeSkills = [...(resume.skills.core || []), ...(resume.skills.tools || [])];
+  const findings: AuditFinding[] = [];
+  const add = (finding: Omit<AuditFinding, "id" | "citation">, evidence?: Provenance[]) => {
+    const records = evidence ?? evidenceFor(finding.kind, finding.value, profile);
+    const citation = !finding.flagged && records?.length ? describeEvidence(records, profile) : undefined;
+    findings.push({ ...finding, id: `${finding.kind}:${JSON.stringify(finding.path)}`, ...(citation ? { citation } : {}) });
+  };
+
+  resume.experience.forEach((exp, entry) => {
+    const role = findRole(exp.company, sources.experience);
+    add({
+      kind: "company",
+      path: { section: "experience", entry, field: "company" },
+      value: exp.company,
+      flagged: !role,
+      reason: role ? undefined : "Company not in your profile",
+    }, role?.provenance);
+
+    // Titles must match exactly: "Senior" or "Lead" added to a real title is an inflated claim
+    const titleOk = role
+      ? sources.experience.some((e) => e.company === role.company && sameTitle(e.title, exp.title))
+      : sources.experience.some((e) => sameTitle(e.title, exp.title));
+    add({
+      kind: "title",
+      path: { section: "experience", entry, field: "title" },
+      value: exp.title,
+      flagged: !titleOk,
+      reason: titleOk ? undefined : role ? `Your title at ${role.company} was "${role.title}"` : "Title not in your profile",
+    }, role?.provenance);
+
+    if (exp.dates) {
+      const reason = role ? checkDates(exp.dates, role) : "No matching role to check dates against";
+      add({ kind: "dates", path: { section: "experience", entry, field: "dates" }, value: exp.dates, flagged: !!reason, reason }, role?.provenance);
+    }
+
+    exp.bullets.forEach((bullet, index) => {
+      const unsupported = checkBullet(bullet, resumeSkills, sources, job);
+      add({
+        kind: "bullet",
+        path: { section: "experience", entry, bullet: index },
+        value: bullet,
+        flagged: unsupported.length > 0,
+        reason: unsupported.length > 0 ? `Not found in your sources: ${unsupported.join(", ")}` : undefined,
+        unsupported: unsupported.length > 0 ? unsupported : undefined,
+      });
+    });
+  });
+
+  (resume.projects || []).forEach((project, entry) => {
+    const ok = supported(project.title, sources.names.projects, sources);
+    add({
+      kind: "project",
+      path: { section: "projects", entry, field: "title" },
+      value: project.title,
+      flagged: !ok,
+      reason: ok ? undefined : "Project not in your profile",
+    });
+
+    project.bullets.forEach((bullet, index) => {
+      const unsupported = checkBullet(bullet, resumeSkills, sources, job);
+      add({
+        kind: "bullet",
+        path: { section: "projects", entry, bullet: index },
+        value: bullet,
+        flagged: unsupported.length > 0,
+        reason: unsupported.length > 0 ? `Not found in your sources: ${unsupported.join(", ")}` : undefined,
+        unsupported: unsupported.length > 0 ? unsupported : undefined,
+      });
+    });
+  });
+
+  const groups = [
+    { group: "core" as const, kind: "skill" as const, names: [...sources.names.skills, ...sources.names.tools] },
+    { group: "tools" as const, kind: "tool" as const, names: [...sources.names.tools, ...sources.names.skills] },
+    { group: "domains" as const, kind: "domain" as const, names: sources.names.domains },
+  ];
+  for (const { group, kind, names } of groups) {
+    (resume.skills[group] || []).forEach((value, index) => {
+      const ok = supported(value, names, sources);
+      add({ kind, path: { section: "skills", group, index }, value, flagged: !ok, reason: ok ? undefined : `${value} is not in your profile` });
+    });
+  }
+
+  (resume.certifications || []).forEach((value, index) => {
+    const ok = supported(value, sources.names.certifications, sources);
+    add({
+      kind: "certification",
+      path: { section: "certifications", index },
+      value,
+      flagged: !ok,
+      reason: ok ? undefined : "Certification not in your profile",
+    });
+  });
+
+  (resume.education || []).forEach((edu, entry) => {
+    const ok = supported(edu.school, sources.names.education, sources);
+    add({
+      kind: "education",
+      path: { section: "education", entry, field: "school" },
+      value: edu.school,
+      flagged: !ok,
+      reason: ok ? undefined : "School not in your profile",
+    });
+  });
+
+  return { findings, flaggedCount: findings.filter((f) => f.flagged).length };
+}
+
+/**
+ * Checks free-form paragraphs, such as a cover letter, for metrics and
+ * technologies that no source mentions. Returns only the flagged paragraphs.
+ */
+export function auditParagraphs(
+  paragraphs: string[],
+  profile: UserProfile,
+  job?: JobPosting,
+  resume?: TailoredResumeJson
+): { index: number; unsupported: string[] }[] {
+  const sources = buildSourceIndex(profile);
+  const resumeSkills = [...(resume?.skills.core || []), ...(resume?.skills.tools || [])];
+  return paragraphs
+    .map((paragraph, index) => ({ index, unsupported: checkBullet(paragraph, resumeSkills, sources, job) }))
+    .filter((result) => result.unsupported.length > 0);
+}
+
+/**
+ * Writes new values into the resume at the given paths. A null value removes
+ * a bullet, skill or certification; header fields and schools keep their old value.
+ */
+export function applyAuditReplacements(
+  resume: TailoredResumeJson,
+  replacements: { path: AuditItemPath; value: string | null }[]
+): TailoredResumeJson {
+  const next: TailoredResumeJson = {
+    ...resume,
+    experience: resume.experience.map((exp) => ({ ...exp, bullets: [...exp.bullets] })),
+    projects: resume.projects?.map((project) => ({ ...project, bullets: [...project.bullets] })),
+    skills: {
+      core: resume.skills.core && [...resume.skills.core],
+      tools: resume.skills.tools && [...resume.skills.tools],
+      domains: resume.skills.domains && [...resume.skills.domains],
+    },
+    certifications: resume.certifications && [...resume.certifications],
+    education: resume.education?.map((edu) => ({ ...edu })),
+  };
+  const removed: { list: string[]; index: number }[] = [];
+
+  for (const { path, value } of replacements) {
+    if (path.section === "experience" && "field" in path) {
+      if (value) next.experience[path.entry][path.field] = value;
+    } else if (path.section === "experience") {
+      const bullets = next.experience[path.entry].bullets;
+      if (value === null) removed.push({ list: bullets, index: path.bullet });
+      else bullets[path.bullet] = value;
+    } else if (path.section === "projects" && "field" in path) {
+      if (value) next.projects![path.entry].title = value;
+    } else if (path.section === "projects") {
+      const bullets = next.projects![path.entry].bullets;
+      if (value === null) removed.push({ list: bullets, index: path.bullet });
+      else bullets[path.bullet] = value;
+    } else if (path.section === "education") {
+      if (value) next.education![path.entry].school = value;
+    } else if (path.section === "skills") {
+      const list = next.skills[path.group];
+      if (!list) continue;
+      if (value === null) removed.push({ list, index: path.index });
+      else list[path.index] = value;
+    } else if (next.certifications) {
+      if (value === null) removed.push({ list: next.certifications, index: path.index });
+      else next.certifications[path.index] = value;
+    }
+  }
+
+  // Remove from the back so earlier indexes stay valid
+  removed.sort((a, b) => b.index - a.index).forEach(({ list, index }) => list.splice(index, 1));
+  return next;
+}
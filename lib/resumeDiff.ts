@@ -0,0 +1,363 @@
+import { getResumeTheme } from "./resumeThemes";
+import type { GenerateResumeOptions, TailoredResumeJson } from "./tailoredResumeGenerator";
+
+export type DiffChange = "same" | "added" | "removed";
+
+export interface WordDiffSegment {
+  text: string;
+  change: DiffChange;
+}
+
+export type BulletDiff =
+  | { kind: "same"; text: string }
+  | { kind: "added"; text: string }
+  | { kind: "removed"; text: string }
+  | { kind: "changed"; before: string; after: string; segments: WordDiffSegment[] };
+
+type ExperienceEntry = TailoredResumeJson["experience"][number];
+type ProjectEntry = NonNullable<TailoredResumeJson["projects"]>[number];
+type EducationEntry = NonNullable<TailoredResumeJson["education"]>[number];
+
+export type EntryChange = "same" | "added" | "removed" | "changed";
+
+export interface ExperienceDiff {
+  kind: EntryChange;
+  title: string;
+  /** Set when the role was matched by company and its title was rewritten */
+  titleBefore?: string;
+  company: string;
+  datesBefore?: string;
+  datesAfter?: string;
+  bullets: BulletDiff[];
+}
+
+export interface ProjectDiff {
+  kind: EntryChange;
+  title: string;
+  technologies: { added: string[]; removed: string[] };
+  urlBefore?: string;
+  urlAfter?: string;
+  bullets: BulletDiff[];
+}
+
+export interface EducationDiff {
+  kind: EntryChange;
+  school: string;
+  degreeBefore?: string;
+  degreeAfter?: string;
+  datesBefore?: string;
+  datesAfter?: string;
+}
+
+export type SkillCategory = "core" | "tools" | "domains";
+
+export interface SkillDiff {
+  category: SkillCategory;
+  added: string[];
+  removed: string[];
+}
+
+export interface ResumeDiff {
+  summary: { before?: string; after?: string; segments: WordDiffSegment[] } | null;
+  experience: ExperienceDiff[];
+  projects: ProjectDiff[];
+  skills: SkillDiff[];
+  education: EducationDiff[];
+  certifications: { added: string[]; removed: string[] };
+  hasChanges: boolean;
+}
+
+const SKILL_CATEGORIES: SkillCategory[] = ["core", "tools", "domains"];
+
+// Bullets sharing at least this share of words are treated as one rewritten bullet
+const REWRITE_SIMILARITY = 0.5;
+
+function normalize(value?: string): string {
+  return (value || "").toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+}
+
+function words(text: string): string[] {
+  return text.split(/(\s+)/).filter(Boolean);
+}
+
+/** Longest-common-subsequence table over two token lists. */
+function lcsTable<T>(a: T[], b: T[], equal: (x: T, y: T) => boolean): number[][] {
+  const table = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      table[i][j] = equal(a[i], b[j]) ? table[i + 1][j + 1] + 1 : Math.max(table[i + 1][j], table[i][j + 1]);
+    }
+  }
+  return table;
+}
+
+/** Word-level inline diff; whitespace stays attached to the surrounding run. */
+export function diffWords(before: string, after: string): WordDiffSegment[] {
+  const a = words(before);
+  const b = words(after);
+  const table = lcsTable(a, b, (x, y) => x === y);
+  const segments: WordDiffSegment[] = [];
+  const push = (text: string, change: DiffChange) => {
+    const last = segments[segments.length - 1];
+    if (last && last.change === change) last.text += text;
+    else segments.push({ text, change });
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push(a[i], "same");
+      i++;
+      j++;
+    } else if (table[i + 1][j] >= table[i][j + 1]) {
+      push(a[i++], "removed");
+    } else {
+      push(b[j++], "added");
+    }
+  }
+  while (i < a.length) push(a[i++], "removed");
+  while (j < b.length) push(b[j++], "added");
+  return segments;
+}
+
+function similarity(a: string, b: string): number {
+  const left = new Set(normalize(a).split(" ").filter(Boolean));
+  const right = new Set(normalize(b).split(" ").filter(Boolean));
+  if (left.size === 0 || right.size === 0) return 0;
+  let shared = 0;
+  left.forEach((word) => {
+    if (right.has(word)) shared++;
+  });
+  return shared / Math.max(left.size, right.size);
+}
+
+/**
+ * Aligns two bullet lists: identical bullets line up in order, and a removed
+ * bullet that shares enough words with an added one is shown as a rewrite.
+ */
+export function diffBullets(before: string[], after: string[]): BulletDiff[] {
+  const table = lcsTable(before, after, (x, y) => normalize(x) === normalize(y));
+  const raw: BulletDiff[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < before.length && j < after.length) {
+    if (normalize(before[i]) === normalize(after[j])) {
+      raw.push({ kind: "same", text: after[j] });
+      i++;
+      j++;
+    } else if (table[i + 1][j] >= table[i][j + 1]) {
+      raw.push({ kind: "removed", text: before[i++] });
+    } else {
+      raw.push({ kind: "added", text: after[j++] });
+    }
+  }
+  while (i < before.length) raw.push({ kind: "removed", text: before[i++] });
+  while (j < after.length) raw.push({ kind: "added", text: after[j++] });
+
+  const result: BulletDiff[] = [];
+  const paired = new Set<number>();
+  raw.forEach((item, index) => {
+    if (paired.has(index)) return;
+    if (item.kind !== "removed") {
+      result.push(item);
+      return;
+    }
+
+    let best = -1;
+    let bestScore = REWRITE_SIMILARITY;
+    raw.forEach((candidate, candidateIndex) => {
+      if (candidate.kind !== "added" || paired.has(candidateIndex)) return;
+      const score = similarity(item.text, candidate.text);
+      if (score >= bestScore) {
+        best = candidateIndex;
+        bestScore = score;
+      }
+    });
+
+    if (best === -1) {
+      result.push(item);
+      return;
+    }
+    const rewrite = raw[best] as { kind: "added"; text: string };
+    paired.add(best);
+    result.push({ kind: "changed", before: item.text, after: rewrite.text, segments: diffWords(item.text, rewrite.text) });
+  });
+  return result;
+}
+
+/**
+ * Lines up entries of one section: each `after` entry takes the first unused
+ * `before` entry the matchers accept, trying the matchers in order. Entries
+ * left over in `before` come last, as removals.
+ */
+function pairEntries<T>(
+  before: T[],
+  after: T[],
+  matchers: ((previous: T, entry: T) => boolean)[]
+): { previous?: T; entry?: T }[] {
+  const remaining = [...before];
+  const pairs: { previous?: T; entry?: T }[] = after.map((entry) => {
+    for (const matches of matchers) {
+      const index = remaining.findIndex((candidate) => matches(candidate, entry));
+      if (index !== -1) return { previous: remaining.splice(index, 1)[0], entry };
+    }
+    return { entry };
+  });
+  return [...pairs, ...remaining.map((previous) => ({ previous }))];
+}
+
+function diffList(before: string[] = [], after: string[] = []): { added: string[]; removed: string[] } {
+  const beforeKeys = new Set(before.map(normalize));
+  const afterKeys = new Set(after.map(normalize));
+  return {
+    added: after.filter((item) => !beforeKeys.has(normalize(item))),
+    removed: before.filter((item) => !afterKeys.has(normalize(item))),
+  };
+}
+
+function entryKey(entry: ExperienceEntry): string {
+  return `${normalize(entry.company)}|${normalize(entry.title)}`;
+}
+
+function diffExperience(before: ExperienceEntry[], after: ExperienceEntry[]): ExperienceDiff[] {
+  // Same role first; a retitled role at the same company still counts as a match
+  const pairs = pairEntries(before, after, [
+    (previous, entry) => entryKey(previous) === entryKey(entry),
+    (previous, entry) => normalize(previous.company) === normalize(entry.company),
+  ]);
+
+  return pairs.map(({ previous, entry }): ExperienceDiff => {
+    if (!previous || !entry) {
+      const only = (previous || entry) as ExperienceEntry;
+      const kind = previous ? "removed" : "added";
+      return {
+        kind,
+        title: only.title,
+        company: only.company,
+        ...(previous ? { datesBefore: only.dates } : { datesAfter: only.dates }),
+        bullets: only.bullets.map((text) => ({ kind, text })),
+      };
+    }
+
+    const bullets = diffBullets(previous.bullets, entry.bullets);
+    const unchanged =
+      entryKey(previous) === entryKey(entry) &&
+      normalize(previous.dates) === normalize(entry.dates) &&
+      bullets.every((bullet) => bullet.kind === "same");
+    return {
+      kind: unchanged ? "same" : "changed",
+      title: entry.title,
+      titleBefore: normalize(previous.title) !== normalize(entry.title) ? previous.title : undefined,
+      company: entry.company,
+      datesBefore: previous.dates,
+      datesAfter: entry.dates,
+      bullets,
+    };
+  });
+}
+
+function diffProjects(before: ProjectEntry[] = [], after: ProjectEntry[] = []): ProjectDiff[] {
+  const pairs = pairEntries(before, after, [(previous, entry) => normalize(previous.title) === normalize(entry.title)]);
+
+  return pairs.map(({ previous, entry }): ProjectDiff => {
+    if (!previous || !entry) {
+      const only = (previous || entry) as ProjectEntry;
+      const kind = previous ? "removed" : "added";
+      const technologies = only.technologies || [];
+      return {
+        kind,
+        title: only.title,
+        technologies: previous ? { added: [], removed: technologies } : { added: technologies, removed: [] },
+        ...(previous ? { urlBefore: only.url } : { urlAfter: only.url }),
+        bullets: only.bullets.map((text) => ({ kind, text })),
+      };
+    }
+
+    const technologies = diffList(previous.technologies, entry.technologies);
+    const bullets = diffBullets(previous.bullets, entry.bullets);
+    const unchanged =
+      technologies.added.length === 0 &&
+      technologies.removed.length === 0 &&
+      (previous.url || "") === (entry.url || "") &&
+      bullets.every((bullet) => bullet.kind === "same");
+    return {
+      kind: unchanged ? "same" : "changed",
+      title: entry.title,
+      technologies,
+      urlBefore: previous.url,
+      urlAfter: entry.url,
+      bullets,
+    };
+  });
+}
+
+function diffEducation(before: EducationEntry[] = [], after: EducationEntry[] = []): EducationDiff[] {
+  const pairs = pairEntries(before, after, [(previous, entry) => normalize(previous.school) === normalize(entry.school)]);
+
+  return pairs.map(({ previous, entry }): EducationDiff => {
+    if (!previous || !entry) {
+      const only = (previous || entry) as EducationEntry;
+      return previous
+        ? { kind: "removed", school: only.school, degreeBefore: only.degree, datesBefore: only.dates }
+        : { kind: "added", school: only.school, degreeAfter: only.degree, datesAfter: only.dates };
+    }
+
+    const unchanged =
+      normalize(previous.degree) === normalize(entry.degree) && normalize(previous.dates) === normalize(entry.dates);
+    return {
+      kind: unchanged ? "same" : "changed",
+      school: entry.school,
+      degreeBefore: previous.degree,
+      degreeAfter: entry.degree,
+      datesBefore: previous.dates,
+      datesAfter: entry.dates,
+    };
+  });
+}
+
+/** Section-aware comparison of two generated resumes, from `before` to `after`. */
+export function diffResumeVersions(before: TailoredResumeJson, after: TailoredResumeJson): ResumeDiff {
+  const summaryChanged = normalize(before.summary) !== normalize(after.summary);
+  const summary = summaryChanged
+    ? { before: before.summary, after: after.summary, segments: diffWords(before.summary || "", after.summary || "") }
+    : null;
+
+  const experience = diffExperience(before.experience, after.experience);
+  const projects = diffProjects(before.projects, after.projects);
+  const skills = SKILL_CATEGORIES.map((category) => ({
+    category,
+    ...diffList(before.skills[category], after.skills[category]),
+  })).filter((diff) => diff.added.length > 0 || diff.removed.length > 0);
+  const education = diffEducation(before.education, after.education);
+  const certifications = diffList(before.certifications, after.certifications);
+
+  return {
+    summary,
+    experience,
+    projects,
+    skills,
+    education,
+    certifications,
+    hasChanges:
+      !!summary ||
+      experience.some((entry) => entry.kind !== "same") ||
+      projects.some((entry) => entry.kind !== "same") ||
+      skills.length > 0 ||
+      education.some((entry) => entry.kind !== "same") ||
+      certifications.added.length > 0 ||
+      certifications.removed.length > 0,
+  };
+}
+
+export function describeGenerationOptions(options?: GenerateResumeOptions): string {
+  if (!options) return "Options not recorded";
+  const parts = [options.mode === "template" ? "Template mode" : "Standard mode"];
+  if (options.mode === "standard" && options.theme) parts.push(`${getResumeTheme(options.theme).label} theme`);
+  if (options.enforceOnePage) parts.push("One page");
+  if (options.mode === "template" && options.templateFingerprint) {
+    const entries = options.templateFingerprint.experience.length;
+    parts.push(`${entries} template entr${entries === 1 ? "y" : "ies"}`);
+  }
+  return parts.join(" · ");
+}
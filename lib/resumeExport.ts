@@ -0,0 +1,147 @@
+import * as Sharing from "expo-sharing";
+import * as FileSystem from "expo-file-system/legacy";
+import { Alert, Platform } from "react-native";
+
+import type { CoverLetterJson } from "./coverLetterGenerator";
+import type { ResumeThemeId } from "./resumeThemes";
+import type { GenerateResumeOptions, TailoredResumeJson } from "./tailoredResumeGenerator";
+
+export const DOCX_MIME_TYPE = "application/vnd.openxmlformats-officedocument.wordprocessingml.document";
+export const PDF_MIME_TYPE = "application/pdf";
+export const TEXT_MIME_TYPE = "text/plain";
+
+function getExtractorUrl(): string {
+  const extractorUrl = process.env.EXPO_PUBLIC_RESUME_EXTRACTOR_URL;
+  if (!extractorUrl) {
+    throw new Error("DOCX and PDF export require the server URL. Please set EXPO_PUBLIC_RESUME_EXTRACTOR_URL.");
+  }
+  return extractorUrl;
+}
+
+function blobToBase64(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve((reader.result as string).split(",")[1]);
+    reader.onerror = () => reject(reader.error || new Error("Failed to read file"));
+    reader.readAsDataURL(blob);
+  });
+}
+
+export function makeResumeFileName(company: string, extension: string): string {
+  return `tailored-resume-${company.replace(/[^a-z0-9]/gi, "-").toLowerCase()}.${extension}`;
+}
+
+export function makeCoverLetterFileName(company: string, extension: string): string {
+  return `cover-letter-${company.replace(/[^a-z0-9]/gi, "-").toLowerCase()}.${extension}`;
+}
+
+/** The X-Render-Mode the server reports: "standard-fallback" when it couldn't fill the template */
+export type DocxRenderMode = "template" | "standard" | "standard-fallback";
+
+export interface RenderedDocx {
+  base64: string;
+  renderMode: DocxRenderMode;
+  /** Template mode was asked for but the file has the standard layout */
+  templateNotApplied: boolean;
+}
+
+export const TEMPLATE_NOT_APPLIED_MESSAGE =
+  "Your resume's layout couldn't be filled in, so this DOCX uses the standard layout instead. The content is the same.";
+
+export async function renderResumeDocx(
+  resumeJson: TailoredResumeJson,
+  options: Pick<GenerateResumeOptions, "mode" | "enforceOnePage" | "theme">,
+  templateDocxBase64?: string
+): Promise<RenderedDocx> {
+  console.log("[resumeExport] Calling server to render DOCX...");
+  const response = await fetch(`${getExtractorUrl()}/resume/render-docx`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      resumeJson,
+      options: { mode: options.mode, enforceOnePage: options.enforceOnePage, theme: options.theme },
+      templateDocxBase64,
+    }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Server returned error: ${response.status}`);
+  }
+
+  const renderMode = (response.headers.get("X-Render-Mode") || "standard") as DocxRenderMode;
+  const templateNotApplied = options.mode === "template" && renderMode !== "template";
+  if (templateNotApplied) {
+    console.warn("[resumeExport] Server could not fill the template; received a standard layout");
+  }
+
+  const blob = await response.blob();
+  console.log("[resumeExport] DOCX received, size:", blob.size);
+  return { base64: await blobToBase64(blob), renderMode, templateNotApplied };
+}
+
+/** Always a standard theme layout; template formatting only survives in DOCX. */
+export async function renderResumePdf(resumeJson: TailoredResumeJson, theme?: ResumeThemeId): Promise<string> {
+  console.log("[resumeExport] Calling server to render PDF...");
+  const response = await fetch(`${getExtractorUrl()}/resume/render-pdf`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ resumeJson, theme }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Server returned error: ${response.status}`);
+  }
+
+  const blob = await response.blob();
+  console.log("[resumeExport] PDF received, size:", blob.size);
+  return blobToBase64(blob);
+}
+
+export async function renderCoverLetterDocx(coverLetterJson: CoverLetterJson): Promise<string> {
+  console.log("[resumeExport] Calling server to render cover letter DOCX...");
+  const response = await fetch(`${getExtractorUrl()}/cover-letter/render-docx`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ coverLetterJson }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Server returned error: ${response.status}`);
+  }
+
+  const blob = await response.blob();
+  console.log("[resumeExport] Cover letter DOCX received, size:", blob.size);
+  return blobToBase64(blob);
+}
+
+/** Writes `contents` (base64 unless `encoding` says otherwise) to a file and opens the share sheet. */
+export async function saveAndShareFile(
+  contents: string,
+  fileName: string,
+  share: { mimeType: string; UTI: string; dialogTitle: string },
+  encoding: "base64" | "utf8" = "base64"
+): Promise<void> {
+  const fileUri = `${FileSystem.documentDirectory}${fileName}`;
+
+  await FileSystem.writeAsStringAsync(fileUri, contents, {
+    encoding: encoding === "utf8" ? FileSystem.EncodingType.UTF8 : FileSystem.EncodingType.Base64,
+  });
+
+  console.log("[resumeExport] File saved to:", fileUri);
+
+  if (Platform.OS === "web") {
+    const link = document.createElement("a");
+    link.href = fileUri;
+    link.download = fileName;
+    link.click();
+    Alert.alert("Success", `${fileName} downloaded!`);
+    return;
+  }
+
+  const isAvailable = await Sharing.isAvailableAsync();
+  if (isAvailable) {
+    await Sharing.shareAsync(fileUri, share);
+  } else {
+    Alert.alert("Success", `Saved to:\n${fileUri}`);
+  }
+}
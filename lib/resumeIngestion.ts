@@ -0,0 +1,559 @@
+import type {
+  Certification,
+  ContactInfo,
+  Education,
+  Experience,
+  Project,
+  Provenance,
+  Skill,
+  Tool,
+  UserProfile,
+} from "../types/profile";
+import { appendDomainProvenance } from "./provenance";
+import type { ResumeData } from "./resumeParser";
+import { sameSkill, skillKey } from "./skillTaxonomy";
+import { normalizeText } from "./sourceOfTruth";
+import { parseYearMonth, toMonthIndex, withStructuredDates } from "./tenure";
+
+export type IngestionAction = "add" | "update" | "merge" | "skip";
+
+export type IngestionEntity =
+  | "contact"
+  | "experience"
+  | "skill"
+  | "tool"
+  | "certification"
+  | "education"
+  | "project"
+  | "domain";
+
+export interface FieldChange {
+  /** `${proposalId}:${field}`, the key used in a selection */
+  id: string;
+  field: string;
+  label: string;
+  before: string;
+  after: string;
+  /** Entries a list field gains; before and after are unused for these */
+  added?: string[];
+  /** Pre-selected in the review */
+  suggested: boolean;
+  value: unknown;
+}
+
+export interface IngestionProposal {
+  id: string;
+  entity: IngestionEntity;
+  action: IngestionAction;
+  label: string;
+  reason: string;
+  /** The profile item an update or merge writes into */
+  existingId?: string;
+  /** For an add, every field of the new item; for an update or merge, the differences */
+  changes: FieldChange[];
+  incoming: unknown;
+}
+
+export interface IngestionPlan {
+  proposals: IngestionProposal[];
+}
+
+// Word forms that mean the same thing in titles and names
+const TOKEN_ALIASES: Record<string, string> = {
+  sr: "senior",
+  jr: "junior",
+  eng: "engineer",
+  engr: "engineer",
+  mgr: "manager",
+  dev: "developer",
+  univ: "university",
+  intl: "international",
+};
+
+// Legal-form suffixes that don't tell two companies apart
+const COMPANY_SUFFIXES = new Set(["inc", "llc", "ltd", "corp", "corporation", "co", "gmbh", "plc", "company"]);
+
+const SIMILAR_NAME_THRESHOLD = 0.5;
+
+function nameTokens(value: string, dropSuffixes = false): string[] {
+  return normalizeText(value)
+    .split(" ")
+    .filter(Boolean)
+    .map((token) => TOKEN_ALIASES[token] || token)
+    .filter((token) => !dropSuffixes || !COMPANY_SUFFIXES.has(token));
+}
+
+function sameTokens(a: string[], b: string[]): boolean {
+  return a.length > 0 && a.join(" ") === b.join(" ");
+}
+
+/**
+ * True when two names are probably the same thing written differently:
+ * "Sr. Software Engineer" and "Senior Software Engineer", or "Engineer" and
+ * "Software Engineer". Compares word overlap, so word order doesn't matter.
+ */
+export function similarNames(a: string, b: string, dropSuffixes = false): boolean {
+  const ta = nameTokens(a, dropSuffixes);
+  const tb = nameTokens(b, dropSuffixes);
+  if (ta.length === 0 || tb.length === 0) return false;
+  const setB = new Set(tb);
+  const shared = new Set(ta.filter((token) => setB.has(token))).size;
+  const union = new Set([...ta, ...tb]).size;
+  const containsShorter = shared === Math.min(new Set(ta).size, setB.size);
+  return containsShorter || shared / union >= SIMILAR_NAME_THRESHOLD;
+}
+
+function sameCompany(a: string, b: string): boolean {
+  return sameTokens(nameTokens(a, true), nameTokens(b, true));
+}
+
+function sameText(a: string | undefined, b: string | undefined): boolean {
+  return normalizeText(a || "") === normalizeText(b || "");
+}
+
+function newItemId(): string {
+  return Date.now().toString() + Math.random();
+}
+
+type Draft = { id: string; changes: FieldChange[] };
+
+function scalarChange(
+  draft: Draft,
+  field: string,
+  label: string,
+  before: string | undefined,
+  after: string | undefined,
+  suggested = true
+) {
+  const next = (after || "").trim();
+  if (!next || sameText(before, next)) return;
+  draft.changes.push({ id: `${draft.id}:${field}`, field, label, before: before || "", after: next, suggested, value: next });
+}
+
+/** Suggested only when the new text is longer, i.e. probably the better-written one */
+function textChange(draft: Draft, field: string, label: string, before: string | undefined, after: string | undefined) {
+  scalarChange(draft, field, label, before, after, (after || "").trim().length > (before || "").trim().length);
+}
+
+function listChange(draft: Draft, field: string, label: string, before: string[], after: string[]) {
+  const known = new Set(before.map((item) => normalizeText(item)));
+  const added: string[] = [];
+  for (const item of after) {
+    const key = normalizeText(item);
+    if (!key || known.has(key)) continue;
+    known.add(key);
+    added.push(item.trim());
+  }
+  if (added.length === 0) return;
+  draft.changes.push({
+    id: `${draft.id}:${field}`,
+    field,
+    label,
+    before: "",
+    after: "",
+    added,
+    suggested: true,
+    value: [...before, ...added],
+  });
+}
+
+function addChanges(id: string, fields: [string, string, string | string[] | undefined][]): FieldChange[] {
+  return fields
+    .filter(([, , value]) => (Array.isArray(value) ? value.length > 0 : !!(value || "").trim()))
+    .map(([field, label, value]) =>
+      Array.isArray(value)
+        ? { id: `${id}:${field}`, field, label, before: "", after: "", added: value, suggested: true, value }
+        : { id: `${id}:${field}`, field, label, before: "", after: value || "", suggested: true, value }
+    );
+}
+
+/**
+ * An update when the match is the same name, a merge when it is a close one;
+ * a match that brings nothing new is skipped.
+ */
+function matchedProposal(
+  draft: Draft,
+  entity: IngestionEntity,
+  exact: boolean,
+  label: string,
+  existing: { id: string },
+  existingLabel: string,
+  incoming: unknown
+): IngestionProposal {
+  if (draft.changes.length === 0) {
+    return { ...draft, entity, action: "skip", label, reason: `Already in your profile as ${existingLabel}`, existingId: existing.id, incoming };
+  }
+  return {
+    ...draft,
+    entity,
+    action: exact ? "update" : "merge",
+    label,
+    reason: exact ? "Already in your profile; the new resume differs" : `Looks like ${existingLabel} in your profile`,
+    existingId: existing.id,
+    incoming,
+  };
+}
+
+function planExperience(profile: UserProfile, parsed: ResumeData["experience"]): IngestionProposal[] {
+  return parsed.map((incoming, index) => {
+    const id = `experience:${index}`;
+    const label = `${incoming.title} at ${incoming.company}`;
+    const roles = profile.experience.filter((exp) => sameCompany(exp.company, incoming.company));
+    const exact = roles.find((exp) => sameText(exp.title, incoming.title));
+    const incomingStart = parseYearMonth(incoming.startDate);
+    const startsCompare = (exp: Experience) => {
+      const start = parseYearMonth(exp.startDate);
+      return start && incomingStart ? toMonthIndex(start) === toMonthIndex(incomingStart) : undefined;
+    };
+    // A retitled role: same company and start month, or a close title with no
+    // start month saying otherwise. A close title that started later is a promotion.
+    const close =
+      exact ||
+      roles.find((exp) => startsCompare(exp) === true) ||
+      roles.find((exp) => similarNames(exp.title, incoming.title) && startsCompare(exp) !== false);
+
+    if (!close) {
+      return {
+        id,
+        entity: "experience",
+        action: "add",
+        label,
+        reason: "New role",
+        changes: addChanges(id, [
+          ["title", "Title", incoming.title],
+          ["company", "Company", incoming.company],
+          ["startDate", "Start", incoming.startDate],
+          ["endDate", "End", incoming.current ? "Present" : incoming.endDate],
+          ["description", "Description", incoming.description],
+          ["achievements", "Achievements", incoming.achievements],
+        ]),
+        incoming,
+      };
+    }
+
+    const draft: Draft = { id, changes: [] };
+    scalarChange(draft, "title", "Title", close.title, incoming.title, false);
+    scalarChange(draft, "startDate", "Start", close.startDate, incoming.startDate);
+    if (incoming.current !== close.current) {
+      draft.changes.push({
+        id: `${id}:current`,
+        field: "current",
+        label: "Current role",
+        before: close.current ? "Yes" : "No",
+        after: incoming.current ? "Yes" : "No",
+        suggested: true,
+        value: incoming.current,
+      });
+    }
+    if (!incoming.current) scalarChange(draft, "endDate", "End", close.endDate, incoming.endDate);
+    textChange(draft, "description", "Description", close.description, incoming.description);
+    listChange(draft, "achievements", "Achievements", close.achievements, incoming.achievements);
+    return matchedProposal(draft, "experience", close === exact, label, close, `${close.title} at ${close.company}`, incoming);
+  });
+}
+
+function planNamedSkills<T extends Skill | Tool>(
+  entity: "skill" | "tool",
+  existingItems: T[],
+  parsed: ResumeData["skills"]
+): IngestionProposal[] {
+  return parsed.map((incoming, index) => {
+    const id = `${entity}:${index}`;
+    const exact = existingItems.find((item) => skillKey(item.name) === skillKey(incoming.name));
+    const close = exact || existingItems.find((item) => sameSkill(item.name, incoming.name));
+    if (!close) {
+      return {
+        id,
+        entity,
+        action: "add",
+        label: incoming.name,
+        reason: entity === "skill" ? "New skill" : "New tool",
+        changes: addChanges(id, [
+          ["name", "Name", incoming.name],
+          ["category", "Category", incoming.category],
+        ]),
+        incoming,
+      };
+    }
+
+    const draft: Draft = { id, changes: [] };
+    scalarChange(draft, "name", "Name", close.name, incoming.name, false);
+    // The profile's own category wins unless it never had a real one
+    if (!close.category || close.category === "General") {
+      scalarChange(draft, "category", "Category", close.category, incoming.category);
+    }
+    return matchedProposal(draft, entity, close === exact, incoming.name, close, close.name, incoming);
+  });
+}
+
+function planCertifications(profile: UserProfile, parsed: ResumeData["certifications"]): IngestionProposal[] {
+  return parsed.map((incoming, index) => {
+    const id = `certification:${index}`;
+    const exact = profile.certifications.find((cert) => sameText(cert.name, incoming.name));
+    const close =
+      exact ||
+      profile.certifications.find(
+        (cert) => similarNames(cert.name, incoming.name) && (!cert.issuer || !incoming.issuer || sameText(cert.issuer, incoming.issuer))
+      );
+    if (!close) {
+      return {
+        id,
+        entity: "certification",
+        action: "add",
+        label: incoming.name,
+        reason: "New certification",
+        changes: addChanges(id, [
+          ["name", "Name", incoming.name],
+          ["issuer", "Issuer", incoming.issuer],
+          ["date", "Date", incoming.date],
+        ]),
+        incoming,
+      };
+    }
+
+    const draft: Draft = { id, changes: [] };
+    scalarChange(draft, "name", "Name", close.name, incoming.name, false);
+    scalarChange(draft, "issuer", "Issuer", close.issuer, incoming.issuer);
+    scalarChange(draft, "date", "Date", close.date, incoming.date);
+    return matchedProposal(draft, "certification", close === exact, incoming.name, close, close.name, incoming);
+  });
+}
+
+function planEducation(profile: UserProfile, parsed: ResumeData["education"]): IngestionProposal[] {
+  return parsed.map((incoming, index) => {
+    const id = `education:${index}`;
+    const label = [incoming.school, incoming.degree].filter(Boolean).join(", ");
+    // Two degrees from one school are two entries
+    const sameDegree = (edu: Education) => !edu.degree || !incoming.degree || similarNames(edu.degree, incoming.degree);
+    const exact = profile.education.find((edu) => sameText(edu.school, incoming.school) && sameDegree(edu));
+    const close = exact || profile.education.find((edu) => similarNames(edu.school, incoming.school) && sameDegree(edu));
+    if (!close) {
+      return {
+        id,
+        entity: "education",
+        action: "add",
+        label,
+        reason: "New education entry",
+        changes: addChanges(id, [
+          ["school", "School", incoming.school],
+          ["degree", "Degree", incoming.degree],
+          ["field", "Field", incoming.field],
+          ["startDate", "Start", incoming.startDate],
+          ["endDate", "End", incoming.endDate],
+        ]),
+        incoming,
+      };
+    }
+
+    const draft: Draft = { id, changes: [] };
+    scalarChange(draft, "school", "School", close.school, incoming.school, false);
+    scalarChange(draft, "degree", "Degree", close.degree, incoming.degree, !close.degree);
+    scalarChange(draft, "field", "Field", close.field, incoming.field);
+    scalarChange(draft, "startDate", "Start", close.startDate, incoming.startDate);
+    scalarChange(draft, "endDate", "End", close.endDate, incoming.endDate);
+    return matchedProposal(draft, "education", close === exact, label, close, close.school, incoming);
+  });
+}
+
+function planProjects(profile: UserProfile, parsed: ResumeData["projects"]): IngestionProposal[] {
+  return parsed.map((incoming, index) => {
+    const id = `project:${index}`;
+    const exact = profile.projects.find((project) => sameText(project.title, incoming.title));
+    const close = exact || profile.projects.find((project) => similarNames(project.title, incoming.title));
+    if (!close) {
+      return {
+        id,
+        entity: "project",
+        action: "add",
+        label: incoming.title,
+        reason: "New project",
+        changes: addChanges(id, [
+          ["title", "Title", incoming.title],
+          ["description", "Description", incoming.description],
+          ["technologies", "Technologies", incoming.technologies],
+          ["url", "Link", incoming.url],
+        ]),
+        incoming,
+      };
+    }
+
+    const draft: Draft = { id, changes: [] };
+    scalarChange(draft, "title", "Title", close.title, incoming.title, false);
+    textChange(draft, "description", "Description", close.description, incoming.description);
+    listChange(draft, "technologies", "Technologies", close.technologies, incoming.technologies);
+    scalarChange(draft, "url", "Link", close.url, incoming.url);
+    return matchedProposal(draft, "project", close === exact, incoming.title, close, close.title, incoming);
+  });
+}
+
+function planDomains(
+  profile: UserProfile,
+  parsed: string[],
+  provenance: Record<string, Provenance[]> | undefined
+): IngestionProposal[] {
+  return parsed.map((domain, index) => {
+    const id = `domain:${index}`;
+    const incoming = { name: domain, provenance: provenance?.[normalizeText(domain)] || [] };
+    const existing = profile.domainExperience.find((d) => sameText(d, domain));
+    if (existing) {
+      return { id, entity: "domain", action: "skip", label: domain, reason: `Already in your profile as ${existing}`, changes: [], incoming };
+    }
+    return {
+      id,
+      entity: "domain",
+      action: "add",
+      label: domain,
+      reason: "New domain",
+      changes: addChanges(id, [["name", "Domain", domain]]),
+      incoming,
+    };
+  });
+}
+
+function planContact(profile: UserProfile, parsed: ContactInfo | undefined): IngestionProposal[] {
+  if (!parsed) return [];
+  // Like mergeContactInfo: only empty fields are filled and links are appended
+  const draft: Draft = { id: "contact", changes: [] };
+  const fields: [keyof Omit<ContactInfo, "links">, string][] = [
+    ["name", "Name"],
+    ["location", "Location"],
+    ["phone", "Phone"],
+    ["email", "Email"],
+  ];
+  for (const [field, label] of fields) {
+    if (!profile.contact[field]) scalarChange(draft, field, label, "", parsed[field]);
+  }
+  listChange(draft, "links", "Links", profile.contact.links, parsed.links || []);
+  if (draft.changes.length === 0) return [];
+  return [{ ...draft, entity: "contact", action: "update", label: "Contact info", reason: "Fills in missing contact details", incoming: parsed }];
+}
+
+/** Keeps the first of several parsed items that share a key */
+function uniqueBy<T>(items: T[], key: (item: T) => string): T[] {
+  const seen = new Set<string>();
+  return items.filter((item) => {
+    const k = key(item);
+    if (!k || seen.has(k)) return false;
+    seen.add(k);
+    return true;
+  });
+}
+
+/**
+ * Lines a parsed resume up against the profile: every parsed item becomes an
+ * add, an update of the same item, a merge into a close match, or a skip
+ * when the profile already has it unchanged.
+ */
+export function planResumeIngestion(profile: UserProfile, parsed: ResumeData): IngestionPlan {
+  return {
+    proposals: [
+      ...planContact(profile, parsed.contact),
+      ...planExperience(profile, uniqueBy(parsed.experience, (e) => `${normalizeText(e.company)}|${normalizeText(e.title)}`)),
+      ...planNamedSkills("skill", profile.skills, uniqueBy(parsed.skills, (s) => skillKey(s.name))),
+      ...planNamedSkills("tool", profile.tools, uniqueBy(parsed.tools, (t) => skillKey(t.name))),
+      ...planCertifications(profile, uniqueBy(parsed.certifications, (c) => normalizeText(c.name))),
+      ...planEducation(profile, uniqueBy(parsed.education, (e) => `${normalizeText(e.school)}|${normalizeText(e.degree)}`)),
+      ...planProjects(profile, uniqueBy(parsed.projects, (p) => normalizeText(p.title))),
+      ...planDomains(profile, uniqueBy(parsed.domainExperience, normalizeText), parsed.domainProvenance),
+    ],
+  };
+}
+
+/** The changes the review starts with selected */
+export function defaultSelection(plan: IngestionPlan): Set<string> {
+  return new Set(plan.proposals.flatMap((p) => p.changes.filter((c) => c.suggested).map((c) => c.id)));
+}
+
+/** Whether a resume should be reviewed before it goes in, rather than added as-is */
+export function profileHasItems(profile: UserProfile): boolean {
+  return (
+    profile.experience.length +
+      profile.skills.length +
+      profile.tools.length +
+      profile.certifications.length +
+      profile.education.length +
+      profile.projects.length +
+      profile.domainExperience.length >
+    0
+  );
+}
+
+type ProfileItem = Experience | Skill | Tool | Certification | Education | Project;
+
+function applyToItem<T extends ProfileItem>(item: T, changes: FieldChange[], incoming: { provenance?: Provenance[] }): T {
+  const next: Record<string, unknown> = { ...item };
+  for (const change of changes) next[change.field] = change.value;
+  next.provenance = [...(item.provenance || []), ...(incoming.provenance || [])];
+  return next as T;
+}
+
+/**
+ * The profile fields to write for the selected changes. An add goes in
+ * whole when any of its changes is selected; an update or merge writes only
+ * the selected fields into the existing item.
+ */
+export function applyResumeIngestion(
+  profile: UserProfile,
+  plan: IngestionPlan,
+  selected: Set<string>
+): Partial<UserProfile> {
+  const now = new Date().toISOString();
+  let experience = [...profile.experience];
+  let skills = [...profile.skills];
+  let tools = [...profile.tools];
+  let certifications = [...profile.certifications];
+  let education = [...profile.education];
+  let projects = [...profile.projects];
+  const domainExperience = [...profile.domainExperience];
+  let domainProvenance = profile.domainProvenance || {};
+  let contact = profile.contact;
+
+  for (const proposal of plan.proposals) {
+    const changes = proposal.changes.filter((c) => selected.has(c.id));
+    if (proposal.action === "skip" || changes.length === 0) continue;
+
+    if (proposal.entity === "contact") {
+      const next: Record<string, unknown> = { ...contact };
+      for (const change of changes) next[change.field] = change.value;
+      contact = next as unknown as ContactInfo;
+      continue;
+    }
+
+    if (proposal.entity === "domain") {
+      const domain = proposal.incoming as { name: string; provenance: Provenance[] };
+      domainExperience.push(domain.name);
+      domainProvenance = appendDomainProvenance(domainProvenance, { [normalizeText(domain.name)]: domain.provenance });
+      continue;
+    }
+
+    if (proposal.action === "add") {
+      const item = { ...(proposal.incoming as object), id: newItemId() };
+      if (proposal.entity === "experience") experience.push(withStructuredDates(item as Experience));
+      if (proposal.entity === "skill") skills.push({ ...(item as Skill), source: "resume_parse", confirmedAt: now });
+      if (proposal.entity === "tool") tools.push({ ...(item as Tool), source: "resume_parse", confirmedAt: now });
+      if (proposal.entity === "certification") certifications.push(item as Certification);
+      if (proposal.entity === "education") education.push(item as Education);
+      if (proposal.entity === "project") projects.push(item as Project);
+      continue;
+    }
+
+    const incoming = proposal.incoming as { provenance?: Provenance[] };
+    const update = <T extends ProfileItem>(items: T[]) =>
+      items.map((item) => (item.id === proposal.existingId ? applyToItem(item, changes, incoming) : item));
+    // Changed dates need their year-month reading redone
+    if (proposal.entity === "experience") experience = update(experience).map(withStructuredDates);
+    if (proposal.entity === "skill") skills = update(skills);
+    if (proposal.entity === "tool") tools = update(tools);
+    if (proposal.entity === "certification") certifications = update(certifications);
+    if (proposal.entity === "education") education = update(education);
+    if (proposal.entity === "project") projects = update(projects);
+  }
+
+  return { contact, experience, skills, tools, certifications, education, projects, domainExperience, domainProvenance };
+}
+
+/** What the review would pre-select, applied without asking; for a profile with nothing to review against */
+export function ingestSuggested(profile: UserProfile, parsed: ResumeData): Partial<UserProfile> {
+  const plan = planResumeIngestion(profile, parsed);
+  return applyResumeIngestion(profile, plan, defaultSelection(plan));
+}
@@ -0,0 +1,220 @@
+import { getResumeTheme, type ResumeThemeId } from "./resumeThemes";
+import type { TailoredResumeJson, TemplateFingerprint } from "./tailoredResumeGenerator";
+
+export interface PageLayout {
+  widthPt: number;
+  heightPt: number;
+  margins: { top: number; right: number; bottom: number; left: number };
+  fontSizePt: number;
+  /** Line height as a multiple of the font size */
+  lineHeight: number;
+  paragraphSpacingPt: number;
+  nameFontSizePt: number;
+  /** Contact and links lines under the name */
+  contactFontSizePt: number;
+  headingFontSizePt: number;
+  bulletIndentPt: number;
+}
+
+export interface LayoutEstimate {
+  lines: number;
+  usedHeightPt: number;
+  availableHeightPt: number;
+  /** Share of one page used; above 1 means it spills onto a second page */
+  fillRatio: number;
+  fitsOnePage: boolean;
+  overflowLines: number;
+}
+
+/**
+ * Word's defaults on the A4 page every output uses (PAGE_SIZE in
+ * server/resumeThemes): 1in margins, 11pt body text at 1.15 line spacing and
+ * a 360-twip bullet indent. Template pages scale from it; each standard-mode
+ * theme overrides it with its own metrics.
+ */
+export const STANDARD_PAGE_LAYOUT: PageLayout = {
+  widthPt: 595.3,
+  heightPt: 841.9,
+  margins: { top: 72, right: 72, bottom: 72, left: 72 },
+  fontSizePt: 11,
+  lineHeight: 1.15,
+  paragraphSpacingPt: 0,
+  nameFontSizePt: 16,
+  contactFontSizePt: 11,
+  headingFontSizePt: 13,
+  bulletIndentPt: 18,
+};
+
+// Advance widths in ems for a Helvetica-like face, the one the PDF is set
+// in. Calibri runs narrower, so for DOCX output the estimate errs long.
+const NARROW_CHARS = new Set("iljtfrI.,;:'!|()[]{}\"`".split(""));
+const WIDE_CHARS = new Set("mwMW@%".split(""));
+const SPACE_WIDTH = 0.278;
+const NARROW_WIDTH = 0.3;
+const WIDE_WIDTH = 0.87;
+const DIGIT_WIDTH = 0.556;
+const UPPER_WIDTH = 0.68;
+const LOWER_WIDTH = 0.54;
+const BOLD_FACTOR = 1.09;
+
+function charWidthEm(char: string): number {
+  if (char === " " || char === "\t") return SPACE_WIDTH;
+  if (NARROW_CHARS.has(char)) return NARROW_WIDTH;
+  if (WIDE_CHARS.has(char)) return WIDE_WIDTH;
+  if (/[0-9]/.test(char)) return DIGIT_WIDTH;
+  if (/[A-Z]/.test(char)) return UPPER_WIDTH;
+  return LOWER_WIDTH;
+}
+
+export function measureTextPt(text: string, fontSizePt: number, bold = false): number {
+  let ems = 0;
+  for (const char of text) ems += charWidthEm(char);
+  return ems * fontSizePt * (bold ? BOLD_FACTOR : 1);
+}
+
+/**
+ * Greedy word wrap, the way Word breaks lines at spaces. A word wider than
+ * the line is split across as many lines as it needs.
+ */
+export function countWrappedLines(text: string, widthPt: number, fontSizePt: number, bold = false): number {
+  const words = text.split(/\s+/).filter(Boolean);
+  if (words.length === 0) return 1;
+
+  const spaceWidth = measureTextPt(" ", fontSizePt, bold);
+  let lines = 1;
+  let lineWidth = 0;
+  for (const word of words) {
+    const wordWidth = measureTextPt(word, fontSizePt, bold);
+    const needed = lineWidth === 0 ? wordWidth : lineWidth + spaceWidth + wordWidth;
+    if (needed <= widthPt) {
+      lineWidth = needed;
+      continue;
+    }
+    if (lineWidth > 0) lines += 1;
+    lines += Math.max(0, Math.ceil(wordWidth / widthPt) - 1);
+    lineWidth = wordWidth % widthPt || widthPt;
+  }
+  return lines;
+}
+
+/** Template page setup wins; otherwise the standard layout with the theme's metrics. */
+export function pageLayoutFor(fingerprint?: TemplateFingerprint, theme?: ResumeThemeId): PageLayout {
+  if (!fingerprint?.page) return { ...STANDARD_PAGE_LAYOUT, ...getResumeTheme(theme).layout };
+  const { widthPt, heightPt, margins, fontSizePt } = fingerprint.page;
+  const scale = fontSizePt / STANDARD_PAGE_LAYOUT.fontSizePt;
+  return {
+    ...STANDARD_PAGE_LAYOUT,
+    widthPt,
+    heightPt,
+    margins,
+    fontSizePt,
+    nameFontSizePt: STANDARD_PAGE_LAYOUT.nameFontSizePt * scale,
+    contactFontSizePt: fontSizePt,
+    headingFontSizePt: STANDARD_PAGE_LAYOUT.headingFontSizePt * scale,
+  };
+}
+
+type Block = { text: string; fontSizePt: number; bold?: boolean; indentPt?: number };
+
+function layoutBlocks(resume: TailoredResumeJson, layout: PageLayout): Block[] {
+  const body = (text: string, extra: Partial<Block> = {}): Block => ({ text, fontSizePt: layout.fontSizePt, ...extra });
+  const heading = (text: string): Block => ({ text, fontSizePt: layout.headingFontSizePt, bold: true });
+  const blank = body("");
+  const bullet = (text: string) => body(`• ${text}`, { indentPt: layout.bulletIndentPt });
+  const blocks: Block[] = [];
+
+  if (resume.header?.name) {
+    blocks.push({ text: resume.header.name, fontSizePt: layout.nameFontSizePt, bold: true });
+  }
+  const contact = [resume.header?.location, resume.header?.phone, resume.header?.email].filter(Boolean).join(" | ");
+  if (contact) blocks.push({ text: contact, fontSizePt: layout.contactFontSizePt });
+  const links = (resume.header?.links || []).filter(Boolean).join(" | ");
+  if (links) blocks.push({ text: links, fontSizePt: layout.contactFontSizePt });
+  if (blocks.length > 0) blocks.push(blank);
+
+  if (resume.summary) {
+    blocks.push(heading("SUMMARY"), body(resume.summary), blank);
+  }
+
+  if (resume.experience.length > 0) {
+    blocks.push(heading("EXPERIENCE"));
+    for (const exp of resume.experience) {
+      blocks.push(body(`${exp.title} | ${exp.company}`, { bold: true }));
+      if (exp.dates) blocks.push(body(exp.dates));
+      exp.bullets.forEach((text) => blocks.push(bullet(text)));
+      blocks.push(blank);
+    }
+  }
+
+  if (resume.projects && resume.projects.length > 0) {
+    blocks.push(heading("PROJECTS"));
+    for (const project of resume.projects) {
+      const technologies = project.technologies?.length ? ` | ${project.technologies.join(", ")}` : "";
+      blocks.push(body(`${project.title}${technologies}`, { bold: true }));
+      if (project.url) blocks.push(body(project.url));
+      project.bullets.forEach((text) => blocks.push(bullet(text)));
+      blocks.push(blank);
+    }
+  }
+
+  const skillLines = [
+    resume.skills.core?.length ? `Core: ${resume.skills.core.join(", ")}` : "",
+    resume.skills.tools?.length ? `Tools: ${resume.skills.tools.join(", ")}` : "",
+    resume.skills.domains?.length ? `Domains: ${resume.skills.domains.join(", ")}` : "",
+  ].filter(Boolean);
+  if (skillLines.length > 0) {
+    blocks.push(heading("SKILLS"), ...skillLines.map((text) => body(text)), blank);
+  }
+
+  if (resume.education && resume.education.length > 0) {
+    blocks.push(heading("EDUCATION"));
+    for (const edu of resume.education) {
+      blocks.push(body(`${edu.school} | ${edu.degree || "Degree"}`, { bold: true }));
+      if (edu.dates) blocks.push(body(edu.dates));
+      blocks.push(blank);
+    }
+  }
+
+  if (resume.certifications && resume.certifications.length > 0) {
+    blocks.push(heading("CERTIFICATIONS"), ...resume.certifications.map(bullet));
+  }
+
+  return blocks;
+}
+
+/**
+ * Predicts whether a resume fits on one page by wrapping every paragraph to
+ * the text width and stacking line heights.
+ */
+export function estimateResumeLayout(
+  resume: TailoredResumeJson,
+  layout: PageLayout = STANDARD_PAGE_LAYOUT
+): LayoutEstimate {
+  const textWidth = layout.widthPt - layout.margins.left - layout.margins.right;
+  const availableHeightPt = layout.heightPt - layout.margins.top - layout.margins.bottom;
+
+  let lines = 0;
+  let usedHeightPt = 0;
+  for (const block of layoutBlocks(resume, layout)) {
+    const count = countWrappedLines(block.text, textWidth - (block.indentPt || 0), block.fontSizePt, block.bold);
+    lines += count;
+    usedHeightPt += count * block.fontSizePt * layout.lineHeight + layout.paragraphSpacingPt;
+  }
+
+  const bodyLineHeight = layout.fontSizePt * layout.lineHeight;
+  return {
+    lines,
+    usedHeightPt,
+    availableHeightPt,
+    fillRatio: usedHeightPt / availableHeightPt,
+    fitsOnePage: usedHeightPt <= availableHeightPt,
+    overflowLines: Math.max(0, Math.ceil((usedHeightPt - availableHeightPt) / bodyLineHeight)),
+  };
+}
+
+export function formatLayoutEstimate(estimate: LayoutEstimate): string {
+  const percent = Math.round(estimate.fillRatio * 100);
+  return estimate.fitsOnePage
+    ? `Fits on one page · about ${percent}% of the page used`
+    : `Over one page by about ${estimate.overflowLines} line${estimate.overflowLines === 1 ? "" : "s"} (${percent}%)`;
+}
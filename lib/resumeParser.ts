@@ -1,8 +1,34 @@
 import { Alert } from "react-native";
-import { generateText } from "@rork-ai/toolkit-sdk";
 import { z } from "zod";
+import type { ContactInfo } from "../types/profile";
+import { generateJson, LlmJsonValidationError } from "./llmJson";
+import { attachResumeProvenance } from "./provenance";
 import { verifyAndCleanResumeExtraction } from "./sourceOfTruth";
 import { validateResumeTextBeforeParsing } from "./resumeTextExtractor";
+import { withStructuredDates } from "./tenure";
+
+const EMPTY_CONTACT: ContactInfo = { name: "", location: "", phone: "", email: "", links: [] };
+
+const contactSchema = z.object({
+  name: z.string().optional().default(""),
+  location: z.string().optional().default(""),
+  phone: z.string().optional().default(""),
+  email: z.string().optional().default(""),
+  links: z.array(z.string()).optional().default([]),
+});
+
+const yearMonthSchema = z.object({ year: z.number(), month: z.number() });
+
+// Attached after verification, never asked of the model
+const provenanceSchema = z.object({
+  origin: z.enum(["resume_parse", "chat_clarification", "chat_tool", "manual_entry"]),
+  recordedAt: z.string(),
+  assetId: z.string().optional(),
+  span: z.object({ start: z.number(), end: z.number() }).optional(),
+  excerpt: z.string().optional(),
+  answerKey: z.string().optional(),
+  toolName: z.string().optional(),
+});
 
 const experienceItemSchema = z.object({
   title: z.string().min(1, "Experience title is required"),
@@ -12,43 +38,65 @@ const experienceItemSchema = z.object({
   current: z.boolean().optional().default(false),
   description: z.string().optional().default(""),
   achievements: z.array(z.string()).optional().default([]),
+  // Read from startDate/endDate after verification, not asked of the model
+  startMonth: yearMonthSchema.optional(),
+  endMonth: yearMonthSchema.optional(),
+  provenance: z.array(provenanceSchema).optional(),
 });
 
 const skillItemSchema = z.object({
   name: z.string().min(1, "Skill name is required"),
   category: z.string().optional().default("General"),
+  provenance: z.array(provenanceSchema).optional(),
 });
 
 const certificationItemSchema = z.object({
   name: z.string().min(1, "Certification name is required"),
   issuer: z.string().optional().default(""),
   date: z.string().optional().default(""),
+  provenance: z.array(provenanceSchema).optional(),
+});
+
+const educationItemSchema = z.object({
+  school: z.string().min(1, "School name is required"),
+  degree: z.string().optional().default(""),
+  field: z.string().optional().default(""),
+  startDate: z.string().optional().default(""),
+  endDate: z.string().optional().default(""),
+  provenance: z.array(provenanceSchema).optional(),
 });
 
 const toolItemSchema = z.object({
   name: z.string().min(1, "Tool name is required"),
   category: z.string().optional().default("General"),
+  provenance: z.array(provenanceSchema).optional(),
 });
 
 const projectItemSchema = z.object({
   title: z.string().min(1, "Project title is required"),
   description: z.string().optional().default(""),
   technologies: z.array(z.string()).optional().default([]),
+  url: z.string().optional(),
+  provenance: z.array(provenanceSchema).optional(),
 });
 
 export const resumeSchema = z.object({
+  contact: contactSchema.optional().default(EMPTY_CONTACT),
   experience: z.array(experienceItemSchema).optional().default([]),
   skills: z.array(skillItemSchema).optional().default([]),
   certifications: z.array(certificationItemSchema).optional().default([]),
+  education: z.array(educationItemSchema).optional().default([]),
   tools: z.array(toolItemSchema).optional().default([]),
   projects: z.array(projectItemSchema).optional().default([]),
   domainExperience: z.array(z.string()).optional().default([]),
+  domainProvenance: z.record(z.string(), z.array(provenanceSchema)).optional(),
 });
 
 export type ResumeData = z.infer<typeof resumeSchema>;
 
 export async function parseResumeText(
-  input: string
+  input: string,
+  options: { assetId?: string } = {}
 ): Promise<ResumeData> {
   console.log("[parseResume] === START PARSE FUNCTION ===");
   console.log("[parseResume] Input text length:", input.length);
@@ -70,7 +118,7 @@ CRITICAL METADATA RULE:
 - If you see PDF structure, object markers, or file metadata, DO NOT extract it.
 
 HALLUCINATION RULE:
-- Do NOT invent or infer any job, company, title, date, skill, tool, certification, project, domain, or achievement that is not explicitly in the visible resume text.
+- Do NOT invent or infer any job, company, title, date, skill, tool, certification, school, degree, project, domain, or achievement that is not explicitly in the visible resume text.
 
 THOROUGHNESS RULE:
 - Extract as much as you can from what is actually written in the visible content.
@@ -81,6 +129,7 @@ OUTPUT:
 Return ONE valid JSON object ONLY (no markdown, no backticks) with this shape:
 
 {
+  "contact": { "name": "string", "location": "string", "phone": "string", "email": "string", "links": ["string"] },
   "experience": [{
     "title": "string",
     "company": "string",
@@ -92,14 +141,16 @@ Return ONE valid JSON object ONLY (no markdown, no backticks) with this shape:
   }],
   "skills": [{ "name": "string", "category": "string" }],
   "certifications": [{ "name": "string", "issuer": "string", "date": "string" }],
+  "education": [{ "school": "string", "degree": "string", "field": "string", "startDate": "string", "endDate": "string" }],
   "tools": [{ "name": "string", "category": "string" }],
-  "projects": [{ "title": "string", "description": "string", "technologies": ["string"] }],
+  "projects": [{ "title": "string", "description": "string", "technologies": ["string"], "url": "string" }],
   "domainExperience": ["string"]
 }
 
 Rules for missing values:
 - Use "" for unknown strings, [] for unknown arrays.
 - For current roles: current=true and endDate="".
+- contact is the candidate's own details from the top of the resume, copied exactly as written.
 - Do not include null/undefined.`;
 
   console.log("[parseResume] Calling AI with text content...");
@@ -109,77 +160,53 @@ Rules for missing values:
 ${input}
 <<<END_RESUME>>>`;
 
-  const aiResponse = await generateText({
-    messages: [
-      { role: "user", content: systemPrompt },
-      { role: "user", content: userContent as any }
-    ],
-  });
-
-  console.log("[parseResume] AI response received");
-  let aiText = typeof aiResponse === "string" ? aiResponse : (aiResponse as any)?.text || "";
-  aiText = aiText.trim();
-
-  console.log("[parseResume] Raw AI response (first 500 chars):", aiText.slice(0, 500));
-
-  if (aiText.startsWith("```")) {
-    console.log("[parseResume] Stripping markdown fences...");
-    aiText = aiText.replace(/^```(?:json)?\n?/, "").replace(/\n?```$/, "");
-  }
-
-  let parsed: any;
+  let validated: ResumeData;
   try {
-    parsed = JSON.parse(aiText);
-    console.log("[parseResume] JSON.parse succeeded");
-  } catch {
-    console.error("[parseResume] JSON.parse failed, attempting to extract first JSON object...");
-    const match = aiText.match(/\{[\s\S]*\}/);
-    if (match) {
-      parsed = JSON.parse(match[0]);
-      console.log("[parseResume] Extracted and parsed JSON object from response");
-    } else {
-      throw new Error("Could not parse AI response as JSON");
+    validated = await generateJson(
+      resumeSchema,
+      [
+        { role: "user", content: systemPrompt },
+        { role: "user", content: userContent },
+      ],
+      { label: "parseResume" }
+    );
+    console.log("[parseResume] AI response validated against schema");
+  } catch (error) {
+    if (!(error instanceof LlmJsonValidationError) || !error.value || typeof error.value !== "object") {
+      throw error;
     }
-  }
 
-  if (!parsed || typeof parsed !== "object") {
-    console.error("[parseResume] Parsed result is not an object:", parsed);
-    throw new Error("AI returned invalid response");
-  }
-
-  console.log("[parseResume] Parsed object keys:", Object.keys(parsed));
-  console.log("[parseResume] Parsed data preview:", JSON.stringify(parsed, null, 2).slice(0, 500));
-
-  console.log("[parseResume] Validating with Zod schema...");
-  const validationResult = resumeSchema.safeParse(parsed);
-  
-  if (!validationResult.success) {
-    console.warn("[parseResume] Zod validation failed:", validationResult.error);
-    console.warn("[parseResume] Validation errors:", JSON.stringify(validationResult.error.issues, null, 2));
+    console.warn("[parseResume] Schema repair exhausted, falling back to raw arrays for verification");
+    const parsed = error.value as any;
+    validated = {
+      contact: parsed.contact && typeof parsed.contact === "object" ? { ...EMPTY_CONTACT, ...parsed.contact } : EMPTY_CONTACT,
+      experience: Array.isArray(parsed.experience) ? parsed.experience : [],
+      skills: Array.isArray(parsed.skills) ? parsed.skills : [],
+      certifications: Array.isArray(parsed.certifications) ? parsed.certifications : [],
+      education: Array.isArray(parsed.education) ? parsed.education : [],
+      tools: Array.isArray(parsed.tools) ? parsed.tools : [],
+      projects: Array.isArray(parsed.projects) ? parsed.projects : [],
+      domainExperience: Array.isArray(parsed.domainExperience) ? parsed.domainExperience : [],
+    };
   }
 
-  const validated: ResumeData = validationResult.success 
-    ? validationResult.data 
-    : {
-        experience: Array.isArray(parsed.experience) ? parsed.experience : [],
-        skills: Array.isArray(parsed.skills) ? parsed.skills : [],
-        certifications: Array.isArray(parsed.certifications) ? parsed.certifications : [],
-        tools: Array.isArray(parsed.tools) ? parsed.tools : [],
-        projects: Array.isArray(parsed.projects) ? parsed.projects : [],
-        domainExperience: Array.isArray(parsed.domainExperience) ? parsed.domainExperience : [],
-      };
-
   console.log("[parseResume] Pre-verification counts:", {
     experience: validated.experience?.length || 0,
     skills: validated.skills?.length || 0,
     tools: validated.tools?.length || 0,
     certifications: validated.certifications?.length || 0,
+    education: validated.education?.length || 0,
     projects: validated.projects?.length || 0,
     domainExperience: validated.domainExperience?.length || 0,
   });
 
   console.log("[parseResume] Running verification against resume source...");
   const verified = verifyAndCleanResumeExtraction(input, validated);
+  verified.experience = verified.experience.map(withStructuredDates);
+  const undatedRoles = verified.experience.filter((exp) => !exp.startMonth).length;
+  if (undatedRoles > 0) {
+    console.warn(`[parseResume] ${undatedRoles} experience entries have a start date that can't be read`);
+  }
 
   const isNonTrivialResume = input.trim().length > 400;
   const nothingExtracted =
@@ -187,6 +214,7 @@ ${input}
     verified.skills.length === 0 &&
     verified.tools.length === 0 &&
     verified.certifications.length === 0 &&
+    verified.education.length === 0 &&
     verified.projects.length === 0 &&
     verified.domainExperience.length === 0;
 
@@ -199,29 +227,52 @@ ${input}
     );
   }
 
+  const withProvenance = attachResumeProvenance(verified, input, options.assetId);
+
   console.log("[parseResume] === END PARSE FUNCTION ===");
   console.log("[parseResume] Final verified counts:", {
     experience: verified.experience.length,
     skills: verified.skills.length,
     tools: verified.tools.length,
     certifications: verified.certifications.length,
+    education: verified.education.length,
     projects: verified.projects.length,
     domainExperience: verified.domainExperience.length,
   });
 
-  return verified;
+  return withProvenance;
+}
+
+/**
+ * Fills in contact fields the profile doesn't have yet from a parsed resume.
+ * Fields the user already set are never overwritten; new links are appended.
+ */
+export function mergeContactInfo(existing: ContactInfo, parsed: ContactInfo | undefined): ContactInfo {
+  if (!parsed) return existing;
+  const links = [...existing.links];
+  for (const link of parsed.links || []) {
+    if (!links.some((l) => l.trim().toLowerCase() === link.trim().toLowerCase())) links.push(link);
+  }
+  return {
+    name: existing.name || parsed.name || "",
+    location: existing.location || parsed.location || "",
+    phone: existing.phone || parsed.phone || "",
+    email: existing.email || parsed.email || "",
+    links,
+  };
 }
 
 export function showParseSuccessAlert(parsed: ResumeData, onTailorPress: () => void) {
   const experience = parsed?.experience || [];
   const skills = parsed?.skills || [];
   const certifications = parsed?.certifications || [];
+  const education = parsed?.education || [];
   const tools = parsed?.tools || [];
   const projects = parsed?.projects || [];
 
   Alert.alert(
     "Resume Parsed",
-    `Parsed successfully!\n\nExtracted:\n- ${experience.length} experiences\n- ${skills.length} skills\n- ${certifications.length} certifications\n- ${tools.length} tools\n- ${projects.length} projects\n\nWould you like to tailor this resume to a job posting now?`,
+    `Parsed successfully!\n\nExtracted:\n- ${experience.length} experiences\n- ${skills.length} skills\n- ${certifications.length} certifications\n- ${education.length} education entries\n- ${tools.length} tools\n- ${projects.length} projects\n\nWould you like to tailor this resume to a job posting now?`,
     [
       {
         text: "Tailor to Job",
@@ -0,0 +1,62 @@
+import type { PageLayout } from "./resumeLayout";
+
+export type ResumeThemeId = "classic" | "compact" | "modern";
+
+export interface ResumeTheme {
+  id: ResumeThemeId;
+  label: string;
+  description: string;
+  /** Every metric of the theme in server/resumeThemes.js the renderers size text by */
+  layout: Pick<
+    PageLayout,
+    "margins" | "fontSizePt" | "lineHeight" | "nameFontSizePt" | "contactFontSizePt" | "headingFontSizePt"
+  >;
+}
+
+export const DEFAULT_RESUME_THEME: ResumeThemeId = "classic";
+
+export const RESUME_THEMES: ResumeTheme[] = [
+  {
+    id: "classic",
+    label: "Classic",
+    description: "Centered name, dates under each role, roomy spacing",
+    layout: {
+      margins: { top: 72, right: 72, bottom: 72, left: 72 },
+      fontSizePt: 11,
+      lineHeight: 1.25,
+      nameFontSizePt: 20,
+      contactFontSizePt: 10,
+      headingFontSizePt: 13,
+    },
+  },
+  {
+    id: "compact",
+    label: "Compact",
+    description: "Small type and narrow margins, skills first, dates on the right",
+    layout: {
+      margins: { top: 43.2, right: 43.2, bottom: 43.2, left: 43.2 },
+      fontSizePt: 10,
+      lineHeight: 1.15,
+      nameFontSizePt: 16,
+      contactFontSizePt: 9,
+      headingFontSizePt: 11,
+    },
+  },
+  {
+    id: "modern",
+    label: "Modern",
+    description: "Left-aligned name, accent-colored ruled headings, dates on the right",
+    layout: {
+      margins: { top: 54, right: 54, bottom: 54, left: 54 },
+      fontSizePt: 10.5,
+      lineHeight: 1.3,
+      nameFontSizePt: 24,
+      contactFontSizePt: 10,
+      headingFontSizePt: 12,
+    },
+  },
+];
+
+export function getResumeTheme(id?: string): ResumeTheme {
+  return RESUME_THEMES.find((theme) => theme.id === id) || RESUME_THEMES[0];
+}
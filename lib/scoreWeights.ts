@@ -0,0 +1,35 @@
+import { SCORE_WEIGHTS } from "../memory/defaults";
+import type { ScoreDimension, ScoreWeights, UserProfile } from "../types/profile";
+
+export const DEFAULT_SCORE_WEIGHTS: ScoreWeights = SCORE_WEIGHTS;
+
+export const SCORE_DIMENSIONS: { key: ScoreDimension; label: string }[] = [
+  { key: "experienceAlignment", label: "Experience Alignment" },
+  { key: "technicalSkillMatch", label: "Technical Skill Match" },
+  { key: "domainRelevance", label: "Domain Relevance" },
+  { key: "stageCulturalFit", label: "Stage/Cultural Fit" },
+  { key: "impactPotential", label: "Impact Potential" },
+];
+
+export function normalizeScoreWeights(weights: ScoreWeights): ScoreWeights {
+  const total = SCORE_DIMENSIONS.reduce((sum, { key }) => sum + Math.max(0, weights[key] || 0), 0);
+  if (total <= 0) return { ...DEFAULT_SCORE_WEIGHTS };
+
+  return SCORE_DIMENSIONS.reduce(
+    (acc, { key }) => ({ ...acc, [key]: Math.max(0, weights[key] || 0) / total }),
+    {} as ScoreWeights
+  );
+}
+
+export function resolveScoreWeights(profile: Pick<UserProfile, "scoreWeights">): ScoreWeights {
+  return profile.scoreWeights ? normalizeScoreWeights(profile.scoreWeights) : { ...DEFAULT_SCORE_WEIGHTS };
+}
+
+export function computeOverallScore(scores: Record<ScoreDimension, number>, weights: ScoreWeights): number {
+  const overall = SCORE_DIMENSIONS.reduce((sum, { key }) => sum + (scores[key] || 0) * weights[key], 0);
+  return Math.max(0, Math.min(100, Math.round(overall)));
+}
+
+export function formatScoreWeights(weights: ScoreWeights): string {
+  return SCORE_DIMENSIONS.map(({ key, label }) => `${label} ${Math.round(weights[key] * 100)}%`).join(" · ");
+}
@@ -0,0 +1,149 @@
+import type { SkillAlias } from "../types/profile";
+
+export interface SkillTaxonomyEntry {
+  canonical: string;
+  aliases: string[];
+  /** One of SKILL_CATEGORIES in memory/defaults.js */
+  category: string;
+}
+
+/**
+ * Canonical names, aliases and categories for COMMON_SKILLS and the tools that
+ * usually sit next to them. Spellings that differ only in punctuation or
+ * spacing ("Node.js", "NodeJS", "node js") already share a key, so aliases
+ * only need to cover real alternatives.
+ */
+export const SKILL_TAXONOMY: SkillTaxonomyEntry[] = [
+  { canonical: "JavaScript", aliases: ["JS", "ECMAScript", "ES6", "ES2015"], category: "Programming Languages" },
+  { canonical: "TypeScript", aliases: ["TS"], category: "Programming Languages" },
+  { canonical: "Python", aliases: ["Python3", "Python 3"], category: "Programming Languages" },
+  { canonical: "Java", aliases: [], category: "Programming Languages" },
+  { canonical: "C++", aliases: ["CPP", "C Plus Plus"], category: "Programming Languages" },
+  { canonical: "C#", aliases: ["C Sharp", "CSharp"], category: "Programming Languages" },
+  { canonical: "Go", aliases: ["Golang"], category: "Programming Languages" },
+  { canonical: "Rust", aliases: [], category: "Programming Languages" },
+  { canonical: "Kotlin", aliases: [], category: "Programming Languages" },
+  { canonical: "Swift", aliases: [], category: "Programming Languages" },
+  { canonical: "React", aliases: ["React.js", "ReactJS"], category: "Frameworks" },
+  { canonical: "React Native", aliases: ["RN"], category: "Frameworks" },
+  { canonical: "Angular", aliases: ["AngularJS", "Angular.js"], category: "Frameworks" },
+  { canonical: "Vue", aliases: ["Vue.js", "VueJS"], category: "Frameworks" },
+  { canonical: "Next.js", aliases: ["NextJS"], category: "Frameworks" },
+  { canonical: "Node.js", aliases: [], category: "Frameworks" },
+  { canonical: "Express", aliases: ["Express.js", "ExpressJS"], category: "Frameworks" },
+  { canonical: "Django", aliases: [], category: "Frameworks" },
+  { canonical: "Flask", aliases: [], category: "Frameworks" },
+  { canonical: "Spring Boot", aliases: [], category: "Frameworks" },
+  { canonical: "SQL", aliases: [], category: "Databases" },
+  { canonical: "MongoDB", aliases: ["Mongo"], category: "Databases" },
+  { canonical: "PostgreSQL", aliases: ["Postgres", "PSQL"], category: "Databases" },
+  { canonical: "MySQL", aliases: [], category: "Databases" },
+  { canonical: "Redis", aliases: [], category: "Databases" },
+  { canonical: "AWS", aliases: ["Amazon Web Services"], category: "Cloud & DevOps" },
+  { canonical: "Azure", aliases: ["Microsoft Azure"], category: "Cloud & DevOps" },
+  { canonical: "GCP", aliases: ["Google Cloud", "Google Cloud Platform"], category: "Cloud & DevOps" },
+  { canonical: "Docker", aliases: [], category: "Cloud & DevOps" },
+  { canonical: "Kubernetes", aliases: ["K8s"], category: "Cloud & DevOps" },
+  { canonical: "Terraform", aliases: [], category: "Cloud & DevOps" },
+  { canonical: "CI/CD", aliases: ["Continuous Integration", "Continuous Delivery"], category: "Cloud & DevOps" },
+  { canonical: "Git", aliases: [], category: "Tools" },
+  { canonical: "Jira", aliases: [], category: "Tools" },
+  { canonical: "REST API", aliases: ["RESTful", "RESTful API", "REST APIs"], category: "General" },
+  { canonical: "GraphQL", aliases: [], category: "General" },
+  { canonical: "Microservices", aliases: ["Microservice Architecture"], category: "General" },
+  { canonical: "Machine Learning", aliases: ["ML"], category: "General" },
+  { canonical: "Deep Learning", aliases: ["DL"], category: "General" },
+  { canonical: "Data Science", aliases: [], category: "General" },
+  { canonical: "Analytics", aliases: ["Data Analytics"], category: "General" },
+];
+
+// Short aliases like "JS" or "ML" are fine for whole-name comparisons but
+// match far too much inside longer text. Aliases that are ordinary words
+// ("Node", "Spring", "REST") are left out of the list for the same reason.
+const MIN_PHRASE_VARIANT_LENGTH = 3;
+
+/**
+ * Comparison key for a skill name: lower case with punctuation and spaces
+ * dropped, keeping "+" and "#" so C, C++ and C# stay apart.
+ */
+export function skillKey(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/\+/g, "plus")
+    .replace(/#/g, "sharp")
+    .replace(/[^a-z0-9]/g, "");
+}
+
+function buildIndex(customAliases: SkillAlias[]): Map<string, SkillTaxonomyEntry> {
+  const index = new Map<string, SkillTaxonomyEntry>();
+  const add = (entry: SkillTaxonomyEntry) => {
+    for (const name of [entry.canonical, ...entry.aliases]) {
+      const key = skillKey(name);
+      if (key && !index.has(key)) index.set(key, entry);
+    }
+  };
+  // Copies, so user aliases never change the bundled list
+  SKILL_TAXONOMY.map((entry) => ({ ...entry, aliases: [...entry.aliases] })).forEach(add);
+
+  // User aliases extend a bundled entry, or group names under a canonical
+  // name the taxonomy doesn't know
+  for (const { alias, canonical } of customAliases) {
+    const aliasKey = skillKey(alias);
+    const canonicalKey = skillKey(canonical);
+    if (!aliasKey || !canonicalKey || aliasKey === canonicalKey) continue;
+
+    let entry = index.get(canonicalKey);
+    if (!entry) {
+      entry = { canonical: canonical.trim(), aliases: [], category: "General" };
+      index.set(canonicalKey, entry);
+    }
+    entry.aliases.push(alias.trim());
+    index.set(aliasKey, entry);
+  }
+  return index;
+}
+
+let taxonomyIndex = buildIndex([]);
+
+/**
+ * Installs the active profile's own aliases next to the bundled taxonomy.
+ * The profile context calls this whenever the profile's aliases change.
+ */
+export function setCustomSkillAliases(aliases: SkillAlias[]): void {
+  taxonomyIndex = buildIndex(aliases);
+}
+
+export function findSkill(name: string): SkillTaxonomyEntry | undefined {
+  return taxonomyIndex.get(skillKey(name));
+}
+
+export function canonicalSkillName(name: string): string {
+  return findSkill(name)?.canonical ?? name.trim();
+}
+
+/** Key that is shared by every spelling and alias of the same skill */
+export function canonicalSkillKey(name: string): string {
+  return skillKey(canonicalSkillName(name));
+}
+
+export function sameSkill(a: string, b: string): boolean {
+  const key = canonicalSkillKey(a);
+  return key.length > 0 && key === canonicalSkillKey(b);
+}
+
+export function categoryOfSkill(name: string): string | undefined {
+  return findSkill(name)?.category;
+}
+
+/**
+ * The name itself plus its canonical name and aliases, each also without its
+ * dots, dashes and slashes ("Node.js" and "Nodejs"), for finding a skill in
+ * free text. Aliases too short to search for safely are left out.
+ */
+export function skillVariants(name: string): string[] {
+  const entry = findSkill(name);
+  const names = entry
+    ? [name, ...[entry.canonical, ...entry.aliases].filter((variant) => skillKey(variant).length >= MIN_PHRASE_VARIANT_LENGTH)]
+    : [name];
+  return Array.from(new Set(names.flatMap((variant) => [variant, variant.replace(/[.\-_/]/g, "")])));
+}
@@ -1,4 +1,5 @@
 import type { ResumeData } from "./resumeParser";
+import { canonicalSkillKey, categoryOfSkill, skillVariants } from "./skillTaxonomy";
 
 export function normalizeText(s: string): string {
   return s
@@ -20,6 +21,17 @@ export function resumeContains(resumeText: string, needle: string): boolean {
   return normalizedResume.includes(normalizedNeedle);
 }
 
+/** Like resumeContains, but any spelling or alias of the skill counts. */
+export function resumeMentionsSkill(resumeText: string, skill: string): boolean {
+  return skillVariants(skill).some((variant) => resumeContains(resumeText, variant));
+}
+
+/** The model's category, or the taxonomy's when the model gave none */
+function categoryFor(name: string, category: string | undefined): string {
+  const given = (category || "").trim();
+  return given && given !== "General" ? given : categoryOfSkill(name) || "General";
+}
+
 export function verifyAndCleanResumeExtraction(
   resumeText: string,
   parsed: ResumeData
@@ -31,10 +43,26 @@ export function verifyAndCleanResumeExtraction(
     skillsCount: parsed.skills?.length || 0,
     toolsCount: parsed.tools?.length || 0,
     certificationsCount: parsed.certifications?.length || 0,
+    educationCount: parsed.education?.length || 0,
     projectsCount: parsed.projects?.length || 0,
     domainsCount: parsed.domainExperience?.length || 0,
   });
 
+  // Scalar fields that don't appear in the resume are blanked rather than
+  // dropping the entity they belong to
+  const keepIfInResume = (value: string | undefined) => {
+    const trimmed = (value || "").trim();
+    return trimmed && resumeContains(resumeText, trimmed) ? trimmed : "";
+  };
+
+  const contact = {
+    name: keepIfInResume(parsed.contact?.name),
+    location: keepIfInResume(parsed.contact?.location),
+    phone: keepIfInResume(parsed.contact?.phone),
+    email: keepIfInResume(parsed.contact?.email),
+    links: (parsed.contact?.links || []).map((link) => keepIfInResume(link)).filter(Boolean),
+  };
+
   const experiences = (parsed.experience || [])
     .map((exp) => ({
       ...exp,
@@ -69,14 +97,14 @@ export function verifyAndCleanResumeExtraction(
     .map((skill) => ({
       ...skill,
       name: (skill.name || "").trim(),
-      category: (skill.category || "General").trim(),
+      category: categoryFor(skill.name || "", skill.category),
     }))
     .filter((skill) => {
       if (!skill.name) {
         return false;
       }
 
-      const skillInResume = resumeContains(resumeText, skill.name);
+      const skillInResume = resumeMentionsSkill(resumeText, skill.name);
 
       if (!skillInResume) {
         console.log(`[verifyAndClean] HALLUCINATION DETECTED: Skill "${skill.name}" not found in resume`);
@@ -87,8 +115,8 @@ export function verifyAndCleanResumeExtraction(
     });
 
   const uniqueSkills = skills.reduce((acc, skill) => {
-    const normalized = normalizeText(skill.name);
-    if (!acc.some((s) => normalizeText(s.name) === normalized)) {
+    const key = canonicalSkillKey(skill.name);
+    if (!acc.some((s) => canonicalSkillKey(s.name) === key)) {
       acc.push(skill);
     }
     return acc;
@@ -98,14 +126,14 @@ export function verifyAndCleanResumeExtraction(
     .map((tool) => ({
       ...tool,
       name: (tool.name || "").trim(),
-      category: (tool.category || "General").trim(),
+      category: categoryFor(tool.name || "", tool.category),
     }))
     .filter((tool) => {
       if (!tool.name) {
         return false;
       }
 
-      const toolInResume = resumeContains(resumeText, tool.name);
+      const toolInResume = resumeMentionsSkill(resumeText, tool.name);
 
       if (!toolInResume) {
         console.log(`[verifyAndClean] HALLUCINATION DETECTED: Tool "${tool.name}" not found in resume`);
@@ -116,8 +144,8 @@ export function verifyAndCleanResumeExtraction(
     });
 
   const uniqueTools = tools.reduce((acc, tool) => {
-    const normalized = normalizeText(tool.name);
-    if (!acc.some((t) => normalizeText(t.name) === normalized)) {
+    const key = canonicalSkillKey(tool.name);
+    if (!acc.some((t) => canonicalSkillKey(t.name) === key)) {
       acc.push(tool);
     }
     return acc;
@@ -145,12 +173,40 @@ export function verifyAndCleanResumeExtraction(
       return true;
     });
 
+  // A school must appear in the resume; its degree, field and dates are kept
+  // only when they do too
+  const education = (parsed.education || [])
+    .map((edu) => ({
+      ...edu,
+      school: (edu.school || "").trim(),
+      degree: keepIfInResume(edu.degree),
+      field: keepIfInResume(edu.field),
+      startDate: keepIfInResume(edu.startDate),
+      endDate: keepIfInResume(edu.endDate),
+    }))
+    .filter((edu) => {
+      if (!edu.school) {
+        return false;
+      }
+
+      const schoolInResume = resumeContains(resumeText, edu.school);
+
+      if (!schoolInResume) {
+        console.log(`[verifyAndClean] HALLUCINATION DETECTED: School "${edu.school}" not found in resume`);
+        return false;
+      }
+
+      return true;
+    });
+
   const projects = (parsed.projects || [])
     .map((project) => ({
       ...project,
       title: (project.title || "").trim(),
       description: (project.description || "").trim(),
       technologies: (project.technologies || []).map((t) => String(t || "").trim()).filter(Boolean),
+      // Links are kept only when they appear in the resume text
+      url: project.url?.trim() && resumeContains(resumeText, project.url.trim()) ? project.url.trim() : undefined,
     }))
     .filter((project) => {
       if (!project.title) {
@@ -186,19 +242,23 @@ export function verifyAndCleanResumeExtraction(
     });
 
   const verified: ResumeData = {
+    contact,
     experience: experiences,
     skills: uniqueSkills,
     certifications,
+    education,
     tools: uniqueTools,
     projects,
     domainExperience,
   };
 
   console.log("[verifyAndClean] Verification complete. Output:", {
+    contactFields: Object.values(contact).filter((value) => value.length > 0).length,
     experienceCount: experiences.length,
     skillsCount: uniqueSkills.length,
     toolsCount: uniqueTools.length,
     certificationsCount: certifications.length,
+    educationCount: education.length,
     projectsCount: projects.length,
     domainsCount: domainExperience.length,
   });
@@ -1,5 +1,11 @@
-import { generateText } from "@rork-ai/toolkit-sdk";
-import type { UserProfile, JobPosting } from "../types/profile";
+import { z } from "zod";
+import type { UserProfile, JobPosting, Project, Education, ContactInfo } from "../types/profile";
+import { termsMatch } from "./fitScoring";
+import { generateJson } from "./llmJson";
+import { applyAuditReplacements, auditTailoredResume, findRole, formatRoleDates, type AuditFinding } from "./resumeAudit";
+import { estimateResumeLayout, pageLayoutFor, type LayoutEstimate } from "./resumeLayout";
+import type { ResumeThemeId } from "./resumeThemes";
+import { normalizeText } from "./sourceOfTruth";
 
 export interface TailoredResumeJson {
   header: {
@@ -16,6 +22,13 @@ export interface TailoredResumeJson {
     dates?: string;
     bullets: string[];
   }[];
+  projects?: {
+    title: string;
+    technologies?: string[];
+    /** Copied from the profile project, never generated */
+    url?: string;
+    bullets: string[];
+  }[];
   skills: {
     core?: string[];
     tools?: string[];
@@ -29,35 +42,122 @@ export interface TailoredResumeJson {
   certifications?: string[];
 }
 
+const tailoredResumeSchema = z.object({
+  summary: z.string().optional(),
+  experience: z
+    .array(
+      z.object({
+        company: z.string().min(1, "Company is required"),
+        title: z.string().min(1, "Title is required"),
+        dates: z.string().optional(),
+        bullets: z.array(z.string()).optional().default([]),
+      })
+    )
+    .optional()
+    .default([]),
+  projects: z
+    .array(
+      z.object({
+        title: z.string().min(1, "Project title is required"),
+        technologies: z.array(z.string()).optional(),
+        url: z.string().optional(),
+        bullets: z.array(z.string()).optional().default([]),
+      })
+    )
+    .optional(),
+  skills: z
+    .object({
+      core: z.array(z.string()).optional(),
+      tools: z.array(z.string()).optional(),
+      domains: z.array(z.string()).optional(),
+    })
+    .optional()
+    .default({}),
+  education: z
+    .array(
+      z.object({
+        school: z.string().min(1, "School is required"),
+        degree: z.string().optional(),
+        dates: z.string().optional(),
+      })
+    )
+    .optional(),
+  certifications: z.array(z.string()).optional(),
+});
+
+export interface TemplateFingerprintEntry {
+  company?: string;
+  title?: string;
+  dates?: string;
+  headerLineCount?: number;
+  bulletCount: number;
+  /** Length of each original bullet, in order */
+  bulletCharBudgets: number[];
+  /** Word numbering format ("bullet", "decimal", ...) or "glyph" for typed bullet characters */
+  bulletFormat?: string;
+  inTable?: boolean;
+}
+
+/** Page geometry in points, read from the template's section properties */
+export interface TemplatePageSetup {
+  widthPt: number;
+  heightPt: number;
+  margins: { top: number; right: number; bottom: number; left: number };
+  fontSizePt: number;
+}
+
 export interface TemplateFingerprint {
   hasSummary: boolean;
   sectionOrder: string[];
-  experience: {
-    company?: string;
-    title?: string;
-    bulletCount: number;
-    bulletCharBudgets: number[];
-  }[];
+  experience: TemplateFingerprintEntry[];
+  summaryCharBudget?: number;
   totalCharBudget: number;
+  page?: TemplatePageSetup;
+  /** "structure" when read from the DOCX paragraphs and numbering */
+  source?: "structure";
+}
+
+function describeTemplateEntry(entry: TemplateFingerprintEntry): string {
+  const role = [entry.title, entry.company].filter(Boolean).join(" at ");
+  return role ? ` (template slot originally "${role}"${entry.dates ? `, ${entry.dates}` : ""})` : "";
 }
 
 export interface GenerateResumeOptions {
   mode: "standard" | "template";
   templateFingerprint?: TemplateFingerprint;
   enforceOnePage: boolean;
+  /** Standard-mode layout; classic when not set */
+  theme?: ResumeThemeId;
 }
 
-export async function generateTailoredResumeJson(
-  profile: UserProfile,
-  job: JobPosting,
-  extractedResumeText: string,
-  options: GenerateResumeOptions
-): Promise<TailoredResumeJson> {
-  console.log("[tailoredResumeGenerator] Starting generation");
-  console.log("[tailoredResumeGenerator] Mode:", options.mode);
-  console.log("[tailoredResumeGenerator] Enforce one page:", options.enforceOnePage);
+/**
+ * Orders projects by how many of the posting's skills they use or mention,
+ * with required skills counting double. Ties keep the profile's order.
+ */
+export function rankProjectsForJob(projects: Project[], job: JobPosting): Project[] {
+  const score = (project: Project) => {
+    const terms = [project.title, project.description, ...project.technologies].filter(Boolean);
+    const hits = (skills: string[]) => skills.filter((skill) => terms.some((term) => termsMatch(skill, term))).length;
+    return hits(job.requiredSkills || []) * 2 + hits(job.preferredSkills || []);
+  };
+  return projects
+    .map((project, index) => ({ project, index, score: score(project) }))
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .map(({ project }) => project);
+}
+
+function formatDegree(edu: Education): string {
+  return edu.degree && edu.field ? `${edu.degree} in ${edu.field}` : edu.degree || edu.field;
+}
 
-  const profileSummary = {
+function formatEducationDates(edu: Education): string {
+  return edu.startDate && edu.endDate ? `${edu.startDate} – ${edu.endDate}` : edu.endDate || edu.startDate;
+}
+
+/** Projects come most relevant first when a job is given. */
+export function buildProfileSummary(profile: UserProfile, job?: JobPosting) {
+  const projects = job ? rankProjectsForJob(profile.projects, job) : profile.projects;
+  return {
     experience: profile.experience.map((exp) => ({
       title: exp.title,
       company: exp.company,
@@ -74,8 +174,34 @@ export async function generateTailoredResumeJson(
       issuer: c.issuer,
       date: c.date,
     })),
+    education: profile.education.map((e) => ({
+      school: e.school,
+      degree: formatDegree(e),
+      dates: formatEducationDates(e),
+    })),
+    projects: projects.map((p) => ({
+      title: p.title,
+      description: p.description,
+      technologies: p.technologies,
+      url: p.url,
+    })),
     domainExperience: profile.domainExperience,
   };
+}
+
+export async function generateTailoredResumeJson(
+  profile: UserProfile,
+  job: JobPosting,
+  extractedResumeText: string,
+  options: GenerateResumeOptions
+): Promise<TailoredResumeJson> {
+  console.log("[tailoredResumeGenerator] Starting generation");
+  console.log("[tailoredResumeGenerator] Mode:", options.mode);
+  console.log("[tailoredResumeGenerator] Enforce one page:", options.enforceOnePage);
+
+  if (!hasContactName(profile.contact)) throw new Error(MISSING_CONTACT_NAME_MESSAGE);
+
+  const profileSummary = buildProfileSummary(profile, job);
 
   const jobRequirements = {
     title: job.title,
@@ -119,9 +245,11 @@ You are generating content to fit within an existing resume template that MUST s
 - Has summary section: ${fp.hasSummary}
 - Section order: ${fp.sectionOrder.join(" → ")}
 - Experience entries: EXACTLY ${fp.experience.length} (do NOT add or remove entries)
+- Has projects section: ${fp.sectionOrder.includes("projects") ? "true (at most 2 projects)" : "false - do NOT include projects"}${fp.summaryCharBudget ? `
+- Summary: at most ${fp.summaryCharBudget} characters` : ""}
 
 PER-ENTRY BULLET CONSTRAINTS (STRICT):
-${fp.experience.map((exp, idx) => `  Entry ${idx + 1}: EXACTLY ${exp.bulletCount} bullets
+${fp.experience.map((exp, idx) => `  Entry ${idx + 1}${describeTemplateEntry(exp)}: EXACTLY ${exp.bulletCount} bullets
     Character limits per bullet: ${exp.bulletCharBudgets.map((budget, i) => `#${i + 1}: ${budget} chars`).join(", ")}`).join('\n')}
 
 CRITICAL RULES:
@@ -132,6 +260,7 @@ CRITICAL RULES:
 5. If profile has more experiences than template slots, choose the most relevant ${fp.experience.length} for this job
 6. Use concise, impactful language to stay within character budgets
 7. Remove filler words ("responsible for", "helped to", etc.) to save space
+8. The original role named for each slot shows the layout only - fill slots in order with the chosen profile experiences
 `;
   } else {
     prompt += `
@@ -142,6 +271,7 @@ STANDARD MODE:
 - Total resume should fit on 1 page when rendered
 - Prioritize quality and impact over quantity
 - Select the 2-3 most relevant experiences for this job
+- Include up to 2 projects (listed most relevant first) when they show skills the job asks for, with 1-2 bullets each
 `;
   }
 
@@ -150,13 +280,6 @@ OUTPUT FORMAT:
 Return ONLY valid JSON (no markdown, no backticks) with this exact structure:
 
 {
-  "header": {
-    "name": "Candidate Name",
-    "location": "City, State",
-    "phone": "phone number",
-    "email": "email",
-    "links": ["LinkedIn", "Portfolio", etc.]
-  },
   "summary": "Optional brief summary (2-3 sentences) if template includes it",
   "experience": [
     {
@@ -166,6 +289,13 @@ Return ONLY valid JSON (no markdown, no backticks) with this exact structure:
       "bullets": ["achievement 1", "achievement 2", ...]
     }
   ],
+  "projects": [
+    {
+      "title": "Project Title",
+      "technologies": ["tech1", "tech2"],
+      "bullets": ["what it does and why it matters for this job"]
+    }
+  ],
   "skills": {
     "core": ["skill1", "skill2", ...],
     "tools": ["tool1", "tool2", ...],
@@ -183,62 +313,31 @@ Return ONLY valid JSON (no markdown, no backticks) with this exact structure:
 
 RULES:
 1. Use ONLY experiences from the candidate profile
-2. Extract header info from the resume text if available
-3. Tailor bullet points to highlight relevance to the job
-4. Keep content concise and impactful
-5. Prioritize quality over quantity
-6. Do NOT invent experiences, companies, or roles
+2. Tailor bullet points to highlight relevance to the job
+3. Keep content concise and impactful
+4. Prioritize quality over quantity
+5. Do NOT invent experiences, companies, or roles
+6. Order each entry's bullets from most to least relevant to this job
+7. Projects must come from the profile's projects with their titles unchanged, naming only that project's technologies; leave out links, they are added from the profile
+8. Education must come from the profile's education only; leave it out when the profile has none
 `;
 
   console.log("[tailoredResumeGenerator] Calling AI...");
-  const aiResponse = await generateText({
-    messages: [
-      {
-        role: "user",
-        content: prompt,
-      },
-    ],
-  });
-
-  console.log("[tailoredResumeGenerator] AI response received");
-  let aiText = typeof aiResponse === "string" ? aiResponse : (aiResponse as any)?.text || "";
-  aiText = aiText.trim();
-
-  console.log("[tailoredResumeGenerator] Raw response (first 500 chars):", aiText.slice(0, 500));
-
-  if (aiText.startsWith("```")) {
-    console.log("[tailoredResumeGenerator] Stripping markdown fences...");
-    aiText = aiText.replace(/^```(?:json)?\n?/, "").replace(/\n?```$/, "");
-  }
-
-  let parsed: any;
-  try {
-    parsed = JSON.parse(aiText);
-    console.log("[tailoredResumeGenerator] JSON.parse succeeded");
-  } catch {
-    console.error("[tailoredResumeGenerator] JSON.parse failed, attempting to extract...");
-    const match = aiText.match(/\{[\s\S]*\}/);
-    if (match) {
-      parsed = JSON.parse(match[0]);
-      console.log("[tailoredResumeGenerator] Extracted and parsed JSON");
-    } else {
-      throw new Error("Could not parse AI response as JSON");
-    }
-  }
+  const parsed = await generateJson(tailoredResumeSchema, prompt, { label: "tailoredResumeGenerator" });
 
   console.log("[tailoredResumeGenerator] Generated resume preview:");
-  console.log("[tailoredResumeGenerator] Experience count:", parsed.experience?.length || 0);
-  console.log("[tailoredResumeGenerator] Bullet counts per entry:", parsed.experience?.map((e: any) => e.bullets?.length || 0) || []);
-  console.log("[tailoredResumeGenerator] Skills count:", Object.keys(parsed.skills || {}).length);
+  console.log("[tailoredResumeGenerator] Experience count:", parsed.experience.length);
+  console.log("[tailoredResumeGenerator] Bullet counts per entry:", parsed.experience.map((e) => e.bullets.length));
+  console.log("[tailoredResumeGenerator] Skills count:", Object.keys(parsed.skills).length);
 
   if (options.mode === "template" && options.templateFingerprint) {
     const fp = options.templateFingerprint;
-    if (parsed.experience?.length > fp.experience.length) {
+    if (parsed.experience.length > fp.experience.length) {
       console.warn(`[tailoredResumeGenerator] WARNING: Generated ${parsed.experience.length} experiences but template has ${fp.experience.length}. Trimming to fit.`);
       parsed.experience = parsed.experience.slice(0, fp.experience.length);
     }
     
-    parsed.experience?.forEach((exp: any, idx: number) => {
+    parsed.experience.forEach((exp, idx) => {
       const templateEntry = fp.experience[idx];
       if (!templateEntry) return;
       
@@ -246,34 +345,24 @@ RULES:
         console.warn(`[tailoredResumeGenerator] WARNING: Entry ${idx + 1} has ${exp.bullets.length} bullets but template has ${templateEntry.bulletCount}. Trimming.`);
         exp.bullets = exp.bullets.slice(0, templateEntry.bulletCount);
       }
-      
-      exp.bullets = exp.bullets.map((bullet: string, bulletIdx: number) => {
-        const charBudget = templateEntry.bulletCharBudgets[bulletIdx];
-        if (charBudget && bullet.length > charBudget) {
-          console.warn(`[tailoredResumeGenerator] WARNING: Entry ${idx + 1}, bullet ${bulletIdx + 1} is ${bullet.length} chars but budget is ${charBudget}. Truncating.`);
-          return bullet.slice(0, charBudget - 3) + "...";
-        }
-        return bullet;
-      });
     });
   }
 
-  const result: TailoredResumeJson = {
-    header: parsed.header || {
-      name: "Candidate",
-      email: "",
-    },
+  let result: TailoredResumeJson = {
+    header: contactHeader(profile.contact),
     summary: parsed.summary,
-    experience: Array.isArray(parsed.experience) ? parsed.experience : [],
-    skills: parsed.skills || {},
-    education: Array.isArray(parsed.education) ? parsed.education : undefined,
-    certifications: Array.isArray(parsed.certifications) ? parsed.certifications : undefined,
+    experience: parsed.experience,
+    projects: allowsProjects(options) ? groundProjects(parsed.projects, profile) : undefined,
+    skills: parsed.skills,
+    education: groundEducation(parsed.education, profile),
+    certifications: parsed.certifications,
   };
 
-  if (result.experience.some((exp) => !profileSummary.experience.some((pExp) => 
-    pExp.company.toLowerCase() === exp.company.toLowerCase()
-  ))) {
-    console.warn("[tailoredResumeGenerator] WARNING: Generated experience contains companies not in profile");
+  result = await fitResumeToPage(result, job, options);
+
+  const audit = auditTailoredResume(result, profile, job);
+  if (audit.flaggedCount > 0) {
+    console.warn(`[tailoredResumeGenerator] WARNING: ${audit.flaggedCount} items not backed by the profile`);
   }
 
   if (__DEV__) {
@@ -287,3 +376,272 @@ RULES:
   console.log("[tailoredResumeGenerator] Generation complete");
   return result;
 }
+
+export const MISSING_CONTACT_NAME_MESSAGE =
+  "Add your name to the contact details on the Edit Profile screen first. The header uses them exactly as entered.";
+
+/** Generation needs a name for the header; it is never filled in from anywhere else. */
+export function hasContactName(contact: ContactInfo): boolean {
+  return contact.name.trim().length > 0;
+}
+
+/** The resume header is the profile's contact info as the user entered it. */
+export function contactHeader(contact: ContactInfo): TailoredResumeJson["header"] {
+  return {
+    name: contact.name,
+    location: contact.location || undefined,
+    phone: contact.phone || undefined,
+    email: contact.email || undefined,
+    links: contact.links.length > 0 ? [...contact.links] : undefined,
+  };
+}
+
+function allowsProjects(options: GenerateResumeOptions): boolean {
+  return options.mode !== "template" || !options.templateFingerprint || options.templateFingerprint.sectionOrder.includes("projects");
+}
+
+/**
+ * Links come from the matching profile project only, so none are invented,
+ * and technologies are limited to the ones that project or the profile names.
+ * Unmatched projects are left for the audit to flag.
+ */
+function groundProjects(
+  projects: TailoredResumeJson["projects"],
+  profile: UserProfile
+): TailoredResumeJson["projects"] {
+  if (!projects || projects.length === 0) return undefined;
+  const profileTerms = [...profile.skills.map((s) => s.name), ...profile.tools.map((t) => t.name)];
+  return projects.map((project) => {
+    const source = profile.projects.find((p) => normalizeText(p.title) === normalizeText(project.title));
+    if (!source) return { ...project, url: undefined };
+    const known = [...source.technologies, ...profileTerms];
+    return {
+      ...project,
+      technologies: (project.technologies || []).filter((tech) => known.some((term) => termsMatch(term, tech))),
+      url: source.url || undefined,
+    };
+  });
+}
+
+/**
+ * Schools found in the profile take their degree and dates from it, so only
+ * verified education reaches the page. Unmatched schools are left for the
+ * audit to flag.
+ */
+function groundEducation(
+  education: TailoredResumeJson["education"],
+  profile: UserProfile
+): TailoredResumeJson["education"] {
+  if (!education || education.length === 0) return undefined;
+  return education.map((edu) => {
+    const source =
+      profile.education.find((e) => normalizeText(e.school) === normalizeText(edu.school)) ||
+      profile.education.find((e) => termsMatch(e.school, edu.school));
+    if (!source) return edu;
+    return {
+      school: source.school,
+      degree: formatDegree(source) || undefined,
+      dates: formatEducationDates(source) || undefined,
+    };
+  });
+}
+
+const MAX_FIT_ATTEMPTS = 2;
+
+const fitRevisionSchema = z.object({
+  summary: z.string().optional(),
+  experience: z
+    .array(z.object({ bullets: z.array(z.string()).optional().default([]) }))
+    .optional()
+    .default([]),
+});
+
+function overBudgetBullets(resume: TailoredResumeJson, fingerprint?: TemplateFingerprint) {
+  if (!fingerprint) return [];
+  return resume.experience.flatMap((exp, entry) =>
+    exp.bullets
+      .map((text, index) => ({ entry, index, length: text.length, budget: fingerprint.experience[entry]?.bulletCharBudgets[index] }))
+      .filter((b): b is { entry: number; index: number; length: number; budget: number } => !!b.budget && b.length > b.budget)
+  );
+}
+
+function buildFitPrompt(
+  resume: TailoredResumeJson,
+  job: JobPosting,
+  estimate: LayoutEstimate,
+  options: GenerateResumeOptions
+): string {
+  const overBudget = overBudgetBullets(resume, options.templateFingerprint);
+  const entries = resume.experience
+    .map((exp, idx) => `Entry ${idx + 1}: ${exp.title} at ${exp.company}
+${exp.bullets.map((b, i) => `  ${i + 1}. ${b}`).join("\n")}`)
+    .join("\n");
+
+  return `You are tightening a tailored resume for ${job.title} at ${job.company} so it fits the layout.
+
+${options.enforceOnePage && !estimate.fitsOnePage ? `The resume runs about ${estimate.overflowLines} line(s) past one page. Remove at least that many lines.` : "The resume fits on one page."}
+${overBudget.length > 0 ? `These bullets exceed their template character limits:
+${overBudget.map((b) => `- Entry ${b.entry + 1}, bullet ${b.index + 1}: ${b.length} chars, limit ${b.budget}`).join("\n")}` : ""}
+
+Key requirements: ${(job.requiredSkills || []).join(", ")}
+
+${resume.summary ? `Summary:\n${resume.summary}\n\n` : ""}Experience:
+${entries}
+
+RULES:
+1. Shorten wordy bullets or drop the least relevant bullets for this job; never cut a bullet off mid-sentence
+2. Every bullet must be a complete sentence or phrase
+3. Keep every entry, in the same order, with at least one bullet
+4. Do NOT add bullets, facts, numbers or skills that are not already there
+5. Keep the summary to 2 sentences at most
+
+Return ONLY valid JSON:
+{
+  "summary": "revised summary (omit if there was none)",
+  "experience": [{ "bullets": ["..."] }]
+}`;
+}
+
+function applyFitRevision(
+  resume: TailoredResumeJson,
+  revision: z.infer<typeof fitRevisionSchema>
+): TailoredResumeJson {
+  return {
+    ...resume,
+    summary: resume.summary ? revision.summary || resume.summary : undefined,
+    experience: resume.experience.map((exp, idx) => {
+      const bullets = revision.experience[idx]?.bullets.filter((b) => b.trim()) ?? [];
+      return bullets.length > 0 ? { ...exp, bullets: bullets.slice(0, exp.bullets.length) } : exp;
+    }),
+  };
+}
+
+/**
+ * Drops whole bullets from the end of the longest entries (bullets are
+ * ordered most relevant first) until the estimate fits. Used when the model
+ * could not shorten enough.
+ */
+function dropLowestRelevanceBullets(resume: TailoredResumeJson, options: GenerateResumeOptions): TailoredResumeJson {
+  const layout = pageLayoutFor(options.templateFingerprint, options.theme);
+  const experience = resume.experience.map((exp) => ({ ...exp, bullets: [...exp.bullets] }));
+  let current = { ...resume, experience };
+
+  while (!estimateResumeLayout(current, layout).fitsOnePage) {
+    const candidates = experience.filter((exp) => exp.bullets.length > 1);
+    if (candidates.length === 0) break;
+    const longest = candidates.reduce((a, b) => (b.bullets.length >= a.bullets.length ? b : a));
+    const dropped = longest.bullets.pop();
+    console.warn(`[tailoredResumeGenerator] Dropped bullet from ${longest.company} to fit one page: ${dropped}`);
+    current = { ...current, experience };
+  }
+  return current;
+}
+
+/**
+ * Checks the estimated layout and asks the model to shorten or drop bullets
+ * until the resume fits one page (when requested) and every template bullet
+ * is within its budget.
+ */
+async function fitResumeToPage(
+  resume: TailoredResumeJson,
+  job: JobPosting,
+  options: GenerateResumeOptions
+): Promise<TailoredResumeJson> {
+  const layout = pageLayoutFor(options.templateFingerprint, options.theme);
+  let current = resume;
+
+  for (let attempt = 1; attempt <= MAX_FIT_ATTEMPTS; attempt++) {
+    const estimate = estimateResumeLayout(current, layout);
+    const overflows = options.enforceOnePage && !estimate.fitsOnePage;
+    const overBudget = overBudgetBullets(current, options.templateFingerprint);
+    console.log(
+      `[tailoredResumeGenerator] Layout estimate: ${estimate.lines} lines, ${Math.round(estimate.fillRatio * 100)}% of page, ${overBudget.length} over-budget bullets`
+    );
+    if (!overflows && overBudget.length === 0) return current;
+
+    console.log(`[tailoredResumeGenerator] Fit pass ${attempt}/${MAX_FIT_ATTEMPTS}...`);
+    try {
+      const revision = await generateJson(fitRevisionSchema, buildFitPrompt(current, job, estimate, options), {
+        label: "tailoredResumeGenerator.fit",
+      });
+      current = applyFitRevision(current, revision);
+    } catch (error) {
+      console.warn("[tailoredResumeGenerator] Fit pass failed:", error);
+      break;
+    }
+  }
+
+  const overBudget = overBudgetBullets(current, options.templateFingerprint);
+  if (overBudget.length > 0) {
+    console.warn(`[tailoredResumeGenerator] WARNING: ${overBudget.length} bullets still exceed their template budget`);
+  }
+  return options.enforceOnePage ? dropLowestRelevanceBullets(current, options) : current;
+}
+
+const regenerationSchema = z.object({
+  items: z.array(z.object({ id: z.string(), value: z.string().nullable() })).default([]),
+});
+
+/**
+ * Rewrites flagged audit items using only the profile as a source. Dates of
+ * a role that is in the profile are corrected directly; everything else goes
+ * to the model, which may return null to drop a claim it can't support.
+ */
+export async function regenerateFlaggedItems(
+  resume: TailoredResumeJson,
+  findings: AuditFinding[],
+  profile: UserProfile,
+  job: JobPosting
+): Promise<TailoredResumeJson> {
+  const flagged = findings.filter((f) => f.flagged);
+  const replacements: { path: AuditFinding["path"]; value: string | null }[] = [];
+  const forModel: AuditFinding[] = [];
+
+  for (const finding of flagged) {
+    const path = finding.path;
+    const entry = path.section === "experience" && "field" in path && path.field === "dates" ? resume.experience[path.entry] : undefined;
+    const role = entry ? findRole(entry.company, profile.experience) : undefined;
+    if (role) {
+      replacements.push({ path, value: formatRoleDates(role) });
+    } else {
+      forModel.push(finding);
+    }
+  }
+
+  if (forModel.length > 0) {
+    const confirmed = Object.values(profile.clarifyingAnswers).filter((answer) => answer.confirmed === true);
+    const prompt = `Some items in a tailored resume for ${job.title} at ${job.company} are not backed by the candidate's profile. Rewrite each one using ONLY facts from the profile and confirmed answers below.
+
+Candidate Profile:
+${JSON.stringify(buildProfileSummary(profile, job), null, 2)}
+
+Confirmed Answers:
+${confirmed.map((answer) => `- ${answer.question}: ${answer.answer}`).join("\n") || "(none)"}
+
+Flagged Items:
+${forModel.map((f) => `- id: ${f.id}
+  type: ${f.kind}
+  current: ${f.value}
+  problem: ${f.reason || "not found in profile"}`).join("\n")}
+
+RULES:
+1. Keep the same id for each item
+2. Remove any metric, technology, company, title or date that is not in the sources
+3. Bullets stay concise and relevant to the job; skills, tools, certifications, projects and schools must be named in the profile
+4. Return null as the value when no supported version exists
+
+Return ONLY valid JSON:
+{
+  "items": [{ "id": "item id", "value": "rewritten text or null" }]
+}`;
+
+    const parsed = await generateJson(regenerationSchema, prompt, { label: "tailoredResumeGenerator.regenerate" });
+    for (const item of parsed.items) {
+      const finding = forModel.find((f) => f.id === item.id);
+      if (finding) replacements.push({ path: finding.path, value: item.value });
+    }
+  }
+
+  console.log(`[tailoredResumeGenerator] Regenerated ${replacements.length}/${flagged.length} flagged items`);
+  return applyAuditReplacements(resume, replacements);
+}
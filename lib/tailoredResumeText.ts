@@ -0,0 +1,181 @@
+import type { TailoredResumeJson } from "./tailoredResumeGenerator";
+
+const SECTION_HEADINGS = ["EXPERIENCE", "PROJECTS", "SKILLS", "EDUCATION", "CERTIFICATIONS"] as const;
+
+type SectionHeading = (typeof SECTION_HEADINGS)[number];
+
+export function formatTailoredResumeText(resumeJson: TailoredResumeJson): string {
+  return `${resumeJson.header.name}
+${resumeJson.header.email || ""}
+
+${resumeJson.summary || ""}
+
+EXPERIENCE
+${resumeJson.experience
+  .map(
+    (exp) =>
+      `${exp.title} | ${exp.company}
+${exp.dates || ""}
+${exp.bullets.map((b) => `• ${b}`).join("\n")}`
+  )
+  .join("\n\n")}
+
+${
+  resumeJson.projects && resumeJson.projects.length > 0
+    ? `PROJECTS\n${resumeJson.projects
+        .map((project) =>
+          [
+            [project.title, project.technologies?.join(", ")].filter(Boolean).join(" | "),
+            project.url,
+            ...project.bullets.map((b) => `• ${b}`),
+          ]
+            .filter(Boolean)
+            .join("\n")
+        )
+        .join("\n\n")}`
+    : ""
+}
+
+SKILLS
+Core: ${resumeJson.skills.core?.join(", ") || ""}
+Tools: ${resumeJson.skills.tools?.join(", ") || ""}
+Domains: ${resumeJson.skills.domains?.join(", ") || ""}
+
+${
+  resumeJson.education
+    ? `EDUCATION\n${resumeJson.education
+        .map((edu) => `${edu.school} | ${edu.degree || ""}\n${edu.dates || ""}`)
+        .join("\n\n")}`
+    : ""
+}
+
+${
+  resumeJson.certifications
+    ? `CERTIFICATIONS\n${resumeJson.certifications.map((c) => `• ${c}`).join("\n")}`
+    : ""
+}`;
+}
+
+function splitBlocks(lines: string[]): string[][] {
+  const blocks: string[][] = [];
+  let current: string[] = [];
+  for (const line of lines) {
+    if (line.trim() === "") {
+      if (current.length > 0) blocks.push(current);
+      current = [];
+    } else {
+      current.push(line.trim());
+    }
+  }
+  if (current.length > 0) blocks.push(current);
+  return blocks;
+}
+
+function splitList(value: string): string[] {
+  return value
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+function stripBullet(line: string): string {
+  return line.replace(/^•\s*/, "").trim();
+}
+
+/**
+ * Best-effort inverse of formatTailoredResumeText, used to migrate resume
+ * versions that were saved before the structured JSON was persisted.
+ */
+export function parseTailoredResumeText(text: string): TailoredResumeJson {
+  const lines = text.split("\n");
+  const sections: Record<SectionHeading | "header", string[]> = {
+    header: [],
+    EXPERIENCE: [],
+    PROJECTS: [],
+    SKILLS: [],
+    EDUCATION: [],
+    CERTIFICATIONS: [],
+  };
+
+  let currentSection: SectionHeading | "header" = "header";
+  for (const line of lines) {
+    const trimmed = line.trim();
+    if ((SECTION_HEADINGS as readonly string[]).includes(trimmed)) {
+      currentSection = trimmed as SectionHeading;
+      continue;
+    }
+    sections[currentSection].push(line);
+  }
+
+  const headerLines = sections.header.map((l) => l.trim());
+  const name = headerLines[0] || "";
+  const email = headerLines[1] || undefined;
+  const summary = headerLines.slice(2).filter(Boolean).join(" ") || undefined;
+
+  const experience: TailoredResumeJson["experience"] = [];
+  for (const block of splitBlocks(sections.EXPERIENCE)) {
+    const previous = experience[experience.length - 1];
+    if (block[0].startsWith("•") && previous) {
+      // An empty dates line splits an entry from its bullets
+      previous.bullets.push(...block.map(stripBullet));
+      continue;
+    }
+
+    const [titleLine, ...rest] = block;
+    const [title, ...companyParts] = titleLine.split(" | ");
+    const dates = rest.length > 0 && !rest[0].startsWith("•") ? rest.shift() : undefined;
+    experience.push({
+      title: title.trim(),
+      company: companyParts.join(" | ").trim(),
+      dates,
+      bullets: rest.filter((l) => l.startsWith("•")).map(stripBullet),
+    });
+  }
+
+  const projectBlocks = splitBlocks(sections.PROJECTS);
+  const projects = projectBlocks.length > 0
+    ? projectBlocks.map(([titleLine, ...rest]) => {
+        const [title, ...technologyParts] = titleLine.split(" | ");
+        const url = rest.length > 0 && !rest[0].startsWith("•") ? rest.shift() : undefined;
+        const technologies = splitList(technologyParts.join(" | "));
+        return {
+          title: title.trim(),
+          technologies: technologies.length > 0 ? technologies : undefined,
+          url,
+          bullets: rest.filter((l) => l.startsWith("•")).map(stripBullet),
+        };
+      })
+    : undefined;
+
+  const skills: TailoredResumeJson["skills"] = {};
+  for (const line of sections.SKILLS.map((l) => l.trim())) {
+    if (line.startsWith("Core:")) skills.core = splitList(line.slice("Core:".length));
+    else if (line.startsWith("Tools:")) skills.tools = splitList(line.slice("Tools:".length));
+    else if (line.startsWith("Domains:")) skills.domains = splitList(line.slice("Domains:".length));
+  }
+
+  const educationBlocks = splitBlocks(sections.EDUCATION);
+  const education = educationBlocks.length > 0
+    ? educationBlocks.map(([schoolLine, dates]) => {
+        const [school, ...degreeParts] = schoolLine.split(" | ");
+        return {
+          school: school.trim(),
+          degree: degreeParts.join(" | ").trim() || undefined,
+          dates: dates || undefined,
+        };
+      })
+    : undefined;
+
+  const certificationLines = sections.CERTIFICATIONS.map((l) => l.trim()).filter((l) => l.startsWith("•"));
+  const certifications = certificationLines.length > 0 ? certificationLines.map(stripBullet) : undefined;
+
+  return {
+    header: { name, email },
+    summary,
+    experience,
+    projects,
+    skills,
+    education,
+    certifications,
+  };
+}
@@ -0,0 +1,231 @@
+import type { Experience, YearMonth } from "../types/profile";
+
+export type { YearMonth };
+
+type DatedRole = Pick<Experience, "startDate" | "endDate" | "current" | "startMonth" | "endMonth">;
+
+const MONTHS: Record<string, number> = {
+  jan: 1, feb: 2, mar: 3, apr: 4, may: 5, jun: 6,
+  jul: 7, aug: 8, sep: 9, sept: 9, oct: 10, nov: 11, dec: 12,
+};
+
+const SEASONS: Record<string, number> = {
+  spring: 3, summer: 6, fall: 9, autumn: 9, winter: 12,
+};
+
+const PRESENT_PATTERN = /^(present|current|now|today|ongoing)$/i;
+
+export function isPresentDate(value: string | undefined): boolean {
+  return !!value && PRESENT_PATTERN.test(value.trim());
+}
+
+export function currentYearMonth(now: Date = new Date()): YearMonth {
+  return { year: now.getFullYear(), month: now.getMonth() + 1 };
+}
+
+export function parseYearMonth(value: string | undefined): YearMonth | null {
+  if (!value) return null;
+  const text = value.trim().toLowerCase().replace(/[.,]/g, " ").replace(/\s+/g, " ");
+  if (!text) return null;
+
+  let match = text.match(/^(\d{4})[-/](\d{1,2})(?:[-/]\d{1,2})?$/);
+  if (match) return makeYearMonth(Number(match[1]), Number(match[2]));
+
+  match = text.match(/^(\d{1,2})[-/](\d{4})$/);
+  if (match) return makeYearMonth(Number(match[2]), Number(match[1]));
+
+  match = text.match(/^([a-z]+) ?'?(\d{2}|\d{4})$/);
+  if (match) {
+    const monthKey = match[1].slice(0, 4) === "sept" ? "sept" : match[1].slice(0, 3);
+    const month = MONTHS[monthKey] ?? SEASONS[match[1]];
+    const year = match[2].length === 2 ? 2000 + Number(match[2]) : Number(match[2]);
+    if (month) return makeYearMonth(year, month);
+  }
+
+  match = text.match(/^(\d{4})$/);
+  if (match) return makeYearMonth(Number(match[1]), 1);
+
+  return null;
+}
+
+function makeYearMonth(year: number, month: number): YearMonth | null {
+  if (year < 1950 || year > 2100 || month < 1 || month > 12) return null;
+  return { year, month };
+}
+
+export function toMonthIndex(ym: YearMonth): number {
+  return ym.year * 12 + (ym.month - 1);
+}
+
+export function monthsBetween(start: YearMonth, end: YearMonth): number {
+  return toMonthIndex(end) - toMonthIndex(start);
+}
+
+function isOngoing(exp: DatedRole): boolean {
+  return exp.current || isPresentDate(exp.endDate) || !exp.endDate;
+}
+
+function readRange(exp: DatedRole, now: Date): { start: YearMonth | null; end: YearMonth | null } {
+  return {
+    start: exp.startMonth ?? parseYearMonth(exp.startDate),
+    end: isOngoing(exp) ? currentYearMonth(now) : exp.endMonth ?? parseYearMonth(exp.endDate),
+  };
+}
+
+/**
+ * Adds the year-month reading of a role's dates, keeping the strings as they
+ * were written.
+ */
+export function withStructuredDates<T extends DatedRole>(exp: T): T {
+  const startMonth = parseYearMonth(exp.startDate) ?? undefined;
+  const endMonth = isOngoing(exp) ? undefined : parseYearMonth(exp.endDate) ?? undefined;
+  return { ...exp, startMonth, endMonth };
+}
+
+export function getExperienceRange(
+  exp: DatedRole,
+  now: Date = new Date()
+): { start: YearMonth; end: YearMonth } | null {
+  const { start, end } = readRange(exp, now);
+  if (!start || !end || monthsBetween(start, end) < 0) return null;
+
+  return { start, end };
+}
+
+export function computeExperienceMonths(
+  exp: DatedRole,
+  now: Date = new Date()
+): number {
+  const range = getExperienceRange(exp, now);
+  // Both endpoints count: Jan 2020 - Jan 2020 is one month in the role
+  return range ? monthsBetween(range.start, range.end) + 1 : 0;
+}
+
+/**
+ * Total months of experience with overlapping roles counted once.
+ */
+export function computeTotalTenureMonths(
+  experiences: DatedRole[],
+  now: Date = new Date()
+): number {
+  const intervals = experiences
+    .map((exp) => getExperienceRange(exp, now))
+    .filter((r): r is { start: YearMonth; end: YearMonth } => r !== null)
+    .map((r) => [toMonthIndex(r.start), toMonthIndex(r.end) + 1] as const)
+    .sort((a, b) => a[0] - b[0]);
+
+  let total = 0;
+  let currentStart = -1;
+  let currentEnd = -1;
+  for (const [start, end] of intervals) {
+    if (start > currentEnd) {
+      total += currentEnd - currentStart;
+      currentStart = start;
+      currentEnd = end;
+    } else if (end > currentEnd) {
+      currentEnd = end;
+    }
+  }
+  total += currentEnd - currentStart;
+
+  return total;
+}
+
+/** "2 yrs 3 mos", "8 mos", "1 yr" */
+export function formatTenure(months: number): string {
+  const years = Math.floor(months / 12);
+  const rest = months % 12;
+  const parts = [
+    years > 0 ? `${years} yr${years === 1 ? "" : "s"}` : "",
+    rest > 0 ? `${rest} mo${rest === 1 ? "" : "s"}` : "",
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(" ") : "0 mos";
+}
+
+export type TimelineIssueKind = "undated" | "impossible" | "overlap" | "gap";
+
+export interface TimelineIssue {
+  kind: TimelineIssueKind;
+  experienceIds: string[];
+  message: string;
+}
+
+// Roles that share a month are a normal handover, and short breaks between
+// jobs aren't worth pointing out
+const OVERLAP_THRESHOLD_MONTHS = 1;
+const GAP_THRESHOLD_MONTHS = 3;
+
+function describeRole(exp: Pick<Experience, "title" | "company">): string {
+  return `${exp.title} at ${exp.company}`;
+}
+
+function plural(count: number, unit: string): string {
+  return `${count} ${unit}${count === 1 ? "" : "s"}`;
+}
+
+/**
+ * Checks the experience timeline for roles whose dates can't be read,
+ * impossible ranges (ending before they start, or in the future), overlapping
+ * roles and gaps between roles.
+ */
+export function validateTimeline(experiences: Experience[], now: Date = new Date()): TimelineIssue[] {
+  const issues: TimelineIssue[] = [];
+  const today = toMonthIndex(currentYearMonth(now));
+  const dated: { exp: Experience; start: number; end: number }[] = [];
+
+  for (const exp of experiences) {
+    const { start, end } = readRange(exp, now);
+    if (!start || !end) {
+      issues.push({
+        kind: "undated",
+        experienceIds: [exp.id],
+        message: `${describeRole(exp)} has ${start ? "an end" : "a start"} date that can't be read`,
+      });
+      continue;
+    }
+
+    const startIndex = toMonthIndex(start);
+    const endIndex = toMonthIndex(end);
+    let problem: string | null = null;
+    if (startIndex > today) problem = "starts in the future";
+    else if (endIndex < startIndex) problem = "ends before it starts";
+    else if (endIndex > today) problem = "ends in the future";
+    if (problem) {
+      issues.push({ kind: "impossible", experienceIds: [exp.id], message: `${describeRole(exp)} ${problem}` });
+      continue;
+    }
+    dated.push({ exp, start: startIndex, end: endIndex });
+  }
+
+  dated.sort((a, b) => a.start - b.start || a.end - b.end);
+
+  for (let i = 0; i < dated.length; i++) {
+    for (let j = i + 1; j < dated.length && dated[j].start <= dated[i].end; j++) {
+      const shared = Math.min(dated[i].end, dated[j].end) - dated[j].start + 1;
+      if (shared > OVERLAP_THRESHOLD_MONTHS) {
+        issues.push({
+          kind: "overlap",
+          experienceIds: [dated[i].exp.id, dated[j].exp.id],
+          message: `${describeRole(dated[i].exp)} and ${describeRole(dated[j].exp)} overlap by ${plural(shared, "month")}`,
+        });
+      }
+    }
+  }
+
+  // Gaps are measured against the latest end so far, so a long role that
+  // spans a shorter one doesn't leave a false gap after it
+  let covering = dated[0];
+  for (const next of dated.slice(1)) {
+    const gap = next.start - covering.end - 1;
+    if (gap >= GAP_THRESHOLD_MONTHS) {
+      issues.push({
+        kind: "gap",
+        experienceIds: [covering.exp.id, next.exp.id],
+        message: `${plural(gap, "month")} gap between ${describeRole(covering.exp)} and ${describeRole(next.exp)}`,
+      });
+    }
+    if (next.end > covering.end) covering = next;
+  }
+
+  return issues;
+}
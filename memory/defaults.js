@@ -103,7 +103,8 @@ export const WORK_STYLES = [
 ];
 
 /**
- * Common technical skills
+ * Common technical skills. lib/skillTaxonomy.ts gives each of them its
+ * aliases and one of SKILL_CATEGORIES.
  */
 export const COMMON_SKILLS = [
   'JavaScript',
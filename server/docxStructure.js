@@ -0,0 +1,350 @@
+/**
+ * DOCX Structure
+ * Reads WordprocessingML into sections, experience entries and header
+ * segments. Shared by the template renderer and the template fingerprint.
+ */
+
+const JSZip = require('jszip');
+const { DOMParser } = require('@xmldom/xmldom');
+
+const W_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+
+const SECTION_PATTERNS = {
+  summary: /^(professional\s+)?(summary|profile|objective|about(\s+me)?)$/i,
+  experience: /^((professional|work|relevant)\s+)?(experience|employment(\s+history)?|work\s+history)$/i,
+  skills: /^((technical|core|key)\s+)?(skills|competencies)(\s*(&|and)\s*\w+)?$/i,
+  education: /^education(\s*(&|and)\s*\w+)?$/i,
+  certifications: /^(certifications?|licenses?(\s*(&|and)\s*certifications?)?)$/i,
+  projects: /^(selected\s+|key\s+)?projects$/i,
+};
+
+const BULLET_PREFIX = /^\s*[•·▪‣◦●○■□\-*–]\s+/;
+const DATE_PATTERN = /\b(19|20)\d{2}\b|\bpresent\b|\bcurrent\b/i;
+const SEGMENT_SEPARATOR = /(\t+|\s+[|–—·•]\s+|\s+-\s+|\s{2,})/;
+const LOCATION_PATTERN = /,\s*[A-Z]{2}\b|\bremote\b/i;
+
+function childElements(node, localName) {
+  const result = [];
+  for (let child = node.firstChild; child; child = child.nextSibling) {
+    if (child.nodeType === 1 && child.namespaceURI === W_NS && (!localName || child.localName === localName)) {
+      result.push(child);
+    }
+  }
+  return result;
+}
+
+function descendants(node, localName) {
+  return Array.from(node.getElementsByTagNameNS(W_NS, localName));
+}
+
+function attr(node, name) {
+  return node ? node.getAttributeNS(W_NS, name) || '' : '';
+}
+
+function parseXml(xml) {
+  return new DOMParser().parseFromString(xml, 'application/xml');
+}
+
+/**
+ * Loads the main document plus the numbering and style parts that decide
+ * which paragraphs are list items.
+ */
+async function loadDocx(buffer) {
+  const zip = await JSZip.loadAsync(buffer);
+  const documentFile = zip.file('word/document.xml');
+  if (!documentFile) {
+    throw new Error('Template is missing word/document.xml');
+  }
+
+  const doc = parseXml(await documentFile.async('string'));
+  const numberingFile = zip.file('word/numbering.xml');
+  const stylesFile = zip.file('word/styles.xml');
+  const stylesDoc = stylesFile ? parseXml(await stylesFile.async('string')) : null;
+  const numbering = readNumbering(numberingFile ? parseXml(await numberingFile.async('string')) : null);
+  const listStyles = readListStyles(stylesDoc);
+
+  return { zip, doc, lists: { numbering, listStyles }, page: readPageSetup(doc, stylesDoc) };
+}
+
+const TWIPS_PER_POINT = 20;
+
+function twipsToPoints(value, fallback) {
+  const twips = parseInt(value, 10);
+  return Number.isFinite(twips) ? twips / TWIPS_PER_POINT : fallback;
+}
+
+/**
+ * Page size, margins and body font size in points, from the last section's
+ * w:sectPr and the style defaults. Word's Letter/1in/11pt stands in for
+ * anything missing.
+ */
+function readPageSetup(doc, stylesDoc) {
+  const sectPr = descendants(doc.documentElement, 'sectPr').pop();
+  const pgSz = sectPr && childElements(sectPr, 'pgSz')[0];
+  const pgMar = sectPr && childElements(sectPr, 'pgMar')[0];
+
+  let fontSizePt = 11;
+  if (stylesDoc) {
+    const normal = descendants(stylesDoc.documentElement, 'style').find((style) => attr(style, 'styleId') === 'Normal');
+    const candidates = [
+      ...(normal ? descendants(normal, 'sz') : []),
+      ...descendants(stylesDoc.documentElement, 'rPrDefault').flatMap((node) => descendants(node, 'sz')),
+    ];
+    const halfPoints = parseInt(attr(candidates[0], 'val'), 10);
+    if (Number.isFinite(halfPoints)) fontSizePt = halfPoints / 2;
+  }
+
+  return {
+    widthPt: twipsToPoints(attr(pgSz, 'w'), 612),
+    heightPt: twipsToPoints(attr(pgSz, 'h'), 792),
+    margins: {
+      top: twipsToPoints(attr(pgMar, 'top'), 72),
+      right: twipsToPoints(attr(pgMar, 'right'), 72),
+      bottom: twipsToPoints(attr(pgMar, 'bottom'), 72),
+      left: twipsToPoints(attr(pgMar, 'left'), 72),
+    },
+    fontSizePt,
+  };
+}
+
+/**
+ * Maps numId to the format of its first level ("bullet", "decimal", ...).
+ */
+function readNumbering(numberingDoc) {
+  const formats = new Map();
+  if (!numberingDoc) return formats;
+
+  const abstractFormats = new Map();
+  for (const abstractNum of descendants(numberingDoc.documentElement, 'abstractNum')) {
+    const level = childElements(abstractNum, 'lvl').find((lvl) => attr(lvl, 'ilvl') === '0');
+    abstractFormats.set(attr(abstractNum, 'abstractNumId'), attr(level && childElements(level, 'numFmt')[0], 'val'));
+  }
+  for (const num of descendants(numberingDoc.documentElement, 'num')) {
+    const abstractId = attr(childElements(num, 'abstractNumId')[0], 'val');
+    formats.set(attr(num, 'numId'), abstractFormats.get(abstractId) || 'bullet');
+  }
+  return formats;
+}
+
+/**
+ * Style ids whose paragraph properties (directly or via basedOn) turn on
+ * numbering, e.g. Word's built-in "List Bullet".
+ */
+function readListStyles(stylesDoc) {
+  const result = new Set();
+  if (!stylesDoc) return result;
+
+  const styles = new Map();
+  for (const style of descendants(stylesDoc.documentElement, 'style')) {
+    if (attr(style, 'type') !== 'paragraph') continue;
+    const pPr = childElements(style, 'pPr')[0];
+    const numPr = pPr && childElements(pPr, 'numPr')[0];
+    const numId = attr(numPr && childElements(numPr, 'numId')[0], 'val');
+    styles.set(attr(style, 'styleId'), {
+      numbered: !!numPr && numId !== '0',
+      basedOn: attr(childElements(style, 'basedOn')[0], 'val'),
+    });
+  }
+
+  for (const id of styles.keys()) {
+    const seen = new Set();
+    for (let current = id; current && !seen.has(current); current = styles.get(current)?.basedOn) {
+      seen.add(current);
+      if (styles.get(current)?.numbered) {
+        result.add(id);
+        break;
+      }
+    }
+  }
+  return result;
+}
+
+/**
+ * Flattens a paragraph into editable text pieces. Tabs and breaks appear in
+ * the text so separators line up, but only w:t pieces can be rewritten.
+ */
+function readParagraph(paragraph) {
+  const pieces = [];
+  let text = '';
+
+  const walk = (node) => {
+    for (let child = node.firstChild; child; child = child.nextSibling) {
+      if (child.nodeType !== 1) continue;
+      if (child.namespaceURI === W_NS && child.localName === 'p') continue;
+      if (child.namespaceURI === W_NS && child.localName === 't') {
+        const value = child.textContent || '';
+        pieces.push({ node: child, start: text.length, end: text.length + value.length });
+        text += value;
+      } else if (child.namespaceURI === W_NS && child.localName === 'tab') {
+        text += '\t';
+      } else if (child.namespaceURI === W_NS && (child.localName === 'br' || child.localName === 'cr')) {
+        text += '\n';
+      } else if (!(child.namespaceURI === W_NS && child.localName === 'delText')) {
+        walk(child);
+      }
+    }
+  };
+  walk(paragraph);
+
+  return { text, pieces };
+}
+
+/**
+ * Returns how a paragraph is marked as a list item: "numbering:<format>" for
+ * Word numbering, "glyph" for a typed bullet character, or null.
+ */
+function listKind(paragraph, text, lists) {
+  const pPr = childElements(paragraph, 'pPr')[0];
+  if (pPr) {
+    const numPr = childElements(pPr, 'numPr')[0];
+    if (numPr) {
+      const numId = attr(childElements(numPr, 'numId')[0], 'val');
+      // numId 0 explicitly switches numbering off
+      if (numId !== '0') return `numbering:${(lists && lists.numbering.get(numId)) || 'bullet'}`;
+      return BULLET_PREFIX.test(text) ? 'glyph' : null;
+    }
+    const styleId = attr(childElements(pPr, 'pStyle')[0], 'val');
+    if (styleId && lists && lists.listStyles.has(styleId)) return 'numbering:bullet';
+    if (styleId && /list|bullet/i.test(styleId)) return 'numbering:bullet';
+  }
+  return BULLET_PREFIX.test(text) ? 'glyph' : null;
+}
+
+function detectSection(text) {
+  const heading = text.trim().replace(/:$/, '');
+  if (!heading || heading.length > 48) return null;
+  return Object.keys(SECTION_PATTERNS).find((key) => SECTION_PATTERNS[key].test(heading)) || null;
+}
+
+function toParagraph(node, lists) {
+  const { text } = readParagraph(node);
+  const kind = listKind(node, text, lists);
+  return { node, text, bullet: !!kind, listKind: kind, section: detectSection(text) };
+}
+
+/**
+ * Splits body paragraphs into sections keyed by heading, in document order.
+ */
+function readBody(doc, lists) {
+  const body = descendants(doc.documentElement, 'body')[0];
+  const paragraphs = descendants(body, 'p').map((node) => toParagraph(node, lists));
+
+  const sections = {};
+  let current = null;
+  for (const paragraph of paragraphs) {
+    if (paragraph.section && !paragraph.bullet) {
+      current = paragraph.section;
+      sections[current] = sections[current] || [];
+      continue;
+    }
+    if (current) sections[current].push(paragraph);
+  }
+
+  return { body, paragraphs, sections };
+}
+
+function tableRowOf(node) {
+  for (let parent = node.parentNode; parent; parent = parent.parentNode) {
+    if (parent.namespaceURI === W_NS && parent.localName === 'tr') return parent;
+  }
+  return null;
+}
+
+/**
+ * Groups experience paragraphs into entries: header lines (title, company,
+ * dates) followed by their bullets. A table row is one entry, so a dates
+ * cell after the bullets cell stays with its role.
+ */
+function groupEntries(paragraphs) {
+  const entries = [];
+  let entry = null;
+
+  for (const paragraph of paragraphs) {
+    if (!paragraph.text.trim()) continue;
+    if (paragraph.bullet) {
+      if (!entry) {
+        entry = { header: [], bullets: [], row: tableRowOf(paragraph.node) };
+        entries.push(entry);
+      }
+      entry.bullets.push(paragraph);
+    } else {
+      const row = tableRowOf(paragraph.node);
+      const sameRow = entry && row && row === entry.row;
+      if (!entry || (entry.bullets.length > 0 && !sameRow)) {
+        entry = { header: [], bullets: [], row };
+        entries.push(entry);
+      }
+      entry.header.push(paragraph);
+    }
+  }
+
+  return entries;
+}
+
+function normalize(value) {
+  return (value || '').toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+function splitSegments(text) {
+  const parts = text.split(SEGMENT_SEPARATOR);
+  const segments = [];
+  let offset = 0;
+  parts.forEach((part, index) => {
+    if (index % 2 === 0 && part.trim()) {
+      const lead = part.length - part.trimStart().length;
+      segments.push({ start: offset + lead, end: offset + lead + part.trim().length, text: part.trim() });
+    }
+    offset += part.length;
+  });
+
+  // "Jan 2019 – Present" splits on the dash; stitch date halves back together
+  const merged = [];
+  for (const segment of segments) {
+    const previous = merged[merged.length - 1];
+    const between = previous ? text.slice(previous.end, segment.start) : '';
+    if (previous && DATE_PATTERN.test(previous.text) && DATE_PATTERN.test(segment.text) && !/\t/.test(between)) {
+      previous.end = segment.end;
+      previous.text = text.slice(previous.start, segment.end);
+    } else {
+      merged.push({ ...segment, date: DATE_PATTERN.test(segment.text) });
+    }
+  }
+  return merged;
+}
+
+/**
+ * Header segments of an entry: the text slots that can hold a title or
+ * company, and the first date range.
+ */
+function readEntryHeader(entry) {
+  const fields = entry.header.map((paragraph) => ({
+    paragraph,
+    segments: splitSegments(readParagraph(paragraph.node).text),
+  }));
+
+  const textSlots = fields.flatMap((field) =>
+    field.segments.filter((s) => !s.date && !LOCATION_PATTERN.test(s.text)).map((s) => ({ field, segment: s }))
+  );
+  const dateSlot = fields.flatMap((field) => field.segments.filter((s) => s.date).map((s) => ({ field, segment: s })))[0];
+
+  return { textSlots, dateSlot };
+}
+
+function bulletContent(text) {
+  return text.replace(BULLET_PREFIX, '').trim();
+}
+
+module.exports = {
+  W_NS,
+  BULLET_PREFIX,
+  childElements,
+  descendants,
+  loadDocx,
+  readParagraph,
+  toParagraph,
+  readBody,
+  groupEntries,
+  normalize,
+  readEntryHeader,
+  bulletContent,
+};
@@ -3,12 +3,16 @@ const multer = require('multer');
 const pdfParse = require('pdf-parse');
 const cors = require('cors');
 const mammoth = require('mammoth');
-const { Document, Packer, Paragraph, TextRun, HeadingLevel, AlignmentType } = require('docx');
+const { Document, Packer, Paragraph, TextRun } = require('docx');
+const { renderTemplateDocx } = require('./templateRenderer');
+const { fingerprintTemplateDocx } = require('./templateFingerprint');
+const { renderResumePdf } = require('./pdfRenderer');
+const { renderStandardDocx } = require('./standardDocx');
 
 const app = express();
 const PORT = process.env.PORT || 3001;
 
-app.use(cors());
+app.use(cors({ exposedHeaders: ['X-Render-Mode'] }));
 app.use(express.json({ limit: '50mb' }));
 
 const uploadPDF = multer({
@@ -183,7 +187,7 @@ app.post('/resume/fingerprint-template', express.json(), async (req, res) => {
   console.log('[server] POST /resume/fingerprint-template');
 
   try {
-    const { templateDocxBase64 } = req.body;
+    const { templateDocxBase64, knownRoles } = req.body;
 
     if (!templateDocxBase64) {
       return res.status(400).json({ error: 'templateDocxBase64 is required' });
@@ -193,55 +197,17 @@ app.post('/resume/fingerprint-template', express.json(), async (req, res) => {
     // eslint-disable-next-line no-undef
     const buffer = Buffer.from(templateDocxBase64, 'base64');
 
-    console.log('[server] Extracting DOCX structure with mammoth...');
-    const result = await mammoth.extractRawText({ buffer });
-    const text = result.value;
-
-    console.log('[server] Extracted text length:', text.length);
-
-    const lines = text.split('\n').map(l => l.trim()).filter(l => l.length > 0);
-    
-    const hasSummary = lines.some(line => 
-      line.toLowerCase().includes('summary') || 
-      line.toLowerCase().includes('objective')
-    );
-
-    const sectionOrder = [];
-    if (hasSummary) sectionOrder.push('summary');
-    if (text.toLowerCase().includes('experience')) sectionOrder.push('experience');
-    if (text.toLowerCase().includes('skill')) sectionOrder.push('skills');
-    if (text.toLowerCase().includes('education')) sectionOrder.push('education');
-    if (text.toLowerCase().includes('certification')) sectionOrder.push('certifications');
-
-    const experienceFingerprint = [];
-    const experienceSection = text.match(/experience[\s\S]*?(?=\n\n[A-Z]|$)/i);
-    if (experienceSection) {
-      const bullets = experienceSection[0].match(/^[•\-*]\s+.+$/gm) || [];
-      if (bullets.length > 0) {
-        const avgBulletsPerEntry = Math.max(2, Math.floor(bullets.length / Math.max(1, (text.match(/\d{4}/g) || []).length / 2)));
-        const avgBulletLength = Math.floor(bullets.reduce((sum, b) => sum + b.length, 0) / bullets.length);
-        
-        experienceFingerprint.push({
-          bulletCount: avgBulletsPerEntry,
-          bulletCharBudgets: Array(avgBulletsPerEntry).fill(avgBulletLength),
-        });
+    console.log('[server] Reading DOCX paragraph and numbering structure...');
+    let fingerprint;
+    try {
+      fingerprint = await fingerprintTemplateDocx(buffer, Array.isArray(knownRoles) ? knownRoles : []);
+    } catch (error) {
+      if (/experience section/.test(error.message)) {
+        return res.status(422).json({ error: 'Template has no experience section', message: error.message });
       }
+      throw error;
     }
 
-    if (experienceFingerprint.length === 0) {
-      experienceFingerprint.push({
-        bulletCount: 3,
-        bulletCharBudgets: [100, 100, 100],
-      });
-    }
-
-    const fingerprint = {
-      hasSummary,
-      sectionOrder,
-      experience: experienceFingerprint,
-      totalCharBudget: Math.floor(text.length * 0.8),
-    };
-
     console.log('[server] Generated fingerprint:', JSON.stringify(fingerprint, null, 2));
     res.json(fingerprint);
   } catch (error) {
@@ -265,176 +231,121 @@ app.post('/resume/render-docx', express.json(), async (req, res) => {
 
     console.log('[server] Rendering mode:', options?.mode || 'standard');
 
+    let renderMode = 'standard';
     if (options?.mode === 'template' && templateDocxBase64) {
-      console.log('[server] Template mode not yet fully implemented - falling back to standard');
+      try {
+        console.log('[server] Filling template DOCX in place...');
+        // eslint-disable-next-line no-undef
+        const { buffer, report } = await renderTemplateDocx(Buffer.from(templateDocxBase64, 'base64'), resumeJson);
+        console.log('[server] Template render report:', JSON.stringify(report));
+        console.log('[server] DOCX generated, size:', buffer.length);
+        res.set({
+          'Content-Type': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+          'Content-Disposition': 'attachment; filename="tailored-resume.docx"',
+          'X-Render-Mode': 'template',
+        });
+        return res.send(buffer);
+      } catch (templateError) {
+        console.warn('[server] Template render failed, falling back to standard:', templateError.message);
+        renderMode = 'standard-fallback';
+      }
     }
 
-    console.log('[server] Creating DOCX with docx library...');
-    const sections = [];
+    console.log('[server] Creating DOCX with theme:', options?.theme || 'classic');
+    const buffer = await renderStandardDocx(resumeJson, options?.theme);
 
-    if (resumeJson.header) {
-      sections.push(
-        new Paragraph({
-          text: resumeJson.header.name || 'Candidate Name',
-          heading: HeadingLevel.HEADING_1,
-          alignment: AlignmentType.CENTER,
-        })
-      );
+    console.log('[server] DOCX generated, size:', buffer.length);
+    res.set({
+      'Content-Type': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+      'Content-Disposition': 'attachment; filename="tailored-resume.docx"',
+      'X-Render-Mode': renderMode,
+    });
+    res.send(buffer);
+  } catch (error) {
+    console.error('[server] Error rendering DOCX:', error);
+    res.status(500).json({
+      error: 'Failed to render DOCX',
+      message: error.message,
+    });
+  }
+});
 
-      const contactParts = [];
-      if (resumeJson.header.location) contactParts.push(resumeJson.header.location);
-      if (resumeJson.header.phone) contactParts.push(resumeJson.header.phone);
-      if (resumeJson.header.email) contactParts.push(resumeJson.header.email);
+app.post('/resume/render-pdf', express.json(), async (req, res) => {
+  console.log('[server] POST /resume/render-pdf');
 
-      if (contactParts.length > 0) {
-        sections.push(
-          new Paragraph({
-            text: contactParts.join(' | '),
-            alignment: AlignmentType.CENTER,
-          })
-        );
-      }
+  try {
+    const { resumeJson, theme } = req.body;
 
-      sections.push(new Paragraph({ text: '' }));
+    if (!resumeJson) {
+      return res.status(400).json({ error: 'resumeJson is required' });
     }
 
-    if (resumeJson.summary) {
-      sections.push(
-        new Paragraph({
-          text: 'SUMMARY',
-          heading: HeadingLevel.HEADING_2,
-        }),
-        new Paragraph({ text: resumeJson.summary }),
-        new Paragraph({ text: '' })
-      );
-    }
+    const { buffer, pageCount } = renderResumePdf(resumeJson, theme);
+    console.log('[server] PDF generated, size:', buffer.length, 'pages:', pageCount);
+    res.set({
+      'Content-Type': 'application/pdf',
+      'Content-Disposition': 'attachment; filename="tailored-resume.pdf"',
+    });
+    res.send(buffer);
+  } catch (error) {
+    console.error('[server] Error rendering PDF:', error);
+    res.status(500).json({
+      error: 'Failed to render PDF',
+      message: error.message,
+    });
+  }
+});
 
-    if (resumeJson.experience && resumeJson.experience.length > 0) {
-      sections.push(
-        new Paragraph({
-          text: 'EXPERIENCE',
-          heading: HeadingLevel.HEADING_2,
-        })
-      );
+app.post('/cover-letter/render-docx', express.json(), async (req, res) => {
+  console.log('[server] POST /cover-letter/render-docx');
 
-      resumeJson.experience.forEach((exp) => {
-        sections.push(
-          new Paragraph({
-            children: [
-              new TextRun({ text: exp.title || 'Role', bold: true }),
-              new TextRun({ text: ' | ' }),
-              new TextRun({ text: exp.company || 'Company' }),
-            ],
-          })
-        );
-
-        if (exp.dates) {
-          sections.push(
-            new Paragraph({
-              text: exp.dates,
-              italics: true,
-            })
-          );
-        }
-
-        if (exp.bullets && exp.bullets.length > 0) {
-          exp.bullets.forEach((bullet) => {
-            sections.push(
-              new Paragraph({
-                text: `• ${bullet}`,
-                indent: { left: 360 },
-              })
-            );
-          });
-        }
-
-        sections.push(new Paragraph({ text: '' }));
-      });
+  try {
+    const { coverLetterJson } = req.body;
+
+    if (!coverLetterJson || !Array.isArray(coverLetterJson.paragraphs)) {
+      return res.status(400).json({ error: 'coverLetterJson with paragraphs is required' });
     }
 
-    if (resumeJson.skills) {
+    console.log('[server] Creating cover letter DOCX with', coverLetterJson.paragraphs.length, 'paragraphs');
+    const sections = [];
+
+    if (coverLetterJson.header) {
       sections.push(
         new Paragraph({
-          text: 'SKILLS',
-          heading: HeadingLevel.HEADING_2,
+          children: [new TextRun({ text: coverLetterJson.header.name || 'Candidate Name', bold: true, size: 28 })],
         })
       );
 
-      if (resumeJson.skills.core && resumeJson.skills.core.length > 0) {
-        sections.push(
-          new Paragraph({
-            text: `Core: ${resumeJson.skills.core.join(', ')}`,
-          })
-        );
-      }
-
-      if (resumeJson.skills.tools && resumeJson.skills.tools.length > 0) {
-        sections.push(
-          new Paragraph({
-            text: `Tools: ${resumeJson.skills.tools.join(', ')}`,
-          })
-        );
-      }
+      const contactParts = [];
+      if (coverLetterJson.header.location) contactParts.push(coverLetterJson.header.location);
+      if (coverLetterJson.header.phone) contactParts.push(coverLetterJson.header.phone);
+      if (coverLetterJson.header.email) contactParts.push(coverLetterJson.header.email);
 
-      if (resumeJson.skills.domains && resumeJson.skills.domains.length > 0) {
-        sections.push(
-          new Paragraph({
-            text: `Domains: ${resumeJson.skills.domains.join(', ')}`,
-          })
-        );
+      if (contactParts.length > 0) {
+        sections.push(new Paragraph({ text: contactParts.join(' | ') }));
       }
 
       sections.push(new Paragraph({ text: '' }));
     }
 
-    if (resumeJson.education && resumeJson.education.length > 0) {
-      sections.push(
-        new Paragraph({
-          text: 'EDUCATION',
-          heading: HeadingLevel.HEADING_2,
-        })
-      );
+    sections.push(
+      new Paragraph({
+        text: new Date().toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' }),
+      }),
+      new Paragraph({ text: '' })
+    );
 
-      resumeJson.education.forEach((edu) => {
-        sections.push(
-          new Paragraph({
-            children: [
-              new TextRun({ text: edu.school || 'University', bold: true }),
-              new TextRun({ text: ' | ' }),
-              new TextRun({ text: edu.degree || 'Degree' }),
-            ],
-          })
-        );
-
-        if (edu.dates) {
-          sections.push(
-            new Paragraph({
-              text: edu.dates,
-              italics: true,
-            })
-          );
-        }
-
-        sections.push(new Paragraph({ text: '' }));
-      });
+    if (coverLetterJson.greeting) {
+      sections.push(new Paragraph({ text: coverLetterJson.greeting, spacing: { after: 200 } }));
     }
 
-    if (resumeJson.certifications && resumeJson.certifications.length > 0) {
-      sections.push(
-        new Paragraph({
-          text: 'CERTIFICATIONS',
-          heading: HeadingLevel.HEADING_2,
-        })
-      );
+    coverLetterJson.paragraphs.forEach((paragraph) => {
+      sections.push(new Paragraph({ text: paragraph, spacing: { after: 200 } }));
+    });
 
-      resumeJson.certifications.forEach((cert) => {
-        sections.push(
-          new Paragraph({
-            text: `• ${cert}`,
-            indent: { left: 360 },
-          })
-        );
-      });
+    sections.push(new Paragraph({ text: coverLetterJson.closing || 'Sincerely,' }));
+    if (coverLetterJson.signature) {
+      sections.push(new Paragraph({ text: coverLetterJson.signature }));
     }
 
     const doc = new Document({
@@ -451,13 +362,13 @@ app.post('/resume/render-docx', express.json(), async (req, res) => {
     console.log('[server] DOCX generated, size:', buffer.length);
     res.set({
       'Content-Type': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-      'Content-Disposition': 'attachment; filename="tailored-resume.docx"',
+      'Content-Disposition': 'attachment; filename="cover-letter.docx"',
     });
     res.send(buffer);
   } catch (error) {
-    console.error('[server] Error rendering DOCX:', error);
+    console.error('[server] Error rendering cover letter DOCX:', error);
     res.status(500).json({
-      error: 'Failed to render DOCX',
+      error: 'Failed to render cover letter DOCX',
       message: error.message,
     });
   }
@@ -476,4 +387,6 @@ app.listen(PORT, () => {
   console.log(`[server]   - POST /extract-resume-text`);
   console.log(`[server]   - POST /resume/fingerprint-template`);
   console.log(`[server]   - POST /resume/render-docx`);
+  console.log(`[server]   - POST /resume/render-pdf`);
+  console.log(`[server]   - POST /cover-letter/render-docx`);
 });
@@ -0,0 +1,320 @@
+/**
+ * Resume PDF Renderer
+ * Lays out a TailoredResumeJson on A4 pages from the same theme blocks
+ * as the standard DOCX render. Text is set in the built-in Helvetica fonts
+ * whatever the theme's DOCX font, so no font files are embedded, and nothing
+ * time- or random-based is written: the same resume always produces the same
+ * bytes.
+ */
+
+const { PAGE_SIZE, resolveTheme, resumeBlocks } = require('./resumeThemes');
+
+// Margin of the default theme; each theme sets its own
+const PAGE = { ...PAGE_SIZE, margin: 72 };
+
+const FONTS = {
+  regular: { key: 'F1', baseFont: 'Helvetica' },
+  bold: { key: 'F2', baseFont: 'Helvetica-Bold' },
+  italic: { key: 'F3', baseFont: 'Helvetica-Oblique' },
+};
+
+// Advance widths (1/1000 em) for character codes 32-126, from the standard Helvetica AFM files
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+// Typographic characters outside Latin-1: WinAnsi code, regular width, bold width
+const WIN_ANSI_EXTRAS = {
+  '€': [0x80, 556, 556],
+  '…': [0x85, 1000, 1000],
+  '‘': [0x91, 222, 278],
+  '’': [0x92, 222, 278],
+  '“': [0x93, 333, 500],
+  '”': [0x94, 333, 500],
+  '•': [0x95, 350, 350],
+  '–': [0x96, 556, 556],
+  '—': [0x97, 1000, 1000],
+  '™': [0x99, 1000, 1000],
+};
+
+/**
+ * Maps one character to its WinAnsi byte and width. Accented Latin-1
+ * letters take the width of their base letter; anything the standard fonts
+ * can't show becomes "?".
+ */
+function encodeChar(char, font) {
+  const bold = font === 'bold';
+  const code = char.charCodeAt(0);
+  if (code >= 32 && code <= 126) {
+    return { byte: code, width: (bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS)[code - 32] };
+  }
+  const extra = WIN_ANSI_EXTRAS[char];
+  if (extra) return { byte: extra[0], width: bold ? extra[2] : extra[1] };
+  if (code >= 0xa0 && code <= 0xff) {
+    const base = char.normalize('NFD').charAt(0);
+    const baseCode = base.charCodeAt(0);
+    const width = baseCode >= 32 && baseCode <= 126 && base !== char ? encodeChar(base, font).width : 556;
+    return { byte: code, width };
+  }
+  return encodeChar('?', font);
+}
+
+function cleanText(text) {
+  return String(text || '').replace(/\s+/g, ' ').trim();
+}
+
+function textWidth(text, font, size) {
+  let units = 0;
+  for (const char of text) units += encodeChar(char, font).width;
+  return (units * size) / 1000;
+}
+
+function splitLongWord(word, font, size, maxWidth) {
+  const pieces = [];
+  let current = '';
+  for (const char of word) {
+    if (current && textWidth(current + char, font, size) > maxWidth) {
+      pieces.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  if (current) pieces.push(current);
+  return pieces;
+}
+
+/**
+ * Breaks styled runs into lines no wider than maxWidth. Each line is a list
+ * of runs with their x offset from the line start.
+ */
+function wrapRuns(runs, size, maxWidth) {
+  const words = [];
+  let pendingSpace = false;
+  for (const run of runs) {
+    for (const part of String(run.text || '').replace(/\s+/g, ' ').split(/( )/)) {
+      if (!part) continue;
+      if (part === ' ') {
+        pendingSpace = words.length > 0;
+        continue;
+      }
+      splitLongWord(part, run.font, size, maxWidth).forEach((piece, index) => {
+        words.push({ text: piece, font: run.font, color: run.color, gap: index === 0 && pendingSpace });
+      });
+      pendingSpace = false;
+    }
+  }
+
+  const lines = [];
+  let line = [];
+  let width = 0;
+  for (const word of words) {
+    const wordWidth = textWidth(word.text, word.font, size);
+    const gap = line.length > 0 && word.gap ? textWidth(' ', word.font, size) : 0;
+    if (line.length > 0 && width + gap + wordWidth > maxWidth) {
+      lines.push(line);
+      line = [];
+      width = 0;
+    }
+
+    const last = line[line.length - 1];
+    const spacing = line.length > 0 && word.gap ? gap : 0;
+    if (last && last.font === word.font && last.color === word.color) {
+      last.text += (spacing ? ' ' : '') + word.text;
+    } else {
+      line.push({ text: word.text, font: word.font, color: word.color, offset: width + spacing });
+    }
+    width += spacing + wordWidth;
+  }
+  if (line.length > 0) lines.push(line);
+
+  return lines.map((runsInLine) => ({ runs: runsInLine, width: lineWidth(runsInLine, size) }));
+}
+
+function lineWidth(runs, size) {
+  const last = runs[runs.length - 1];
+  return last ? last.offset + textWidth(last.text, last.font, size) : 0;
+}
+
+function hexToRgb(hex) {
+  const value = parseInt(hex, 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255].map((channel) => formatNumber(channel / 255)).join(' ');
+}
+
+/**
+ * Places blocks on pages top to bottom. Headings and role lines move to the
+ * next page rather than end one, and blank lines and spacing are dropped at
+ * the top of a page.
+ */
+function layoutPages(blocks, theme) {
+  const margin = theme.margin;
+  const contentWidth = PAGE.width - margin * 2;
+  const pages = [[]];
+  let y = PAGE.height - margin;
+  const current = () => pages[pages.length - 1];
+  const newPage = () => {
+    pages.push([]);
+    y = PAGE.height - margin;
+  };
+
+  blocks.forEach((block, index) => {
+    const leading = block.size * theme.lineHeight;
+    const indent = block.indent || 0;
+
+    if (block.runs.length === 0) {
+      if (current().length > 0) y -= leading;
+      return;
+    }
+
+    const aside = block.aside ? { ...block.aside, width: textWidth(block.aside.text, block.aside.font, block.size) } : null;
+    const asideRoom = aside ? aside.width + block.size : 0;
+    const lines = wrapRuns(block.runs, block.size, contentWidth - indent - asideRoom);
+    const next = blocks[index + 1];
+    const spaceBefore = current().length > 0 ? block.spaceBefore || 0 : 0;
+    const following = block.keepWithNext && next ? next.size * theme.lineHeight + (next.spaceBefore || 0) : 0;
+    if (y - spaceBefore - leading - following < margin && current().length > 0) newPage();
+    else y -= spaceBefore;
+
+    lines.forEach((line, lineIndex) => {
+      if (y - leading < margin && current().length > 0) newPage();
+      y -= leading;
+      const x = block.align === 'center' ? margin + (contentWidth - line.width) / 2 : margin + indent;
+      // Baseline sits above the bottom of the line box by the font's descent
+      const baseline = y + block.size * 0.22 + (leading - block.size) / 2;
+      line.runs.forEach((textRun) => {
+        current().push({ text: textRun.text, font: textRun.font, color: textRun.color, size: block.size, x: x + textRun.offset, y: baseline });
+      });
+      if (aside && lineIndex === 0) {
+        current().push({ text: aside.text, font: aside.font, size: block.size, x: margin + contentWidth - aside.width, y: baseline });
+      }
+    });
+
+    if (block.rule) {
+      current().push({ rule: true, x1: margin, x2: margin + contentWidth, y: y + 1, color: block.runs[0].color });
+    }
+    y -= Math.min(block.spaceAfter || 0, Math.max(0, y - margin));
+  });
+
+  return pages;
+}
+
+function formatNumber(value) {
+  return String(Math.round(value * 100) / 100);
+}
+
+function pdfString(text, font) {
+  let out = '';
+  for (const char of text) {
+    const { byte } = encodeChar(char, font);
+    if (byte === 0x28 || byte === 0x29 || byte === 0x5c) out += `\\${String.fromCharCode(byte)}`;
+    else if (byte < 32 || byte > 126) out += `\\${byte.toString(8).padStart(3, '0')}`;
+    else out += String.fromCharCode(byte);
+  }
+  return `(${out})`;
+}
+
+function contentStream(placed) {
+  const lines = ['BT'];
+  let color = null;
+  for (const item of placed) {
+    if (item.rule) continue;
+    if ((item.color || null) !== color) {
+      color = item.color || null;
+      lines.push(color ? `${hexToRgb(color)} rg` : '0 g');
+    }
+    lines.push(
+      `/${FONTS[item.font].key} ${formatNumber(item.size)} Tf 1 0 0 1 ${formatNumber(item.x)} ${formatNumber(item.y)} Tm ${pdfString(item.text, item.font)} Tj`
+    );
+  }
+  lines.push('ET');
+
+  // Rules are stroked after the text, outside the text object
+  for (const item of placed) {
+    if (!item.rule) continue;
+    lines.push(
+      `${item.color ? `${hexToRgb(item.color)} RG` : '0 G'} 0.5 w ${formatNumber(item.x1)} ${formatNumber(item.y)} m ${formatNumber(item.x2)} ${formatNumber(item.y)} l S`
+    );
+  }
+  return lines.join('\n');
+}
+
+function writePdf(pages, title) {
+  const objects = [];
+  const add = (body) => {
+    objects.push(body);
+    return objects.length;
+  };
+
+  const catalogRef = add('');
+  const pagesRef = add('');
+  const fontRefs = Object.values(FONTS).map((font) => ({
+    key: font.key,
+    ref: add(`<< /Type /Font /Subtype /Type1 /BaseFont /${font.baseFont} /Encoding /WinAnsiEncoding >>`),
+  }));
+  const fontResources = fontRefs.map(({ key, ref }) => `/${key} ${ref} 0 R`).join(' ');
+
+  const pageRefs = pages.map((placed) => {
+    const content = contentStream(placed);
+    const contentRef = add(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+    return add(
+      `<< /Type /Page /Parent ${pagesRef} 0 R /MediaBox [0 0 ${PAGE.width} ${PAGE.height}] ` +
+        `/Resources << /Font << ${fontResources} >> >> /Contents ${contentRef} 0 R >>`
+    );
+  });
+
+  objects[catalogRef - 1] = `<< /Type /Catalog /Pages ${pagesRef} 0 R >>`;
+  objects[pagesRef - 1] = `<< /Type /Pages /Kids [${pageRefs.map((ref) => `${ref} 0 R`).join(' ')}] /Count ${pageRefs.length} >>`;
+  const infoRef = add(`<< /Title ${pdfString(title, 'regular')} /Producer (JobMatch) >>`);
+
+  let out = '%PDF-1.4\n';
+  const offsets = objects.map((body, index) => {
+    const offset = out.length;
+    out += `${index + 1} 0 obj\n${body}\nendobj\n`;
+    return offset;
+  });
+
+  const xrefOffset = out.length;
+  out += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  out += offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  out += `trailer\n<< /Size ${objects.length + 1} /Root ${catalogRef} 0 R /Info ${infoRef} 0 R >>\n`;
+  out += `startxref\n${xrefOffset}\n%%EOF\n`;
+
+  // Every byte is ASCII: non-ASCII text is written as octal escapes
+  // eslint-disable-next-line no-undef
+  return Buffer.from(out, 'latin1');
+}
+
+/**
+ * Renders a tailored resume to PDF in the given theme (classic when unknown).
+ * Returns the file and its page count.
+ */
+function renderResumePdf(resumeJson, themeId) {
+  if (!resumeJson || typeof resumeJson !== 'object') {
+    throw new Error('resumeJson is required');
+  }
+
+  const theme = resolveTheme(themeId);
+  const pages = layoutPages(resumeBlocks(resumeJson, theme), theme);
+  const name = cleanText(resumeJson.header && resumeJson.header.name);
+  const buffer = writePdf(pages, name ? `${name} Resume` : 'Resume');
+  return { buffer, pageCount: pages.length };
+}
+
+module.exports = {
+  PAGE,
+  textWidth,
+  renderResumePdf,
+};
@@ -0,0 +1,244 @@
+/**
+ * Resume Themes
+ * Layouts for standard-mode rendering. A theme sets the type sizes, spacing,
+ * accent color, section order and where role dates sit. resumeBlocks turns a
+ * TailoredResumeJson into a flat list of styled paragraphs that both the DOCX
+ * and the PDF renderer draw, so a theme looks the same in either format.
+ */
+
+const DEFAULT_THEME = 'classic';
+
+// A4 in points, for the DOCX and the PDF alike; lib/resumeLayout estimates
+// the one-page fit against the same page
+const PAGE_SIZE = { width: 595.3, height: 841.9 };
+
+const THEMES = {
+  // The original standard layout: centered name, "Title | Company" rows with
+  // italic dates underneath and a blank line between sections
+  classic: {
+    id: 'classic',
+    font: 'Calibri',
+    margin: 72,
+    lineHeight: 1.25,
+    sizes: { name: 20, contact: 10, heading: 13, body: 11 },
+    nameAlign: 'center',
+    accent: null,
+    headingCase: 'upper',
+    headingRule: false,
+    sectionGap: 'blank',
+    entryGap: 0,
+    sectionOrder: ['summary', 'experience', 'projects', 'skills', 'education', 'certifications'],
+    dateAlignment: 'below',
+    roleLayout: 'inline',
+    skillsLayout: 'lines',
+  },
+  // Dense one-pager: small type, narrow margins, skills up front and dates
+  // right-aligned on the role line
+  compact: {
+    id: 'compact',
+    font: 'Calibri',
+    margin: 43.2,
+    lineHeight: 1.15,
+    sizes: { name: 16, contact: 9, heading: 11, body: 10 },
+    nameAlign: 'center',
+    accent: null,
+    headingCase: 'upper',
+    headingRule: true,
+    sectionGap: 6,
+    entryGap: 4,
+    sectionOrder: ['summary', 'skills', 'experience', 'projects', 'education', 'certifications'],
+    dateAlignment: 'right',
+    roleLayout: 'inline',
+    skillsLayout: 'combined',
+  },
+  // Left-aligned name and ruled headings in an accent color, with the company
+  // on its own line under the title
+  modern: {
+    id: 'modern',
+    font: 'Arial',
+    margin: 54,
+    lineHeight: 1.3,
+    sizes: { name: 24, contact: 10, heading: 12, body: 10.5 },
+    nameAlign: 'left',
+    accent: '1F4E79',
+    headingCase: 'title',
+    headingRule: true,
+    sectionGap: 12,
+    entryGap: 8,
+    sectionOrder: ['summary', 'experience', 'projects', 'skills', 'certifications', 'education'],
+    dateAlignment: 'right',
+    roleLayout: 'stacked',
+    skillsLayout: 'labels',
+  },
+};
+
+const BULLET_INDENT = 18;
+
+const SECTION_TITLES = {
+  summary: 'Summary',
+  experience: 'Experience',
+  projects: 'Projects',
+  skills: 'Skills',
+  education: 'Education',
+  certifications: 'Certifications',
+};
+
+function resolveTheme(themeId) {
+  return THEMES[themeId] || THEMES[DEFAULT_THEME];
+}
+
+function run(text, font = 'regular', color) {
+  return color ? { text, font, color } : { text, font };
+}
+
+/**
+ * Builds the blocks for one resume. Each block is a paragraph of styled runs
+ * ({ text, font, color? }) with optional align, indent, keepWithNext,
+ * spaceBefore, rule (a line under the paragraph) and aside (text set flush
+ * right on the first line). Blocks without runs are blank lines.
+ */
+function resumeBlocks(resumeJson, theme = resolveTheme()) {
+  const { sizes } = theme;
+  const blocks = [];
+  const blank = () => ({ runs: [], size: sizes.body });
+  const body = (runs, options = {}) => ({
+    runs: typeof runs === 'string' ? [run(runs)] : runs,
+    size: sizes.body,
+    ...options,
+  });
+  const bullet = (text) => body(`• ${text}`, { indent: BULLET_INDENT });
+
+  const heading = (section) => {
+    const title = SECTION_TITLES[section];
+    return {
+      runs: [run(theme.headingCase === 'upper' ? title.toUpperCase() : title, 'bold', theme.accent)],
+      size: sizes.heading,
+      role: 'heading',
+      keepWithNext: true,
+      rule: theme.headingRule,
+      spaceBefore: typeof theme.sectionGap === 'number' ? theme.sectionGap : 0,
+      spaceAfter: theme.headingRule ? 3 : 0,
+    };
+  };
+
+  // Role, project or school rows: "Primary | Secondary" or a stacked pair,
+  // with the dates either below or flush right
+  const entry = (primary, secondary, dates, index) => {
+    const rows = [];
+    const aside = dates && theme.dateAlignment === 'right' ? { text: dates, font: 'italic' } : undefined;
+    const spaceBefore = index > 0 ? theme.entryGap : 0;
+
+    if (!secondary) {
+      rows.push(body([run(primary, 'bold')], { keepWithNext: true, aside, spaceBefore }));
+    } else if (theme.roleLayout === 'stacked') {
+      rows.push(body([run(primary, 'bold')], { keepWithNext: true, aside, spaceBefore }));
+      rows.push(body([run(secondary, 'italic')], { keepWithNext: true }));
+    } else {
+      rows.push(body([run(primary, 'bold'), run(' | '), run(secondary)], { keepWithNext: true, aside, spaceBefore }));
+    }
+    if (dates && !aside) rows.push(body([run(dates, 'italic')], { keepWithNext: true }));
+    return rows;
+  };
+
+  const sections = {
+    summary: () => (resumeJson.summary ? [body(resumeJson.summary)] : []),
+
+    experience: () => {
+      const rows = [];
+      (resumeJson.experience || []).forEach((exp, index) => {
+        rows.push(...entry(exp.title || 'Role', exp.company || 'Company', exp.dates, index));
+        (exp.bullets || []).forEach((text) => rows.push(bullet(text)));
+        if (theme.sectionGap === 'blank') rows.push(blank());
+      });
+      return rows;
+    },
+
+    projects: () => {
+      const rows = [];
+      (resumeJson.projects || []).forEach((project, index) => {
+        rows.push(...entry(project.title || 'Project', (project.technologies || []).join(', '), undefined, index));
+        if (project.url) rows.push(body(project.url, { keepWithNext: true }));
+        (project.bullets || []).forEach((text) => rows.push(bullet(text)));
+        if (theme.sectionGap === 'blank') rows.push(blank());
+      });
+      return rows;
+    },
+
+    skills: () => {
+      if (!resumeJson.skills) return [];
+      const groups = [
+        ['Core', resumeJson.skills.core],
+        ['Tools', resumeJson.skills.tools],
+        ['Domains', resumeJson.skills.domains],
+      ].filter(([, values]) => values && values.length > 0);
+
+      if (theme.skillsLayout === 'combined') {
+        const all = Array.from(new Set(groups.flatMap(([, values]) => values)));
+        return all.length > 0 ? [body(all.join(', '))] : [];
+      }
+      return groups.map(([label, values]) =>
+        theme.skillsLayout === 'labels'
+          ? body([run(`${label}: `, 'bold'), run(values.join(', '))])
+          : body(`${label}: ${values.join(', ')}`)
+      );
+    },
+
+    education: () => {
+      const rows = [];
+      (resumeJson.education || []).forEach((edu, index) => {
+        const entryRows = entry(edu.school || 'University', edu.degree || 'Degree', edu.dates, index);
+        // The last row of an entry has nothing of its own to keep it with
+        entryRows[entryRows.length - 1].keepWithNext = false;
+        rows.push(...entryRows);
+        if (theme.sectionGap === 'blank') rows.push(blank());
+      });
+      return rows;
+    },
+
+    certifications: () => (resumeJson.certifications || []).map(bullet),
+  };
+
+  if (resumeJson.header) {
+    // The header is the profile's contact info as entered; nothing is filled in
+    const name = resumeJson.header.name;
+    if (name) {
+      blocks.push({ runs: [run(name, 'bold', theme.accent)], size: sizes.name, role: 'name', align: theme.nameAlign });
+    }
+
+    const align = theme.nameAlign;
+    const contactParts = [resumeJson.header.location, resumeJson.header.phone, resumeJson.header.email].filter(Boolean);
+    if (contactParts.length > 0) {
+      blocks.push({ runs: [run(contactParts.join(' | '))], size: sizes.contact, align });
+    }
+    const links = (resumeJson.header.links || []).filter(Boolean);
+    if (links.length > 0) {
+      blocks.push({ runs: [run(links.join(' | '))], size: sizes.contact, align });
+    }
+
+    if (blocks.length > 0) {
+      if (theme.sectionGap === 'blank') blocks.push(blank());
+      else blocks[blocks.length - 1].spaceAfter = 4;
+    }
+  }
+
+  theme.sectionOrder.forEach((section) => {
+    const build = sections[section];
+    const rows = build ? build() : [];
+    if (rows.length === 0) return;
+
+    blocks.push(heading(section), ...rows);
+    const entrySection = section === 'experience' || section === 'projects' || section === 'education';
+    if (theme.sectionGap === 'blank' && !entrySection) blocks.push(blank());
+  });
+
+  return blocks;
+}
+
+module.exports = {
+  DEFAULT_THEME,
+  PAGE_SIZE,
+  THEMES,
+  BULLET_INDENT,
+  resolveTheme,
+  resumeBlocks,
+};
@@ -0,0 +1,99 @@
+/**
+ * Standard DOCX Renderer
+ * Writes the theme blocks from resumeThemes as Word paragraphs. The name and
+ * section headings keep the Heading 1 / Heading 2 styles so the document
+ * outline survives, with the theme's own sizes and colors on top.
+ */
+
+const {
+  AlignmentType,
+  BorderStyle,
+  Document,
+  HeadingLevel,
+  Packer,
+  Paragraph,
+  Tab,
+  TabStopType,
+  TextRun,
+} = require('docx');
+const { PAGE_SIZE, resolveTheme, resumeBlocks } = require('./resumeThemes');
+
+const twips = (points) => Math.round(points * 20);
+const halfPoints = (points) => Math.round(points * 2);
+
+function textRun(run, size) {
+  return new TextRun({
+    text: run.text,
+    bold: run.font === 'bold',
+    italics: run.font === 'italic',
+    color: run.color || undefined,
+    size: halfPoints(size),
+  });
+}
+
+function blockParagraph(block, theme) {
+  if (block.runs.length === 0) {
+    return new Paragraph({ text: '' });
+  }
+
+  const children = block.runs.map((run) => textRun(run, block.size));
+  if (block.aside) {
+    children.push(
+      new TextRun({
+        children: [new Tab(), block.aside.text],
+        italics: block.aside.font === 'italic',
+        size: halfPoints(block.size),
+      })
+    );
+  }
+
+  return new Paragraph({
+    children,
+    heading: block.role === 'name' ? HeadingLevel.HEADING_1 : block.role === 'heading' ? HeadingLevel.HEADING_2 : undefined,
+    alignment: block.align === 'center' ? AlignmentType.CENTER : undefined,
+    indent: block.indent ? { left: twips(block.indent) } : undefined,
+    keepNext: block.keepWithNext || undefined,
+    spacing: { before: twips(block.spaceBefore || 0), after: twips(block.spaceAfter || 0) },
+    // Dates are tabbed to the right margin
+    tabStops: block.aside ? [{ type: TabStopType.RIGHT, position: twips(PAGE_SIZE.width) - twips(theme.margin) * 2 }] : undefined,
+    border: block.rule
+      ? { bottom: { style: BorderStyle.SINGLE, size: 6, space: 1, color: block.runs[0].color || '000000' } }
+      : undefined,
+  });
+}
+
+/**
+ * Renders a tailored resume in the given theme (classic when unknown).
+ */
+async function renderStandardDocx(resumeJson, themeId) {
+  const theme = resolveTheme(themeId);
+  const doc = new Document({
+    styles: {
+      default: {
+        document: { run: { font: theme.font, size: halfPoints(theme.sizes.body) } },
+      },
+    },
+    sections: [
+      {
+        properties: {
+          page: {
+            size: { width: twips(PAGE_SIZE.width), height: twips(PAGE_SIZE.height) },
+            margin: {
+              top: twips(theme.margin),
+              right: twips(theme.margin),
+              bottom: twips(theme.margin),
+              left: twips(theme.margin),
+            },
+          },
+        },
+        children: resumeBlocks(resumeJson, theme).map((block) => blockParagraph(block, theme)),
+      },
+    ],
+  });
+
+  return Packer.toBuffer(doc);
+}
+
+module.exports = {
+  renderStandardDocx,
+};
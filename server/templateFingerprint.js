@@ -0,0 +1,106 @@
+/**
+ * Template Fingerprint
+ * Describes a resume DOCX from its paragraph and numbering structure: the
+ * real section order, page setup and one record per experience entry with
+ * its title, company, dates and a character budget for each original bullet.
+ */
+
+const {
+  loadDocx,
+  readBody,
+  groupEntries,
+  normalize,
+  readEntryHeader,
+  bulletContent,
+} = require('./docxStructure');
+
+const TITLE_WORDS = /\b(engineer|developer|manager|director|analyst|designer|consultant|lead|architect|scientist|specialist|coordinator|associate|intern|administrator|officer|head|vp|president|founder|owner|assistant|technician|researcher|programmer|strategist|product|marketing|sales|support|editor|writer|recruiter|accountant)\b/i;
+const COMPANY_WORDS = /\b(inc|llc|ltd|corp|corporation|co|company|gmbh|plc|group|labs?|technologies|systems|solutions|partners|studios?|bank|university|agency)\b\.?/i;
+
+function matchesKnown(text, value) {
+  const a = normalize(text);
+  const b = normalize(value);
+  return !!a && !!b && (a === b || a.includes(b) || b.includes(a));
+}
+
+/**
+ * Picks which header slots hold the title and company. Roles the client
+ * already knows win, then title/company keywords, then position (title
+ * first, matching how the renderer lays out cloned entries).
+ */
+function resolveRole(textSlots, knownRoles) {
+  const texts = textSlots.map(({ segment }) => segment.text);
+  if (texts.length === 0) return {};
+
+  for (const role of knownRoles) {
+    const company = texts.findIndex((text) => matchesKnown(text, role.company));
+    if (company === -1) continue;
+    const title = texts.findIndex((text, index) => index !== company && matchesKnown(text, role.title));
+    const fallback = texts.findIndex((_, index) => index !== company);
+    const titleIndex = title !== -1 ? title : fallback;
+    return { company: texts[company], title: titleIndex === -1 ? undefined : texts[titleIndex] };
+  }
+
+  if (texts.length === 1) {
+    return COMPANY_WORDS.test(texts[0]) && !TITLE_WORDS.test(texts[0]) ? { company: texts[0] } : { title: texts[0] };
+  }
+
+  const score = (text) => (COMPANY_WORDS.test(text) ? 1 : 0) - (TITLE_WORDS.test(text) ? 1 : 0);
+  const [first, second] = texts;
+  if (score(first) > score(second)) {
+    return { company: first, title: second };
+  }
+  return { title: first, company: second };
+}
+
+function describeEntry(entry, knownRoles) {
+  const { textSlots, dateSlot } = readEntryHeader(entry);
+  const role = resolveRole(textSlots, knownRoles);
+  const budgets = entry.bullets.map((bullet) => bulletContent(bullet.text).length);
+  const numbered = entry.bullets.find((bullet) => bullet.listKind && bullet.listKind.startsWith('numbering:'));
+
+  return {
+    ...role,
+    dates: dateSlot ? dateSlot.segment.text : undefined,
+    headerLineCount: entry.header.length,
+    bulletCount: budgets.length,
+    bulletCharBudgets: budgets,
+    bulletFormat: numbered ? numbered.listKind.slice('numbering:'.length) : entry.bullets.length > 0 ? 'glyph' : undefined,
+    inTable: !!entry.row,
+  };
+}
+
+function textLength(paragraphs) {
+  return paragraphs.reduce((sum, paragraph) => sum + bulletContent(paragraph.text).length, 0);
+}
+
+/**
+ * Fingerprints a template DOCX.
+ * @param {Buffer} templateBuffer - The original resume DOCX
+ * @param {Array<{ title?: string, company?: string }>} knownRoles - Roles from the user's profile, used to tell titles from companies
+ * @returns {Promise<Object>} TemplateFingerprint
+ */
+async function fingerprintTemplateDocx(templateBuffer, knownRoles = []) {
+  const { doc, lists, page } = await loadDocx(templateBuffer);
+  const { paragraphs, sections } = readBody(doc, lists);
+
+  if (!sections.experience) {
+    throw new Error('Could not find an experience section in the template');
+  }
+
+  const entries = groupEntries(sections.experience).filter((entry) => entry.bullets.length > 0 || entry.header.length > 0);
+
+  return {
+    hasSummary: !!sections.summary,
+    sectionOrder: Object.keys(sections),
+    experience: entries.map((entry) => describeEntry(entry, knownRoles.filter((role) => role && role.company))),
+    summaryCharBudget: sections.summary ? textLength(sections.summary) : undefined,
+    totalCharBudget: textLength(paragraphs),
+    page,
+    source: 'structure',
+  };
+}
+
+module.exports = {
+  fingerprintTemplateDocx,
+};
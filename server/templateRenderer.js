@@ -0,0 +1,326 @@
+/**
+ * Template DOCX Renderer
+ * Rewrites the text of a user's own resume DOCX in place so runs, styles,
+ * fonts, tables and section order survive. Only text nodes are edited;
+ * paragraphs are cloned or removed when the entry/bullet counts differ.
+ */
+
+const { XMLSerializer } = require('@xmldom/xmldom');
+
+const {
+  W_NS,
+  BULLET_PREFIX,
+  childElements,
+  descendants,
+  loadDocx,
+  readParagraph,
+  toParagraph,
+  readBody,
+  groupEntries,
+  normalize,
+  readEntryHeader,
+} = require('./docxStructure');
+
+const XML_NS = 'http://www.w3.org/XML/1998/namespace';
+
+function setPieceText(node, value) {
+  while (node.firstChild) node.removeChild(node.firstChild);
+  node.appendChild(node.ownerDocument.createTextNode(value));
+  if (/^\s|\s$/.test(value)) {
+    node.setAttributeNS(XML_NS, 'xml:space', 'preserve');
+  }
+}
+
+/**
+ * Replaces character ranges of a paragraph's text. Each replacement lands in
+ * the run where its range starts, so it keeps that run's formatting.
+ */
+function replaceRanges(paragraph, replacements) {
+  const { pieces } = readParagraph(paragraph);
+  const updates = new Map(pieces.map((piece) => [piece, piece.node.textContent || '']));
+
+  const sorted = [...replacements].sort((a, b) => b.start - a.start);
+  for (const { start, end, text } of sorted) {
+    const touched = pieces.filter((piece) => piece.end > start && piece.start < end);
+    const host = touched[0] || pieces.find((piece) => piece.end >= start);
+    if (!host) continue;
+
+    for (const piece of touched) {
+      const current = updates.get(piece);
+      const from = Math.max(0, start - piece.start);
+      const to = Math.min(current.length, end - piece.start);
+      const insert = piece === host ? text : '';
+      updates.set(piece, current.slice(0, from) + insert + current.slice(to));
+    }
+    if (touched.length === 0) {
+      const current = updates.get(host);
+      const at = Math.max(0, Math.min(current.length, start - host.start));
+      updates.set(host, current.slice(0, at) + text + current.slice(at));
+    }
+  }
+
+  for (const [piece, value] of updates) {
+    if (value !== (piece.node.textContent || '')) setPieceText(piece.node, value);
+  }
+}
+
+function setParagraphContent(paragraph, value) {
+  const { text } = readParagraph(paragraph);
+  const prefix = text.match(BULLET_PREFIX);
+  const start = prefix ? prefix[0].length : text.length - text.trimStart().length;
+  replaceRanges(paragraph, [{ start, end: text.length, text: value }]);
+}
+
+/**
+ * Rewrites title, company and dates in an entry's header lines. The returned
+ * layout says which text segment held which field, so later entries (and
+ * cloned ones) whose company doesn't match can follow the same layout.
+ */
+function rewriteEntryHeader(entry, exp, fallbackLayout) {
+  const { textSlots: textSegments, dateSlot: dateSegment } = readEntryHeader(entry);
+
+  const company = normalize(exp.company);
+  let companyIndex = textSegments.findIndex(({ segment }) => company && normalize(segment.text) === company);
+  let titleIndex = -1;
+  if (companyIndex === -1 && fallbackLayout && fallbackLayout.company < textSegments.length) {
+    companyIndex = fallbackLayout.company;
+    titleIndex = fallbackLayout.title;
+  }
+  if (titleIndex === -1 || titleIndex >= textSegments.length) {
+    titleIndex = textSegments.findIndex((_, index) => index !== companyIndex);
+  }
+  if (companyIndex === -1) {
+    companyIndex = textSegments.findIndex((_, index) => index !== titleIndex);
+  }
+  const titleSlot = textSegments[titleIndex];
+  const companySlot = textSegments[companyIndex];
+
+  const edits = new Map();
+  const plan = (slot, value) => {
+    if (!slot || !value || normalize(slot.segment.text) === normalize(value)) return;
+    const list = edits.get(slot.field) || [];
+    list.push({ start: slot.segment.start, end: slot.segment.end, text: value });
+    edits.set(slot.field, list);
+  };
+
+  plan(titleSlot, exp.title);
+  plan(companySlot, exp.company);
+  plan(dateSegment, exp.dates);
+
+  for (const [field, replacements] of edits) {
+    replaceRanges(field.paragraph.node, replacements);
+  }
+
+  return { title: titleIndex, company: companyIndex };
+}
+
+function removeParagraph(paragraph) {
+  const parent = paragraph.parentNode;
+  const isOnlyCellParagraph =
+    parent && parent.namespaceURI === W_NS && parent.localName === 'tc' && childElements(parent, 'p').length === 1;
+  if (isOnlyCellParagraph) {
+    setParagraphContent(paragraph, '');
+  } else if (parent) {
+    parent.removeChild(paragraph);
+  }
+}
+
+function insertAfter(reference, node) {
+  reference.parentNode.insertBefore(node, reference.nextSibling);
+}
+
+function rewriteBullets(entry, bullets) {
+  const nodes = entry.bullets.map((b) => b.node);
+  if (nodes.length === 0) return;
+
+  let last = nodes[nodes.length - 1];
+  bullets.forEach((bullet, index) => {
+    if (index < nodes.length) {
+      setParagraphContent(nodes[index], bullet);
+      return;
+    }
+    const clone = last.cloneNode(true);
+    insertAfter(last, clone);
+    setParagraphContent(clone, bullet);
+    last = clone;
+  });
+
+  nodes.slice(bullets.length).forEach(removeParagraph);
+}
+
+function cloneEntry(template, lists) {
+  if (template.row) {
+    const row = template.row.cloneNode(true);
+    insertAfter(template.row, row);
+    const [entry] = groupEntries(descendants(row, 'p').map((node) => toParagraph(node, lists)));
+    return entry;
+  }
+
+  const nodes = [...template.header, ...template.bullets].map((p) => p.node);
+  let anchor = nodes[nodes.length - 1];
+  const clones = nodes.map((node) => {
+    const clone = node.cloneNode(true);
+    insertAfter(anchor, clone);
+    anchor = clone;
+    return clone;
+  });
+
+  return {
+    header: clones.slice(0, template.header.length).map((node) => toParagraph(node, lists)),
+    bullets: clones.slice(template.header.length).map((node) => toParagraph(node, lists)),
+    row: null,
+  };
+}
+
+function removeEntry(entry) {
+  if (entry.row && entry.row.parentNode) {
+    entry.row.parentNode.removeChild(entry.row);
+    return;
+  }
+  [...entry.header, ...entry.bullets].forEach((p) => removeParagraph(p.node));
+}
+
+function rewriteExperience(paragraphs, experience, lists) {
+  const entries = groupEntries(paragraphs);
+  if (entries.length === 0 || !experience || experience.length === 0) return 0;
+
+  while (entries.length < experience.length) {
+    entries.push(cloneEntry(entries[entries.length - 1], lists));
+  }
+
+  let layout = null;
+  experience.forEach((exp, index) => {
+    layout = rewriteEntryHeader(entries[index], exp, layout);
+    rewriteBullets(entries[index], exp.bullets || []);
+  });
+
+  entries.slice(experience.length).forEach(removeEntry);
+
+  return experience.length;
+}
+
+/**
+ * Fills a projects section the same way as experience, with the technologies
+ * in the company slot. Only sections whose projects all have bullets are
+ * rewritten; free-text project blurbs can't be split into entries reliably.
+ */
+function rewriteProjects(paragraphs, projects, lists) {
+  const entries = groupEntries(paragraphs);
+  if (!projects || projects.length === 0 || entries.length === 0) return 0;
+  if (entries.some((entry) => entry.header.length === 0 || entry.bullets.length === 0)) return 0;
+
+  return rewriteExperience(
+    paragraphs,
+    projects.map((project) => ({
+      title: project.title,
+      company: (project.technologies || []).join(', '),
+      bullets: project.bullets || [],
+    })),
+    lists
+  );
+}
+
+function rewriteSummary(paragraphs, summary) {
+  const filled = paragraphs.filter((p) => p.text.trim());
+  if (!summary || filled.length === 0) return false;
+
+  setParagraphContent(filled[0].node, summary);
+  filled.slice(1).forEach((p) => removeParagraph(p.node));
+  return true;
+}
+
+function skillsFor(label, skills) {
+  if (/tool|software|platform|technolog/i.test(label)) return skills.tools;
+  if (/domain|industr/i.test(label)) return skills.domains;
+  return skills.core;
+}
+
+function rewriteSkills(paragraphs, skills) {
+  if (!skills) return false;
+  const filled = paragraphs.filter((p) => p.text.trim());
+  let changed = false;
+
+  for (const paragraph of filled) {
+    const { text } = readParagraph(paragraph.node);
+    const labeled = text.match(/^(\s*[^:]{1,40}:\s*)(.+)$/);
+    if (!labeled) continue;
+    const values = skillsFor(labeled[1], skills);
+    if (!values || values.length === 0) continue;
+    replaceRanges(paragraph.node, [{ start: labeled[1].length, end: text.length, text: values.join(', ') }]);
+    changed = true;
+  }
+
+  if (!changed && filled.length === 1 && !filled[0].bullet) {
+    const all = [...(skills.core || []), ...(skills.tools || [])];
+    if (all.length > 0) {
+      setParagraphContent(filled[0].node, all.join(', '));
+      changed = true;
+    }
+  }
+
+  return changed;
+}
+
+/**
+ * Rewrites the name and contact lines above the first section heading. The
+ * first line takes the name; the contact details (and links on a second
+ * contact line, when the template has one) reuse the template's separator.
+ */
+function rewriteHeader(paragraphs, header) {
+  if (!header) return false;
+  const firstSection = paragraphs.findIndex((p) => p.section && !p.bullet);
+  const filled = paragraphs.slice(0, firstSection === -1 ? 0 : firstSection).filter((p) => p.text.trim());
+  if (filled.length === 0) return false;
+
+  const [nameLine, ...contactLines] = filled;
+  if (header.name) setParagraphContent(nameLine.node, header.name);
+  if (contactLines.length === 0) return true;
+
+  const separator = (contactLines[0].text.match(/\s+[|·•]\s+/) || [' | '])[0];
+  const contact = [header.location, header.phone, header.email].filter(Boolean);
+  const links = (header.links || []).filter(Boolean);
+  const lines = contactLines.length > 1 ? [contact, links] : [[...contact, ...links]];
+
+  contactLines.forEach((paragraph, index) => {
+    const parts = lines[index] || [];
+    if (parts.length > 0) {
+      setParagraphContent(paragraph.node, parts.join(separator));
+    } else {
+      removeParagraph(paragraph.node);
+    }
+  });
+  return true;
+}
+
+/**
+ * Fills the user's template DOCX with tailored resume content.
+ * @param {Buffer} templateBuffer - The original resume DOCX
+ * @param {Object} resumeJson - Tailored resume JSON
+ * @returns {Promise<{ buffer: Buffer, report: Object }>} Rendered DOCX and what was replaced
+ */
+async function renderTemplateDocx(templateBuffer, resumeJson) {
+  const { zip, doc, lists } = await loadDocx(templateBuffer);
+  const { paragraphs, sections } = readBody(doc, lists);
+
+  if (!sections.experience) {
+    throw new Error('Could not find an experience section in the template');
+  }
+
+  const report = {
+    header: rewriteHeader(paragraphs, resumeJson.header),
+    experienceEntries: rewriteExperience(sections.experience, resumeJson.experience, lists),
+    summary: sections.summary ? rewriteSummary(sections.summary, resumeJson.summary) : false,
+    skills: sections.skills ? rewriteSkills(sections.skills, resumeJson.skills) : false,
+    projects: sections.projects ? rewriteProjects(sections.projects, resumeJson.projects, lists) : 0,
+    sectionOrder: Object.keys(sections),
+  };
+
+  zip.file('word/document.xml', new XMLSerializer().serializeToString(doc));
+  const buffer = await zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+
+  return { buffer, report };
+}
+
+module.exports = {
+  renderTemplateDocx,
+};
@@ -0,0 +1,411 @@
+/**
+ * PDF Renderer Tests
+ * Renders the fixture resumes and checks the file structure, the section
+ * layout, line wrapping, pagination, themes, projects, the contact header, the
+ * one-page limit and that output is byte-for-byte stable
+ */
+
+const path = require('path');
+
+const { PAGE, textWidth, renderResumePdf } = require('../server/pdfRenderer');
+const { THEMES } = require('../server/resumeThemes');
+
+// eslint-disable-next-line no-undef
+const FIXTURES = path.join(__dirname, 'fixtures');
+const FONT_NAMES = { F1: 'regular', F2: 'bold', F3: 'italic' };
+
+// Test utilities
+function assert(condition, message) {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+function assertEqual(actual, expected, message) {
+  if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+    throw new Error(`Assertion failed: ${message}\nExpected: ${JSON.stringify(expected)}\nActual: ${JSON.stringify(actual)}`);
+  }
+}
+
+function fixture(name) {
+  return JSON.parse(JSON.stringify(require(path.join(FIXTURES, name))));
+}
+
+function unescapePdf(literal) {
+  return literal
+    .replace(/\\([0-7]{3})/g, (_, octal) => String.fromCharCode(parseInt(octal, 8)))
+    .replace(/\\([()\\])/g, '$1');
+}
+
+/** Every text run, page by page, as { font, size, x, y, text } */
+function readRuns(buffer) {
+  const source = buffer.toString('latin1');
+  const streams = [...source.matchAll(/stream\n([^]*?)\nendstream/g)].map((match) => match[1]);
+  return streams.map((stream) =>
+    stream
+      .split('\n')
+      .map((line) => line.match(/^\/(F\d) (\S+) Tf 1 0 0 1 (\S+) (\S+) Tm \((.*)\) Tj$/))
+      .filter(Boolean)
+      .map(([, font, size, x, y, text]) => ({
+        font: FONT_NAMES[font],
+        size: Number(size),
+        x: Number(x),
+        y: Number(y),
+        text: unescapePdf(text),
+      }))
+  );
+}
+
+// Test 1: Cross-reference table points at every object
+async function testFileStructure() {
+  console.log('Test 1: PDF file structure');
+
+  try {
+    const { buffer, pageCount } = renderResumePdf(fixture('resume-standard.json'));
+    const source = buffer.toString('latin1');
+
+    assert(source.startsWith('%PDF-1.4\n'), 'Should start with a PDF header');
+    assert(source.endsWith('%%EOF\n'), 'Should end with an EOF marker');
+    assertEqual(pageCount, 1, 'Standard fixture should fit on one page');
+    assert(!/CreationDate|ModDate|\/ID/.test(source), 'Should not write timestamps or file ids');
+
+    const startxref = Number(source.match(/startxref\n(\d+)/)[1]);
+    assert(source.startsWith('xref\n', startxref), 'startxref should point at the xref table');
+    const offsets = [...source.slice(startxref).matchAll(/^(\d{10}) 00000 n $/gm)].map((match) => Number(match[1]));
+    offsets.forEach((offset, index) => {
+      assert(source.startsWith(`${index + 1} 0 obj\n`, offset), `Offset for object ${index + 1} should be exact`);
+    });
+
+    for (const match of source.matchAll(/<< \/Length (\d+) >>\nstream\n([^]*?)\nendstream/g)) {
+      assertEqual(match[2].length, Number(match[1]), 'Stream length should match its content');
+    }
+
+    console.log('✓ Test 1 passed\n');
+    return true;
+  } catch (error) {
+    console.error('✗ Test 1 failed:', error.message);
+    return false;
+  }
+}
+
+// Test 2: Sections follow the DOCX layout with the same styling
+async function testSectionLayout() {
+  console.log('Test 2: Section layout');
+
+  try {
+    const [runs] = readRuns(renderResumePdf(fixture('resume-standard.json')).buffer);
+    const texts = runs.map((run) => run.text);
+    const headings = runs.filter((run) => run.size === 13).map((run) => run.text);
+
+    assertEqual(headings, ['SUMMARY', 'EXPERIENCE', 'SKILLS', 'EDUCATION', 'CERTIFICATIONS'], 'Section order should match the DOCX');
+    assertEqual(runs[0].text, 'Jordan Rivera', 'Name should come first');
+    assert(runs[0].font === 'bold' && runs[0].size === 20, 'Name should be a bold title');
+    assert(Math.abs(runs[0].x + textWidth('Jordan Rivera', 'bold', 20) / 2 - PAGE.width / 2) < 0.05, 'Name should be centered');
+    assertEqual(runs[1].text, 'Austin, TX | (512) 555-0142 | jordan@example.com', 'Contact line should follow');
+
+    const title = runs.find((run) => run.text === 'Staff Software Engineer');
+    const company = runs.find((run) => run.text === '| Acme Payments');
+    assert(title && title.font === 'bold', 'Role title should be bold');
+    assert(company && company.font === 'regular' && company.y === title.y, 'Company should share the title line');
+    assert(runs.find((run) => run.text === 'Jan 2020 \x96 Present').font === 'italic', 'Dates should be italic');
+    assert(texts.includes('\x95 Reduced settlement latency by 40% with batched writes.'), 'Bullets should keep the bullet glyph');
+    assert(texts.includes('Tools: PostgreSQL, Kafka, Docker, Kubernetes'), 'Skills should be labeled');
+    assert(texts.includes('\x95 Introduced contract tests between billing and the \x93payments core\x94 team.'), 'Curly quotes use WinAnsi codes');
+
+    console.log('✓ Test 2 passed\n');
+    return true;
+  } catch (error) {
+    console.error('✗ Test 2 failed:', error.message);
+    return false;
+  }
+}
+
+// Test 3: Long lines wrap inside the margins and keep the bullet indent
+async function testWrapping() {
+  console.log('Test 3: Line wrapping');
+
+  try {
+    const pages = readRuns(renderResumePdf(fixture('resume-standard.json')).buffer);
+    for (const run of pages.flat()) {
+      assert(run.x >= PAGE.margin - 0.01, `"${run.text}" should start inside the left margin`);
+      const right = run.x + textWidth(run.text, run.font, run.size);
+      assert(right <= PAGE.width - PAGE.margin + 1, `"${run.text}" should end inside the right margin`);
+    }
+
+    const bulletStart = pages[0].findIndex((run) => run.text.startsWith('\x95 Re-architected the ledger service'));
+    const continuation = pages[0][bulletStart + 1];
+    assertEqual(continuation.text, 'database capacity or on-call load.', 'Long bullet should wrap onto a second line');
+    assertEqual(continuation.x, pages[0][bulletStart].x, 'Wrapped line should keep the bullet indent');
+
+    const { buffer } = renderResumePdf({ header: { name: 'A' }, summary: 'x'.repeat(400) });
+    const summaryLines = readRuns(buffer)[0].filter((run) => run.text.startsWith('x'));
+    assert(summaryLines.length > 1, 'A word wider than the page should be split');
+
+    console.log('✓ Test 3 passed\n');
+    return true;
+  } catch (error) {
+    console.error('✗ Test 3 failed:', error.message);
+    return false;
+  }
+}
+
+// Test 4: Long resumes break across pages without stranding headings
+async function testPagination() {
+  console.log('Test 4: Pagination');
+
+  try {
+    const { buffer, pageCount } = renderResumePdf(fixture('resume-long.json'));
+    const pages = readRuns(buffer);
+
+    assert(pageCount > 1, 'Long fixture should need more than one page');
+    assertEqual(pages.length, pageCount, 'Should write one content stream per page');
+    assert(buffer.toString('latin1').includes(`/Count ${pageCount}`), 'Page tree should count every page');
+
+    pages.forEach((runs, index) => {
+      for (const run of runs) {
+        assert(run.y >= PAGE.margin && run.y <= PAGE.height - PAGE.margin, `Text on page ${index + 1} should stay inside the margins`);
+      }
+      const last = runs[runs.length - 1];
+      assert(last.size !== 13 && last.font !== 'italic', `Page ${index + 1} should not end with a heading or dates`);
+    });
+
+    const bullets = pages.flat().filter((run) => run.text.startsWith('\x95 Designed and operated'));
+    assertEqual(bullets.length, 35, 'Every bullet should be rendered once');
+
+    console.log('✓ Test 4 passed\n');
+    return true;
+  } catch (error) {
+    console.error('✗ Test 4 failed:', error.message);
+    return false;
+  }
+}
+
+// Test 5: Output is deterministic and unsupported characters degrade safely
+async function testDeterministicOutput() {
+  console.log('Test 5: Deterministic output');
+
+  try {
+    const first = renderResumePdf(fixture('resume-long.json')).buffer;
+    const second = renderResumePdf(fixture('resume-long.json')).buffer;
+    assert(first.equals(second), 'Same resume should render to identical bytes');
+
+    const [runs] = readRuns(renderResumePdf({ header: { name: 'José Núñez 🚀' }, experience: [] }).buffer);
+    assertEqual(runs[0].text, 'Jos\xe9 N\xfa\xf1ez ?', 'Latin-1 letters are kept and other characters become "?"');
+
+    try {
+      renderResumePdf(null);
+      console.error('✗ Test 5 failed: Should throw without a resume');
+      return false;
+    } catch (error) {
+      assert(/resumeJson is required/.test(error.message), 'Should explain what is missing');
+    }
+
+    console.log('✓ Test 5 passed\n');
+    return true;
+  } catch (error) {
+    console.error('✗ Test 5 failed:', error.message);
+    return false;
+  }
+}
+
+// Test 6: Themes change section order, date placement and the header
+async function testThemes() {
+  console.log('Test 6: Themes');
+
+  try {
+    const resume = fixture('resume-standard.json');
+    resume.header.links = ['linkedin.com/in/jordanrivera', 'github.com/jrivera'];
+
+    const [classic] = readRuns(renderResumePdf(resume).buffer);
+    assertEqual(classic[2].text, 'linkedin.com/in/jordanrivera | github.com/jrivera', 'Links should follow the contact line');
+    assert(renderResumePdf(resume, 'unknown').buffer.equals(renderResumePdf(resume, 'classic').buffer), 'Unknown themes fall back to classic');
+
+    const [compact] = readRuns(renderResumePdf(resume, 'compact').buffer);
+    const compactHeadings = compact.filter((run) => run.size === THEMES.compact.sizes.heading).map((run) => run.text);
+    assertEqual(compactHeadings, ['SUMMARY', 'SKILLS', 'EXPERIENCE', 'EDUCATION', 'CERTIFICATIONS'], 'Compact puts skills first');
+    const title = compact.find((run) => run.text === 'Staff Software Engineer');
+    const dates = compact.find((run) => run.text === 'Jan 2020 \x96 Present');
+    assertEqual(dates.y, title.y, 'Compact dates should share the role line');
+    const right = dates.x + textWidth(dates.text, dates.font, dates.size);
+    assert(Math.abs(right - (PAGE.width - THEMES.compact.margin)) < 0.05, 'Compact dates should be flush right');
+    assert(compact.some((run) => run.text.startsWith('Go, SQL, Distributed systems, PostgreSQL')), 'Compact skills share one line');
+
+    const modernBuffer = renderResumePdf(resume, 'modern').buffer;
+    const [modern] = readRuns(modernBuffer);
+    const modernHeadings = modern.filter((run) => run.size === THEMES.modern.sizes.heading).map((run) => run.text);
+    assertEqual(modernHeadings, ['Summary', 'Experience', 'Skills', 'Certifications', 'Education'], 'Modern uses its own order and case');
+    assertEqual(modern[0].x, THEMES.modern.margin, 'Modern name should be left-aligned');
+    const company = modern.find((run) => run.text === 'Acme Payments');
+    assert(company && company.font === 'italic', 'Modern puts the company on its own italic line');
+    assertEqual((modernBuffer.toString('latin1').match(/ l S$/gm) || []).length, 5, 'Modern rules a line under each heading');
+
+    console.log('✓ Test 6 passed\n');
+    return true;
+  } catch (error) {
+    console.error('✗ Test 6 failed:', error.message);
+    return false;
+  }
+}
+
+// Test 7: Projects follow experience with their technologies and link
+async function testProjects() {
+  console.log('Test 7: Projects');
+
+  try {
+    const resume = fixture('resume-standard.json');
+    resume.projects = [
+      { title: 'Ledger CLI', technologies: ['Go', 'Cobra'], url: 'github.com/jrivera/ledger', bullets: ['Open-source double-entry ledger tool.'] },
+    ];
+
+    const [runs] = readRuns(renderResumePdf(resume).buffer);
+    const headings = runs.filter((run) => run.size === 13).map((run) => run.text);
+    assertEqual(headings, ['SUMMARY', 'EXPERIENCE', 'PROJECTS', 'SKILLS', 'EDUCATION', 'CERTIFICATIONS'], 'Projects come after experience');
+
+    const index = runs.findIndex((run) => run.text === 'Ledger CLI');
+    assert(runs[index].font === 'bold', 'Project title should be bold');
+    assertEqual(runs.slice(index + 1, index + 4).map((run) => run.text), [
+      '| Go, Cobra',
+      'github.com/jrivera/ledger',
+      '\x95 Open-source double-entry ledger tool.',
+    ], 'Technologies, link and bullets follow the title');
+
+    const [compact] = readRuns(renderResumePdf({ ...resume, projects: [{ title: 'Solo', bullets: [] }] }, 'compact').buffer);
+    assert(compact.some((run) => run.text === 'Solo' && run.font === 'bold'), 'A project without technologies is just its title');
+
+    console.log('✓ Test 7 passed\n');
+    return true;
+  } catch (error) {
+    console.error('✗ Test 7 failed:', error.message);
+    return false;
+  }
+}
+
+// Test 8: The contact header is drawn as given, with nothing filled in
+async function testContactHeader() {
+  console.log('Test 8: Contact header');
+
+  try {
+    const resume = fixture('resume-standard.json');
+    resume.header = { name: '', email: 'jr@example.com', links: ['linkedin.com/in/jrivera'] };
+
+    const [runs] = readRuns(renderResumePdf(resume).buffer);
+    assert(!runs.some((run) => run.text === 'Candidate Name'), 'A missing name should not get a placeholder');
+    assertEqual(runs.slice(0, 2).map((run) => run.text), ['jr@example.com', 'linkedin.com/in/jrivera'], 'Contact line and links come first');
+    assertEqual(runs[2].text, 'SUMMARY', 'Summary follows the header');
+
+    const [bare] = readRuns(renderResumePdf({ ...resume, header: { name: '' } }, 'compact').buffer);
+    assertEqual(bare[0].text, 'SUMMARY', 'An empty header draws nothing');
+
+    console.log('✓ Test 8 passed\n');
+    return true;
+  } catch (error) {
+    console.error('✗ Test 8 failed:', error.message);
+    return false;
+  }
+}
+
+// Test 9: A resume the app's estimate just fits on one page renders as one A4 page
+async function testEstimatorOnePageLimit() {
+  console.log('Test 9: One-page limit matches the estimate');
+
+  // Bullets added to the standard fixture, alternating between its two roles.
+  // With one more, estimateResumeLayout (lib/resumeLayout) for the theme no
+  // longer fits one page: these are at 99.8%, 98.9% and 98.5% of it.
+  const extraBullets = [
+    'Shipped a reconciliation job that matched settlement files against the ledger every night.',
+    'Cut p99 API latency from 900ms to 120ms by moving hot reads to a Redis cache.',
+    'Mentored four engineers through promotion to senior and ran the team interview loop.',
+  ];
+  const limits = { classic: 13, compact: 33, modern: 20 };
+
+  try {
+    for (const [themeId, count] of Object.entries(limits)) {
+      const resume = fixture('resume-standard.json');
+      for (let i = 0; i < count; i++) {
+        resume.experience[i % 2].bullets.push(extraBullets[i % extraBullets.length]);
+      }
+
+      const { buffer, pageCount } = renderResumePdf(resume, themeId);
+      assertEqual(pageCount, 1, `${themeId}: a resume at the estimated limit should render on one page`);
+      assert(
+        buffer.toString('latin1').includes(`/MediaBox [0 0 ${PAGE.width} ${PAGE.height}]`),
+        `${themeId}: page should be the A4 size the estimate uses`
+      );
+      const [runs] = readRuns(buffer);
+      assert(runs.some((run) => run.text.startsWith('\x95 AWS Certified')), `${themeId}: the last section should be on the page`);
+    }
+
+    assertEqual([PAGE.width, PAGE.height], [595.3, 841.9], 'Pages should be A4');
+
+    console.log('✓ Test 9 passed\n');
+    return true;
+  } catch (error) {
+    console.error('✗ Test 9 failed:', error.message);
+    return false;
+  }
+}
+
+async function runAllTests() {
+  console.log('=== Starting PDF Renderer Tests ===\n');
+
+  const tests = [
+    testFileStructure,
+    testSectionLayout,
+    testWrapping,
+    testPagination,
+    testDeterministicOutput,
+    testThemes,
+    testProjects,
+    testContactHeader,
+    testEstimatorOnePageLimit,
+  ];
+
+  let passed = 0;
+  let failed = 0;
+
+  for (const test of tests) {
+    try {
+      if (await test()) {
+        passed++;
+      } else {
+        failed++;
+      }
+    } catch (error) {
+      console.error(`Unexpected error in ${test.name}:`, error);
+      failed++;
+    }
+  }
+
+  console.log('=== Test Results ===');
+  console.log(`Passed: ${passed}/${tests.length}`);
+  console.log(`Failed: ${failed}/${tests.length}`);
+
+  if (failed === 0) {
+    console.log('\n✓ All tests passed!');
+  } else {
+    console.log(`\n✗ ${failed} test(s) failed`);
+  }
+
+  return failed === 0;
+}
+
+// Export for use in other test runners
+if (typeof module !== 'undefined' && module.exports) {
+  module.exports = {
+    runAllTests,
+    testFileStructure,
+    testSectionLayout,
+    testWrapping,
+    testPagination,
+    testDeterministicOutput,
+    testThemes,
+    testProjects,
+    testContactHeader,
+    testEstimatorOnePageLimit,
+  };
+}
+
+// Run tests if this file is executed directly
+if (require.main === module) {
+  runAllTests().then((success) => process.exit(success ? 0 : 1));
+}
@@ -0,0 +1,211 @@
+/**
+ * Resume Diff Tests
+ * Compares pairs of generated resumes section by section: projects and
+ * education entries are matched, added, removed and changed like experience
+ *
+ * Run with: bun tests/resumeDiff.test.ts
+ */
+
+import { diffResumeVersions } from "../lib/resumeDiff";
+import type { TailoredResumeJson } from "../lib/tailoredResumeGenerator";
+
+// Test utilities
+function assert(condition: unknown, message: string) {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+function assertEqual(actual: unknown, expected: unknown, message: string) {
+  if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+    throw new Error(`Assertion failed: ${message}\nExpected: ${JSON.stringify(expected)}\nActual: ${JSON.stringify(actual)}`);
+  }
+}
+
+function resume(overrides: Partial<TailoredResumeJson> = {}): TailoredResumeJson {
+  return {
+    header: { name: "Jordan Rivera" },
+    summary: "Payments engineer focused on reliable ledgers.",
+    experience: [
+      {
+        company: "Acme Payments",
+        title: "Staff Software Engineer",
+        dates: "Jan 2020 – Present",
+        bullets: ["Re-architected the ledger service in Go."],
+      },
+    ],
+    projects: [
+      {
+        title: "Ledger Replay",
+        technologies: ["Go", "Kafka"],
+        url: "github.com/jrivera/ledger-replay",
+        bullets: ["Rebuilt account balances from the event log in under an hour."],
+      },
+      { title: "Invoice Lint", technologies: ["TypeScript"], bullets: ["Flagged malformed invoices before billing runs."] },
+    ],
+    skills: { core: ["Go", "SQL"] },
+    education: [
+      { school: "University of Texas at Austin", degree: "B.S. Computer Science", dates: "2012 – 2016" },
+      { school: "Austin Community College", degree: "A.S. Mathematics", dates: "2010 – 2012" },
+    ],
+    ...overrides,
+  };
+}
+
+// Test 1: Identical resumes have no changes in any section
+async function testUnchanged() {
+  console.log("Test 1: Unchanged versions");
+
+  try {
+    const diff = diffResumeVersions(resume(), resume());
+    assert(!diff.hasChanges, "Identical versions should have no changes");
+    assertEqual(diff.projects.map((entry) => entry.kind), ["same", "same"], "Projects should all match");
+    assertEqual(diff.education.map((entry) => entry.kind), ["same", "same"], "Education should all match");
+
+    console.log("✓ Test 1 passed\n");
+    return true;
+  } catch (error) {
+    console.error("✗ Test 1 failed:", (error as Error).message);
+    return false;
+  }
+}
+
+// Test 2: Projects are matched by title, with technology, link and bullet changes
+async function testProjects() {
+  console.log("Test 2: Projects");
+
+  try {
+    const before = resume();
+    const after = resume({
+      projects: [
+        {
+          title: "ledger replay",
+          technologies: ["Go", "PostgreSQL"],
+          url: "ledger-replay.dev",
+          bullets: ["Rebuilt account balances from the event log in under ten minutes."],
+        },
+        { title: "Rate Limiter", technologies: ["Redis"], bullets: ["Shared token buckets across API nodes."] },
+      ],
+    });
+
+    const diff = diffResumeVersions(before, after);
+    assert(diff.hasChanges, "Project changes should count as changes");
+    assertEqual(
+      diff.projects.map((entry) => [entry.kind, entry.title]),
+      [
+        ["changed", "ledger replay"],
+        ["added", "Rate Limiter"],
+        ["removed", "Invoice Lint"],
+      ],
+      "Projects should be matched by title regardless of case"
+    );
+
+    const [changed, added, removed] = diff.projects;
+    assertEqual(changed.technologies, { added: ["PostgreSQL"], removed: ["Kafka"] }, "Technology changes should be listed");
+    assertEqual([changed.urlBefore, changed.urlAfter], ["github.com/jrivera/ledger-replay", "ledger-replay.dev"], "Link change should be kept");
+    assertEqual(changed.bullets.map((bullet) => bullet.kind), ["changed"], "Reworded bullet should be a rewrite");
+    assertEqual(added.technologies, { added: ["Redis"], removed: [] }, "New project's technologies are all added");
+    assertEqual(added.bullets, [{ kind: "added", text: "Shared token buckets across API nodes." }], "New project's bullets are added");
+    assertEqual(removed.bullets.map((bullet) => bullet.kind), ["removed"], "Dropped project's bullets are removed");
+
+    const reordered = diffResumeVersions(before, resume({ projects: [...(before.projects || [])].reverse() }));
+    assert(!reordered.hasChanges, "Reordering projects alone is not a change");
+
+    const none = diffResumeVersions(before, resume({ projects: undefined }));
+    assertEqual(none.projects.map((entry) => entry.kind), ["removed", "removed"], "Dropping the section removes every project");
+
+    console.log("✓ Test 2 passed\n");
+    return true;
+  } catch (error) {
+    console.error("✗ Test 2 failed:", (error as Error).message);
+    return false;
+  }
+}
+
+// Test 3: Education is matched by school, with degree and date changes
+async function testEducation() {
+  console.log("Test 3: Education");
+
+  try {
+    const before = resume();
+    const after = resume({
+      education: [
+        { school: "University of Texas at Austin", degree: "M.S. Computer Science", dates: "2016 – 2018" },
+        { school: "Georgia Tech", degree: "Graduate Certificate", dates: "2021" },
+      ],
+    });
+
+    const diff = diffResumeVersions(before, after);
+    assert(diff.hasChanges, "Education changes should count as changes");
+    assertEqual(
+      diff.education,
+      [
+        {
+          kind: "changed",
+          school: "University of Texas at Austin",
+          degreeBefore: "B.S. Computer Science",
+          degreeAfter: "M.S. Computer Science",
+          datesBefore: "2012 – 2016",
+          datesAfter: "2016 – 2018",
+        },
+        { kind: "added", school: "Georgia Tech", degreeAfter: "Graduate Certificate", datesAfter: "2021" },
+        { kind: "removed", school: "Austin Community College", degreeBefore: "A.S. Mathematics", datesBefore: "2010 – 2012" },
+      ],
+      "Schools should be matched, added and removed"
+    );
+
+    const restyled = resume({
+      education: [
+        { school: "University of Texas at Austin", degree: "b.s. computer science", dates: "2012 - 2016" },
+        ...(before.education || []).slice(1),
+      ],
+    });
+    assertEqual(
+      diffResumeVersions(before, restyled).education.map((entry) => entry.kind),
+      ["same", "same"],
+      "Case and dash differences are not a change"
+    );
+
+    console.log("✓ Test 3 passed\n");
+    return true;
+  } catch (error) {
+    console.error("✗ Test 3 failed:", (error as Error).message);
+    return false;
+  }
+}
+
+export async function runAllTests() {
+  console.log("=== Starting Resume Diff Tests ===\n");
+
+  const tests = [testUnchanged, testProjects, testEducation];
+
+  let passed = 0;
+  let failed = 0;
+
+  for (const test of tests) {
+    try {
+      if (await test()) {
+        passed++;
+      } else {
+        failed++;
+      }
+    } catch (error) {
+      console.error(`Unexpected error in ${test.name}:`, error);
+      failed++;
+    }
+  }
+
+  console.log("=== Test Results ===");
+  console.log(`Passed: ${passed}/${tests.length}`);
+  console.log(`Failed: ${failed}/${tests.length}`);
+
+  if (failed === 0) {
+    console.log("\n✓ All tests passed!");
+  } else {
+    console.log(`\n✗ ${failed} test(s) failed`);
+  }
+
+  return failed === 0;
+}
+
+runAllTests().then((success) => process.exit(success ? 0 : 1));
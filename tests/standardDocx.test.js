@@ -0,0 +1,213 @@
+/**
+ * Standard DOCX Tests
+ * Renders the standard fixture resume in every theme and checks the section
+ * order, the page size and margins, and where role dates are placed
+ */
+
+const path = require('path');
+const JSZip = require('jszip');
+
+const { renderStandardDocx } = require('../server/standardDocx');
+const { PAGE_SIZE, THEMES } = require('../server/resumeThemes');
+
+// eslint-disable-next-line no-undef
+const FIXTURES = path.join(__dirname, 'fixtures');
+const SECTION_TITLES = ['Summary', 'Experience', 'Projects', 'Skills', 'Education', 'Certifications'];
+
+// Test utilities
+function assert(condition, message) {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+function assertEqual(actual, expected, message) {
+  if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+    throw new Error(`Assertion failed: ${message}\nExpected: ${JSON.stringify(expected)}\nActual: ${JSON.stringify(actual)}`);
+  }
+}
+
+function fixture(name) {
+  const resume = JSON.parse(JSON.stringify(require(path.join(FIXTURES, name))));
+  resume.projects = [
+    {
+      title: 'Ledger Replay',
+      technologies: ['Go', 'Kafka'],
+      bullets: ['Rebuilt account balances from the event log in under an hour.'],
+    },
+  ];
+  return resume;
+}
+
+const twips = (points) => Math.round(points * 20);
+
+function unescapeXml(text) {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+/** Every body paragraph as { style, text, rightTabs, tabbedText } */
+function readParagraphs(xml) {
+  return [...xml.matchAll(/<w:p>([^]*?)<\/w:p>/g)].map(([, body]) => {
+    const style = body.match(/<w:pStyle w:val="([^"]+)"\/>/);
+    const texts = (runs) => [...runs.matchAll(/<w:t[^>]*>([^<]*)<\/w:t>/g)].map((match) => unescapeXml(match[1])).join('');
+    const tab = body.indexOf('<w:tab/>');
+    return {
+      style: style ? style[1] : null,
+      text: texts(body),
+      rightTabs: [...body.matchAll(/<w:tab w:val="right" w:pos="(\d+)"\/>/g)].map((match) => Number(match[1])),
+      tabbedText: tab === -1 ? null : texts(body.slice(tab)),
+    };
+  });
+}
+
+async function render(resume, themeId) {
+  const zip = await JSZip.loadAsync(await renderStandardDocx(resume, themeId));
+  return zip.file('word/document.xml').async('string');
+}
+
+// Test 1: Section headings follow each theme's order and casing
+async function testSectionOrder() {
+  console.log('Test 1: Section order');
+
+  try {
+    for (const theme of Object.values(THEMES)) {
+      const headings = readParagraphs(await render(fixture('resume-standard.json'), theme.id))
+        .filter((paragraph) => paragraph.style === 'Heading2')
+        .map((paragraph) => paragraph.text);
+
+      const expected = theme.sectionOrder
+        .map((section) => SECTION_TITLES.find((title) => title.toLowerCase() === section))
+        .map((title) => (theme.headingCase === 'upper' ? title.toUpperCase() : title));
+      assertEqual(headings, expected, `${theme.id}: headings should follow the theme's section order`);
+    }
+
+    const paragraphs = readParagraphs(await render(fixture('resume-standard.json'), 'classic'));
+    assertEqual(paragraphs[0], { style: 'Heading1', text: 'Jordan Rivera', rightTabs: [], tabbedText: null }, 'Name comes first as Heading 1');
+
+    console.log('✓ Test 1 passed\n');
+    return true;
+  } catch (error) {
+    console.error('✗ Test 1 failed:', error.message);
+    return false;
+  }
+}
+
+// Test 2: Pages are A4 with the theme's margins on every side
+async function testPageSetup() {
+  console.log('Test 2: Page size and margins');
+
+  try {
+    for (const theme of Object.values(THEMES)) {
+      const xml = await render(fixture('resume-standard.json'), theme.id);
+      const size = xml.match(/<w:pgSz w:w="(\d+)" w:h="(\d+)"/);
+      assert(size, `${theme.id}: section should set a page size`);
+      assertEqual([Number(size[1]), Number(size[2])], [11906, 16838], `${theme.id}: page should be A4`);
+      assertEqual([twips(PAGE_SIZE.width), twips(PAGE_SIZE.height)], [11906, 16838], 'Shared page size should be A4');
+
+      const margin = xml.match(/<w:pgMar w:top="(\d+)" w:right="(\d+)" w:bottom="(\d+)" w:left="(\d+)"/);
+      assert(margin, `${theme.id}: section should set page margins`);
+      assertEqual(margin.slice(1).map(Number), Array(4).fill(twips(theme.margin)), `${theme.id}: margins should match the theme`);
+    }
+
+    console.log('✓ Test 2 passed\n');
+    return true;
+  } catch (error) {
+    console.error('✗ Test 2 failed:', error.message);
+    return false;
+  }
+}
+
+// Test 3: Right-aligned dates sit on a tab stop at the right margin
+async function testDateTabStops() {
+  console.log('Test 3: Date tab stops');
+
+  try {
+    const resume = fixture('resume-standard.json');
+    const dated = [
+      ...resume.experience.map((exp) => ({ primary: exp.title, dates: exp.dates })),
+      ...resume.education.map((edu) => ({ primary: edu.school, dates: edu.dates })),
+    ];
+
+    for (const theme of Object.values(THEMES)) {
+      const paragraphs = readParagraphs(await render(resume, theme.id));
+
+      for (const { primary, dates } of dated) {
+        const index = paragraphs.findIndex((paragraph) => paragraph.text.startsWith(primary));
+        assert(index !== -1, `${theme.id}: "${primary}" should be rendered`);
+        const row = paragraphs[index];
+
+        if (theme.dateAlignment === 'right') {
+          assertEqual(row.rightTabs, [twips(PAGE_SIZE.width) - twips(theme.margin) * 2], `${theme.id}: "${primary}" should have a right tab stop at the margin`);
+          assertEqual(row.tabbedText, dates, `${theme.id}: dates should follow the tab on the "${primary}" line`);
+        } else {
+          assertEqual(row.rightTabs, [], `${theme.id}: "${primary}" should have no tab stop`);
+          assert(!row.text.includes(dates), `${theme.id}: dates should not be on the "${primary}" line`);
+          assert(paragraphs.some((paragraph, other) => other > index && paragraph.text === dates), `${theme.id}: dates should get their own line`);
+        }
+      }
+
+      const project = paragraphs.find((paragraph) => paragraph.text.startsWith('Ledger Replay'));
+      assertEqual(project.rightTabs, [], `${theme.id}: undated projects should have no tab stop`);
+    }
+
+    console.log('✓ Test 3 passed\n');
+    return true;
+  } catch (error) {
+    console.error('✗ Test 3 failed:', error.message);
+    return false;
+  }
+}
+
+async function runAllTests() {
+  console.log('=== Starting Standard DOCX Tests ===\n');
+
+  const tests = [testSectionOrder, testPageSetup, testDateTabStops];
+
+  let passed = 0;
+  let failed = 0;
+
+  for (const test of tests) {
+    try {
+      if (await test()) {
+        passed++;
+      } else {
+        failed++;
+      }
+    } catch (error) {
+      console.error(`Unexpected error in ${test.name}:`, error);
+      failed++;
+    }
+  }
+
+  console.log('=== Test Results ===');
+  console.log(`Passed: ${passed}/${tests.length}`);
+  console.log(`Failed: ${failed}/${tests.length}`);
+
+  if (failed === 0) {
+    console.log('\n✓ All tests passed!');
+  } else {
+    console.log(`\n✗ ${failed} test(s) failed`);
+  }
+
+  return failed === 0;
+}
+
+// Export for use in other test runners
+if (typeof module !== 'undefined' && module.exports) {
+  module.exports = {
+    runAllTests,
+    testSectionOrder,
+    testPageSetup,
+    testDateTabStops,
+  };
+}
+
+// Run tests if this file is executed directly
+if (require.main === module) {
+  runAllTests().then((success) => process.exit(success ? 0 : 1));
+}
@@ -0,0 +1,196 @@
+/**
+ * Template Fingerprint Tests
+ * Fingerprints fixture DOCX templates and checks the per-entry records come
+ * from the paragraph and numbering structure
+ */
+
+const fs = require('fs');
+const path = require('path');
+const JSZip = require('jszip');
+
+const { fingerprintTemplateDocx } = require('../server/templateFingerprint');
+
+// eslint-disable-next-line no-undef
+const FIXTURES = path.join(__dirname, 'fixtures');
+
+// Test utilities
+function assert(condition, message) {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+function assertEqual(actual, expected, message) {
+  if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+    throw new Error(`Assertion failed: ${message}\nExpected: ${JSON.stringify(expected)}\nActual: ${JSON.stringify(actual)}`);
+  }
+}
+
+function readFixture(fixture) {
+  return fs.readFileSync(path.join(FIXTURES, fixture));
+}
+
+async function withDocumentXml(fixture, edit) {
+  const zip = await JSZip.loadAsync(readFixture(fixture));
+  const xml = await zip.file('word/document.xml').async('string');
+  zip.file('word/document.xml', edit(xml));
+  return zip.generateAsync({ type: 'nodebuffer' });
+}
+
+// Test 1: One record per real entry with its own bullet budgets
+async function testPerEntryRecords() {
+  console.log('Test 1: Per-entry records from structure');
+
+  try {
+    const fingerprint = await fingerprintTemplateDocx(readFixture('template-basic.docx'));
+
+    assertEqual(fingerprint.sectionOrder, ['summary', 'experience', 'skills', 'education'], 'Should read true section order');
+    assert(fingerprint.hasSummary, 'Should detect the summary heading');
+    assertEqual(fingerprint.experience.length, 2, 'Should find two entries');
+
+    const [acme, globex] = fingerprint.experience;
+    assertEqual([acme.title, acme.company, acme.dates], ['Senior Software Engineer', 'Acme Payments', 'Jan 2020 – Present'], 'First entry header');
+    assertEqual(acme.bulletCount, 3, 'First entry has three numbered bullets');
+    assertEqual(acme.bulletFormat, 'bullet', 'Numbered bullets come from numbering.xml');
+    assertEqual([globex.title, globex.company], ['Software Engineer', 'Globex'], 'Company-first header resolved by keywords');
+    assertEqual(globex.bulletCount, 2, 'Second entry has two glyph bullets');
+    assertEqual(globex.bulletFormat, 'glyph', 'Typed bullet characters are reported as glyph');
+    assertEqual(globex.bulletCharBudgets, [33, 41], 'Budgets are each original bullet without its glyph');
+    assertEqual(fingerprint.source, 'structure', 'Should mark structural fingerprints');
+    assertEqual(fingerprint.page.margins.top, 36, 'Page margins read from sectPr in points');
+
+    console.log('✓ Test 1 passed\n');
+    return true;
+  } catch (error) {
+    console.error('✗ Test 1 failed:', error.message);
+    return false;
+  }
+}
+
+// Test 2: Table rows are entries and known roles pick the company
+async function testTableAndKnownRoles() {
+  console.log('Test 2: Table entries and known roles');
+
+  try {
+    const fingerprint = await fingerprintTemplateDocx(readFixture('template-table.docx'), [
+      { title: 'Data Analyst', company: 'Initech' },
+    ]);
+
+    assertEqual(fingerprint.experience.length, 1, 'Dates cell should stay with its row');
+    const [entry] = fingerprint.experience;
+    assert(entry.inTable, 'Entry should be marked as in a table');
+    assertEqual([entry.title, entry.company, entry.dates], ['Data Analyst', 'Initech', '2019 – 2022'], 'Header from the row');
+    assertEqual(entry.bulletCount, 2, 'Row bullets counted');
+    assertEqual(fingerprint.hasSummary, false, 'No summary heading in this template');
+
+    console.log('✓ Test 2 passed\n');
+    return true;
+  } catch (error) {
+    console.error('✗ Test 2 failed:', error.message);
+    return false;
+  }
+}
+
+// Test 3: List formats come from numbering.xml and numId 0 switches numbering off
+async function testNumberingStructure() {
+  console.log('Test 3: Numbering structure');
+
+  try {
+    const zip = await JSZip.loadAsync(readFixture('template-basic.docx'));
+    const numbering = await zip.file('word/numbering.xml').async('string');
+    zip.file('word/numbering.xml', numbering.replace('w:val="bullet"', 'w:val="decimal"'));
+    const decimal = await fingerprintTemplateDocx(await zip.generateAsync({ type: 'nodebuffer' }));
+    assertEqual(decimal.experience[0].bulletFormat, 'decimal', 'Format should follow the numbering definition');
+
+    const buffer = await withDocumentXml('template-basic.docx', (xml) =>
+      xml.split('<w:numId w:val="1"/>').join('<w:numId w:val="0"/>')
+    );
+    const disabled = await fingerprintTemplateDocx(buffer);
+    assertEqual(disabled.experience.length, 1, 'Without bullets between them the header lines form one entry');
+    assertEqual(disabled.experience[0].bulletCount, 2, 'Only the glyph bullets still count');
+
+    console.log('✓ Test 3 passed\n');
+    return true;
+  } catch (error) {
+    console.error('✗ Test 3 failed:', error.message);
+    return false;
+  }
+}
+
+// Test 4: Templates without an experience section are rejected
+async function testRejectsTemplateWithoutExperience() {
+  console.log('Test 4: Reject template without experience section');
+
+  try {
+    const buffer = await withDocumentXml('template-basic.docx', (xml) => xml.replace('>Experience<', '>Highlights<'));
+
+    try {
+      await fingerprintTemplateDocx(buffer);
+      console.error('✗ Test 4 failed: Should throw for missing experience section');
+      return false;
+    } catch (error) {
+      assert(/experience section/.test(error.message), 'Should explain what is missing');
+    }
+
+    console.log('✓ Test 4 passed\n');
+    return true;
+  } catch (error) {
+    console.error('✗ Test 4 failed:', error.message);
+    return false;
+  }
+}
+
+async function runAllTests() {
+  console.log('=== Starting Template Fingerprint Tests ===\n');
+
+  const tests = [
+    testPerEntryRecords,
+    testTableAndKnownRoles,
+    testNumberingStructure,
+    testRejectsTemplateWithoutExperience,
+  ];
+
+  let passed = 0;
+  let failed = 0;
+
+  for (const test of tests) {
+    try {
+      if (await test()) {
+        passed++;
+      } else {
+        failed++;
+      }
+    } catch (error) {
+      console.error(`Unexpected error in ${test.name}:`, error);
+      failed++;
+    }
+  }
+
+  console.log('=== Test Results ===');
+  console.log(`Passed: ${passed}/${tests.length}`);
+  console.log(`Failed: ${failed}/${tests.length}`);
+
+  if (failed === 0) {
+    console.log('\n✓ All tests passed!');
+  } else {
+    console.log(`\n✗ ${failed} test(s) failed`);
+  }
+
+  return failed === 0;
+}
+
+// Export for use in other test runners
+if (typeof module !== 'undefined' && module.exports) {
+  module.exports = {
+    runAllTests,
+    testPerEntryRecords,
+    testTableAndKnownRoles,
+    testNumberingStructure,
+    testRejectsTemplateWithoutExperience,
+  };
+}
+
+// Run tests if this file is executed directly
+if (require.main === module) {
+  runAllTests().then((success) => process.exit(success ? 0 : 1));
+}
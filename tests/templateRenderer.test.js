@@ -0,0 +1,294 @@
+/**
+ * Template Renderer Tests
+ * Renders tailored content into fixture DOCX templates and checks that the
+ * text changed while the original formatting stayed in place
+ */
+
+const fs = require('fs');
+const path = require('path');
+const JSZip = require('jszip');
+const mammoth = require('mammoth');
+
+const { renderTemplateDocx } = require('../server/templateRenderer');
+
+// eslint-disable-next-line no-undef
+const FIXTURES = path.join(__dirname, 'fixtures');
+
+// Test utilities
+function assert(condition, message) {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+function assertEqual(actual, expected, message) {
+  if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+    throw new Error(`Assertion failed: ${message}\nExpected: ${JSON.stringify(expected)}\nActual: ${JSON.stringify(actual)}`);
+  }
+}
+
+function count(haystack, needle) {
+  return haystack.split(needle).length - 1;
+}
+
+async function render(fixture, resumeJson) {
+  const template = fs.readFileSync(path.join(FIXTURES, fixture));
+  const { buffer, report } = await renderTemplateDocx(template, resumeJson);
+  const zip = await JSZip.loadAsync(buffer);
+  const xml = await zip.file('word/document.xml').async('string');
+  const { value: text } = await mammoth.extractRawText({ buffer });
+  return { xml, text, report };
+}
+
+const tailored = {
+  header: { name: 'Jordan Rivera', email: 'jordan@example.com' },
+  summary: 'Payments engineer focused on reliable ledgers and low-latency settlement.',
+  experience: [
+    {
+      title: 'Staff Software Engineer',
+      company: 'Acme Payments',
+      dates: 'Jan 2020 – Present',
+      bullets: [
+        'Re-architected the ledger service in Go, handling 3x peak volume.',
+        'Reduced settlement latency by 40% with batched writes.',
+        'Mentored four engineers through promotion.',
+        'Led PCI audit remediation across six services.',
+      ],
+    },
+    {
+      title: 'Software Engineer',
+      company: 'Globex',
+      dates: '2016 – 2019',
+      bullets: ['Built the billing API in Node.js serving 2M invoices a month.'],
+    },
+  ],
+  skills: { core: ['Go', 'SQL'], tools: ['Docker', 'Kubernetes'] },
+};
+
+// Test 1: Bullets are rewritten in place with the original run formatting
+async function testRewritesBulletsInPlace() {
+  console.log('Test 1: Rewrite bullets in place');
+
+  try {
+    const { xml, text, report } = await render('template-basic.docx', tailored);
+
+    assert(text.includes('Re-architected the ledger service in Go'), 'Should contain first tailored bullet');
+    assert(text.includes('Led PCI audit remediation'), 'Should add a fourth bullet by cloning');
+    assert(!text.includes('Owned on-call for the invoicing pipeline'), 'Should drop extra template bullets');
+    assert(text.includes('• Built the billing API in Node.js serving 2M invoices'), 'Should keep literal bullet prefix');
+    assertEqual(count(xml, '<w:numId w:val="1"/>'), 4, 'Numbered bullets should keep their numbering');
+    assertEqual(report.experienceEntries, 2, 'Should report two entries');
+
+    console.log('✓ Test 1 passed\n');
+    return true;
+  } catch (error) {
+    console.error('✗ Test 1 failed:', error.message);
+    return false;
+  }
+}
+
+// Test 2: Headers, fonts and untouched sections survive
+async function testPreservesFormattingAndSections() {
+  console.log('Test 2: Preserve formatting and section order');
+
+  try {
+    const { xml, text, report } = await render('template-basic.docx', tailored);
+
+    assert(text.includes('Staff Software Engineer | Acme Payments\tJan 2020 – Present'), 'Should replace title only');
+    assert(/<w:b\/>[^]*?Staff Software Engineer/.test(xml), 'Title should keep its bold run');
+    assert(xml.includes('<w:i/><w:sz w:val="21"/></w:rPr><w:t xml:space="preserve">Acme Payments'), 'Company run keeps italics');
+    assert(!xml.includes('Arial'), 'Should not introduce new fonts');
+    assert(count(xml, 'w:ascii="Garamond"') >= 15, 'Runs should keep the Garamond font');
+    assert(text.includes('University of Texas'), 'Education should be untouched');
+    assert(text.includes('Payments engineer focused on reliable ledgers'), 'Summary should be replaced');
+    assert(text.includes('Languages: Go, SQL') && text.includes('Tools: Docker, Kubernetes'), 'Labeled skills replaced');
+    assertEqual(report.sectionOrder, ['summary', 'experience', 'skills', 'education'], 'Section order unchanged');
+    assert(xml.includes('<w:pgMar w:top="720"'), 'Page margins should be untouched');
+
+    console.log('✓ Test 2 passed\n');
+    return true;
+  } catch (error) {
+    console.error('✗ Test 2 failed:', error.message);
+    return false;
+  }
+}
+
+// Test 3: Table layouts clone whole rows for extra entries
+async function testTableTemplate() {
+  console.log('Test 3: Table-based template');
+
+  try {
+    const { xml, text } = await render('template-table.docx', {
+      header: { name: 'Sam Lee' },
+      experience: [
+        { title: 'Senior Data Analyst', company: 'Initech', dates: '2019 – 2022', bullets: ['Owned revenue forecasting.'] },
+        { title: 'Analyst', company: 'Hooli', dates: '2017 – 2019', bullets: ['Cleaned CRM data.', 'Built cohort reports.'] },
+      ],
+    });
+
+    assertEqual(count(xml, '<w:tr>'), 2, 'Should clone the row for the second entry');
+    assertEqual(count(xml, '<w:tblBorders>'), 1, 'Table properties should be kept once');
+    assert(text.includes('Senior Data Analyst — Initech'), 'Should replace the first title');
+    assert(text.includes('Analyst — Hooli'), 'Should fill the cloned row');
+    assert(text.includes('2017 – 2019'), 'Dates cell should belong to its row');
+    assert(!text.includes('Automated reporting with Python'), 'Extra bullet should be removed');
+
+    console.log('✓ Test 3 passed\n');
+    return true;
+  } catch (error) {
+    console.error('✗ Test 3 failed:', error.message);
+    return false;
+  }
+}
+
+// Test 4: Templates without an experience section are rejected
+async function testRejectsTemplateWithoutExperience() {
+  console.log('Test 4: Reject template without experience section');
+
+  try {
+    const zip = await JSZip.loadAsync(fs.readFileSync(path.join(FIXTURES, 'template-basic.docx')));
+    const xml = await zip.file('word/document.xml').async('string');
+    zip.file('word/document.xml', xml.replace('>Experience<', '>Highlights<'));
+    const broken = await zip.generateAsync({ type: 'nodebuffer' });
+
+    try {
+      await renderTemplateDocx(broken, tailored);
+      console.error('✗ Test 4 failed: Should throw for missing experience section');
+      return false;
+    } catch (error) {
+      assert(/experience section/.test(error.message), 'Should explain what is missing');
+    }
+
+    console.log('✓ Test 4 passed\n');
+    return true;
+  } catch (error) {
+    console.error('✗ Test 4 failed:', error.message);
+    return false;
+  }
+}
+
+// Test 5: A projects section is filled like experience, or left alone
+async function testFillsProjectsSection() {
+  console.log('Test 5: Fill projects section');
+
+  try {
+    const zip = await JSZip.loadAsync(fs.readFileSync(path.join(FIXTURES, 'template-basic.docx')));
+    const xml = await zip.file('word/document.xml').async('string');
+    const run = (text, props = '') => `<w:r><w:rPr><w:rFonts w:ascii="Garamond" w:hAnsi="Garamond"/>${props}<w:sz w:val="21"/></w:rPr><w:t xml:space="preserve">${text}</w:t></w:r>`;
+    const projects =
+      `<w:p><w:pPr><w:pStyle w:val="Heading2"/></w:pPr>${run('Projects', '<w:b/>')}</w:p>` +
+      `<w:p>${run('Invoice Parser', '<w:b/>')}${run(' | ')}${run('Python, OCR', '<w:i/>')}</w:p>` +
+      `<w:p>${run('• Extracted line items from scanned invoices.')}</w:p>`;
+    zip.file('word/document.xml', xml.replace('<w:sectPr>', `${projects}<w:sectPr>`));
+    const template = await zip.generateAsync({ type: 'nodebuffer' });
+
+    const withProjects = {
+      ...tailored,
+      projects: [
+        { title: 'Ledger CLI', technologies: ['Go', 'Cobra'], bullets: ['Open-source double-entry ledger tool.'] },
+        { title: 'Rate Limiter', technologies: ['Redis'], bullets: ['Token bucket library used in production.'] },
+      ],
+    };
+    const { buffer, report } = await renderTemplateDocx(template, withProjects);
+    const { value: text } = await mammoth.extractRawText({ buffer });
+
+    assertEqual(report.projects, 2, 'Should report two projects');
+    assert(text.includes('Ledger CLI | Go, Cobra'), 'Should fill the project title and technologies');
+    assert(text.includes('• Token bucket library used in production.'), 'Should clone an entry for the second project');
+    assert(!text.includes('Invoice Parser'), 'Template project should be replaced');
+
+    const untouched = await renderTemplateDocx(template, tailored);
+    assertEqual(untouched.report.projects, 0, 'Without tailored projects the section is left alone');
+
+    console.log('✓ Test 5 passed\n');
+    return true;
+  } catch (error) {
+    console.error('✗ Test 5 failed:', error.message);
+    return false;
+  }
+}
+
+// Test 6: The name and contact lines come from the tailored header
+async function testRewritesHeader() {
+  console.log('Test 6: Rewrite header');
+
+  try {
+    const { text, report } = await render('template-basic.docx', {
+      ...tailored,
+      header: { name: 'Alex Morgan', location: 'Denver, CO', email: 'alex@example.com', links: ['github.com/amorgan'] },
+    });
+
+    assert(report.header, 'Should report the header as rewritten');
+    assert(text.startsWith('Alex Morgan'), 'Name line should hold the profile name');
+    assert(text.includes('Denver, CO · alex@example.com · github.com/amorgan'), 'Contact line should keep the template separator');
+    assert(!text.includes('Jordan Rivera') && !text.includes('jordan@example.com'), 'Template contact details should be gone');
+
+    const table = await render('template-table.docx', { header: { name: 'Casey Park' }, experience: tailored.experience });
+    assert(table.text.startsWith('Casey Park'), 'Name-only headers should be rewritten too');
+
+    console.log('✓ Test 6 passed\n');
+    return true;
+  } catch (error) {
+    console.error('✗ Test 6 failed:', error.message);
+    return false;
+  }
+}
+
+async function runAllTests() {
+  console.log('=== Starting Template Renderer Tests ===\n');
+
+  const tests = [
+    testRewritesBulletsInPlace,
+    testPreservesFormattingAndSections,
+    testTableTemplate,
+    testRejectsTemplateWithoutExperience,
+    testFillsProjectsSection,
+    testRewritesHeader,
+  ];
+
+  let passed = 0;
+  let failed = 0;
+
+  for (const test of tests) {
+    try {
+      if (await test()) {
+        passed++;
+      } else {
+        failed++;
+      }
+    } catch (error) {
+      console.error(`Unexpected error in ${test.name}:`, error);
+      failed++;
+    }
+  }
+
+  console.log('=== Test Results ===');
+  console.log(`Passed: ${passed}/${tests.length}`);
+  console.log(`Failed: ${failed}/${tests.length}`);
+
+  if (failed === 0) {
+    console.log('\n✓ All tests passed!');
+  } else {
+    console.log(`\n✗ ${failed} test(s) failed`);
+  }
+
+  return failed === 0;
+}
+
+// Export for use in other test runners
+if (typeof module !== 'undefined' && module.exports) {
+  module.exports = {
+    runAllTests,
+    testRewritesBulletsInPlace,
+    testPreservesFormattingAndSections,
+    testTableTemplate,
+    testRejectsTemplateWithoutExperience,
+    testFillsProjectsSection,
+    testRewritesHeader,
+  };
+}
+
+// Run tests if this file is executed directly
+if (require.main === module) {
+  runAllTests().then((success) => process.exit(success ? 0 : 1));
+}
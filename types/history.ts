@@ -1,13 +1,55 @@
-export interface JobRun {
+import type { CoverLetterJson, CoverLetterOptions } from "../lib/coverLetterGenerator";
+import type { GenerateResumeOptions, TailoredResumeJson } from "../lib/tailoredResumeGenerator";
+import type { FitScore, JobPosting, UserProfile } from "./profile";
+
+export type ApplicationStage =
+  | "saved"
+  | "applied"
+  | "screening"
+  | "interviewing"
+  | "offer"
+  | "rejected"
+  | "withdrawn";
+
+export interface ApplicationStageChange {
+  stage: ApplicationStage;
+  changedAt: string;
+  notes?: string;
+  /** The resume version sent with the application at this stage */
+  resumeVersionId?: string;
+}
+
+export interface JobRecord {
+  /** The posting id; resume versions and fit scores reference it as jobId */
   id: string;
-  jobId: string;
-  title: string;
-  company?: string;
+  /** Full structured extraction, so regenerating uses the same inputs */
+  posting: JobPosting;
   location?: string;
-  postingText: string;
+  source?: "pasted" | "url" | "file";
+  nonFitGaps?: string[];
+  /** Oldest first; the last entry is the current stage */
+  stageHistory?: ApplicationStageChange[];
   createdAt: string;
   updatedAt: string;
-  source?: "pasted" | "url" | "file";
+}
+
+export type ProfileSnapshot = Omit<UserProfile, "resumeAssets">;
+
+export interface ProfileRevision {
+  id: string;
+  experienceCount: number;
+  skillCount: number;
+  toolCount: number;
+  clarifyingAnswerCount: number;
+}
+
+export interface FitScoreRecord {
+  id: string;
+  jobId: string;
+  createdAt: string;
+  aiScore: FitScore;
+  localScore?: FitScore;
+  profileRevision: ProfileRevision;
 }
 
 export interface ResumeVersion {
@@ -16,6 +58,24 @@ export interface ResumeVersion {
   createdAt: string;
   notes?: string;
   resumeText: string;
+  resumeJson: TailoredResumeJson;
+  generationOptions?: GenerateResumeOptions;
+  profileSnapshot?: ProfileSnapshot;
+  migratedFromText?: boolean;
   formatResumeId?: string;
-  scoreSnapshot?: any;
+  scoreSnapshot?: FitScoreRecord;
+}
+
+export interface CoverLetterVersion {
+  id: string;
+  jobId: string;
+  createdAt: string;
+  notes?: string;
+  letterText: string;
+  letterJson: CoverLetterJson;
+  options: CoverLetterOptions;
+  /** The resume version the letter was written to accompany */
+  resumeVersionId?: string;
+  unsupportedClaims?: string[];
+  profileSnapshot?: ProfileSnapshot;
 }
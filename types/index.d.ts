@@ -4,6 +4,23 @@
  */
 
 // User Profile Types
+export interface YearMonth {
+  year: number;
+  month: number;
+}
+
+export type ProvenanceOrigin = 'resume_parse' | 'chat_clarification' | 'chat_tool' | 'manual_entry';
+
+export interface Provenance {
+  origin: ProvenanceOrigin;
+  recordedAt: string;
+  assetId?: string;
+  span?: { start: number; end: number };
+  excerpt?: string;
+  answerKey?: string;
+  toolName?: string;
+}
+
 export interface Experience {
   id: string;
   title: string;
@@ -11,14 +28,32 @@ export interface Experience {
   startDate: string;
   endDate?: string;
   current: boolean;
+  startMonth?: YearMonth;
+  endMonth?: YearMonth;
   description: string;
   achievements: string[];
+  provenance?: Provenance[];
 }
 
 export interface Skill {
   id: string;
   name: string;
   category: string;
+  provenance?: Provenance[];
+}
+
+export interface SkillAlias {
+  id: string;
+  alias: string;
+  canonical: string;
+}
+
+export interface ContactInfo {
+  name: string;
+  location: string;
+  phone: string;
+  email: string;
+  links: string[];
 }
 
 export interface Certification {
@@ -26,12 +61,24 @@ export interface Certification {
   name: string;
   issuer: string;
   date: string;
+  provenance?: Provenance[];
+}
+
+export interface Education {
+  id: string;
+  school: string;
+  degree: string;
+  field: string;
+  startDate: string;
+  endDate: string;
+  provenance?: Provenance[];
 }
 
 export interface Tool {
   id: string;
   name: string;
   category: string;
+  provenance?: Provenance[];
 }
 
 export interface Project {
@@ -40,6 +87,7 @@ export interface Project {
   description: string;
   technologies: string[];
   url?: string;
+  provenance?: Provenance[];
 }
 
 export interface ClarifyingAnswer {
@@ -50,12 +98,16 @@ export interface ClarifyingAnswer {
 }
 
 export interface UserProfile {
+  contact: ContactInfo;
   experience: Experience[];
   skills: Skill[];
   certifications: Certification[];
+  education: Education[];
   tools: Tool[];
+  skillAliases: SkillAlias[];
   projects: Project[];
   domainExperience: string[];
+  domainProvenance: Record<string, Provenance[]>;
   notes: string[];
   achievements: string[];
   responsibilities: string[];
@@ -79,6 +131,7 @@ export interface JobPosting {
   location?: string;
   salary?: string;
   timestamp: string;
+  rawText?: string;
 }
 
 // QA Types
@@ -154,12 +207,15 @@ export interface QuickReply {
 
 // Parser Types
 export interface ParsedResume {
+  contact: ContactInfo;
   experience: Omit<Experience, 'id'>[];
   skills: Omit<Skill, 'id'>[];
   certifications: Omit<Certification, 'id'>[];
+  education: Omit<Education, 'id'>[];
   tools: Omit<Tool, 'id'>[];
   projects: Omit<Project, 'id'>[];
   domainExperience: string[];
+  domainProvenance?: Record<string, Provenance[]>;
 }
 
 export interface ParsedJobPosting {
@@ -275,9 +331,15 @@ export type Required<T, K extends keyof T> = T & {
 
 // Export all types
 export type {
+  ProvenanceOrigin,
+  Provenance,
+  YearMonth,
   Experience,
   Skill,
   Certification,
+  ContactInfo,
+  SkillAlias,
+  Education,
   Tool,
   Project,
   ClarifyingAnswer,
@@ -1,12 +1,48 @@
+export interface ContactInfo {
+  name: string;
+  location: string;
+  phone: string;
+  email: string;
+  links: string[];
+}
+
+export interface YearMonth {
+  year: number;
+  month: number;
+}
+
+export type ProvenanceOrigin = "resume_parse" | "chat_clarification" | "chat_tool" | "manual_entry";
+
+/** Where one profile item came from. An item found again later gets another record. */
+export interface Provenance {
+  origin: ProvenanceOrigin;
+  recordedAt: string;
+  /** The ResumeAsset the item was parsed from, when the upload was saved as one */
+  assetId?: string;
+  /** Character offsets of the matched text in the parsed resume text */
+  span?: { start: number; end: number };
+  /** The resume line the match sits on, kept so evidence reads without the asset */
+  excerpt?: string;
+  /** clarifyingAnswers key of the answer that produced the item */
+  answerKey?: string;
+  /** Chat tool that stored the item */
+  toolName?: string;
+}
+
 export interface Experience {
   id: string;
   title: string;
   company: string;
+  /** As written on the resume or entered by the user */
   startDate: string;
   endDate?: string;
   current: boolean;
+  /** startDate and endDate read as year-month; unset when a date can't be read or the role is current */
+  startMonth?: YearMonth;
+  endMonth?: YearMonth;
   description: string;
   achievements: string[];
+  provenance?: Provenance[];
 }
 
 export interface Skill {
@@ -16,6 +52,14 @@ export interface Skill {
   proficiency?: number;
   source?: 'resume_parse' | 'chat_clarification' | 'manual_entry' | 'inferred';
   confirmedAt?: string;
+  provenance?: Provenance[];
+}
+
+/** A user's own name for a skill or tool, e.g. "TF" for Terraform */
+export interface SkillAlias {
+  id: string;
+  alias: string;
+  canonical: string;
 }
 
 export interface Certification {
@@ -23,6 +67,17 @@ export interface Certification {
   name: string;
   issuer: string;
   date: string;
+  provenance?: Provenance[];
+}
+
+export interface Education {
+  id: string;
+  school: string;
+  degree: string;
+  field: string;
+  startDate: string;
+  endDate: string;
+  provenance?: Provenance[];
 }
 
 export interface Tool {
@@ -32,6 +87,7 @@ export interface Tool {
   proficiency?: number;
   source?: 'resume_parse' | 'chat_clarification' | 'manual_entry' | 'inferred';
   confirmedAt?: string;
+  provenance?: Provenance[];
 }
 
 export interface Project {
@@ -40,6 +96,7 @@ export interface Project {
   description: string;
   technologies: string[];
   url?: string;
+  provenance?: Provenance[];
 }
 
 export interface ResumeAsset {
@@ -54,12 +111,17 @@ export interface ResumeAsset {
 }
 
 export interface UserProfile {
+  contact: ContactInfo;
   experience: Experience[];
   skills: Skill[];
   certifications: Certification[];
+  education: Education[];
   tools: Tool[];
+  skillAliases: SkillAlias[];
   projects: Project[];
   domainExperience: string[];
+  /** Provenance for each entry of domainExperience, keyed by the domain's normalizeText form */
+  domainProvenance: Record<string, Provenance[]>;
   notes: string[];
   achievements: string[];
   responsibilities: string[];
@@ -68,6 +130,7 @@ export interface UserProfile {
   preferences: Record<string, string>;
   resumeBullets: string[];
   resumeAssets: ResumeAsset[];
+  scoreWeights?: ScoreWeights;
 }
 
 export interface QAItem {
@@ -101,6 +164,31 @@ export interface JobPosting {
   seniority: string;
   domain: string;
   timestamp: string;
+  /** The posting exactly as the user pasted it */
+  rawText?: string;
+}
+
+export interface ScoreWeights {
+  experienceAlignment: number;
+  technicalSkillMatch: number;
+  domainRelevance: number;
+  stageCulturalFit: number;
+  impactPotential: number;
+}
+
+export type ScoreDimension = keyof ScoreWeights;
+
+export type GapCategory = "skill" | "tool" | "domain";
+
+export interface FitGap {
+  name: string;
+  requirement: "required" | "preferred";
+}
+
+export interface FitGaps {
+  missingSkills: FitGap[];
+  missingTools: FitGap[];
+  missingDomains: FitGap[];
 }
 
 export interface FitScore {
@@ -117,9 +205,6 @@ export interface FitScore {
     stageCulturalFit: string;
     impactPotential: string;
   };
-  gaps?: {
-    missingSkills: string[];
-    missingTools: string[];
-    missingDomains: string[];
-  };
+  gaps?: FitGaps;
+  weights?: ScoreWeights;
 }
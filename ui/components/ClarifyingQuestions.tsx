@@ -10,6 +10,7 @@ import {
 } from 'react-native';
 import { CheckCircle, Circle, HelpCircle, MessageSquare, X } from 'lucide-react-native';
 import { useUserProfile } from '../../contexts/UserProfileContext';
+import { createProvenance } from '../../lib/provenance';
 
 export interface ClarifyingQuestion {
   id: string;
@@ -88,6 +89,7 @@ export default function ClarifyingQuestions({
           proficiency: finalProficiency,
           source: 'chat_clarification',
           confirmedAt: new Date().toISOString(),
+          provenance: [createProvenance('chat_clarification', { answerKey: currentQuestion.topicKey })],
         });
       }
 
@@ -98,6 +100,7 @@ export default function ClarifyingQuestions({
           proficiency: finalProficiency,
           source: 'chat_clarification',
           confirmedAt: new Date().toISOString(),
+          provenance: [createProvenance('chat_clarification', { answerKey: currentQuestion.topicKey })],
         });
       }
 
@@ -0,0 +1,319 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Modal, ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { CheckCircle, Circle } from 'lucide-react-native';
+import { useUserProfile } from '../../contexts/UserProfileContext';
+import {
+  applyResumeIngestion,
+  defaultSelection,
+  planResumeIngestion,
+  type FieldChange,
+  type IngestionAction,
+  type IngestionEntity,
+  type IngestionProposal,
+} from '../../lib/resumeIngestion';
+import type { ResumeData } from '../../lib/resumeParser';
+import type { UserProfile } from '../../types/profile';
+
+interface ResumeImportReviewProps {
+  /** The parsed resume to review; the sheet is open while this is set */
+  parsed: ResumeData | null;
+  onApply: (updates: Partial<UserProfile>) => void | Promise<void>;
+  onCancel: () => void;
+}
+
+const SECTIONS: { entity: IngestionEntity; title: string }[] = [
+  { entity: 'contact', title: 'Contact' },
+  { entity: 'experience', title: 'Experience' },
+  { entity: 'skill', title: 'Skills' },
+  { entity: 'tool', title: 'Tools' },
+  { entity: 'certification', title: 'Certifications' },
+  { entity: 'education', title: 'Education' },
+  { entity: 'project', title: 'Projects' },
+  { entity: 'domain', title: 'Domains' },
+];
+
+const ACTION_LABELS: Record<IngestionAction, string> = {
+  add: 'Add',
+  update: 'Update',
+  merge: 'Merge',
+  skip: 'Skip',
+};
+
+const ACTION_COLORS: Record<IngestionAction, string> = {
+  add: '#10B981',
+  update: '#0066FF',
+  merge: '#8B5CF6',
+  skip: '#999999',
+};
+
+function ChangeText({ change }: { change: FieldChange }) {
+  if (change.added) {
+    return (
+      <Text style={styles.changeText}>
+        <Text style={styles.changeLabel}>{change.label}: </Text>
+        {change.added.map((item) => `+ ${item}`).join('\n')}
+      </Text>
+    );
+  }
+  return (
+    <Text style={styles.changeText}>
+      <Text style={styles.changeLabel}>{change.label}: </Text>
+      {change.before ? (
+        <>
+          <Text style={styles.changeBefore}>{change.before}</Text>
+          {' → '}
+        </>
+      ) : null}
+      {change.after}
+    </Text>
+  );
+}
+
+/**
+ * Sheet that lines a parsed resume up against the profile and writes only
+ * the additions and field changes the user leaves selected.
+ */
+export default function ResumeImportReview({ parsed, onApply, onCancel }: ResumeImportReviewProps) {
+  const { profile } = useUserProfile();
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [isApplying, setIsApplying] = useState(false);
+
+  const plan = useMemo(() => (parsed ? planResumeIngestion(profile, parsed) : null), [parsed, profile]);
+
+  useEffect(() => {
+    setSelected(plan ? defaultSelection(plan) : new Set());
+  }, [plan]);
+
+  if (!parsed || !plan) return null;
+
+  const counts = plan.proposals.reduce<Record<IngestionAction, number>>(
+    (acc, proposal) => ({ ...acc, [proposal.action]: acc[proposal.action] + 1 }),
+    { add: 0, update: 0, merge: 0, skip: 0 }
+  );
+
+  const chosenCount = plan.proposals.filter((proposal) => proposal.changes.some((change) => selected.has(change.id))).length;
+
+  const toggle = (ids: string[]) => {
+    setSelected((current) => {
+      const next = new Set(current);
+      const allOn = ids.every((id) => next.has(id));
+      ids.forEach((id) => (allOn ? next.delete(id) : next.add(id)));
+      return next;
+    });
+  };
+
+  const handleApply = async () => {
+    setIsApplying(true);
+    try {
+      await onApply(applyResumeIngestion(profile, plan, selected));
+    } catch (error) {
+      console.error('[ResumeImportReview] Apply failed:', error);
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const renderProposal = (proposal: IngestionProposal) => {
+    const ids = proposal.changes.map((change) => change.id);
+    const isOn = ids.some((id) => selected.has(id));
+    const isSkip = proposal.action === 'skip';
+
+    return (
+      <View key={proposal.id} style={[styles.proposalCard, isSkip && styles.proposalSkipped]}>
+        <TouchableOpacity style={styles.proposalHeader} onPress={() => toggle(ids)} disabled={isSkip}>
+          {isSkip ? null : isOn ? <CheckCircle size={20} color="#10B981" /> : <Circle size={20} color="#666666" />}
+          <Text style={[styles.actionBadge, { color: ACTION_COLORS[proposal.action] }]}>
+            {ACTION_LABELS[proposal.action]}
+          </Text>
+          <Text style={styles.proposalLabel} numberOfLines={2}>
+            {proposal.label}
+          </Text>
+        </TouchableOpacity>
+        <Text style={styles.proposalReason}>{proposal.reason}</Text>
+
+        {proposal.action === 'add' &&
+          proposal.changes.map((change) => <ChangeText key={change.id} change={change} />)}
+
+        {(proposal.action === 'update' || proposal.action === 'merge') &&
+          proposal.changes.map((change) => (
+            <TouchableOpacity key={change.id} style={styles.changeRow} onPress={() => toggle([change.id])}>
+              {selected.has(change.id) ? (
+                <CheckCircle size={16} color="#10B981" />
+              ) : (
+                <Circle size={16} color="#999999" />
+              )}
+              <View style={styles.changeBody}>
+                <ChangeText change={change} />
+              </View>
+            </TouchableOpacity>
+          ))}
+      </View>
+    );
+  };
+
+  return (
+    <Modal visible animationType="slide" presentationStyle="pageSheet" onRequestClose={onCancel}>
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <Text style={styles.title}>Review Resume Import</Text>
+          <Text style={styles.summary}>
+            {counts.add} new · {counts.update} updated · {counts.merge} to merge · {counts.skip} already in your profile
+          </Text>
+        </View>
+
+        <ScrollView style={styles.scroll} contentContainerStyle={styles.scrollContent}>
+          {SECTIONS.map(({ entity, title }) => {
+            const proposals = plan.proposals.filter((proposal) => proposal.entity === entity);
+            if (proposals.length === 0) return null;
+            return (
+              <View key={entity} style={styles.section}>
+                <Text style={styles.sectionTitle}>{title}</Text>
+                {proposals.map(renderProposal)}
+              </View>
+            );
+          })}
+        </ScrollView>
+
+        <View style={styles.footer}>
+          <TouchableOpacity style={styles.cancelButton} onPress={onCancel} disabled={isApplying}>
+            <Text style={styles.cancelButtonText}>Cancel</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.applyButton, (chosenCount === 0 || isApplying) && styles.applyButtonDisabled]}
+            onPress={handleApply}
+            disabled={chosenCount === 0 || isApplying}
+          >
+            <Text style={styles.applyButtonText}>
+              {isApplying ? 'Applying...' : `Apply ${chosenCount} item${chosenCount === 1 ? '' : 's'}`}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F8F9FA',
+  },
+  header: {
+    padding: 20,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#F0F0F0',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#1A1A1A',
+  },
+  summary: {
+    marginTop: 6,
+    fontSize: 13,
+    color: '#666666',
+  },
+  scroll: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 20,
+    gap: 20,
+  },
+  section: {
+    gap: 10,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1A1A1A',
+  },
+  proposalCard: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 14,
+    gap: 6,
+    borderWidth: 1,
+    borderColor: '#F0F0F0',
+  },
+  proposalSkipped: {
+    opacity: 0.6,
+  },
+  proposalHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  actionBadge: {
+    fontSize: 12,
+    fontWeight: '700',
+    textTransform: 'uppercase',
+  },
+  proposalLabel: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '500',
+    color: '#1A1A1A',
+  },
+  proposalReason: {
+    fontSize: 13,
+    color: '#666666',
+  },
+  changeRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 8,
+    paddingVertical: 4,
+  },
+  changeBody: {
+    flex: 1,
+  },
+  changeText: {
+    fontSize: 13,
+    color: '#1A1A1A',
+    lineHeight: 18,
+  },
+  changeLabel: {
+    fontWeight: '600',
+  },
+  changeBefore: {
+    color: '#999999',
+    textDecorationLine: 'line-through',
+  },
+  footer: {
+    flexDirection: 'row',
+    gap: 12,
+    padding: 20,
+    backgroundColor: '#FFFFFF',
+    borderTopWidth: 1,
+    borderTopColor: '#F0F0F0',
+  },
+  cancelButton: {
+    flex: 1,
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: 'center',
+    backgroundColor: '#F0F0F0',
+  },
+  cancelButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#666666',
+  },
+  applyButton: {
+    flex: 2,
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: 'center',
+    backgroundColor: '#0066FF',
+  },
+  applyButtonDisabled: {
+    opacity: 0.5,
+  },
+  applyButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+});